@@ -5,6 +5,28 @@ import Link from 'next/link';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { loginSchema, getZodErrors, type LoginFormData } from '@/lib/validations/auth';
 
+// Messages for /login?error=... from the single sign-on callback
+const SSO_ERRORS: Record<string, string> = {
+  access_denied: 'Single sign-on was cancelled.',
+  email_unverified: 'Your identity provider did not confirm your email address, so we could not sign you in.',
+  invalid_state: 'Your single sign-on attempt expired. Please try again.',
+  unknown_provider: 'That sign-in option is not available.',
+};
+
+interface SsoProvider {
+  id: string;
+  name: string;
+}
+
+function Spinner() {
+  return (
+    <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+    </svg>
+  );
+}
+
 function LoginForm() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -17,14 +39,38 @@ function LoginForm() {
     rememberMe: false,
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
+  // Second step for accounts with two-factor authentication
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [secondFactor, setSecondFactor] = useState('');
+  const [providers, setProviders] = useState<SsoProvider[]>([]);
 
-  // Check if user just registered
+  // Check if user just registered, or is back from single sign-on
   useEffect(() => {
     if (searchParams.get('registered') === 'true') {
       setSuccessMessage('Account created successfully! Please sign in.');
     }
+    if (searchParams.get('step') === 'two-factor') {
+      setTwoFactorStep(true);
+    }
+    const ssoError = searchParams.get('error');
+    if (ssoError) {
+      setErrors({ general: SSO_ERRORS[ssoError] || 'Single sign-on failed. Please try again.' });
+    }
   }, [searchParams]);
 
+  // Identity providers configured for single sign-on
+  useEffect(() => {
+    fetch('/api/auth/oauth')
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.success) setProviders(data.data);
+      })
+      .catch(() => {
+        // Password sign-in still works
+      });
+  }, []);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value, type, checked } = e.target;
     setFormData((prev) => ({
@@ -70,6 +116,11 @@ function LoginForm() {
 
       const data = await response.json();
 
+      if (response.ok && data.requiresTwoFactor) {
+        setTwoFactorStep(true);
+        return;
+      }
+
       if (!response.ok) {
         // Handle API errors
         if (data.errors) {
@@ -83,12 +134,7 @@ function LoginForm() {
         return;
       }
 
-      // Success! Store user data and redirect
-      // TODO: Integrate with proper auth state (NextAuth, context, etc.)
-      localStorage.setItem('user', JSON.stringify(data.data));
-
-      // Redirect to dashboard
-      router.push('/dashboard');
+      completeLogin(data.data);
 
     } catch (error) {
       console.error('Login error:', error);
@@ -98,6 +144,65 @@ function LoginForm() {
     }
   };
 
+  const completeLogin = (user: unknown) => {
+    // Success! Store user data and redirect
+    // TODO: Integrate with proper auth state (NextAuth, context, etc.)
+    localStorage.setItem('user', JSON.stringify(user));
+
+    // Redirect to dashboard
+    router.push('/dashboard');
+  };
+
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!secondFactor.trim()) {
+      setErrors({ code: useRecoveryCode ? 'Enter a recovery code' : 'Enter the 6-digit code from your authenticator app' });
+      return;
+    }
+
+    setIsLoading(true);
+    setErrors({});
+
+    try {
+      const response = await fetch('/api/auth/login/two-factor', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(useRecoveryCode ? { recoveryCode: secondFactor } : { code: secondFactor }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (data.restartLogin) {
+          // The password step timed out; start over
+          setTwoFactorStep(false);
+          setSecondFactor('');
+          setFormData((prev) => ({ ...prev, password: '' }));
+          setErrors({ general: data.message });
+        } else {
+          setErrors({ code: data.message || 'That code is not valid' });
+        }
+        return;
+      }
+
+      completeLogin(data.data);
+
+    } catch (error) {
+      console.error('Two-factor login error:', error);
+      setErrors({ general: 'An unexpected error occurred. Please try again.' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode((prev) => !prev);
+    setSecondFactor('');
+    setErrors({});
+  };
+
   return (
     <div className="w-full">
       <div className="text-center mb-8">
@@ -106,8 +211,14 @@ function LoginForm() {
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 16l-4-4m0 0l4-4m-4 4h14m-5 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h7a3 3 0 013 3v1" />
           </svg>
         </div>
-        <h1 className="text-2xl sm:text-3xl font-bold text-[var(--text-primary)] mb-2">Welcome back</h1>
-        <p className="text-sm sm:text-base text-[var(--text-secondary)]">Sign in to continue your coding journey</p>
+        <h1 className="text-2xl sm:text-3xl font-bold text-[var(--text-primary)] mb-2">
+          {twoFactorStep ? 'Two-factor authentication' : 'Welcome back'}
+        </h1>
+        <p className="text-sm sm:text-base text-[var(--text-secondary)]">
+          {twoFactorStep
+            ? (useRecoveryCode ? 'Enter one of your recovery codes' : 'Enter the 6-digit code from your authenticator app')
+            : 'Sign in to continue your coding journey'}
+        </p>
       </div>
 
       {/* Success message (from registration) */}
@@ -125,68 +236,132 @@ function LoginForm() {
       )}
 
       <div className="bg-[var(--bg-primary)]/80 backdrop-blur-xl rounded-2xl border border-[var(--border-light)] p-6 sm:p-8 shadow-xl">
-        <form onSubmit={handleSubmit} className="space-y-5">
-          <div>
-            <label className="block text-sm font-medium text-[var(--text-primary)] mb-2">Email Address</label>
-            <input
-              type="email"
-              name="email"
-              placeholder="you@example.com"
-              value={formData.email}
-              onChange={handleChange}
-              className={`w-full h-12 px-4 bg-[var(--bg-secondary)] border-2 ${errors.email ? 'border-[var(--color-error-500)]' : 'border-[var(--border-light)]'} rounded-lg text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] transition-all focus:outline-none focus:border-[var(--color-primary-500)]`}
-            />
-            {errors.email && <p className="mt-2 text-sm text-[var(--color-error-500)]">{errors.email}</p>}
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-[var(--text-primary)] mb-2">Password</label>
-            <div className="relative">
+        {twoFactorStep ? (
+          <form onSubmit={handleTwoFactorSubmit} className="space-y-5">
+            <div>
+              <label className="block text-sm font-medium text-[var(--text-primary)] mb-2">
+                {useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+              </label>
               <input
-                type={showPassword ? 'text' : 'password'}
-                name="password"
-                placeholder="Enter your password"
-                value={formData.password}
+                type="text"
+                name="code"
+                autoFocus
+                autoComplete="one-time-code"
+                inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                value={secondFactor}
+                onChange={(e) => {
+                  setSecondFactor(e.target.value);
+                  if (errors.code) setErrors({});
+                }}
+                className={`w-full h-12 px-4 bg-[var(--bg-secondary)] border-2 ${errors.code ? 'border-[var(--color-error-500)]' : 'border-[var(--border-light)]'} rounded-lg text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] tracking-widest transition-all focus:outline-none focus:border-[var(--color-primary-500)]`}
+              />
+              {errors.code && <p className="mt-2 text-sm text-[var(--color-error-500)]">{errors.code}</p>}
+            </div>
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full h-12 bg-[var(--color-primary-500)] hover:bg-[var(--color-primary-600)] disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-all flex items-center justify-center gap-2"
+            >
+              {isLoading ? (
+                <>
+                  <Spinner />
+                  Verifying...
+                </>
+              ) : (
+                'Verify'
+              )}
+            </button>
+
+            <button
+              type="button"
+              onClick={toggleRecoveryCode}
+              className="w-full text-sm text-[var(--color-primary-600)] hover:underline"
+            >
+              {useRecoveryCode ? 'Use your authenticator app instead' : 'Lost your device? Use a recovery code'}
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <div>
+              <label className="block text-sm font-medium text-[var(--text-primary)] mb-2">Email Address</label>
+              <input
+                type="email"
+                name="email"
+                placeholder="you@example.com"
+                value={formData.email}
                 onChange={handleChange}
-                className={`w-full h-12 px-4 pr-12 bg-[var(--bg-secondary)] border-2 ${errors.password ? 'border-[var(--color-error-500)]' : 'border-[var(--border-light)]'} rounded-lg text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] transition-all focus:outline-none focus:border-[var(--color-primary-500)]`}
+                className={`w-full h-12 px-4 bg-[var(--bg-secondary)] border-2 ${errors.email ? 'border-[var(--color-error-500)]' : 'border-[var(--border-light)]'} rounded-lg text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] transition-all focus:outline-none focus:border-[var(--color-primary-500)]`}
               />
-              <button
-                type="button"
-                onClick={() => setShowPassword(!showPassword)}
-                className="absolute right-4 top-1/2 -translate-y-1/2 text-[var(--text-tertiary)] hover:text-[var(--text-primary)]"
-              >
-                {showPassword ? '🙈' : '👁️'}
-              </button>
+              {errors.email && <p className="mt-2 text-sm text-[var(--color-error-500)]">{errors.email}</p>}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-[var(--text-primary)] mb-2">Password</label>
+              <div className="relative">
+                <input
+                  type={showPassword ? 'text' : 'password'}
+                  name="password"
+                  placeholder="Enter your password"
+                  value={formData.password}
+                  onChange={handleChange}
+                  className={`w-full h-12 px-4 pr-12 bg-[var(--bg-secondary)] border-2 ${errors.password ? 'border-[var(--color-error-500)]' : 'border-[var(--border-light)]'} rounded-lg text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] transition-all focus:outline-none focus:border-[var(--color-primary-500)]`}
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowPassword(!showPassword)}
+                  className="absolute right-4 top-1/2 -translate-y-1/2 text-[var(--text-tertiary)] hover:text-[var(--text-primary)]"
+                >
+                  {showPassword ? '🙈' : '👁️'}
+                </button>
+              </div>
+              {errors.password && <p className="mt-2 text-sm text-[var(--color-error-500)]">{errors.password}</p>}
             </div>
-            {errors.password && <p className="mt-2 text-sm text-[var(--color-error-500)]">{errors.password}</p>}
-          </div>
-
-          <div className="flex items-center justify-between">
-            <label className="flex items-center gap-2 cursor-pointer">
-              <input type="checkbox" name="rememberMe" checked={formData.rememberMe} onChange={handleChange} className="w-4 h-4 rounded" />
-              <span className="text-sm text-[var(--text-secondary)]">Remember me</span>
-            </label>
-            <Link href="/forgot-password" className="text-sm text-[var(--color-primary-600)] hover:underline">Forgot password?</Link>
-          </div>
-
-          <button
-            type="submit"
-            disabled={isLoading}
-            className="w-full h-12 bg-[var(--color-primary-500)] hover:bg-[var(--color-primary-600)] disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-all flex items-center justify-center gap-2"
-          >
-            {isLoading ? (
+
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" name="rememberMe" checked={formData.rememberMe} onChange={handleChange} className="w-4 h-4 rounded" />
+                <span className="text-sm text-[var(--text-secondary)]">Remember me</span>
+              </label>
+              <Link href="/forgot-password" className="text-sm text-[var(--color-primary-600)] hover:underline">Forgot password?</Link>
+            </div>
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full h-12 bg-[var(--color-primary-500)] hover:bg-[var(--color-primary-600)] disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-all flex items-center justify-center gap-2"
+            >
+              {isLoading ? (
+                <>
+                  <Spinner />
+                  Signing in...
+                </>
+              ) : (
+                'Sign in'
+              )}
+            </button>
+
+            {providers.length > 0 && (
               <>
-                <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-                Signing in...
+                <div className="flex items-center gap-3">
+                  <span className="h-px flex-1 bg-[var(--border-light)]" />
+                  <span className="text-xs uppercase text-[var(--text-tertiary)]">or</span>
+                  <span className="h-px flex-1 bg-[var(--border-light)]" />
+                </div>
+                {providers.map((provider) => (
+                  <a
+                    key={provider.id}
+                    href={`/api/auth/oauth/${provider.id}?returnTo=${encodeURIComponent(searchParams.get('redirect') || '/dashboard')}`}
+                    className="w-full h-12 border-2 border-[var(--border-light)] hover:border-[var(--color-primary-500)] text-[var(--text-primary)] font-semibold rounded-lg transition-all flex items-center justify-center"
+                  >
+                    Continue with {provider.name}
+                  </a>
+                ))}
               </>
-            ) : (
-              'Sign in'
             )}
-          </button>
-        </form>
+          </form>
+        )}
 
         <p className="mt-8 text-center text-sm text-[var(--text-secondary)]">
           Don&apos;t have an account?{' '}
@@ -0,0 +1,143 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+
+// What each unsubscribe link turns off
+const SCOPE_LABELS: Record<string, string> = {
+    answers: 'emails about new answers to your questions',
+    mentions: 'emails when someone mentions you',
+    digest: 'digest emails for the tags you follow',
+    all: 'all notification emails',
+};
+
+export default function UnsubscribePage() {
+    const searchParams = useSearchParams();
+    const token = searchParams.get('token');
+
+    const [status, setStatus] = useState<'loading' | 'confirm' | 'success' | 'error'>('loading');
+    const [scope, setScope] = useState('all');
+    const [message, setMessage] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    // Check the link first; unsubscribing waits for a click so link scanners can't trigger it
+    useEffect(() => {
+        const checkToken = async () => {
+            if (!token) {
+                setStatus('error');
+                setMessage('No unsubscribe token provided');
+                return;
+            }
+
+            try {
+                const response = await fetch(`/api/email/unsubscribe?token=${encodeURIComponent(token)}`);
+                const data = await response.json();
+
+                if (response.ok) {
+                    setScope(data.data.scope);
+                    setStatus('confirm');
+                } else {
+                    setStatus('error');
+                    setMessage(data.message || 'Invalid unsubscribe link');
+                }
+            } catch {
+                setStatus('error');
+                setMessage('An error occurred. Please try again.');
+            }
+        };
+
+        checkToken();
+    }, [token]);
+
+    const handleUnsubscribe = async () => {
+        if (!token) return;
+
+        setIsSubmitting(true);
+        try {
+            const response = await fetch(`/api/email/unsubscribe?token=${encodeURIComponent(token)}`, { method: 'POST' });
+            const data = await response.json();
+
+            if (response.ok) {
+                setStatus('success');
+            } else {
+                setStatus('error');
+                setMessage(data.message || 'Failed to unsubscribe');
+            }
+        } catch {
+            setStatus('error');
+            setMessage('An error occurred. Please try again.');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const label = SCOPE_LABELS[scope] ?? SCOPE_LABELS.all;
+
+    return (
+        <div className="w-full">
+            <div className="bg-[var(--bg-primary)]/80 backdrop-blur-xl rounded-2xl border border-[var(--border-light)] p-8 shadow-xl text-center">
+                {status === 'loading' && (
+                    <>
+                        <div className="w-20 h-20 mx-auto mb-6 rounded-full bg-[var(--bg-secondary)] flex items-center justify-center">
+                            <div className="animate-spin h-10 w-10 border-4 border-[var(--color-primary-500)] border-t-transparent rounded-full" />
+                        </div>
+                        <h1 className="text-2xl font-bold text-[var(--text-primary)] mb-3">Checking your link...</h1>
+                    </>
+                )}
+
+                {status === 'confirm' && (
+                    <>
+                        <h1 className="text-2xl font-bold text-[var(--text-primary)] mb-3">Unsubscribe?</h1>
+                        <p className="text-[var(--text-secondary)] mb-6">
+                            You will stop receiving {label}. You can turn them back on in your settings at any time.
+                        </p>
+                        <button
+                            onClick={handleUnsubscribe}
+                            disabled={isSubmitting}
+                            className="w-full h-12 bg-[var(--color-primary-500)] hover:bg-[var(--color-primary-600)] text-white font-semibold rounded-lg transition-all disabled:opacity-50"
+                        >
+                            {isSubmitting ? 'Unsubscribing...' : 'Unsubscribe'}
+                        </button>
+                    </>
+                )}
+
+                {status === 'success' && (
+                    <>
+                        <div className="w-20 h-20 mx-auto mb-6 rounded-full bg-gradient-to-br from-[var(--color-success-500)] to-[var(--color-success-600)] flex items-center justify-center">
+                            <svg className="w-10 h-10 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M5 13l4 4L19 7" />
+                            </svg>
+                        </div>
+                        <h1 className="text-2xl font-bold text-[var(--text-primary)] mb-3">You&apos;re unsubscribed</h1>
+                        <p className="text-[var(--text-secondary)] mb-6">We won&apos;t send you {label} any more.</p>
+                        <Link
+                            href="/dashboard/settings"
+                            className="inline-block h-12 px-8 bg-[var(--color-primary-500)] hover:bg-[var(--color-primary-600)] text-white font-semibold rounded-lg transition-all leading-[48px]"
+                        >
+                            Email Settings
+                        </Link>
+                    </>
+                )}
+
+                {status === 'error' && (
+                    <>
+                        <div className="w-20 h-20 mx-auto mb-6 rounded-full bg-gradient-to-br from-[var(--color-error-500)] to-[var(--color-error-600)] flex items-center justify-center">
+                            <svg className="w-10 h-10 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </div>
+                        <h1 className="text-2xl font-bold text-[var(--text-primary)] mb-3">Couldn&apos;t Unsubscribe</h1>
+                        <p className="text-[var(--text-secondary)] mb-6">{message}</p>
+                        <Link
+                            href="/dashboard/settings"
+                            className="block w-full h-12 bg-[var(--color-primary-500)] hover:bg-[var(--color-primary-600)] text-white font-semibold rounded-lg transition-all leading-[48px]"
+                        >
+                            Manage Email Settings
+                        </Link>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
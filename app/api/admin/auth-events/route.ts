@@ -0,0 +1,58 @@
+/**
+ * Auth Events API Route
+ * =====================
+ * GET /api/admin/auth-events - Search the sign-in security log (admin only)
+ *
+ * Query: user (id), email, ip, type, page, limit. Newest first.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/withAuth';
+import { listAuthEvents, AUTH_EVENT_PAGE_SIZE } from '@/lib/auth/authEvents';
+import { AUTH_EVENT_TYPES } from '@/lib/models';
+import type { AuthEventType } from '@/lib/models';
+
+const MAX_PAGE_SIZE = 100;
+
+export const GET = withAuth({ roles: ['admin'] }, async (request: NextRequest) => {
+    try {
+        const { searchParams } = new URL(request.url);
+
+        const type = searchParams.get('type');
+        if (type && !AUTH_EVENT_TYPES.includes(type as AuthEventType)) {
+            return NextResponse.json(
+                { success: false, message: `type must be one of: ${AUTH_EVENT_TYPES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+        const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('limit') || String(AUTH_EVENT_PAGE_SIZE)) || AUTH_EVENT_PAGE_SIZE));
+
+        const { entries, total } = await listAuthEvents({
+            userId: searchParams.get('user') || undefined,
+            email: searchParams.get('email') || undefined,
+            ip: searchParams.get('ip') || undefined,
+            type: (type as AuthEventType) || undefined,
+            page,
+            limit,
+        });
+
+        return NextResponse.json({
+            success: true,
+            data: entries,
+            pagination: {
+                page,
+                limit,
+                total,
+                pages: Math.ceil(total / limit),
+            },
+        });
+    } catch (error) {
+        console.error('Error fetching auth events:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+});
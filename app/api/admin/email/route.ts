@@ -0,0 +1,78 @@
+/**
+ * Email Templates API Route
+ * =========================
+ * GET  /api/admin/email?template= - Preview a template as HTML (admin only)
+ * POST /api/admin/email           - Send every template, with sample data, to
+ *                                   the admin's own address (admin only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/withAuth';
+import { sendEmail, renderSampleEmail, EMAIL_TEMPLATE_NAMES } from '@/lib/email';
+import type { EmailTemplateName } from '@/lib/email';
+
+// ============================================
+// GET - Preview Template
+// ============================================
+
+export const GET = withAuth({ roles: ['admin'] }, async (request: NextRequest) => {
+    try {
+        const template = new URL(request.url).searchParams.get('template');
+        if (!template) {
+            return NextResponse.json({ success: true, data: EMAIL_TEMPLATE_NAMES });
+        }
+
+        if (!EMAIL_TEMPLATE_NAMES.includes(template as EmailTemplateName)) {
+            return NextResponse.json(
+                { success: false, message: `Unknown template. Use one of: ${EMAIL_TEMPLATE_NAMES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const message = renderSampleEmail(template as EmailTemplateName);
+
+        return new Response(message.html, {
+            headers: { 'Content-Type': 'text/html; charset=utf-8' },
+        });
+    } catch (error) {
+        console.error('Error previewing email:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+});
+
+// ============================================
+// POST - Send Samples
+// ============================================
+
+export const POST = withAuth({ roles: ['admin'] }, async (_request, _context, admin) => {
+    try {
+        const failed: EmailTemplateName[] = [];
+        for (const name of EMAIL_TEMPLATE_NAMES) {
+            const message = renderSampleEmail(name);
+            if (!(await sendEmail({ to: admin.email, ...message, subject: `[Sample] ${message.subject}` }))) {
+                failed.push(name);
+            }
+        }
+
+        if (failed.length > 0) {
+            return NextResponse.json(
+                { success: false, message: `Failed to send: ${failed.join(', ')}` },
+                { status: 502 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: `Sent ${EMAIL_TEMPLATE_NAMES.length} sample emails to ${admin.email}`,
+        });
+    } catch (error) {
+        console.error('Error sending sample emails:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to send sample emails' },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,29 @@
+/**
+ * Post Stats Recount API Route
+ * ============================
+ * POST /api/admin/posts/recount - Rebuild denormalized scores, answer counts and activity dates (admin only)
+ */
+
+import { NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { withAuth } from '@/lib/auth/withAuth';
+import { recountPostStats } from '@/lib/posts';
+
+export const POST = withAuth({ roles: ['admin'] }, async () => {
+    try {
+        await dbConnect();
+
+        await recountPostStats();
+
+        return NextResponse.json({
+            success: true,
+            message: 'Recounted post stats',
+        });
+    } catch (error) {
+        console.error('Error recounting post stats:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to recount post stats' },
+            { status: 500 }
+        );
+    }
+});
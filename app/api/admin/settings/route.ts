@@ -0,0 +1,70 @@
+/**
+ * Site Settings API Route
+ * =======================
+ * GET   /api/admin/settings - Current site-wide security settings (admin only)
+ * PATCH /api/admin/settings - Choose which roles must use two-factor (admin only)
+ *
+ * Accounts in a newly required role are sent to two-factor setup the next
+ * time they sign in or their session refreshes.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/withAuth';
+import { getTwoFactorPolicy, setTwoFactorPolicy } from '@/lib/auth/twoFactor';
+import { siteSettingsSchema } from '@/lib/validations/settings';
+import { getZodErrors } from '@/lib/validations/auth';
+
+// ============================================
+// GET - Settings
+// ============================================
+
+export const GET = withAuth({ roles: ['admin'] }, async () => {
+    try {
+        const twoFactorRequiredRoles = await getTwoFactorPolicy();
+
+        return NextResponse.json({ success: true, data: { twoFactorRequiredRoles } });
+    } catch (error) {
+        console.error('Error fetching site settings:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+});
+
+// ============================================
+// PATCH - Update Settings
+// ============================================
+
+export const PATCH = withAuth({ roles: ['admin'] }, async (request: NextRequest, _context, admin) => {
+    try {
+        const body = await request.json().catch(() => null);
+        const parsed = siteSettingsSchema.safeParse(body);
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: parsed.error.issues[0]?.message || 'Invalid settings',
+                    errors: getZodErrors(siteSettingsSchema, body),
+                },
+                { status: 400 }
+            );
+        }
+
+        const roles = [...new Set(parsed.data.twoFactorRequiredRoles)];
+        const twoFactorRequiredRoles = await setTwoFactorPolicy(roles, admin.userId);
+
+        return NextResponse.json({
+            success: true,
+            message: 'Settings saved',
+            data: { twoFactorRequiredRoles },
+        });
+    } catch (error) {
+        console.error('Error updating site settings:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+});
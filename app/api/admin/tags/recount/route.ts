@@ -0,0 +1,30 @@
+/**
+ * Tag Recount API Route
+ * =====================
+ * POST /api/admin/tags/recount - Rebuild tag usage counts from questions (admin only)
+ */
+
+import { NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { withAuth } from '@/lib/auth/withAuth';
+import { recountTags } from '@/lib/tags';
+
+export const POST = withAuth({ roles: ['admin'] }, async () => {
+    try {
+        await dbConnect();
+
+        const tagCount = await recountTags();
+
+        return NextResponse.json({
+            success: true,
+            message: `Recounted ${tagCount} tags`,
+            data: { tags: tagCount },
+        });
+    } catch (error) {
+        console.error('Error recounting tags:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to recount tags' },
+            { status: 500 }
+        );
+    }
+});
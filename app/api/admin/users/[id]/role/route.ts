@@ -0,0 +1,126 @@
+/**
+ * User Role API Route
+ * ===================
+ * GET   /api/admin/users/[id]/role - Current role and role change history (admin only)
+ * PATCH /api/admin/users/[id]/role - Change a user's role, with a reason for the audit log (admin only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { withAuth } from '@/lib/auth/withAuth';
+import { getClientIp } from '@/lib/auth/clientIp';
+import { findPublicUser, changeRole, listRoleChanges, AUDIT_PAGE_SIZE } from '@/lib/users';
+import { roleChangeSchema } from '@/lib/validations/user';
+import { getZodErrors } from '@/lib/validations/auth';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+const MAX_PAGE_SIZE = 50;
+
+// ============================================
+// GET - Role History
+// ============================================
+
+export const GET = withAuth({ roles: ['admin'] }, async (request: NextRequest, { params }: RouteParams) => {
+    try {
+        const { id } = await params;
+
+        await dbConnect();
+
+        const user = await findPublicUser(id);
+        if (!user) {
+            return NextResponse.json(
+                { success: false, message: 'User not found' },
+                { status: 404 }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+        const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+        const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('limit') || String(AUDIT_PAGE_SIZE)) || AUDIT_PAGE_SIZE));
+
+        const { entries, total } = await listRoleChanges(id, { page, limit });
+
+        return NextResponse.json({
+            success: true,
+            data: { role: user.role, history: entries },
+            pagination: {
+                page,
+                limit,
+                total,
+                pages: Math.ceil(total / limit),
+            },
+        });
+    } catch (error) {
+        console.error('Error fetching role history:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+});
+
+// ============================================
+// PATCH - Change Role
+// ============================================
+
+export const PATCH = withAuth({ roles: ['admin'] }, async (request: NextRequest, { params }: RouteParams, admin) => {
+    try {
+        const { id } = await params;
+
+        // Another admin has to do it, so the last admin can't lock everyone out
+        if (id === admin.userId) {
+            return NextResponse.json(
+                { success: false, message: 'You cannot change your own role' },
+                { status: 400 }
+            );
+        }
+
+        const body = await request.json().catch(() => null);
+        const parsed = roleChangeSchema.safeParse(body);
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: parsed.error.issues[0]?.message || 'Invalid role change',
+                    errors: getZodErrors(roleChangeSchema, body),
+                },
+                { status: 400 }
+            );
+        }
+
+        await dbConnect();
+
+        const result = await changeRole({
+            targetId: id,
+            role: parsed.data.role,
+            actorId: admin.userId,
+            reason: parsed.data.reason,
+            ip: getClientIp(request.headers),
+        });
+
+        if (!result) {
+            return NextResponse.json(
+                { success: false, message: 'User not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: result.changed
+                ? `Role changed from ${result.previousRole} to ${result.user.role}`
+                : `User is already ${result.user.role}`,
+            data: { id: result.user.id, role: result.user.role, previousRole: result.previousRole },
+        });
+    } catch (error) {
+        console.error('Error changing role:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+});
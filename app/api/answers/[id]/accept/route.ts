@@ -0,0 +1,195 @@
+/**
+ * Accept Answer API Route
+ * =======================
+ * POST   /api/answers/[id]/accept - Accept an answer (question author only)
+ * DELETE /api/answers/[id]/accept - Unaccept an answer (question author only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { Question, Answer } from '@/lib/models';
+import type { IAnswerDocument, IQuestionDocument } from '@/lib/models';
+import { withAuth } from '@/lib/auth/withAuth';
+import { awardAcceptance, revokeAcceptance } from '@/lib/reputation';
+import { notifyAcceptedAnswer } from '@/lib/notifications';
+import { publishQuestionEvent } from '@/lib/realtime';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+type AcceptContext =
+    | { error: NextResponse }
+    | { answer: IAnswerDocument; question: IQuestionDocument };
+
+/**
+ * Load the answer and its question, checking the caller is the question author
+ */
+async function loadAcceptContext(answerId: string, userId: string): Promise<AcceptContext> {
+    await dbConnect();
+
+    const answer = await Answer.findById(answerId);
+    if (!answer || answer.isDeleted) {
+        return {
+            error: NextResponse.json(
+                { success: false, message: 'Answer not found' },
+                { status: 404 }
+            ),
+        };
+    }
+
+    const question = await Question.findById(answer.question);
+    if (!question || question.isDeleted) {
+        return {
+            error: NextResponse.json(
+                { success: false, message: 'Question not found' },
+                { status: 404 }
+            ),
+        };
+    }
+
+    if (question.author.toString() !== userId) {
+        return {
+            error: NextResponse.json(
+                { success: false, message: 'Only the question author can accept an answer' },
+                { status: 403 }
+            ),
+        };
+    }
+
+    return { answer, question };
+}
+
+// ============================================
+// POST - Accept Answer
+// ============================================
+
+export const POST = withAuth(async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id: answerId } = await params;
+
+        const context = await loadAcceptContext(answerId, user.userId);
+        if ('error' in context) return context.error;
+
+        const { answer, question } = context;
+        const questionAuthorId = question.author.toString();
+        const previousId = question.acceptedAnswer?.toString() || null;
+
+        if (previousId === answerId) {
+            return NextResponse.json({
+                success: true,
+                message: 'Answer is already accepted',
+                data: { acceptedAnswer: answerId },
+            });
+        }
+
+        // Swap the accepted answer only if nobody changed it in the meantime
+        const updated = await Question.findOneAndUpdate(
+            { _id: question._id, acceptedAnswer: previousId },
+            { $set: { acceptedAnswer: answer._id } },
+            { new: true }
+        );
+
+        if (!updated) {
+            return NextResponse.json(
+                { success: false, message: 'Accepted answer changed. Please refresh and try again.' },
+                { status: 409 }
+            );
+        }
+
+        // Unaccept the previously accepted answer
+        if (previousId) {
+            const previous = await Answer.findByIdAndUpdate(
+                previousId,
+                { $set: { isAccepted: false } },
+                { new: true }
+            );
+
+            if (previous) {
+                await revokeAcceptance({
+                    answerId: previousId,
+                    answerAuthorId: previous.author.toString(),
+                    questionAuthorId,
+                });
+            }
+        }
+
+        answer.isAccepted = true;
+        await answer.save();
+
+        await awardAcceptance({
+            answerId,
+            answerAuthorId: answer.author.toString(),
+            questionAuthorId,
+        });
+
+        await notifyAcceptedAnswer(question._id, answer._id, answer.author.toString(), questionAuthorId);
+
+        publishQuestionEvent(question._id, { type: 'accepted', acceptedAnswer: answerId });
+
+        return NextResponse.json({
+            success: true,
+            message: 'Answer accepted',
+            data: { acceptedAnswer: answerId },
+        });
+
+    } catch (error) {
+        console.error('Error accepting answer:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to accept answer' },
+            { status: 500 }
+        );
+    }
+});
+
+// ============================================
+// DELETE - Unaccept Answer
+// ============================================
+
+export const DELETE = withAuth(async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id: answerId } = await params;
+
+        const context = await loadAcceptContext(answerId, user.userId);
+        if ('error' in context) return context.error;
+
+        const { answer, question } = context;
+
+        const updated = await Question.findOneAndUpdate(
+            { _id: question._id, acceptedAnswer: answer._id },
+            { $unset: { acceptedAnswer: 1 } },
+            { new: true }
+        );
+
+        if (!updated) {
+            return NextResponse.json(
+                { success: false, message: 'This answer is not accepted' },
+                { status: 400 }
+            );
+        }
+
+        answer.isAccepted = false;
+        await answer.save();
+
+        await revokeAcceptance({
+            answerId,
+            answerAuthorId: answer.author.toString(),
+            questionAuthorId: question.author.toString(),
+        });
+
+        publishQuestionEvent(question._id, { type: 'accepted', acceptedAnswer: null });
+
+        return NextResponse.json({
+            success: true,
+            message: 'Answer unaccepted',
+            data: { acceptedAnswer: null },
+        });
+
+    } catch (error) {
+        console.error('Error unaccepting answer:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to unaccept answer' },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,52 @@
+/**
+ * Purge Answer API Route
+ * ======================
+ * DELETE /api/answers/[id]/purge - Permanently remove a deleted answer (admin only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { Answer } from '@/lib/models';
+import { withAuth } from '@/lib/auth/withAuth';
+import { purgeAnswer } from '@/lib/posts';
+
+export const DELETE = withAuth({ roles: ['admin'] }, async (
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) => {
+    try {
+        await dbConnect();
+
+        const { id: answerId } = await params;
+
+        const answer = await Answer.findById(answerId);
+        if (!answer) {
+            return NextResponse.json(
+                { success: false, message: 'Answer not found' },
+                { status: 404 }
+            );
+        }
+
+        // Purging is irreversible, so require the soft-delete step first
+        if (!answer.isDeleted) {
+            return NextResponse.json(
+                { success: false, message: 'Only deleted answers can be purged' },
+                { status: 400 }
+            );
+        }
+
+        await purgeAnswer(answer);
+
+        return NextResponse.json({
+            success: true,
+            message: 'Answer permanently deleted',
+        });
+
+    } catch (error) {
+        console.error('Error purging answer:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to purge answer' },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,44 @@
+/**
+ * Answer Revisions API Route
+ * ==========================
+ * GET /api/answers/[id]/revisions - Edit history of an answer, newest first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { Answer, Revision } from '@/lib/models';
+import { getCurrentUser } from '@/lib/auth/jwt';
+import { canViewDeletedPost } from '@/lib/posts';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        await dbConnect();
+
+        const { id: answerId } = await params;
+
+        const answer = await Answer.findById(answerId).select('author isDeleted');
+        if (!answer || (answer.isDeleted && !canViewDeletedPost(answer.author.toString(), await getCurrentUser()))) {
+            return NextResponse.json(
+                { success: false, message: 'Answer not found' },
+                { status: 404 }
+            );
+        }
+
+        const revisions = await Revision.findByPost('answer', answerId);
+
+        return NextResponse.json({
+            success: true,
+            data: revisions,
+        });
+
+    } catch (error) {
+        console.error('Error fetching answer revisions:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to fetch revisions' },
+            { status: 500 }
+        );
+    }
+}
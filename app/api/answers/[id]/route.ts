@@ -0,0 +1,149 @@
+/**
+ * Single Answer API Route
+ * =======================
+ * PATCH  /api/answers/[id] - Edit an answer (author or moderator)
+ * DELETE /api/answers/[id] - Soft-delete an answer (author or moderator)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { Answer } from '@/lib/models';
+import { withAuth } from '@/lib/auth/withAuth';
+import { isModerator } from '@/lib/auth/roles';
+import { applyEdit, REVISION_SUMMARY_MAX_LENGTH } from '@/lib/revisions';
+import { softDeleteAnswer } from '@/lib/posts';
+
+export const PATCH = withAuth(async (
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> },
+    user
+) => {
+    try {
+        await dbConnect();
+
+        const { id: answerId } = await params;
+
+        const answer = await Answer.findById(answerId);
+        if (!answer || answer.isDeleted) {
+            return NextResponse.json(
+                { success: false, message: 'Answer not found' },
+                { status: 404 }
+            );
+        }
+
+        if (answer.author.toString() !== user.userId && !isModerator(user.role)) {
+            return NextResponse.json(
+                { success: false, message: 'You can only edit your own answers' },
+                { status: 403 }
+            );
+        }
+
+        const { body, summary } = await request.json();
+
+        if (typeof body !== 'string' || body.replace(/<[^>]*>/g, '').trim().length < 30) {
+            return NextResponse.json(
+                { success: false, message: 'Answer must be at least 30 characters' },
+                { status: 400 }
+            );
+        }
+
+        if (summary !== undefined && (typeof summary !== 'string' || summary.length > REVISION_SUMMARY_MAX_LENGTH)) {
+            return NextResponse.json(
+                { success: false, message: `Edit summary cannot exceed ${REVISION_SUMMARY_MAX_LENGTH} characters` },
+                { status: 400 }
+            );
+        }
+
+        const result = await applyEdit({
+            postType: 'answer',
+            post: answer,
+            editorId: user.userId,
+            changes: { body },
+            summary,
+        });
+
+        if (result.status === 'unchanged') {
+            return NextResponse.json(
+                { success: false, message: 'No changes to save' },
+                { status: 400 }
+            );
+        }
+
+        if (result.status === 'conflict') {
+            return NextResponse.json(
+                { success: false, message: 'This answer was edited by someone else while you were editing. Reload it and try again.' },
+                { status: 409 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: 'Answer updated',
+            data: {
+                body: answer.body,
+                editedAt: answer.editedAt,
+                revision: result.revision.revision,
+            },
+        });
+
+    } catch (error) {
+        console.error('Error editing answer:', error);
+
+        if (error instanceof Error && error.name === 'ValidationError') {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: 'Failed to edit answer' },
+            { status: 500 }
+        );
+    }
+});
+
+export const DELETE = withAuth(async (
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> },
+    user
+) => {
+    try {
+        await dbConnect();
+
+        const { id: answerId } = await params;
+
+        const answer = await Answer.findById(answerId);
+        if (!answer || answer.isDeleted) {
+            return NextResponse.json(
+                { success: false, message: 'Answer not found' },
+                { status: 404 }
+            );
+        }
+
+        if (answer.author.toString() !== user.userId && !isModerator(user.role)) {
+            return NextResponse.json(
+                { success: false, message: 'You can only delete your own answers' },
+                { status: 403 }
+            );
+        }
+
+        await softDeleteAnswer(answer, user.userId);
+
+        return NextResponse.json({
+            success: true,
+            message: 'Answer deleted',
+            data: {
+                isDeleted: true,
+                deletedAt: answer.deletedAt,
+            },
+        });
+
+    } catch (error) {
+        console.error('Error deleting answer:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to delete answer' },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,80 @@
+/**
+ * Undelete Answer API Route
+ * =========================
+ * POST /api/answers/[id]/undelete - Restore a deleted answer within the undelete window (author or moderator)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { Answer } from '@/lib/models';
+import { withAuth } from '@/lib/auth/withAuth';
+import { restoreAnswer, isWithinUndeleteWindow, canUndeletePost, UNDELETE_WINDOW_DAYS } from '@/lib/posts';
+
+export const POST = withAuth(async (
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> },
+    user
+) => {
+    try {
+        await dbConnect();
+
+        const { id: answerId } = await params;
+
+        const answer = await Answer.findById(answerId);
+        if (!answer) {
+            return NextResponse.json(
+                { success: false, message: 'Answer not found' },
+                { status: 404 }
+            );
+        }
+
+        if (!answer.isDeleted) {
+            return NextResponse.json(
+                { success: false, message: 'Answer is not deleted' },
+                { status: 400 }
+            );
+        }
+
+        const authorId = answer.author.toString();
+        if (!canUndeletePost({ authorId, deletedById: answer.deletedBy?.toString() }, user)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: authorId === user.userId
+                        ? 'This answer was deleted by a moderator; only a moderator can undelete it'
+                        : 'You can only undelete your own answers',
+                },
+                { status: 403 }
+            );
+        }
+
+        if (answer.deletedWithQuestion) {
+            return NextResponse.json(
+                { success: false, message: 'This answer was deleted with its question; undelete the question instead' },
+                { status: 400 }
+            );
+        }
+
+        if (!isWithinUndeleteWindow(answer.deletedAt)) {
+            return NextResponse.json(
+                { success: false, message: `Answers can only be undeleted within ${UNDELETE_WINDOW_DAYS} days of deletion` },
+                { status: 403 }
+            );
+        }
+
+        await restoreAnswer(answer);
+
+        return NextResponse.json({
+            success: true,
+            message: 'Answer restored',
+            data: { isDeleted: false },
+        });
+
+    } catch (error) {
+        console.error('Error undeleting answer:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to undelete answer' },
+            { status: 500 }
+        );
+    }
+});
@@ -7,23 +7,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { dbConnect } from '@/lib/db';
 import { Answer } from '@/lib/models';
-import { getCurrentUser } from '@/lib/auth/jwt';
-import { Types } from 'mongoose';
+import { withAuth } from '@/lib/auth/withAuth';
+import { applyVoteChange } from '@/lib/reputation';
+import { currentVote, voteUpdate, votesAfter } from '@/lib/posts';
+import { publishQuestionEvent } from '@/lib/realtime';
 
-export async function POST(
+export const POST = withAuth({ requireVerified: true }, async (
     request: NextRequest,
-    { params }: { params: Promise<{ id: string }> }
-) {
+    { params }: { params: Promise<{ id: string }> },
+    user
+) => {
     try {
-        // Authenticate user
-        const user = await getCurrentUser();
-        if (!user) {
-            return NextResponse.json(
-                { success: false, message: 'You must be logged in to vote' },
-                { status: 401 }
-            );
-        }
-
         await dbConnect();
 
         const { id: answerId } = await params;
@@ -37,8 +31,8 @@ export async function POST(
             );
         }
 
-        const answer = await Answer.findById(answerId);
-        if (!answer) {
+        const answer = await Answer.findById(answerId).select('author isDeleted');
+        if (!answer || answer.isDeleted) {
             return NextResponse.json(
                 { success: false, message: 'Answer not found' },
                 { status: 404 }
@@ -46,43 +40,59 @@ export async function POST(
         }
 
         const userId = user.userId;
+        const authorId = answer.author.toString();
 
-        // Check current vote state
-        const hasUpvoted = answer.upvotes.some((id: any) => id.toString() === userId);
-        const hasDownvoted = answer.downvotes.some((id: any) => id.toString() === userId);
+        // Users cannot vote on their own posts
+        if (authorId === userId) {
+            return NextResponse.json(
+                { success: false, message: 'You cannot vote on your own post' },
+                { status: 403 }
+            );
+        }
 
-        if (voteType === 'upvote') {
-            if (hasUpvoted) {
-                // Remove upvote (toggle off)
-                answer.upvotes = answer.upvotes.filter((id: any) => id.toString() !== userId);
-            } else {
-                // Add upvote, remove downvote if exists
-                if (hasDownvoted) {
-                    answer.downvotes = answer.downvotes.filter((id: any) => id.toString() !== userId);
-                }
-                answer.upvotes.push(new Types.ObjectId(userId));
-            }
-        } else {
-            if (hasDownvoted) {
-                // Remove downvote (toggle off)
-                answer.downvotes = answer.downvotes.filter((id: any) => id.toString() !== userId);
-            } else {
-                // Add downvote, remove upvote if exists
-                if (hasUpvoted) {
-                    answer.upvotes = answer.upvotes.filter((id: any) => id.toString() !== userId);
-                }
-                answer.downvotes.push(new Types.ObjectId(userId));
-            }
+        // Toggle the vote and recompute the score in one atomic write
+        const before = await Answer.findOneAndUpdate(
+            { _id: answerId, isDeleted: { $ne: true } },
+            voteUpdate(userId, voteType),
+            { returnDocument: 'before', updatePipeline: true }
+        );
+        if (!before) {
+            return NextResponse.json(
+                { success: false, message: 'Answer not found' },
+                { status: 404 }
+            );
         }
 
-        await answer.save();
+        const previousVote = currentVote(before, userId);
+        const nextVote = voteType === previousVote ? null : voteType;
+        const votes = votesAfter(before, userId, nextVote);
+
+        // Reconcile reputation for the vote toggle
+        await applyVoteChange({
+            voterId: userId,
+            authorId,
+            postId: answerId,
+            postType: 'answer',
+            previousVote,
+            nextVote,
+        });
+
+        publishQuestionEvent(before.question, {
+            type: 'vote',
+            postType: 'answer',
+            postId: answerId,
+            upvotes: votes.upvotes.map(String),
+            downvotes: votes.downvotes.map(String),
+            score: votes.score,
+        });
 
         return NextResponse.json({
             success: true,
             data: {
-                upvotes: answer.upvotes,
-                downvotes: answer.downvotes,
-                voteScore: answer.upvotes.length - answer.downvotes.length,
+                upvotes: votes.upvotes,
+                downvotes: votes.downvotes,
+                score: votes.score,
+                voteScore: votes.score,
             },
         });
 
@@ -93,4 +103,4 @@ export async function POST(
             { status: 500 }
         );
     }
-}
+});
@@ -11,6 +11,9 @@ import {
     generateToken,
     hashToken,
     sendPasswordResetEmail,
+    getSessionClient,
+    getClientIp,
+    recordAuthEvent,
     checkRateLimit,
     getRateLimitKey,
     RATE_LIMIT_CONFIGS,
@@ -19,7 +22,7 @@ import {
 export async function POST(request: NextRequest) {
     try {
         // Rate limiting
-        const ip = request.headers.get('x-forwarded-for') || 'unknown';
+        const ip = getClientIp(request.headers) || 'unknown';
         const rateLimitKey = getRateLimitKey(ip, 'passwordReset');
         const rateLimit = checkRateLimit(rateLimitKey, RATE_LIMIT_CONFIGS.passwordReset);
 
@@ -59,6 +62,7 @@ export async function POST(request: NextRequest) {
         };
 
         if (!user) {
+            await recordAuthEvent({ type: 'password_reset_requested', email, reason: 'unknown_email', client: getSessionClient(request) });
             return NextResponse.json(successResponse);
         }
 
@@ -73,6 +77,7 @@ export async function POST(request: NextRequest) {
 
         // Send reset email
         await sendPasswordResetEmail(user.email, user.name, resetToken);
+        await recordAuthEvent({ type: 'password_reset_requested', userId: user._id, email: user.email, client: getSessionClient(request) });
 
         return NextResponse.json(successResponse);
 
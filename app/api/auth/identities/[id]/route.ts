@@ -0,0 +1,45 @@
+/**
+ * Linked Identity API Route
+ * =========================
+ * DELETE /api/auth/identities/[id] - Unlink an identity provider from the current account
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, unlinkIdentity } from '@/lib/auth';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+export const DELETE = withAuth(async (_request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params;
+
+        const result = await unlinkIdentity(user.userId, id);
+
+        if (result === 'not_found') {
+            return NextResponse.json(
+                { success: false, message: 'Linked account not found' },
+                { status: 404 }
+            );
+        }
+
+        if (result === 'last_sign_in_method') {
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: 'This is the only way you can sign in. Set a password with "Forgot password" first.',
+                },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json({ success: true, message: 'Account unlinked' });
+    } catch (error) {
+        console.error('Error unlinking identity:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,22 @@
+/**
+ * Linked Identities API Route
+ * ===========================
+ * GET /api/auth/identities - Identity providers linked to the current account
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth, listIdentities } from '@/lib/auth';
+
+export const GET = withAuth(async (_request, _context, user) => {
+    try {
+        const identities = await listIdentities(user.userId);
+
+        return NextResponse.json({ success: true, data: identities });
+    } catch (error) {
+        console.error('Error listing linked identities:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+});
@@ -2,25 +2,53 @@
  * Login API Route
  * ================
  * Handles user authentication with JWT tokens
+ *
+ * Besides the IP rate limit, wrong passwords count against the account and
+ * lock it for progressively longer (lib/auth/lockout.ts). Every outcome is
+ * recorded as an AuthEvent.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { dbConnect } from '@/lib/db';
 import { User } from '@/lib/models';
 import {
-    signAccessToken,
-    signRefreshToken,
     setAuthCookies,
+    setTwoFactorCookie,
+    signTwoFactorToken,
+    startSession,
+    getSessionClient,
+    getClientIp,
+    recordFailedAttempt,
+    clearFailedAttempts,
+    isLocked,
+    lockoutMessage,
+    retryAfterSeconds,
+    recordAuthEvent,
+    recordLogin,
     checkRateLimit,
     getRateLimitKey,
     resetRateLimit,
     RATE_LIMIT_CONFIGS,
 } from '@/lib/auth';
 
+function lockedResponse(lockedUntil: Date) {
+    return NextResponse.json(
+        {
+            success: false,
+            message: lockoutMessage(lockedUntil),
+            locked: true,
+        },
+        {
+            status: 429,
+            headers: { 'Retry-After': retryAfterSeconds(lockedUntil) },
+        }
+    );
+}
+
 export async function POST(request: NextRequest) {
     try {
         // Rate limiting
-        const ip = request.headers.get('x-forwarded-for') || 'unknown';
+        const ip = getClientIp(request.headers) || 'unknown';
         const rateLimitKey = getRateLimitKey(ip, 'login');
         const rateLimit = checkRateLimit(rateLimitKey, RATE_LIMIT_CONFIGS.login);
 
@@ -61,10 +89,13 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        const client = getSessionClient(request);
+
         // Find user by email (include password for comparison)
-        const user = await User.findOne({ email: email.toLowerCase() }).select('+password');
+        const user = await User.findOne({ email: email.toLowerCase() }).select('+password +lockedUntil');
 
         if (!user) {
+            await recordAuthEvent({ type: 'login_failed', email, reason: 'unknown_email', client });
             return NextResponse.json(
                 {
                     success: false,
@@ -75,10 +106,37 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Locked accounts are refused before the password is even checked
+        if (isLocked(user.lockedUntil)) {
+            await recordAuthEvent({ type: 'login_failed', userId: user._id, email: user.email, method: 'password', reason: 'locked', client });
+            return lockedResponse(user.lockedUntil);
+        }
+
+        // Accounts created through an identity provider have no password yet
+        if (!user.password) {
+            await recordAuthEvent({ type: 'login_failed', userId: user._id, email: user.email, method: 'password', reason: 'no_password', client });
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: 'This account signs in with single sign-on',
+                    errors: { password: 'Use single sign-on below, or set a password with "Forgot password?"' }
+                },
+                { status: 401 }
+            );
+        }
+
         // Compare passwords
         const isPasswordValid = await user.comparePassword(password);
 
         if (!isPasswordValid) {
+            const { lockedUntil } = await recordFailedAttempt(user._id);
+            await recordAuthEvent({ type: 'login_failed', userId: user._id, email: user.email, method: 'password', reason: 'wrong_password', client });
+
+            if (lockedUntil) {
+                await recordAuthEvent({ type: 'account_locked', userId: user._id, email: user.email, client });
+                return lockedResponse(lockedUntil);
+            }
+
             return NextResponse.json(
                 {
                     success: false,
@@ -91,6 +149,7 @@ export async function POST(request: NextRequest) {
 
         // Check if email is verified
         if (!user.isVerified) {
+            await recordAuthEvent({ type: 'login_failed', userId: user._id, email: user.email, method: 'password', reason: 'unverified', client });
             return NextResponse.json(
                 {
                     success: false,
@@ -105,20 +164,33 @@ export async function POST(request: NextRequest) {
         // Reset rate limit on successful login
         resetRateLimit(rateLimitKey);
 
+        // Password was right; two-factor accounts finish at /api/auth/login/two-factor.
+        // Failed attempts aren't cleared yet, since wrong codes count too.
+        if (user.twoFactor?.enabled) {
+            const twoFactorToken = await signTwoFactorToken({
+                userId: user._id.toString(),
+                email: user.email,
+                role: user.role,
+                isVerified: user.isVerified,
+            });
+
+            const response = NextResponse.json({
+                success: true,
+                message: 'Enter the code from your authenticator app',
+                requiresTwoFactor: true,
+            });
+
+            return setTwoFactorCookie(response, twoFactorToken);
+        }
+
         // Update last login timestamp
         user.lastLoginAt = new Date();
         await user.save();
+        await clearFailedAttempts(user._id);
 
-        // Generate JWT tokens (include isVerified for middleware checks)
-        const tokenPayload = {
-            userId: user._id.toString(),
-            email: user.email,
-            role: user.role,
-            isVerified: user.isVerified,
-        };
-
-        const accessToken = await signAccessToken(tokenPayload);
-        const refreshToken = await signRefreshToken(tokenPayload);
+        // Each sign-in is its own session, listed under "Your sessions"
+        const { accessToken, refreshToken } = await startSession(user, client);
+        await recordLogin(user, client, 'password');
 
         // Create response
         const response = NextResponse.json({
@@ -0,0 +1,168 @@
+/**
+ * Two-Factor Login API Route
+ * ==========================
+ * Second step of signing in to an account with two-factor turned on.
+ * Exchanges the partial token from /api/auth/login plus an authenticator
+ * code (or a recovery code) for a full session. Wrong codes count toward
+ * the same account lockout as wrong passwords.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { User } from '@/lib/models';
+import {
+    verifyToken,
+    setAuthCookies,
+    setTwoFactorCookie,
+    startSession,
+    getSessionClient,
+    verifySecondFactor,
+    getLockout,
+    recordFailedAttempt,
+    clearFailedAttempts,
+    lockoutMessage,
+    retryAfterSeconds,
+    recordAuthEvent,
+    recordLogin,
+    checkRateLimit,
+    getRateLimitKey,
+    resetRateLimit,
+    RATE_LIMIT_CONFIGS,
+    TWO_FACTOR_COOKIE,
+} from '@/lib/auth';
+import { secondFactorSchema } from '@/lib/validations/auth';
+
+function expired() {
+    const response = NextResponse.json(
+        {
+            success: false,
+            message: 'Your sign-in has expired. Please enter your password again.',
+            restartLogin: true,
+        },
+        { status: 401 }
+    );
+    return setTwoFactorCookie(response, null);
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const partialToken = request.cookies.get(TWO_FACTOR_COOKIE)?.value;
+        const decoded = partialToken ? await verifyToken(partialToken) : null;
+
+        if (!decoded || decoded.purpose !== 'two_factor') {
+            return expired();
+        }
+
+        // Rate limit per account, so rotating IPs doesn't buy more guesses
+        const rateLimitKey = getRateLimitKey(decoded.userId, 'two-factor');
+        const rateLimit = checkRateLimit(rateLimitKey, RATE_LIMIT_CONFIGS.login);
+
+        if (!rateLimit.allowed) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: 'Too many attempts. Please try again later.',
+                },
+                {
+                    status: 429,
+                    headers: {
+                        'Retry-After': String(Math.ceil(rateLimit.resetIn / 1000)),
+                    },
+                }
+            );
+        }
+
+        const lockedUntil = await getLockout(decoded.userId);
+        if (lockedUntil) {
+            return NextResponse.json(
+                { success: false, message: lockoutMessage(lockedUntil), locked: true },
+                { status: 429, headers: { 'Retry-After': retryAfterSeconds(lockedUntil) } }
+            );
+        }
+
+        const body = await request.json().catch(() => null);
+        const parsed = secondFactorSchema.safeParse(body);
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                { success: false, message: parsed.error.issues[0]?.message || 'Enter your authentication code' },
+                { status: 400 }
+            );
+        }
+
+        const client = getSessionClient(request);
+        const method = await verifySecondFactor(decoded.userId, parsed.data);
+
+        if (!method) {
+            const failure = await recordFailedAttempt(decoded.userId);
+            await recordAuthEvent({
+                type: 'login_failed',
+                userId: decoded.userId,
+                email: decoded.email,
+                method: parsed.data.recoveryCode ? 'recovery_code' : 'two_factor',
+                reason: 'invalid_code',
+                client,
+            });
+
+            if (failure.lockedUntil) {
+                await recordAuthEvent({ type: 'account_locked', userId: decoded.userId, email: decoded.email, client });
+                return NextResponse.json(
+                    { success: false, message: lockoutMessage(failure.lockedUntil), locked: true },
+                    { status: 429, headers: { 'Retry-After': retryAfterSeconds(failure.lockedUntil) } }
+                );
+            }
+
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: parsed.data.recoveryCode ? 'That recovery code is not valid' : 'That code is not valid',
+                },
+                { status: 401 }
+            );
+        }
+
+        resetRateLimit(rateLimitKey);
+
+        await dbConnect();
+        const user = await User.findById(decoded.userId);
+
+        if (!user) {
+            return expired();
+        }
+
+        user.lastLoginAt = new Date();
+        await user.save();
+        await clearFailedAttempts(user._id);
+
+        const { accessToken, refreshToken } = await startSession(user, client);
+        await recordLogin(user, client, method === 'recovery' ? 'recovery_code' : 'two_factor');
+
+        const response = NextResponse.json({
+            success: true,
+            message: 'Login successful',
+            data: {
+                id: user._id,
+                name: user.name,
+                email: user.email,
+                avatar: user.avatar,
+                role: user.role,
+                reputation: user.reputation,
+                isVerified: user.isVerified,
+            },
+        });
+
+        setTwoFactorCookie(response, null);
+        return setAuthCookies(response, accessToken, refreshToken);
+
+    } catch (error) {
+        console.error('Two-factor login error:', error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                message: 'An error occurred during login. Please try again.',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -1,14 +1,29 @@
 /**
  * Logout API
  * ==========
- * Clears auth cookies
+ * Revokes the current session and clears auth cookies
  */
 
 import { NextResponse } from 'next/server';
-import { clearAuthCookies } from '@/lib/auth';
+import { clearAuthCookies, getTokensFromCookies, verifyToken, revokeSession } from '@/lib/auth';
 
 export async function POST() {
     try {
+        // An expired access token still names the session through the refresh token.
+        // Cookies are cleared even if this fails, so logging out always works locally.
+        try {
+            const { accessToken, refreshToken } = await getTokensFromCookies();
+            for (const token of [refreshToken, accessToken]) {
+                const decoded = token ? await verifyToken(token) : null;
+                if (decoded?.sid) {
+                    await revokeSession(decoded.sid, 'logout', decoded.userId);
+                    break;
+                }
+            }
+        } catch (error) {
+            console.error('Error revoking session on logout:', error);
+        }
+
         const response = NextResponse.json({
             success: true,
             message: 'Logged out successfully',
@@ -7,20 +7,10 @@
 import { NextResponse } from 'next/server';
 import { dbConnect } from '@/lib/db';
 import { User } from '@/lib/models';
-import { getCurrentUser } from '@/lib/auth';
+import { withAuth } from '@/lib/auth';
 
-export async function GET() {
+export const GET = withAuth({ allowTwoFactorSetup: true }, async (_request, _context, tokenData) => {
     try {
-        // Get user from JWT
-        const tokenData = await getCurrentUser();
-
-        if (!tokenData) {
-            return NextResponse.json(
-                { success: false, message: 'Not authenticated' },
-                { status: 401 }
-            );
-        }
-
         await dbConnect();
 
         // Get fresh user data from database
@@ -54,4 +44,4 @@ export async function GET() {
             { status: 500 }
         );
     }
-}
+});
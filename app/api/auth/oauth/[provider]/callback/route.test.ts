@@ -0,0 +1,116 @@
+import { NextRequest } from 'next/server';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ACCESS_TOKEN_COOKIE, OAUTH_FLOW_COOKIE, TWO_FACTOR_COOKIE } from '@/lib/auth';
+import { mockIssuerEnv, startMockIssuer } from '@/lib/auth/oauth.mock';
+import type { MockIssuer } from '@/lib/auth/oauth.mock';
+import { Identity, User } from '@/lib/models';
+import { GET as startSignIn } from '../route';
+import { GET } from './route';
+
+vi.mock('@/lib/db', () => ({ dbConnect: vi.fn() }));
+
+const APP_URL = 'http://localhost:3000';
+const params = { params: Promise.resolve({ provider: 'mock' }) };
+
+let issuer: MockIssuer;
+
+beforeAll(async () => {
+    issuer = await startMockIssuer();
+});
+
+afterAll(async () => {
+    await issuer.close();
+});
+
+beforeEach(() => {
+    issuer.claims = {};
+    vi.stubEnv('JWT_SECRET', 'test-secret');
+    vi.stubEnv('NEXT_PUBLIC_APP_URL', APP_URL);
+    for (const [name, value] of Object.entries(mockIssuerEnv(issuer))) {
+        vi.stubEnv(name, value);
+    }
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+});
+
+/**
+ * Start sign-in through the route, sign in at the issuer, and return the
+ * callback request the browser would make
+ */
+async function callbackRequest(returnTo = '/dashboard/questions/1'): Promise<NextRequest> {
+    const start = await startSignIn(
+        new NextRequest(`${APP_URL}/api/auth/oauth/mock?returnTo=${encodeURIComponent(returnTo)}`),
+        params
+    );
+    const flowCookie = start.cookies.get(OAUTH_FLOW_COOKIE)?.value;
+    const query = issuer.authorize(start.headers.get('location')!);
+
+    return new NextRequest(`${APP_URL}/api/auth/oauth/mock/callback?${query}`, {
+        headers: { cookie: `${OAUTH_FLOW_COOKIE}=${flowCookie}` },
+    });
+}
+
+// ============================================
+// GET /api/auth/oauth/[provider]/callback
+// ============================================
+
+describe('GET /api/auth/oauth/[provider]/callback', () => {
+    it('sends an account with two-factor on to the two-factor step', async () => {
+        const user = new User({ name: 'Ada', email: 'ada@example.com', isVerified: true, twoFactor: { enabled: true } });
+        vi.spyOn(Identity, 'findOneAndUpdate').mockResolvedValue({ user: user._id });
+        vi.spyOn(User, 'findById').mockResolvedValue(user);
+        const save = vi.spyOn(user, 'save');
+
+        const response = await GET(await callbackRequest(), params);
+
+        expect(response.headers.get('location')).toBe(`${APP_URL}/login?step=two-factor`);
+        expect(response.cookies.get(TWO_FACTOR_COOKIE)?.value).toBeTruthy();
+        expect(response.cookies.get(ACCESS_TOKEN_COOKIE)).toBeUndefined();
+        expect(response.cookies.get(OAUTH_FLOW_COOKIE)?.value).toBe('');
+        // No session was started and the login wasn't recorded
+        expect(save).not.toHaveBeenCalled();
+    });
+
+    it('refuses to sign in with an unverified email', async () => {
+        issuer.claims = { email_verified: false };
+        vi.spyOn(Identity, 'findOneAndUpdate').mockResolvedValue(null);
+        const findOne = vi.spyOn(User, 'findOne');
+
+        const response = await GET(await callbackRequest(), params);
+
+        expect(response.headers.get('location')).toBe(`${APP_URL}/login?error=email_unverified`);
+        expect(findOne).not.toHaveBeenCalled();
+    });
+
+    it('rejects an ID token for another audience', async () => {
+        issuer.claims = { aud: 'another-client' };
+        const findIdentity = vi.spyOn(Identity, 'findOneAndUpdate');
+
+        const response = await GET(await callbackRequest(), params);
+
+        expect(response.headers.get('location')).toBe(`${APP_URL}/login?error=provider_error`);
+        expect(findIdentity).not.toHaveBeenCalled();
+    });
+
+    it('rejects a callback without the flow cookie', async () => {
+        const request = await callbackRequest();
+        request.cookies.delete(OAUTH_FLOW_COOKIE);
+
+        const response = await GET(request, params);
+
+        expect(response.headers.get('location')).toBe(`${APP_URL}/login?error=invalid_state`);
+    });
+
+    it('redirects unknown providers back to the login page', async () => {
+        const response = await GET(
+            new NextRequest(`${APP_URL}/api/auth/oauth/other/callback`),
+            { params: Promise.resolve({ provider: 'other' }) }
+        );
+
+        expect(response.headers.get('location')).toBe(`${APP_URL}/login?error=unknown_provider`);
+    });
+});
@@ -0,0 +1,88 @@
+/**
+ * OAuth Callback API Route
+ * ========================
+ * GET /api/auth/oauth/[provider]/callback - Where the provider sends the user back
+ *
+ * Signs in the linked account (creating or linking it by verified email
+ * first) with the same session and cookies as a password login. Accounts
+ * with two-factor on still have to enter a code on the login page.
+ * Failures redirect to /login?error=<code>.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    getOAuthProvider,
+    completeAuthorization,
+    setOAuthFlowCookie,
+    signInWithIdentity,
+    signTwoFactorToken,
+    setTwoFactorCookie,
+    setAuthCookies,
+    startSession,
+    getSessionClient,
+    recordLogin,
+    OAUTH_FLOW_COOKIE,
+} from '@/lib/auth';
+
+interface RouteParams {
+    params: Promise<{ provider: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    const fail = (error: string) =>
+        setOAuthFlowCookie(NextResponse.redirect(new URL(`/login?error=${error}`, request.url)), null);
+
+    try {
+        const { provider: providerId } = await params;
+
+        const provider = getOAuthProvider(providerId);
+        if (!provider) {
+            return fail('unknown_provider');
+        }
+
+        const result = await completeAuthorization(
+            provider,
+            request.nextUrl.searchParams,
+            request.cookies.get(OAUTH_FLOW_COOKIE)?.value
+        );
+        if (result.status === 'error') {
+            return fail(result.error);
+        }
+
+        const signIn = await signInWithIdentity(provider, result.profile);
+        if (signIn.status === 'email_unverified') {
+            return fail('email_unverified');
+        }
+
+        const { user } = signIn;
+
+        // The provider stands in for the password, not for the second factor
+        if (user.twoFactor?.enabled) {
+            const twoFactorToken = await signTwoFactorToken({
+                userId: user._id.toString(),
+                email: user.email,
+                role: user.role,
+                isVerified: user.isVerified,
+            });
+
+            const response = NextResponse.redirect(new URL('/login?step=two-factor', request.url));
+            setOAuthFlowCookie(response, null);
+            return setTwoFactorCookie(response, twoFactorToken);
+        }
+
+        user.lastLoginAt = new Date();
+        await user.save();
+
+        const client = getSessionClient(request);
+        const { accessToken, refreshToken } = await startSession(user, client);
+        await recordLogin(user, client, 'oauth');
+
+        const response = NextResponse.redirect(new URL(result.returnTo, request.url));
+        setOAuthFlowCookie(response, null);
+        return setAuthCookies(response, accessToken, refreshToken);
+
+    } catch (error) {
+        console.error('OAuth callback error:', error);
+        return fail('oauth_failed');
+    }
+}
@@ -0,0 +1,30 @@
+/**
+ * OAuth Sign-In API Route
+ * =======================
+ * GET /api/auth/oauth/[provider]?returnTo=/path - Send the browser to the provider's sign-in page
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOAuthProvider, beginAuthorization, setOAuthFlowCookie } from '@/lib/auth';
+
+interface RouteParams {
+    params: Promise<{ provider: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { provider: providerId } = await params;
+
+        const provider = getOAuthProvider(providerId);
+        if (!provider) {
+            return NextResponse.redirect(new URL('/login?error=unknown_provider', request.url));
+        }
+
+        const { url, flowCookie } = await beginAuthorization(provider, request.nextUrl.searchParams.get('returnTo'));
+
+        return setOAuthFlowCookie(NextResponse.redirect(url), flowCookie);
+    } catch (error) {
+        console.error('OAuth sign-in error:', error);
+        return NextResponse.redirect(new URL('/login?error=oauth_failed', request.url));
+    }
+}
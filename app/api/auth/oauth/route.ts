@@ -0,0 +1,22 @@
+/**
+ * OAuth Providers API Route
+ * =========================
+ * GET /api/auth/oauth - Identity providers users can sign in with
+ */
+
+import { NextResponse } from 'next/server';
+import { getOAuthProviders } from '@/lib/auth';
+
+export async function GET() {
+    try {
+        const providers = getOAuthProviders().map(({ id, name }) => ({ id, name }));
+
+        return NextResponse.json({ success: true, data: providers });
+    } catch (error) {
+        console.error('Error listing OAuth providers:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
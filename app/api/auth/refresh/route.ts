@@ -1,19 +1,21 @@
 /**
  * Refresh Token API
  * =================
- * Refreshes access token using refresh token
+ * Rotates the refresh token and issues a new access token. Each refresh
+ * token works once; replaying an old one signs the session out everywhere.
  */
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import {
     verifyToken,
-    signAccessToken,
     getTokensFromCookies,
     setAuthCookies,
-    signRefreshToken,
+    clearAuthCookies,
+    rotateSession,
+    getSessionClient,
 } from '@/lib/auth';
 
-export async function POST() {
+export async function POST(request: NextRequest) {
     try {
         const { refreshToken } = await getTokensFromCookies();
 
@@ -34,24 +36,36 @@ export async function POST() {
             );
         }
 
-        // Generate new tokens (token rotation)
-        const tokenPayload = {
-            userId: decoded.userId,
-            email: decoded.email,
-            role: decoded.role,
-        };
+        const result = await rotateSession(decoded, getSessionClient(request));
 
-        const newAccessToken = await signAccessToken(tokenPayload);
-        const newRefreshToken = await signRefreshToken(tokenPayload);
+        switch (result.status) {
+            case 'rotated': {
+                const response = NextResponse.json({
+                    success: true,
+                    message: 'Token refreshed successfully',
+                });
+                return setAuthCookies(response, result.tokens.accessToken, result.tokens.refreshToken);
+            }
 
-        // Create response
-        const response = NextResponse.json({
-            success: true,
-            message: 'Token refreshed successfully',
-        });
+            case 'superseded':
+                // The request that won the race has already set the new cookies
+                return NextResponse.json({
+                    success: true,
+                    message: 'Token already refreshed',
+                });
 
-        // Set new cookies
-        return setAuthCookies(response, newAccessToken, newRefreshToken);
+            case 'reused':
+                return clearAuthCookies(NextResponse.json(
+                    { success: false, message: 'This session was signed out for your security. Please log in again.' },
+                    { status: 401 }
+                ));
+
+            case 'invalid':
+                return clearAuthCookies(NextResponse.json(
+                    { success: false, message: 'Session expired. Please log in again.' },
+                    { status: 401 }
+                ));
+        }
 
     } catch (error) {
         console.error('Token refresh error:', error);
@@ -8,9 +8,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { dbConnect } from '@/lib/db';
 import { User } from '@/lib/models';
 import {
-    signAccessToken,
-    signRefreshToken,
     setAuthCookies,
+    startSession,
+    getSessionClient,
+    getClientIp,
     generateToken,
     hashToken,
     sendVerificationEmail,
@@ -24,7 +25,7 @@ export async function POST(request: NextRequest) {
         // Rate limiting - COMMENTED OUT FOR DEVELOPMENT
         // Uncomment in production
         /*
-        const ip = request.headers.get('x-forwarded-for') || 'unknown';
+        const ip = getClientIp(request.headers) || 'unknown';
         const rateLimitKey = getRateLimitKey(ip, 'register');
         const rateLimit = checkRateLimit(rateLimitKey, RATE_LIMIT_CONFIGS.register);
 
@@ -122,16 +123,8 @@ export async function POST(request: NextRequest) {
         // Send verification email
         await sendVerificationEmail(email, name, verificationToken);
 
-        // Generate JWT tokens (include isVerified for middleware checks)
-        const tokenPayload = {
-            userId: user._id.toString(),
-            email: user.email,
-            role: user.role,
-            isVerified: user.isVerified,
-        };
-
-        const accessToken = await signAccessToken(tokenPayload);
-        const refreshToken = await signRefreshToken(tokenPayload);
+        // Each sign-in is its own session, listed under "Your sessions"
+        const { accessToken, refreshToken } = await startSession(user, getSessionClient(request));
 
         // Create response with user data
         const response = NextResponse.json(
@@ -7,7 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { dbConnect } from '@/lib/db';
 import { User } from '@/lib/models';
-import { hashToken } from '@/lib/auth';
+import { hashToken, revokeUserSessions, getSessionClient, recordAuthEvent } from '@/lib/auth';
 
 export async function POST(request: NextRequest) {
     try {
@@ -65,8 +65,15 @@ export async function POST(request: NextRequest) {
         user.password = password;
         user.resetPasswordToken = undefined;
         user.resetPasswordExpires = undefined;
+        // Proving control of the inbox lifts any lockout
+        user.failedLoginAttempts = 0;
+        user.lockedUntil = undefined;
         await user.save();
 
+        // Whoever knew the old password may still be signed in
+        await revokeUserSessions(user._id.toString(), 'password_reset');
+        await recordAuthEvent({ type: 'password_reset', userId: user._id, email: user.email, client: getSessionClient(request) });
+
         return NextResponse.json({
             success: true,
             message: 'Password reset successfully. You can now log in with your new password.',
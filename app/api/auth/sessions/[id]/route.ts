@@ -0,0 +1,41 @@
+/**
+ * Session API Route
+ * =================
+ * DELETE /api/auth/sessions/[id] - Sign out one of your other devices
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, revokeSession } from '@/lib/auth';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+export const DELETE = withAuth(async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        const { id } = await params;
+
+        if (id === user.sid) {
+            return NextResponse.json(
+                { success: false, message: 'Use log out to end the session on this device' },
+                { status: 400 }
+            );
+        }
+
+        const revoked = await revokeSession(id, 'signed_out', user.userId);
+        if (!revoked) {
+            return NextResponse.json(
+                { success: false, message: 'Session not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true, message: 'Device signed out' });
+    } catch (error) {
+        console.error('Error signing out session:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,49 @@
+/**
+ * Sessions API Route
+ * ==================
+ * GET    /api/auth/sessions - Devices signed in to the current account
+ * DELETE /api/auth/sessions - Sign out every device except this one
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth, listActiveSessions, revokeUserSessions } from '@/lib/auth';
+
+// ============================================
+// GET - List Sessions
+// ============================================
+
+export const GET = withAuth(async (_request, _context, user) => {
+    try {
+        const sessions = await listActiveSessions(user.userId, user.sid);
+
+        return NextResponse.json({ success: true, data: sessions });
+    } catch (error) {
+        console.error('Error listing sessions:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+});
+
+// ============================================
+// DELETE - Sign Out Other Devices
+// ============================================
+
+export const DELETE = withAuth(async (_request, _context, user) => {
+    try {
+        const revoked = await revokeUserSessions(user.userId, 'signed_out', user.sid);
+
+        return NextResponse.json({
+            success: true,
+            message: revoked === 1 ? 'Signed out 1 other device' : `Signed out ${revoked} other devices`,
+            data: { revoked },
+        });
+    } catch (error) {
+        console.error('Error signing out other sessions:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+});
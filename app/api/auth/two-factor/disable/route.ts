@@ -0,0 +1,56 @@
+/**
+ * Disable Two-Factor API Route
+ * ============================
+ * POST /api/auth/two-factor/disable - Turn two-factor off with a current code or a recovery code
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    withAuth,
+    forbidden,
+    disableTwoFactor,
+    isTwoFactorRequired,
+    verifySecondFactor,
+} from '@/lib/auth';
+import { secondFactorSchema } from '@/lib/validations/auth';
+
+export const POST = withAuth(async (request: NextRequest, _context, user) => {
+    try {
+        if (await isTwoFactorRequired(user.role)) {
+            return forbidden('Two-factor authentication is required for your role');
+        }
+
+        const body = await request.json().catch(() => null);
+        const parsed = secondFactorSchema.safeParse(body);
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                { success: false, message: parsed.error.issues[0]?.message || 'Enter your authentication code' },
+                { status: 400 }
+            );
+        }
+
+        // A stolen session alone shouldn't be enough to remove the second factor
+        const method = await verifySecondFactor(user.userId, parsed.data);
+
+        if (!method) {
+            return NextResponse.json(
+                { success: false, message: 'That code is not valid' },
+                { status: 400 }
+            );
+        }
+
+        await disableTwoFactor(user.userId);
+
+        return NextResponse.json({
+            success: true,
+            message: 'Two-factor authentication is off',
+        });
+    } catch (error) {
+        console.error('Error disabling two-factor:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+});
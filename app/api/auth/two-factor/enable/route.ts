@@ -0,0 +1,51 @@
+/**
+ * Enable Two-Factor API Route
+ * ===========================
+ * POST /api/auth/two-factor/enable - Confirm the first code and turn two-factor on
+ *
+ * Responds with the recovery codes. They are only stored hashed, so this
+ * is the one time they can be shown.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, confirmEnrollment, renewSession, setAuthCookies } from '@/lib/auth';
+import { twoFactorCodeSchema } from '@/lib/validations/auth';
+
+export const POST = withAuth({ allowTwoFactorSetup: true }, async (request: NextRequest, _context, user) => {
+    try {
+        const body = await request.json().catch(() => null);
+        const parsed = twoFactorCodeSchema.safeParse(body);
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                { success: false, message: parsed.error.issues[0]?.message || 'Invalid code' },
+                { status: 400 }
+            );
+        }
+
+        const recoveryCodes = await confirmEnrollment(user.userId, parsed.data.code);
+
+        if (!recoveryCodes) {
+            return NextResponse.json(
+                { success: false, message: 'That code is not valid. Check the time on your device and try again.' },
+                { status: 400 }
+            );
+        }
+
+        const response = NextResponse.json({
+            success: true,
+            message: 'Two-factor authentication is on',
+            data: { recoveryCodes },
+        });
+
+        // Reissue this session's tokens so a pending setup requirement lifts straight away
+        const tokens = user.sid ? await renewSession(user.sid, user.userId) : null;
+        return tokens ? setAuthCookies(response, tokens.accessToken, tokens.refreshToken) : response;
+    } catch (error) {
+        console.error('Error enabling two-factor:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+});
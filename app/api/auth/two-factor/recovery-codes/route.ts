@@ -0,0 +1,55 @@
+/**
+ * Recovery Codes API Route
+ * ========================
+ * POST /api/auth/two-factor/recovery-codes - Replace all recovery codes with a new set
+ *
+ * Needs a current authenticator code; the old codes stop working at once.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, regenerateRecoveryCodes, verifySecondFactor } from '@/lib/auth';
+import { twoFactorCodeSchema } from '@/lib/validations/auth';
+
+export const POST = withAuth(async (request: NextRequest, _context, user) => {
+    try {
+        const body = await request.json().catch(() => null);
+        const parsed = twoFactorCodeSchema.safeParse(body);
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                { success: false, message: parsed.error.issues[0]?.message || 'Invalid code' },
+                { status: 400 }
+            );
+        }
+
+        const method = await verifySecondFactor(user.userId, { code: parsed.data.code });
+
+        if (!method) {
+            return NextResponse.json(
+                { success: false, message: 'That code is not valid' },
+                { status: 400 }
+            );
+        }
+
+        const recoveryCodes = await regenerateRecoveryCodes(user.userId);
+
+        if (!recoveryCodes) {
+            return NextResponse.json(
+                { success: false, message: 'Two-factor authentication is off' },
+                { status: 409 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: 'New recovery codes generated',
+            data: { recoveryCodes },
+        });
+    } catch (error) {
+        console.error('Error regenerating recovery codes:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,29 @@
+/**
+ * Two-Factor Status API Route
+ * ===========================
+ * GET /api/auth/two-factor - Whether two-factor is on for the current account
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth, getTwoFactorStatus } from '@/lib/auth';
+
+export const GET = withAuth({ allowTwoFactorSetup: true }, async (_request, _context, user) => {
+    try {
+        const status = await getTwoFactorStatus(user.userId);
+
+        if (!status) {
+            return NextResponse.json(
+                { success: false, message: 'User not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true, data: status });
+    } catch (error) {
+        console.error('Error fetching two-factor status:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+});
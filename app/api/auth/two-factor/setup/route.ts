@@ -0,0 +1,32 @@
+/**
+ * Two-Factor Setup API Route
+ * ==========================
+ * POST /api/auth/two-factor/setup - Generate a secret to add to an authenticator app
+ *
+ * Two-factor stays off until the first code is confirmed at /enable.
+ * Calling this again replaces the pending secret.
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth, startEnrollment } from '@/lib/auth';
+
+export const POST = withAuth({ allowTwoFactorSetup: true }, async (_request, _context, user) => {
+    try {
+        const enrollment = await startEnrollment(user.userId);
+
+        if (!enrollment) {
+            return NextResponse.json(
+                { success: false, message: 'Two-factor authentication is already on' },
+                { status: 409 }
+            );
+        }
+
+        return NextResponse.json({ success: true, data: enrollment });
+    } catch (error) {
+        console.error('Error starting two-factor setup:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+});
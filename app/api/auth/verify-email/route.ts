@@ -7,7 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { dbConnect } from '@/lib/db';
 import { User } from '@/lib/models';
-import { hashToken } from '@/lib/auth';
+import { hashToken, getSessionClient, recordAuthEvent } from '@/lib/auth';
 
 export async function GET(request: NextRequest) {
     try {
@@ -42,6 +42,7 @@ export async function GET(request: NextRequest) {
         user.isVerified = true;
         user.verificationToken = undefined;
         await user.save();
+        await recordAuthEvent({ type: 'email_verified', userId: user._id, email: user.email, client: getSessionClient(request) });
 
         return NextResponse.json({
             success: true,
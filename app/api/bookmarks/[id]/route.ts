@@ -0,0 +1,119 @@
+/**
+ * Single Bookmark API Route
+ * =========================
+ * PATCH  /api/bookmarks/[id] - Move to another collection or edit the note
+ * DELETE /api/bookmarks/[id] - Unsave
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { Bookmark } from '@/lib/models';
+import { withAuth } from '@/lib/auth/withAuth';
+import { ownsCollection } from '@/lib/bookmarks';
+import { Types } from 'mongoose';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+// ============================================
+// PATCH - Update Bookmark
+// ============================================
+
+export const PATCH = withAuth(async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        await dbConnect();
+
+        const { id } = await params;
+
+        // Bookmarks are private, so someone else's looks the same as a missing one
+        const bookmark = Types.ObjectId.isValid(id)
+            ? await Bookmark.findOne({ _id: id, user: user.userId })
+            : null;
+        if (!bookmark) {
+            return NextResponse.json(
+                { success: false, message: 'Bookmark not found' },
+                { status: 404 }
+            );
+        }
+
+        const { collectionId, note } = await request.json();
+
+        if (collectionId !== undefined) {
+            if (collectionId && !(await ownsCollection(user.userId, String(collectionId)))) {
+                return NextResponse.json(
+                    { success: false, message: 'Collection not found' },
+                    { status: 404 }
+                );
+            }
+            bookmark.collectionId = collectionId ? new Types.ObjectId(String(collectionId)) : null;
+        }
+
+        if (note !== undefined) {
+            if (typeof note !== 'string') {
+                return NextResponse.json(
+                    { success: false, message: 'Note must be text' },
+                    { status: 400 }
+                );
+            }
+            bookmark.note = note;
+        }
+
+        await bookmark.save();
+
+        return NextResponse.json({
+            success: true,
+            message: 'Bookmark updated',
+            data: bookmark,
+        });
+
+    } catch (error) {
+        console.error('Error updating bookmark:', error);
+
+        if (error instanceof Error && error.name === 'ValidationError') {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: 'Failed to update bookmark' },
+            { status: 500 }
+        );
+    }
+});
+
+// ============================================
+// DELETE - Unsave
+// ============================================
+
+export const DELETE = withAuth(async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        await dbConnect();
+
+        const { id } = await params;
+
+        const bookmark = Types.ObjectId.isValid(id)
+            ? await Bookmark.findOneAndDelete({ _id: id, user: user.userId })
+            : null;
+        if (!bookmark) {
+            return NextResponse.json(
+                { success: false, message: 'Bookmark not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: 'Removed from saved',
+        });
+
+    } catch (error) {
+        console.error('Error removing bookmark:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to remove bookmark' },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,117 @@
+/**
+ * Single Bookmark Collection API Route
+ * ====================================
+ * PATCH  /api/bookmarks/collections/[id] - Rename a collection
+ * DELETE /api/bookmarks/collections/[id] - Delete a collection; its bookmarks become unfiled
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { Bookmark, BookmarkCollection } from '@/lib/models';
+import { withAuth } from '@/lib/auth/withAuth';
+import { Types } from 'mongoose';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+// ============================================
+// PATCH - Rename Collection
+// ============================================
+
+export const PATCH = withAuth(async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        await dbConnect();
+
+        const { id } = await params;
+
+        const collection = Types.ObjectId.isValid(id)
+            ? await BookmarkCollection.findOne({ _id: id, user: user.userId })
+            : null;
+        if (!collection) {
+            return NextResponse.json(
+                { success: false, message: 'Collection not found' },
+                { status: 404 }
+            );
+        }
+
+        const { name } = await request.json();
+        if (typeof name !== 'string' || !name.trim()) {
+            return NextResponse.json(
+                { success: false, message: 'Collection name is required' },
+                { status: 400 }
+            );
+        }
+
+        collection.name = name;
+        await collection.save();
+
+        return NextResponse.json({
+            success: true,
+            message: 'Collection renamed',
+            data: { id: collection._id.toString(), name: collection.name },
+        });
+
+    } catch (error) {
+        console.error('Error renaming collection:', error);
+
+        if (error instanceof Error && error.name === 'ValidationError') {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 400 }
+            );
+        }
+
+        if (error instanceof Error && 'code' in error && (error as { code: number }).code === 11000) {
+            return NextResponse.json(
+                { success: false, message: 'You already have a collection with that name' },
+                { status: 409 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: 'Failed to rename collection' },
+            { status: 500 }
+        );
+    }
+});
+
+// ============================================
+// DELETE - Delete Collection
+// ============================================
+
+export const DELETE = withAuth(async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        await dbConnect();
+
+        const { id } = await params;
+
+        const collection = Types.ObjectId.isValid(id)
+            ? await BookmarkCollection.findOneAndDelete({ _id: id, user: user.userId })
+            : null;
+        if (!collection) {
+            return NextResponse.json(
+                { success: false, message: 'Collection not found' },
+                { status: 404 }
+            );
+        }
+
+        // Deleting a collection keeps what was saved in it
+        await Bookmark.updateMany(
+            { user: user.userId, collectionId: collection._id },
+            { $set: { collectionId: null } }
+        );
+
+        return NextResponse.json({
+            success: true,
+            message: 'Collection deleted',
+        });
+
+    } catch (error) {
+        console.error('Error deleting collection:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to delete collection' },
+            { status: 500 }
+        );
+    }
+});
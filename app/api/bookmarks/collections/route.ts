@@ -0,0 +1,96 @@
+/**
+ * Bookmark Collections API Route
+ * ==============================
+ * GET  /api/bookmarks/collections - The current user's collections with counts
+ * POST /api/bookmarks/collections - Create a collection
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { BookmarkCollection } from '@/lib/models';
+import { withAuth } from '@/lib/auth/withAuth';
+import { listCollections, MAX_COLLECTIONS } from '@/lib/bookmarks';
+
+// ============================================
+// GET - List Collections
+// ============================================
+
+export const GET = withAuth(async (_request, _context, user) => {
+    try {
+        await dbConnect();
+
+        const { collections, unfiled } = await listCollections(user.userId);
+
+        return NextResponse.json({
+            success: true,
+            data: collections,
+            unfiled,
+        });
+
+    } catch (error) {
+        console.error('Error fetching collections:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to fetch collections' },
+            { status: 500 }
+        );
+    }
+});
+
+// ============================================
+// POST - Create Collection
+// ============================================
+
+export const POST = withAuth(async (request: NextRequest, _context, user) => {
+    try {
+        await dbConnect();
+
+        const { name } = await request.json();
+        if (typeof name !== 'string' || !name.trim()) {
+            return NextResponse.json(
+                { success: false, message: 'Collection name is required' },
+                { status: 400 }
+            );
+        }
+
+        const count = await BookmarkCollection.countDocuments({ user: user.userId });
+        if (count >= MAX_COLLECTIONS) {
+            return NextResponse.json(
+                { success: false, message: `You can have at most ${MAX_COLLECTIONS} collections` },
+                { status: 400 }
+            );
+        }
+
+        const collection = await BookmarkCollection.create({ user: user.userId, name });
+
+        return NextResponse.json(
+            {
+                success: true,
+                message: 'Collection created',
+                data: { id: collection._id.toString(), name: collection.name, count: 0 },
+            },
+            { status: 201 }
+        );
+
+    } catch (error) {
+        console.error('Error creating collection:', error);
+
+        if (error instanceof Error && error.name === 'ValidationError') {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 400 }
+            );
+        }
+
+        if (error instanceof Error && 'code' in error && (error as { code: number }).code === 11000) {
+            return NextResponse.json(
+                { success: false, message: 'You already have a collection with that name' },
+                { status: 409 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: 'Failed to create collection' },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,163 @@
+/**
+ * Bookmarks API Route
+ * ===================
+ * GET  /api/bookmarks - The current user's saved posts (filter by collection, tag or question)
+ * POST /api/bookmarks - Save a question or answer
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { Bookmark } from '@/lib/models';
+import { withAuth } from '@/lib/auth/withAuth';
+import {
+    findBookmarkTarget,
+    ownsCollection,
+    listBookmarks,
+    listCollections,
+    bookmarkTagCounts,
+    BOOKMARK_PAGE_SIZE,
+} from '@/lib/bookmarks';
+import { Types } from 'mongoose';
+
+const MAX_LIMIT = 50;
+
+// ============================================
+// GET - List Bookmarks
+// ============================================
+
+export const GET = withAuth(async (request: NextRequest, _context, user) => {
+    try {
+        await dbConnect();
+
+        const { searchParams } = new URL(request.url);
+        const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+        const limit = Math.min(
+            MAX_LIMIT,
+            Math.max(1, parseInt(searchParams.get('limit') || '') || BOOKMARK_PAGE_SIZE)
+        );
+        const collection = searchParams.get('collection');
+        const tag = searchParams.get('tag')?.toLowerCase();
+        const question = searchParams.get('question');
+
+        if (collection && collection !== 'none' && !Types.ObjectId.isValid(collection)) {
+            return NextResponse.json(
+                { success: false, message: 'Invalid collection' },
+                { status: 400 }
+            );
+        }
+        if (question && !Types.ObjectId.isValid(question)) {
+            return NextResponse.json(
+                { success: false, message: 'Invalid question ID' },
+                { status: 400 }
+            );
+        }
+
+        // Looking up one question's bookmarks (the detail page toggle) skips the sidebar data
+        const [{ bookmarks, total }, sidebar] = await Promise.all([
+            listBookmarks(user.userId, { collection, tag, question, page, limit }),
+            question
+                ? null
+                : Promise.all([listCollections(user.userId), bookmarkTagCounts(user.userId)]),
+        ]);
+
+        return NextResponse.json({
+            success: true,
+            data: bookmarks,
+            pagination: {
+                page,
+                limit,
+                total,
+                pages: Math.ceil(total / limit),
+            },
+            ...(sidebar && {
+                collections: sidebar[0].collections,
+                unfiled: sidebar[0].unfiled,
+                tags: sidebar[1],
+            }),
+        });
+
+    } catch (error) {
+        console.error('Error fetching bookmarks:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to fetch saved posts' },
+            { status: 500 }
+        );
+    }
+});
+
+// ============================================
+// POST - Save a Post
+// ============================================
+
+export const POST = withAuth(async (request: NextRequest, _context, user) => {
+    try {
+        await dbConnect();
+
+        const { postType, postId, collectionId, note } = await request.json();
+
+        if (postType !== 'question' && postType !== 'answer') {
+            return NextResponse.json(
+                { success: false, message: 'Post type must be question or answer' },
+                { status: 400 }
+            );
+        }
+        if (note !== undefined && typeof note !== 'string') {
+            return NextResponse.json(
+                { success: false, message: 'Note must be text' },
+                { status: 400 }
+            );
+        }
+
+        const target = await findBookmarkTarget(postType, String(postId));
+        if (!target) {
+            return NextResponse.json(
+                { success: false, message: `${postType === 'question' ? 'Question' : 'Answer'} not found` },
+                { status: 404 }
+            );
+        }
+
+        if (collectionId && !(await ownsCollection(user.userId, String(collectionId)))) {
+            return NextResponse.json(
+                { success: false, message: 'Collection not found' },
+                { status: 404 }
+            );
+        }
+
+        const existing = await Bookmark.findOne({ user: user.userId, postType, post: target.post });
+        if (existing) {
+            return NextResponse.json(
+                { success: false, message: 'Already saved', data: existing },
+                { status: 409 }
+            );
+        }
+
+        const bookmark = await Bookmark.create({
+            user: user.userId,
+            postType,
+            post: target.post,
+            question: target.question,
+            collectionId: collectionId || null,
+            note: note ?? '',
+        });
+
+        return NextResponse.json(
+            { success: true, message: 'Saved', data: bookmark },
+            { status: 201 }
+        );
+
+    } catch (error) {
+        console.error('Error saving post:', error);
+
+        if (error instanceof Error && error.name === 'ValidationError') {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: 'Failed to save post' },
+            { status: 500 }
+        );
+    }
+});
@@ -9,7 +9,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { dbConnect } from '@/lib/db';
 import { Conversation, Message, AIUsageLog } from '@/lib/models';
-import { getCurrentUser } from '@/lib/auth';
+import { withAuth } from '@/lib/auth';
 
 interface RouteParams {
     params: Promise<{ id: string }>;
@@ -19,19 +19,10 @@ interface RouteParams {
 // GET - Get Conversation with Messages
 // ============================================
 
-export async function GET(request: NextRequest, { params }: RouteParams) {
+export const GET = withAuth(async (request: NextRequest, { params }: RouteParams, user) => {
     try {
         const { id } = await params;
 
-        // Authenticate user
-        const user = await getCurrentUser();
-        if (!user) {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401 }
-            );
-        }
-
         await dbConnect();
 
         // Fetch conversation
@@ -64,7 +55,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
             { status: 500 }
         );
     }
-}
+});
 
 // ============================================
 // PATCH - Update Conversation
@@ -74,19 +65,10 @@ interface UpdateConversationBody {
     title?: string;
 }
 
-export async function PATCH(request: NextRequest, { params }: RouteParams) {
+export const PATCH = withAuth(async (request: NextRequest, { params }: RouteParams, user) => {
     try {
         const { id } = await params;
 
-        // Authenticate user
-        const user = await getCurrentUser();
-        if (!user) {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401 }
-            );
-        }
-
         const body: UpdateConversationBody = await request.json();
 
         if (!body.title || body.title.trim().length === 0) {
@@ -123,25 +105,16 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
             { status: 500 }
         );
     }
-}
+});
 
 // ============================================
 // DELETE - Delete Conversation
 // ============================================
 
-export async function DELETE(request: NextRequest, { params }: RouteParams) {
+export const DELETE = withAuth(async (request: NextRequest, { params }: RouteParams, user) => {
     try {
         const { id } = await params;
 
-        // Authenticate user
-        const user = await getCurrentUser();
-        if (!user) {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401 }
-            );
-        }
-
         await dbConnect();
 
         // Find and delete conversation
@@ -174,4 +147,4 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
             { status: 500 }
         );
     }
-}
+});
@@ -8,24 +8,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { dbConnect } from '@/lib/db';
 import { Conversation, Message, User } from '@/lib/models';
-import { getCurrentUser } from '@/lib/auth';
+import { withAuth } from '@/lib/auth';
 import { CURRENT_PROMPT_VERSION } from '@/lib/ai';
 
 // ============================================
 // GET - List Conversations
 // ============================================
 
-export async function GET() {
+export const GET = withAuth(async (_request, _context, user) => {
     try {
-        // Authenticate user
-        const user = await getCurrentUser();
-        if (!user) {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401 }
-            );
-        }
-
         await dbConnect();
 
         // Fetch conversations sorted by most recent
@@ -45,7 +36,7 @@ export async function GET() {
             { status: 500 }
         );
     }
-}
+});
 
 // ============================================
 // POST - Create Conversation
@@ -56,17 +47,8 @@ interface CreateConversationBody {
     model?: string;
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, _context, user) => {
     try {
-        // Authenticate user
-        const user = await getCurrentUser();
-        if (!user) {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401 }
-            );
-        }
-
         const body: CreateConversationBody = await request.json();
 
         await dbConnect();
@@ -101,4 +83,4 @@ export async function POST(request: NextRequest) {
             { status: 500 }
         );
     }
-}
+});
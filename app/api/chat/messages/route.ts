@@ -7,7 +7,7 @@
 import { NextRequest } from 'next/server';
 import { dbConnect } from '@/lib/db';
 import { Conversation, Message, User, AIUsageLog, calculateCost } from '@/lib/models';
-import { getCurrentUser } from '@/lib/auth';
+import { withAuth } from '@/lib/auth';
 import {
     checkAIRateLimit,
     startRequest,
@@ -34,20 +34,10 @@ interface SendMessageBody {
 // POST - Send Message with Streaming Response
 // ============================================
 
-export async function POST(request: NextRequest) {
-    let userId: string | null = null;
+export const POST = withAuth(async (request: NextRequest, _context, user) => {
+    const userId = user.userId;
 
     try {
-        // Authenticate user
-        const user = await getCurrentUser();
-        if (!user) {
-            return new Response(
-                JSON.stringify({ error: 'Unauthorized' }),
-                { status: 401, headers: { 'Content-Type': 'application/json' } }
-            );
-        }
-        userId = user.userId;
-
         const body: SendMessageBody = await request.json();
 
         // Validate input
@@ -253,8 +243,6 @@ export async function POST(request: NextRequest) {
         );
     } finally {
         // Always clean up concurrent request tracking
-        if (userId) {
-            endRequest(userId);
-        }
+        endRequest(userId);
     }
-}
+});
@@ -0,0 +1,120 @@
+/**
+ * Single Comment API Route
+ * ========================
+ * PATCH  /api/comments/[id] - Edit a comment (author or moderator)
+ * DELETE /api/comments/[id] - Soft-delete a comment (author or moderator)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { Comment } from '@/lib/models';
+import { withAuth } from '@/lib/auth/withAuth';
+import { isModerator } from '@/lib/auth/roles';
+import { validateCommentBody, resolveMentions } from '@/lib/comments';
+import { Types } from 'mongoose';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+// ============================================
+// PATCH - Edit Comment
+// ============================================
+
+export const PATCH = withAuth(async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        await dbConnect();
+
+        const { id } = await params;
+
+        const comment = await Comment.findById(id);
+        if (!comment || comment.isDeleted) {
+            return NextResponse.json(
+                { success: false, message: 'Comment not found' },
+                { status: 404 }
+            );
+        }
+
+        if (comment.author.toString() !== user.userId && !isModerator(user.role)) {
+            return NextResponse.json(
+                { success: false, message: 'You can only edit your own comments' },
+                { status: 403 }
+            );
+        }
+
+        const { body } = await request.json();
+
+        const validation = validateCommentBody(body);
+        if (!validation.valid) {
+            return NextResponse.json(
+                { success: false, message: validation.error },
+                { status: 400 }
+            );
+        }
+
+        comment.body = body.trim();
+        comment.mentions = await resolveMentions(body, comment.author.toString());
+        comment.editedAt = new Date();
+        await comment.save();
+
+        await comment.populate('author', 'name avatar reputation');
+
+        return NextResponse.json({
+            success: true,
+            message: 'Comment updated',
+            data: comment,
+        });
+
+    } catch (error) {
+        console.error('Error editing comment:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to edit comment' },
+            { status: 500 }
+        );
+    }
+});
+
+// ============================================
+// DELETE - Soft-delete Comment
+// ============================================
+
+export const DELETE = withAuth(async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        await dbConnect();
+
+        const { id } = await params;
+
+        const comment = await Comment.findById(id);
+        if (!comment || comment.isDeleted) {
+            return NextResponse.json(
+                { success: false, message: 'Comment not found' },
+                { status: 404 }
+            );
+        }
+
+        if (comment.author.toString() !== user.userId && !isModerator(user.role)) {
+            return NextResponse.json(
+                { success: false, message: 'You can only delete your own comments' },
+                { status: 403 }
+            );
+        }
+
+        // Soft-delete so moderators can still audit the thread
+        comment.isDeleted = true;
+        comment.deletedAt = new Date();
+        comment.deletedBy = new Types.ObjectId(user.userId);
+        await comment.save();
+
+        return NextResponse.json({
+            success: true,
+            message: 'Comment deleted',
+        });
+
+    } catch (error) {
+        console.error('Error deleting comment:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to delete comment' },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,47 @@
+/**
+ * Digest Cron API Route
+ * =====================
+ * GET /api/cron/digests?frequency=daily|weekly - Send email digests of new
+ * questions in followed tags. Called by a scheduler with
+ * "Authorization: Bearer $CRON_SECRET" (the header Vercel Cron sends).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { sendDigests } from '@/lib/notifications';
+
+export async function GET(request: NextRequest) {
+    try {
+        const secret = process.env.CRON_SECRET;
+        if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const frequency = new URL(request.url).searchParams.get('frequency');
+        if (frequency !== 'daily' && frequency !== 'weekly') {
+            return NextResponse.json(
+                { success: false, message: 'frequency must be daily or weekly' },
+                { status: 400 }
+            );
+        }
+
+        await dbConnect();
+
+        const result = await sendDigests(frequency);
+
+        return NextResponse.json({
+            success: true,
+            message: `Sent ${result.sent} ${frequency} digests`,
+            data: result,
+        });
+    } catch (error) {
+        console.error('Error sending digests:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to send digests' },
+            { status: 500 }
+        );
+    }
+}
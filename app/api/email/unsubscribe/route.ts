@@ -0,0 +1,70 @@
+/**
+ * Unsubscribe API Route
+ * =====================
+ * GET  /api/email/unsubscribe?token= - What a token unsubscribes from
+ * POST /api/email/unsubscribe?token= - Unsubscribe. Also the one-click
+ *      target of the List-Unsubscribe header (RFC 8058), so no login is needed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { verifyUnsubscribeToken } from '@/lib/email';
+import { unsubscribeEmails } from '@/lib/notifications';
+
+function readToken(request: NextRequest) {
+    const token = new URL(request.url).searchParams.get('token');
+    return token ? verifyUnsubscribeToken(token) : null;
+}
+
+// ============================================
+// GET - Describe Token
+// ============================================
+
+export async function GET(request: NextRequest) {
+    const target = readToken(request);
+    if (!target) {
+        return NextResponse.json(
+            { success: false, message: 'Invalid unsubscribe link' },
+            { status: 400 }
+        );
+    }
+
+    return NextResponse.json({ success: true, data: { scope: target.scope } });
+}
+
+// ============================================
+// POST - Unsubscribe
+// ============================================
+
+export async function POST(request: NextRequest) {
+    try {
+        const target = readToken(request);
+        if (!target) {
+            return NextResponse.json(
+                { success: false, message: 'Invalid unsubscribe link' },
+                { status: 400 }
+            );
+        }
+
+        await dbConnect();
+
+        if (!(await unsubscribeEmails(target.userId, target.scope))) {
+            return NextResponse.json(
+                { success: false, message: 'Account not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: 'You have been unsubscribed',
+            data: { scope: target.scope },
+        });
+    } catch (error) {
+        console.error('Error unsubscribing:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to unsubscribe' },
+            { status: 500 }
+        );
+    }
+}
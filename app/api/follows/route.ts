@@ -0,0 +1,27 @@
+/**
+ * Follows API Route
+ * =================
+ * GET /api/follows - The questions and tags the current user follows
+ */
+
+import { NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { withAuth } from '@/lib/auth/withAuth';
+import { listFollows } from '@/lib/notifications';
+
+export const GET = withAuth(async (_request, _context, user) => {
+    try {
+        await dbConnect();
+
+        return NextResponse.json({
+            success: true,
+            data: await listFollows(user.userId),
+        });
+    } catch (error) {
+        console.error('Error fetching follows:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,42 @@
+/**
+ * Single Notification API Route
+ * =============================
+ * PATCH /api/notifications/[id] - Mark a notification read (or unread)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { withAuth } from '@/lib/auth/withAuth';
+import { markNotification, countUnread } from '@/lib/notifications';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+export const PATCH = withAuth(async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        await dbConnect();
+
+        const { id } = await params;
+        const body = await request.json().catch(() => ({}));
+        const isRead = body.isRead !== false;
+
+        if (!(await markNotification(user.userId, id, isRead))) {
+            return NextResponse.json(
+                { success: false, message: 'Notification not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: { id, isRead, unreadCount: await countUnread(user.userId) },
+        });
+    } catch (error) {
+        console.error('Error updating notification:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to update notification' },
+            { status: 500 }
+        );
+    }
+});
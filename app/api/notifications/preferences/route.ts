@@ -0,0 +1,94 @@
+/**
+ * Email Preferences API Route
+ * ===========================
+ * GET   /api/notifications/preferences - Which notification emails the current user gets
+ * PATCH /api/notifications/preferences - Change them
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { withAuth } from '@/lib/auth/withAuth';
+import { getEmailPreferences, updateEmailPreferences } from '@/lib/notifications';
+import type { EmailPreferences } from '@/lib/notifications';
+
+const DIGEST_OPTIONS = ['off', 'daily', 'weekly'];
+
+// ============================================
+// GET - Current Preferences
+// ============================================
+
+export const GET = withAuth(async (_request, _context, user) => {
+    try {
+        await dbConnect();
+
+        const preferences = await getEmailPreferences(user.userId);
+        if (!preferences) {
+            return NextResponse.json(
+                { success: false, message: 'User not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true, data: preferences });
+    } catch (error) {
+        console.error('Error fetching email preferences:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+});
+
+// ============================================
+// PATCH - Update Preferences
+// ============================================
+
+export const PATCH = withAuth(async (request: NextRequest, _context, user) => {
+    try {
+        const { answers, mentions, digest } = await request.json();
+        const changes: Partial<EmailPreferences> = {};
+
+        for (const [key, value] of Object.entries({ answers, mentions })) {
+            if (value === undefined) continue;
+            if (typeof value !== 'boolean') {
+                return NextResponse.json(
+                    { success: false, message: `${key} must be true or false` },
+                    { status: 400 }
+                );
+            }
+            changes[key as 'answers' | 'mentions'] = value;
+        }
+
+        if (digest !== undefined) {
+            if (!DIGEST_OPTIONS.includes(digest)) {
+                return NextResponse.json(
+                    { success: false, message: 'Digest must be off, daily, or weekly' },
+                    { status: 400 }
+                );
+            }
+            changes.digest = digest;
+        }
+
+        await dbConnect();
+
+        const preferences = await updateEmailPreferences(user.userId, changes);
+        if (!preferences) {
+            return NextResponse.json(
+                { success: false, message: 'User not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: 'Email preferences saved',
+            data: preferences,
+        });
+    } catch (error) {
+        console.error('Error updating email preferences:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to save email preferences' },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,78 @@
+/**
+ * Notifications API Route
+ * =======================
+ * GET   /api/notifications - The current user's notifications and unread count
+ * PATCH /api/notifications - Mark all notifications read
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { withAuth } from '@/lib/auth/withAuth';
+import { listNotifications, countUnread, markAllRead, NOTIFICATION_PAGE_SIZE } from '@/lib/notifications';
+
+const MAX_LIMIT = 50;
+
+// ============================================
+// GET - List Notifications
+// ============================================
+
+export const GET = withAuth(async (request: NextRequest, _context, user) => {
+    try {
+        await dbConnect();
+
+        const { searchParams } = new URL(request.url);
+        const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+        const limit = Math.min(
+            MAX_LIMIT,
+            Math.max(1, parseInt(searchParams.get('limit') || '') || NOTIFICATION_PAGE_SIZE)
+        );
+        const unreadOnly = searchParams.get('unread') === 'true';
+
+        const [{ notifications, total }, unreadCount] = await Promise.all([
+            listNotifications(user.userId, { unreadOnly, page, limit }),
+            countUnread(user.userId),
+        ]);
+
+        return NextResponse.json({
+            success: true,
+            data: notifications,
+            unreadCount,
+            pagination: {
+                page,
+                limit,
+                total,
+                pages: Math.ceil(total / limit),
+            },
+        });
+    } catch (error) {
+        console.error('Error fetching notifications:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to fetch notifications' },
+            { status: 500 }
+        );
+    }
+});
+
+// ============================================
+// PATCH - Mark All Read
+// ============================================
+
+export const PATCH = withAuth(async (_request, _context, user) => {
+    try {
+        await dbConnect();
+
+        const updated = await markAllRead(user.userId);
+
+        return NextResponse.json({
+            success: true,
+            message: 'All notifications marked as read',
+            data: { updated, unreadCount: 0 },
+        });
+    } catch (error) {
+        console.error('Error marking notifications read:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to update notifications' },
+            { status: 500 }
+        );
+    }
+});
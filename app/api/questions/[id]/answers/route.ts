@@ -7,35 +7,39 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { dbConnect } from '@/lib/db';
 import { Question, Answer } from '@/lib/models';
-import { getCurrentUser } from '@/lib/auth/jwt';
+import { withAuth } from '@/lib/auth/withAuth';
+import { addAnswerToQuestion, toLiveAnswer } from '@/lib/posts';
+import type { LiveAnswerAuthor } from '@/lib/posts';
+import { follow, notifyNewAnswer } from '@/lib/notifications';
+import { publishQuestionEvent } from '@/lib/realtime';
 
-export async function POST(
+export const POST = withAuth({ requireVerified: true }, async (
     request: NextRequest,
-    { params }: { params: Promise<{ id: string }> }
-) {
+    { params }: { params: Promise<{ id: string }> },
+    user
+) => {
     try {
-        // Authenticate user
-        const user = await getCurrentUser();
-        if (!user) {
-            return NextResponse.json(
-                { success: false, message: 'You must be logged in to post an answer' },
-                { status: 401 }
-            );
-        }
-
         await dbConnect();
 
         const { id: questionId } = await params;
 
         // Validate question exists
         const question = await Question.findById(questionId);
-        if (!question) {
+        if (!question || question.isDeleted) {
             return NextResponse.json(
                 { success: false, message: 'Question not found' },
                 { status: 404 }
             );
         }
 
+        // Closed questions no longer accept answers
+        if (question.isClosed) {
+            return NextResponse.json(
+                { success: false, message: 'This question is closed and no longer accepts answers' },
+                { status: 403 }
+            );
+        }
+
         // Parse request body
         const body = await request.json();
         const { body: answerBody } = body;
@@ -63,15 +67,22 @@ export async function POST(
             upvotes: [],
             downvotes: [],
             isAccepted: false,
-            comments: [],
         });
 
-        // Add answer to question's answers array
-        question.answers.push(answer._id);
-        await question.save();
+        // Add answer to question's answers array and bump its activity
+        await addAnswerToQuestion(question._id, answer._id, answer.createdAt);
+
+        // Tell followers, then follow the question so the answerer hears about what comes next
+        await notifyNewAnswer(question._id, answer._id, user.userId);
+        await follow(user.userId, 'question', question._id.toString());
 
         // Populate author info for response
-        await answer.populate('author', 'name avatar reputation');
+        const populated = await answer.populate<{ author: LiveAnswerAuthor }>('author', 'name avatar reputation');
+
+        publishQuestionEvent(question._id, {
+            type: 'answer',
+            answer: toLiveAnswer(populated),
+        });
 
         return NextResponse.json({
             success: true,
@@ -86,4 +97,4 @@ export async function POST(
             { status: 500 }
         );
     }
-}
+});
@@ -0,0 +1,178 @@
+/**
+ * Close Question API Route
+ * ========================
+ * POST /api/questions/[id]/close - Close a question (moderators) or cast a close vote
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Types } from 'mongoose';
+import { dbConnect } from '@/lib/db';
+import { Question, User } from '@/lib/models';
+import { withAuth } from '@/lib/auth/withAuth';
+import { isModerator } from '@/lib/auth/roles';
+import {
+    isCloseReason,
+    canCastCloseVote,
+    resolveCloseReason,
+    CLOSE_VOTE_REPUTATION,
+    CLOSE_VOTE_QUORUM,
+} from '@/lib/moderation';
+import { publishQuestionEvent } from '@/lib/realtime';
+
+export const POST = withAuth(async (
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> },
+    user
+) => {
+    try {
+        await dbConnect();
+
+        const { id: questionId } = await params;
+        const { reason, duplicateOf } = await request.json();
+
+        if (!isCloseReason(reason)) {
+            return NextResponse.json(
+                { success: false, message: 'Invalid close reason' },
+                { status: 400 }
+            );
+        }
+
+        // Duplicates must point at another existing question
+        if (reason === 'duplicate') {
+            if (!duplicateOf || !Types.ObjectId.isValid(duplicateOf) || duplicateOf === questionId) {
+                return NextResponse.json(
+                    { success: false, message: 'A valid duplicate question ID is required' },
+                    { status: 400 }
+                );
+            }
+
+            const target = await Question.exists({ _id: duplicateOf, isDeleted: { $ne: true } });
+            if (!target) {
+                return NextResponse.json(
+                    { success: false, message: 'Duplicate question not found' },
+                    { status: 404 }
+                );
+            }
+        }
+
+        const question = await Question.findById(questionId);
+        if (!question || question.isDeleted) {
+            return NextResponse.json(
+                { success: false, message: 'Question not found' },
+                { status: 404 }
+            );
+        }
+
+        if (question.isClosed) {
+            return NextResponse.json(
+                { success: false, message: 'Question is already closed' },
+                { status: 400 }
+            );
+        }
+
+        // Use the stored role and reputation rather than trusting the token
+        const dbUser = await User.findById(user.userId).select('role reputation');
+        if (!dbUser) {
+            return NextResponse.json(
+                { success: false, message: 'User not found' },
+                { status: 404 }
+            );
+        }
+
+        const closeFields = (closeReason: string, target: string | undefined) => ({
+            isClosed: true,
+            closedReason: closeReason,
+            closedAt: new Date(),
+            closedBy: new Types.ObjectId(user.userId),
+            duplicateOf: target ? new Types.ObjectId(target) : undefined,
+            reopenVotes: [],
+        });
+
+        let updated;
+
+        if (isModerator(dbUser.role)) {
+            // Moderators and admins close instantly
+            updated = await Question.findOneAndUpdate(
+                { _id: questionId, isClosed: false },
+                { $set: closeFields(reason, reason === 'duplicate' ? duplicateOf : undefined) },
+                { new: true }
+            );
+        } else {
+            if (!canCastCloseVote(dbUser.reputation)) {
+                return NextResponse.json(
+                    { success: false, message: `You need at least ${CLOSE_VOTE_REPUTATION} reputation to vote to close` },
+                    { status: 403 }
+                );
+            }
+
+            // Record the vote once per user
+            updated = await Question.findOneAndUpdate(
+                { _id: questionId, isClosed: false, 'closeVotes.user': { $ne: user.userId } },
+                {
+                    $push: {
+                        closeVotes: {
+                            user: user.userId,
+                            reason,
+                            duplicateOf: reason === 'duplicate' ? duplicateOf : undefined,
+                        },
+                    },
+                },
+                { new: true }
+            );
+
+            if (!updated) {
+                return NextResponse.json(
+                    { success: false, message: 'You have already voted to close this question' },
+                    { status: 409 }
+                );
+            }
+
+            // Close once quorum is reached
+            if (updated.closeVotes.length >= CLOSE_VOTE_QUORUM) {
+                const resolved = resolveCloseReason(updated.closeVotes);
+                updated = await Question.findOneAndUpdate(
+                    { _id: questionId, isClosed: false },
+                    { $set: closeFields(resolved.reason, resolved.duplicateOf) },
+                    { new: true }
+                ) || updated;
+            }
+        }
+
+        if (!updated) {
+            return NextResponse.json(
+                { success: false, message: 'Question is already closed' },
+                { status: 400 }
+            );
+        }
+
+        if (updated.isClosed) {
+            publishQuestionEvent(questionId, {
+                type: 'closed',
+                isClosed: true,
+                closedReason: updated.closedReason,
+                closedAt: updated.closedAt?.toISOString(),
+                duplicateOf: updated.duplicateOf?.toString() ?? null,
+            });
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: updated.isClosed ? 'Question closed' : 'Close vote recorded',
+            data: {
+                isClosed: updated.isClosed,
+                closedReason: updated.closedReason,
+                closedAt: updated.closedAt,
+                duplicateOf: updated.duplicateOf,
+                closeVotes: updated.closeVotes.length,
+                quorum: CLOSE_VOTE_QUORUM,
+            },
+        });
+
+    } catch (error) {
+        console.error('Error closing question:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to close question' },
+            { status: 500 }
+        );
+    }
+});
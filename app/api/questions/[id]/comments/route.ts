@@ -0,0 +1,133 @@
+/**
+ * Question Comments API Route
+ * ===========================
+ * GET  /api/questions/[id]/comments - List comments on a question (paginated)
+ * POST /api/questions/[id]/comments - Add a comment to a question
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { Question, Comment } from '@/lib/models';
+import { getCurrentUser } from '@/lib/auth/jwt';
+import { withAuth } from '@/lib/auth/withAuth';
+import { isModerator } from '@/lib/auth/roles';
+import { canViewDeletedPost } from '@/lib/posts';
+import { validateCommentBody, parseCommentPagination, resolveMentions, toLiveComment } from '@/lib/comments';
+import type { LiveCommentAuthor } from '@/lib/comments';
+import { notifyNewComment } from '@/lib/notifications';
+import { publishQuestionEvent } from '@/lib/realtime';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+// ============================================
+// GET - List Comments
+// ============================================
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        await dbConnect();
+
+        const { id: questionId } = await params;
+        const { searchParams } = new URL(request.url);
+        const { page, limit } = parseCommentPagination(searchParams);
+
+        // Moderators also see soft-deleted comments
+        const user = await getCurrentUser();
+
+        const question = await Question.findById(questionId).select('author isDeleted');
+        if (!question || (question.isDeleted && !canViewDeletedPost(question.author.toString(), user))) {
+            return NextResponse.json(
+                { success: false, message: 'Question not found' },
+                { status: 404 }
+            );
+        }
+
+        const { comments, total } = await Comment.findByPost('question', questionId, {
+            page,
+            limit,
+            includeDeleted: isModerator(user?.role),
+        });
+
+        return NextResponse.json({
+            success: true,
+            data: comments,
+            pagination: {
+                page,
+                limit,
+                total,
+                pages: Math.ceil(total / limit),
+            },
+        });
+    } catch (error) {
+        console.error('Error fetching question comments:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to fetch comments' },
+            { status: 500 }
+        );
+    }
+}
+
+// ============================================
+// POST - Create Comment
+// ============================================
+
+export const POST = withAuth({ requireVerified: true }, async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        await dbConnect();
+
+        const { id: questionId } = await params;
+
+        const question = await Question.findById(questionId).select('_id isDeleted');
+        if (!question || question.isDeleted) {
+            return NextResponse.json(
+                { success: false, message: 'Question not found' },
+                { status: 404 }
+            );
+        }
+
+        const { body } = await request.json();
+
+        const validation = validateCommentBody(body);
+        if (!validation.valid) {
+            return NextResponse.json(
+                { success: false, message: validation.error },
+                { status: 400 }
+            );
+        }
+
+        const comment = await Comment.create({
+            postType: 'question',
+            post: question._id,
+            question: question._id,
+            body: body.trim(),
+            author: user.userId,
+            mentions: await resolveMentions(body, user.userId),
+        });
+
+        await notifyNewComment(comment, user.userId);
+
+        const populated = await comment.populate<{ author: LiveCommentAuthor }>('author', 'name avatar reputation');
+
+        publishQuestionEvent(comment.question, {
+            type: 'comment',
+            postType: 'question',
+            postId: comment.post.toString(),
+            comment: toLiveComment(populated),
+        });
+
+        return NextResponse.json({
+            success: true,
+            message: 'Comment posted',
+            data: comment,
+        }, { status: 201 });
+
+    } catch (error) {
+        console.error('Error posting question comment:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to post comment' },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,62 @@
+/**
+ * Question Events API Route
+ * =========================
+ * GET /api/questions/[id]/events - Server-sent events for new answers, votes,
+ *                                  acceptance, close/reopen and comments
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Types } from 'mongoose';
+import { dbConnect } from '@/lib/db';
+import { Question } from '@/lib/models';
+import { createQuestionEventStream } from '@/lib/realtime';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+// ============================================
+// GET - Subscribe to Question Events
+// ============================================
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { id: questionId } = await params;
+
+        if (!Types.ObjectId.isValid(questionId)) {
+            return NextResponse.json(
+                { success: false, message: 'Question not found' },
+                { status: 404 }
+            );
+        }
+
+        await dbConnect();
+
+        // Deleted questions get no new activity, so there is nothing to stream
+        const exists = await Question.exists({ _id: questionId, isDeleted: { $ne: true } });
+        if (!exists) {
+            return NextResponse.json(
+                { success: false, message: 'Question not found' },
+                { status: 404 }
+            );
+        }
+
+        const stream = createQuestionEventStream(questionId, request.signal);
+
+        // Return SSE response
+        return new Response(stream, {
+            headers: {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache, no-transform',
+                'Connection': 'keep-alive',
+                'X-Accel-Buffering': 'no',
+            },
+        });
+    } catch (error) {
+        console.error('Error opening question event stream:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to open event stream' },
+            { status: 500 }
+        );
+    }
+}
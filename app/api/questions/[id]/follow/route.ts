@@ -0,0 +1,109 @@
+/**
+ * Follow Question API Route
+ * =========================
+ * GET    /api/questions/[id]/follow - Whether the current user follows the question
+ * POST   /api/questions/[id]/follow - Follow a question
+ * DELETE /api/questions/[id]/follow - Unfollow a question
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Types } from 'mongoose';
+import { dbConnect } from '@/lib/db';
+import { Question } from '@/lib/models';
+import { getCurrentUser } from '@/lib/auth/jwt';
+import { withAuth } from '@/lib/auth/withAuth';
+import { follow, unfollow, isFollowing } from '@/lib/notifications';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+// ============================================
+// GET - Follow Status
+// ============================================
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ success: true, data: { following: false } });
+        }
+
+        await dbConnect();
+
+        const { id } = await params;
+
+        return NextResponse.json({
+            success: true,
+            data: { following: await isFollowing(user.userId, 'question', id) },
+        });
+    } catch (error) {
+        console.error('Error fetching follow status:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+// ============================================
+// POST - Follow
+// ============================================
+
+export const POST = withAuth(async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        await dbConnect();
+
+        const { id } = await params;
+
+        const question = Types.ObjectId.isValid(id)
+            ? await Question.findById(id).select('_id isDeleted')
+            : null;
+        if (!question || question.isDeleted) {
+            return NextResponse.json(
+                { success: false, message: 'Question not found' },
+                { status: 404 }
+            );
+        }
+
+        await follow(user.userId, 'question', question._id.toString());
+
+        return NextResponse.json({
+            success: true,
+            message: 'Following question',
+            data: { following: true },
+        });
+    } catch (error) {
+        console.error('Error following question:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to follow question' },
+            { status: 500 }
+        );
+    }
+});
+
+// ============================================
+// DELETE - Unfollow
+// ============================================
+
+export const DELETE = withAuth(async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        await dbConnect();
+
+        const { id } = await params;
+
+        await unfollow(user.userId, 'question', id);
+
+        return NextResponse.json({
+            success: true,
+            message: 'Unfollowed question',
+            data: { following: false },
+        });
+    } catch (error) {
+        console.error('Error unfollowing question:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to unfollow question' },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,52 @@
+/**
+ * Purge Question API Route
+ * ========================
+ * DELETE /api/questions/[id]/purge - Permanently remove a deleted question (admin only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { Question } from '@/lib/models';
+import { withAuth } from '@/lib/auth/withAuth';
+import { purgeQuestion } from '@/lib/posts';
+
+export const DELETE = withAuth({ roles: ['admin'] }, async (
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) => {
+    try {
+        await dbConnect();
+
+        const { id: questionId } = await params;
+
+        const question = await Question.findById(questionId);
+        if (!question) {
+            return NextResponse.json(
+                { success: false, message: 'Question not found' },
+                { status: 404 }
+            );
+        }
+
+        // Purging is irreversible, so require the soft-delete step first
+        if (!question.isDeleted) {
+            return NextResponse.json(
+                { success: false, message: 'Only deleted questions can be purged' },
+                { status: 400 }
+            );
+        }
+
+        await purgeQuestion(question);
+
+        return NextResponse.json({
+            success: true,
+            message: 'Question permanently deleted',
+        });
+
+    } catch (error) {
+        console.error('Error purging question:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to purge question' },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,121 @@
+/**
+ * Reopen Question API Route
+ * =========================
+ * POST /api/questions/[id]/reopen - Reopen a question (moderators) or cast a reopen vote
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { Question, User } from '@/lib/models';
+import { withAuth } from '@/lib/auth/withAuth';
+import { isModerator } from '@/lib/auth/roles';
+import { canCastCloseVote, CLOSE_VOTE_REPUTATION, CLOSE_VOTE_QUORUM } from '@/lib/moderation';
+import { publishQuestionEvent } from '@/lib/realtime';
+
+// Fields reset when a question is reopened
+const REOPEN_UPDATE = {
+    $set: { isClosed: false, closeVotes: [], reopenVotes: [] },
+    $unset: { closedReason: 1, closedAt: 1, closedBy: 1, duplicateOf: 1 },
+};
+
+export const POST = withAuth(async (
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> },
+    user
+) => {
+    try {
+        await dbConnect();
+
+        const { id: questionId } = await params;
+
+        const question = await Question.findById(questionId);
+        if (!question || question.isDeleted) {
+            return NextResponse.json(
+                { success: false, message: 'Question not found' },
+                { status: 404 }
+            );
+        }
+
+        if (!question.isClosed) {
+            return NextResponse.json(
+                { success: false, message: 'Question is not closed' },
+                { status: 400 }
+            );
+        }
+
+        const dbUser = await User.findById(user.userId).select('role reputation');
+        if (!dbUser) {
+            return NextResponse.json(
+                { success: false, message: 'User not found' },
+                { status: 404 }
+            );
+        }
+
+        let updated;
+
+        if (isModerator(dbUser.role)) {
+            // Moderators and admins reopen instantly
+            updated = await Question.findOneAndUpdate(
+                { _id: questionId, isClosed: true },
+                REOPEN_UPDATE,
+                { new: true }
+            );
+        } else {
+            if (!canCastCloseVote(dbUser.reputation)) {
+                return NextResponse.json(
+                    { success: false, message: `You need at least ${CLOSE_VOTE_REPUTATION} reputation to vote to reopen` },
+                    { status: 403 }
+                );
+            }
+
+            updated = await Question.findOneAndUpdate(
+                { _id: questionId, isClosed: true, 'reopenVotes.user': { $ne: user.userId } },
+                { $push: { reopenVotes: { user: user.userId } } },
+                { new: true }
+            );
+
+            if (!updated) {
+                return NextResponse.json(
+                    { success: false, message: 'You have already voted to reopen this question' },
+                    { status: 409 }
+                );
+            }
+
+            if (updated.reopenVotes.length >= CLOSE_VOTE_QUORUM) {
+                updated = await Question.findOneAndUpdate(
+                    { _id: questionId, isClosed: true },
+                    REOPEN_UPDATE,
+                    { new: true }
+                ) || updated;
+            }
+        }
+
+        if (!updated) {
+            return NextResponse.json(
+                { success: false, message: 'Question is not closed' },
+                { status: 400 }
+            );
+        }
+
+        if (!updated.isClosed) {
+            publishQuestionEvent(questionId, { type: 'closed', isClosed: false });
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: updated.isClosed ? 'Reopen vote recorded' : 'Question reopened',
+            data: {
+                isClosed: updated.isClosed,
+                reopenVotes: updated.reopenVotes.length,
+                quorum: CLOSE_VOTE_QUORUM,
+            },
+        });
+
+    } catch (error) {
+        console.error('Error reopening question:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to reopen question' },
+            { status: 500 }
+        );
+    }
+});
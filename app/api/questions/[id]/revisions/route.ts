@@ -0,0 +1,44 @@
+/**
+ * Question Revisions API Route
+ * ============================
+ * GET /api/questions/[id]/revisions - Edit history of a question, newest first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { Question, Revision } from '@/lib/models';
+import { getCurrentUser } from '@/lib/auth/jwt';
+import { canViewDeletedPost } from '@/lib/posts';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        await dbConnect();
+
+        const { id: questionId } = await params;
+
+        const question = await Question.findById(questionId).select('author isDeleted');
+        if (!question || (question.isDeleted && !canViewDeletedPost(question.author.toString(), await getCurrentUser()))) {
+            return NextResponse.json(
+                { success: false, message: 'Question not found' },
+                { status: 404 }
+            );
+        }
+
+        const revisions = await Revision.findByPost('question', questionId);
+
+        return NextResponse.json({
+            success: true,
+            data: revisions,
+        });
+
+    } catch (error) {
+        console.error('Error fetching question revisions:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to fetch revisions' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,12 +1,20 @@
 /**
  * Single Question API Route
  * ==========================
- * GET /api/questions/[id] - Get a single question by ID
+ * GET    /api/questions/[id] - Get a single question by ID
+ * PATCH  /api/questions/[id] - Edit a question (author or moderator)
+ * DELETE /api/questions/[id] - Soft-delete a question and its answers (author or moderator)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { dbConnect } from '@/lib/db';
-import { Question } from '@/lib/models';
+import { Question, Answer, User } from '@/lib/models';
+import { getCurrentUser } from '@/lib/auth/jwt';
+import { withAuth } from '@/lib/auth/withAuth';
+import { isModerator } from '@/lib/auth/roles';
+import { applyEdit, REVISION_SUMMARY_MAX_LENGTH } from '@/lib/revisions';
+import { softDeleteQuestion, canViewDeletedPost } from '@/lib/posts';
+import { resolveTagNames, findNewTags, canCreateTag, TAG_CREATE_REPUTATION } from '@/lib/tags';
 
 export async function GET(
     request: NextRequest,
@@ -19,12 +27,14 @@ export async function GET(
 
         const question = await Question.findById(id)
             .populate('author', 'name avatar reputation')
+            .populate('duplicateOf', 'title')
+            .populate('editedBy', 'name')
             .populate({
                 path: 'answers',
-                populate: {
-                    path: 'author',
-                    select: 'name avatar reputation'
-                }
+                populate: [
+                    { path: 'author', select: 'name avatar reputation' },
+                    { path: 'editedBy', select: 'name' },
+                ]
             });
 
         if (!question) {
@@ -34,13 +44,49 @@ export async function GET(
             );
         }
 
+        const viewer = await getCurrentUser();
+        const viewerIsModerator = !!viewer && isModerator(viewer.role);
+        const authorId = (question.populated('author') ?? question.author)?.toString();
+
+        if (question.isDeleted && !canViewDeletedPost(authorId, viewer)) {
+            return NextResponse.json(
+                { success: false, message: 'Question not found' },
+                { status: 404 }
+            );
+        }
+
         // Increment view count
-        question.views = (question.views || 0) + 1;
-        await question.save();
+        if (!question.isDeleted) {
+            question.views = (question.views || 0) + 1;
+            await question.save();
+        }
+
+        const data = question.toJSON();
+
+        // Answers deleted on their own are removed from the list; show them to whoever can undelete them
+        if (viewer) {
+            const deletedAnswers = await Answer.find({
+                question: question._id,
+                isDeleted: true,
+                deletedWithQuestion: { $ne: true },
+                ...(viewerIsModerator ? {} : { author: viewer.userId }),
+            })
+                .populate('author', 'name avatar reputation')
+                .sort({ createdAt: 1 });
+            (data.answers as unknown[]).push(...deletedAnswers.map((a) => a.toJSON()));
+        }
+
+        // Pin the accepted answer first, keeping the rest in their original order
+        const acceptedId = question.acceptedAnswer?.toString();
+        if (acceptedId) {
+            data.answers = [...data.answers].sort((a, b) =>
+                Number(b._id.toString() === acceptedId) - Number(a._id.toString() === acceptedId)
+            );
+        }
 
         return NextResponse.json({
             success: true,
-            data: question,
+            data,
         });
     } catch (error) {
         console.error('Error fetching question:', error);
@@ -50,3 +96,150 @@ export async function GET(
         );
     }
 }
+
+export const PATCH = withAuth(async (
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> },
+    user
+) => {
+    try {
+        await dbConnect();
+
+        const { id } = await params;
+
+        const question = await Question.findById(id);
+        if (!question || question.isDeleted) {
+            return NextResponse.json(
+                { success: false, message: 'Question not found' },
+                { status: 404 }
+            );
+        }
+
+        if (question.author.toString() !== user.userId && !isModerator(user.role)) {
+            return NextResponse.json(
+                { success: false, message: 'You can only edit your own questions' },
+                { status: 403 }
+            );
+        }
+
+        const { title, body, tags, summary } = await request.json();
+
+        if (summary !== undefined && (typeof summary !== 'string' || summary.length > REVISION_SUMMARY_MAX_LENGTH)) {
+            return NextResponse.json(
+                { success: false, message: `Edit summary cannot exceed ${REVISION_SUMMARY_MAX_LENGTH} characters` },
+                { status: 400 }
+            );
+        }
+
+        // Tags added by this edit that don't exist yet need enough reputation
+        if (Array.isArray(tags)) {
+            const added = (await resolveTagNames(tags.map(String))).filter((t) => !question.tags.includes(t));
+            const newTags = await findNewTags(added);
+            if (newTags.length > 0) {
+                const dbUser = await User.findById(user.userId).select('role reputation');
+                if (!dbUser || !canCreateTag(dbUser.role, dbUser.reputation)) {
+                    return NextResponse.json(
+                        {
+                            success: false,
+                            message: `Creating new tags requires ${TAG_CREATE_REPUTATION} reputation: ${newTags.join(', ')}`,
+                        },
+                        { status: 403 }
+                    );
+                }
+            }
+        }
+
+        const result = await applyEdit({
+            postType: 'question',
+            post: question,
+            editorId: user.userId,
+            changes: { title, body, tags },
+            summary,
+        });
+
+        if (result.status === 'unchanged') {
+            return NextResponse.json(
+                { success: false, message: 'No changes to save' },
+                { status: 400 }
+            );
+        }
+
+        if (result.status === 'conflict') {
+            return NextResponse.json(
+                { success: false, message: 'This question was edited by someone else while you were editing. Reload it and try again.' },
+                { status: 409 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: 'Question updated',
+            data: {
+                title: question.title,
+                body: question.body,
+                tags: question.tags,
+                editedAt: question.editedAt,
+                revision: result.revision.revision,
+            },
+        });
+    } catch (error) {
+        console.error('Error editing question:', error);
+
+        // Handle validation errors
+        if (error instanceof Error && error.name === 'ValidationError') {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+});
+
+export const DELETE = withAuth(async (
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> },
+    user
+) => {
+    try {
+        await dbConnect();
+
+        const { id } = await params;
+
+        const question = await Question.findById(id);
+        if (!question || question.isDeleted) {
+            return NextResponse.json(
+                { success: false, message: 'Question not found' },
+                { status: 404 }
+            );
+        }
+
+        if (question.author.toString() !== user.userId && !isModerator(user.role)) {
+            return NextResponse.json(
+                { success: false, message: 'You can only delete your own questions' },
+                { status: 403 }
+            );
+        }
+
+        await softDeleteQuestion(question, user.userId);
+
+        return NextResponse.json({
+            success: true,
+            message: 'Question deleted',
+            data: {
+                isDeleted: true,
+                deletedAt: question.deletedAt,
+            },
+        });
+    } catch (error) {
+        console.error('Error deleting question:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,73 @@
+/**
+ * Undelete Question API Route
+ * ===========================
+ * POST /api/questions/[id]/undelete - Restore a deleted question within the undelete window (author or moderator)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { Question } from '@/lib/models';
+import { withAuth } from '@/lib/auth/withAuth';
+import { restoreQuestion, isWithinUndeleteWindow, canUndeletePost, UNDELETE_WINDOW_DAYS } from '@/lib/posts';
+
+export const POST = withAuth(async (
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> },
+    user
+) => {
+    try {
+        await dbConnect();
+
+        const { id: questionId } = await params;
+
+        const question = await Question.findById(questionId);
+        if (!question) {
+            return NextResponse.json(
+                { success: false, message: 'Question not found' },
+                { status: 404 }
+            );
+        }
+
+        if (!question.isDeleted) {
+            return NextResponse.json(
+                { success: false, message: 'Question is not deleted' },
+                { status: 400 }
+            );
+        }
+
+        const authorId = question.author.toString();
+        if (!canUndeletePost({ authorId, deletedById: question.deletedBy?.toString() }, user)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: authorId === user.userId
+                        ? 'This question was deleted by a moderator; only a moderator can undelete it'
+                        : 'You can only undelete your own questions',
+                },
+                { status: 403 }
+            );
+        }
+
+        if (!isWithinUndeleteWindow(question.deletedAt)) {
+            return NextResponse.json(
+                { success: false, message: `Questions can only be undeleted within ${UNDELETE_WINDOW_DAYS} days of deletion` },
+                { status: 403 }
+            );
+        }
+
+        await restoreQuestion(question);
+
+        return NextResponse.json({
+            success: true,
+            message: 'Question restored',
+            data: { isDeleted: false },
+        });
+
+    } catch (error) {
+        console.error('Error undeleting question:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to undelete question' },
+            { status: 500 }
+        );
+    }
+});
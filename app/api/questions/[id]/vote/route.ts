@@ -7,23 +7,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { dbConnect } from '@/lib/db';
 import { Question } from '@/lib/models';
-import { getCurrentUser } from '@/lib/auth/jwt';
-import { Types } from 'mongoose';
+import { withAuth } from '@/lib/auth/withAuth';
+import { applyVoteChange } from '@/lib/reputation';
+import { currentVote, voteUpdate, votesAfter } from '@/lib/posts';
+import { publishQuestionEvent } from '@/lib/realtime';
 
-export async function POST(
+export const POST = withAuth({ requireVerified: true }, async (
     request: NextRequest,
-    { params }: { params: Promise<{ id: string }> }
-) {
+    { params }: { params: Promise<{ id: string }> },
+    user
+) => {
     try {
-        // Authenticate user
-        const user = await getCurrentUser();
-        if (!user) {
-            return NextResponse.json(
-                { success: false, message: 'You must be logged in to vote' },
-                { status: 401 }
-            );
-        }
-
         await dbConnect();
 
         const { id: questionId } = await params;
@@ -37,8 +31,8 @@ export async function POST(
             );
         }
 
-        const question = await Question.findById(questionId);
-        if (!question) {
+        const question = await Question.findById(questionId).select('author isDeleted');
+        if (!question || question.isDeleted) {
             return NextResponse.json(
                 { success: false, message: 'Question not found' },
                 { status: 404 }
@@ -46,43 +40,59 @@ export async function POST(
         }
 
         const userId = user.userId;
+        const authorId = question.author.toString();
 
-        // Check current vote state
-        const hasUpvoted = question.upvotes.some((id: any) => id.toString() === userId);
-        const hasDownvoted = question.downvotes.some((id: any) => id.toString() === userId);
+        // Users cannot vote on their own posts
+        if (authorId === userId) {
+            return NextResponse.json(
+                { success: false, message: 'You cannot vote on your own post' },
+                { status: 403 }
+            );
+        }
 
-        if (voteType === 'upvote') {
-            if (hasUpvoted) {
-                // Remove upvote (toggle off)
-                question.upvotes = question.upvotes.filter((id: any) => id.toString() !== userId);
-            } else {
-                // Add upvote, remove downvote if exists
-                if (hasDownvoted) {
-                    question.downvotes = question.downvotes.filter((id: any) => id.toString() !== userId);
-                }
-                question.upvotes.push(new Types.ObjectId(userId));
-            }
-        } else {
-            if (hasDownvoted) {
-                // Remove downvote (toggle off)
-                question.downvotes = question.downvotes.filter((id: any) => id.toString() !== userId);
-            } else {
-                // Add downvote, remove upvote if exists
-                if (hasUpvoted) {
-                    question.upvotes = question.upvotes.filter((id: any) => id.toString() !== userId);
-                }
-                question.downvotes.push(new Types.ObjectId(userId));
-            }
+        // Toggle the vote and recompute the score in one atomic write
+        const before = await Question.findOneAndUpdate(
+            { _id: questionId, isDeleted: { $ne: true } },
+            voteUpdate(userId, voteType),
+            { returnDocument: 'before', updatePipeline: true }
+        );
+        if (!before) {
+            return NextResponse.json(
+                { success: false, message: 'Question not found' },
+                { status: 404 }
+            );
         }
 
-        await question.save();
+        const previousVote = currentVote(before, userId);
+        const nextVote = voteType === previousVote ? null : voteType;
+        const votes = votesAfter(before, userId, nextVote);
+
+        // Reconcile reputation for the vote toggle
+        await applyVoteChange({
+            voterId: userId,
+            authorId,
+            postId: questionId,
+            postType: 'question',
+            previousVote,
+            nextVote,
+        });
+
+        publishQuestionEvent(questionId, {
+            type: 'vote',
+            postType: 'question',
+            postId: questionId,
+            upvotes: votes.upvotes.map(String),
+            downvotes: votes.downvotes.map(String),
+            score: votes.score,
+        });
 
         return NextResponse.json({
             success: true,
             data: {
-                upvotes: question.upvotes,
-                downvotes: question.downvotes,
-                voteScore: question.upvotes.length - question.downvotes.length,
+                upvotes: votes.upvotes,
+                downvotes: votes.downvotes,
+                score: votes.score,
+                voteScore: votes.score,
             },
         });
 
@@ -93,4 +103,4 @@ export async function POST(
             { status: 500 }
         );
     }
-}
+});
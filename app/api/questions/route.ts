@@ -6,69 +6,112 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { dbConnect } from '@/lib/db';
-import { Question } from '@/lib/models';
-
-// GET /api/questions - List questions with filtering
+import { Question, User } from '@/lib/models';
+import {
+    resolveTagNames,
+    findNewTags,
+    updateTagCounts,
+    canCreateTag,
+    TAG_CREATE_REPUTATION,
+} from '@/lib/tags';
+import {
+    listQuestions,
+    facetQuestions,
+    decodeCursor,
+    sortFilter,
+    bucketStart,
+    isQuestionSort,
+    isDateBucket,
+    DEFAULT_PAGE_SIZE,
+    MAX_PAGE_SIZE,
+} from '@/lib/questions';
+import { parseSearchQuery, compileSearchQuery, resolveQueryTags } from '@/lib/search';
+import { getCurrentUser } from '@/lib/auth/jwt';
+import { withAuth } from '@/lib/auth/withAuth';
+import { follow, notifyNewQuestion } from '@/lib/notifications';
+
+// GET /api/questions - List questions with filtering, facets and cursor pagination
 export async function GET(request: NextRequest) {
     try {
         await dbConnect();
 
         const { searchParams } = new URL(request.url);
-        const page = parseInt(searchParams.get('page') || '1');
-        const limit = parseInt(searchParams.get('limit') || '10');
+        const limit = Math.min(
+            MAX_PAGE_SIZE,
+            Math.max(1, parseInt(searchParams.get('limit') || '') || DEFAULT_PAGE_SIZE)
+        );
         const tag = searchParams.get('tag');
-        const search = searchParams.get('search');
-        const sort = searchParams.get('sort') || 'newest';
+        const search = searchParams.get('search')?.trim();
+        const answered = searchParams.get('answered');
+        const created = searchParams.get('created');
+        const requestedSort = searchParams.get('sort');
+        const sort = isQuestionSort(requestedSort) ? requestedSort : 'newest';
+
+        const cursorParam = searchParams.get('cursor');
+        const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+        if (cursorParam && !cursor) {
+            return NextResponse.json(
+                { success: false, message: 'Invalid cursor' },
+                { status: 400 }
+            );
+        }
 
         // Build query
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const query: any = {};
+        // Soft-deleted questions never appear in listings or search
+        const filter: Record<string, unknown> = { isDeleted: { $ne: true }, ...sortFilter(sort) };
 
         if (tag) {
-            query.tags = tag.toLowerCase();
+            // Synonyms (e.g. js) list the canonical tag's questions
+            const [canonical] = await resolveTagNames([tag]);
+            filter.tags = canonical ?? tag.toLowerCase();
         }
 
-        // Sorting options
-        type SortOrder = 1 | -1;
-        const sortOptions: Record<string, Record<string, SortOrder>> = {
-            newest: { createdAt: -1 },
-            oldest: { createdAt: 1 },
-            votes: { 'upvotes.length': -1 },
-            views: { views: -1 },
-        };
+        if (answered === 'true') {
+            filter.answerCount = { $gt: 0 };
+        } else if (answered === 'false') {
+            filter.answerCount = 0;
+        }
 
-        let questions;
+        if (isDateBucket(created)) {
+            filter.createdAt = { $gte: bucketStart(created) };
+        }
 
+        // Search supports the query language ([tag], score:>=3, is:accepted, ...);
+        // operators become filters and the remaining words go to the text index
+        let text: string | undefined;
+        let searchErrors: { token: string; message: string }[] = [];
         if (search) {
-            // Text search
-            questions = await Question.find(
-                { $text: { $search: search }, ...query },
-                { score: { $meta: 'textScore' } }
-            )
-                .populate('author', 'name avatar reputation')
-                .sort({ score: { $meta: 'textScore' } })
-                .skip((page - 1) * limit)
-                .limit(limit);
-        } else {
-            // Regular query
-            questions = await Question.find(query)
-                .populate('author', 'name avatar reputation')
-                .sort(sortOptions[sort] || sortOptions.newest)
-                .skip((page - 1) * limit)
-                .limit(limit);
+            const query = await resolveQueryTags(parseSearchQuery(search));
+            const needsViewer = query.nodes.some((node) => node.type === 'user' && node.id === 'me');
+            const viewer = needsViewer ? await getCurrentUser() : null;
+            const compiled = compileSearchQuery(query, { viewerId: viewer?.userId });
+
+            Object.assign(filter, compiled.filter);
+            text = compiled.text;
+            searchErrors = query.errors;
         }
 
-        const total = await Question.countDocuments(query);
+        // Totals and facets count the same matches as the list, including the text search
+        const match = text ? { $text: { $search: text }, ...filter } : filter;
+
+        const [{ questions, nextCursor }, total, facets] = await Promise.all([
+            listQuestions({ filter, search: text, sort, limit, cursor }),
+            Question.countDocuments(match),
+            // Facets describe the whole result set, so only the first page carries them
+            cursor ? null : facetQuestions(match),
+        ]);
 
         return NextResponse.json({
             success: true,
             data: questions,
             pagination: {
-                page,
                 limit,
                 total,
-                pages: Math.ceil(total / limit),
+                nextCursor,
+                hasMore: nextCursor !== null,
             },
+            ...(facets && { facets }),
+            ...(searchErrors.length > 0 && { searchErrors }),
         });
     } catch (error) {
         console.error('Error fetching questions:', error);
@@ -80,59 +123,45 @@ export async function GET(request: NextRequest) {
 }
 
 // POST /api/questions - Create new question
-export async function POST(request: NextRequest) {
+export const POST = withAuth({ requireVerified: true }, async (request: NextRequest, _context, user) => {
     try {
         await dbConnect();
 
-        // Get user from JWT cookie
-        const accessToken = request.cookies.get('access_token')?.value;
+        const userId = user.userId;
 
-        if (!accessToken) {
-            return NextResponse.json(
-                { success: false, message: 'Authentication required' },
-                { status: 401 }
-            );
-        }
+        const body = await request.json();
+        const { title, body: questionBody, tags } = body;
 
-        // Verify and decode token
-        let userId: string | null = null;
-        try {
-            const parts = accessToken.split('.');
-            if (parts.length === 3) {
-                const payload = JSON.parse(atob(parts[1].replace(/-/g, '+').replace(/_/g, '/')));
-                // Check if token is expired
-                if (payload.exp && payload.exp < Math.floor(Date.now() / 1000)) {
-                    return NextResponse.json(
-                        { success: false, message: 'Token expired' },
-                        { status: 401 }
-                    );
-                }
-                userId = payload.userId;
+        const resolvedTags = Array.isArray(tags) ? await resolveTagNames(tags.map(String)) : [];
+
+        // Brand-new tags need enough reputation so the tag space doesn't fragment
+        const newTags = await findNewTags(resolvedTags);
+        if (newTags.length > 0) {
+            const dbUser = await User.findById(userId).select('role reputation');
+            if (!dbUser || !canCreateTag(dbUser.role, dbUser.reputation)) {
+                return NextResponse.json(
+                    {
+                        success: false,
+                        message: `Creating new tags requires ${TAG_CREATE_REPUTATION} reputation: ${newTags.join(', ')}`,
+                    },
+                    { status: 403 }
+                );
             }
-        } catch {
-            return NextResponse.json(
-                { success: false, message: 'Invalid token' },
-                { status: 401 }
-            );
-        }
-
-        if (!userId) {
-            return NextResponse.json(
-                { success: false, message: 'Authentication required' },
-                { status: 401 }
-            );
         }
 
-        const body = await request.json();
-        const { title, body: questionBody, tags } = body;
-
         const question = await Question.create({
             title,
             body: questionBody,
-            tags: tags?.map((t: string) => t.toLowerCase()) || [],
+            tags: resolvedTags,
             author: userId,
         });
 
+        await updateTagCounts([], question.tags, userId);
+
+        // Authors follow their own questions so they hear about answers
+        await follow(userId, 'question', question._id.toString());
+        await notifyNewQuestion(question._id, question.tags, userId);
+
         await question.populate('author', 'name avatar reputation');
 
         return NextResponse.json({
@@ -155,4 +184,4 @@ export async function POST(request: NextRequest) {
             { status: 500 }
         );
     }
-}
+});
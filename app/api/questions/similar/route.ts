@@ -0,0 +1,61 @@
+/**
+ * Similar Questions API Route
+ * ===========================
+ * POST /api/questions/similar - Existing questions that look like a draft,
+ * so the author can check for a duplicate before posting
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { withAuth, checkRateLimit, getRateLimitKey, RATE_LIMIT_CONFIGS } from '@/lib/auth';
+import { findSimilarQuestions } from '@/lib/questions';
+
+// Drafts are compared on their opening text; longer input is cut off
+const MAX_TITLE_LENGTH = 150;
+const MAX_BODY_LENGTH = 10000;
+
+export const POST = withAuth(async (request: NextRequest, _context, user) => {
+    try {
+        // Called while typing, and embedding mode costs an API request each time
+        const rateLimit = checkRateLimit(getRateLimitKey(user.userId, 'similar-questions'), RATE_LIMIT_CONFIGS.api);
+        if (!rateLimit.allowed) {
+            return NextResponse.json(
+                { success: false, message: 'Too many requests. Please slow down.' },
+                {
+                    status: 429,
+                    headers: { 'Retry-After': String(Math.ceil(rateLimit.resetIn / 1000)) },
+                }
+            );
+        }
+
+        const body = await request.json();
+        const title = typeof body.title === 'string' ? body.title.trim().slice(0, MAX_TITLE_LENGTH) : '';
+        const questionBody = typeof body.body === 'string' ? body.body.slice(0, MAX_BODY_LENGTH) : '';
+        const tags = Array.isArray(body.tags)
+            ? body.tags.filter((tag: unknown): tag is string => typeof tag === 'string')
+            : [];
+
+        if (!title) {
+            return NextResponse.json(
+                { success: false, message: 'Title is required' },
+                { status: 400 }
+            );
+        }
+
+        await dbConnect();
+
+        const { mode, questions } = await findSimilarQuestions({ title, body: questionBody, tags });
+
+        return NextResponse.json({
+            success: true,
+            data: questions,
+            mode,
+        });
+    } catch (error) {
+        console.error('Error finding similar questions:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+});
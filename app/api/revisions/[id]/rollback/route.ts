@@ -0,0 +1,121 @@
+/**
+ * Revision Rollback API Route
+ * ===========================
+ * POST /api/revisions/[id]/rollback - Restore a post to this revision (author or moderator)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { Question, Answer, Revision, User } from '@/lib/models';
+import { withAuth } from '@/lib/auth/withAuth';
+import { isModerator } from '@/lib/auth/roles';
+import { applyEdit } from '@/lib/revisions';
+import type { EditablePost } from '@/lib/revisions';
+import { resolveTagNames, findNewTags, canCreateTag, TAG_CREATE_REPUTATION } from '@/lib/tags';
+
+export const POST = withAuth(async (
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> },
+    user
+) => {
+    try {
+        await dbConnect();
+
+        const { id: revisionId } = await params;
+
+        const target = await Revision.findById(revisionId);
+        if (!target) {
+            return NextResponse.json(
+                { success: false, message: 'Revision not found' },
+                { status: 404 }
+            );
+        }
+
+        const post: EditablePost | null = target.postType === 'question'
+            ? await Question.findById(target.post)
+            : await Answer.findById(target.post);
+
+        if (!post || post.isDeleted) {
+            return NextResponse.json(
+                { success: false, message: 'Post not found' },
+                { status: 404 }
+            );
+        }
+
+        if (post.author.toString() !== user.userId && !isModerator(user.role)) {
+            return NextResponse.json(
+                { success: false, message: 'You can only roll back your own posts' },
+                { status: 403 }
+            );
+        }
+
+        // Restored tags that no longer exist need enough reputation to recreate, as when editing
+        if (target.postType === 'question') {
+            const added = (await resolveTagNames(target.tags)).filter((t) => !post.tags?.includes(t));
+            const newTags = await findNewTags(added);
+            if (newTags.length > 0) {
+                const dbUser = await User.findById(user.userId).select('role reputation');
+                if (!dbUser || !canCreateTag(dbUser.role, dbUser.reputation)) {
+                    return NextResponse.json(
+                        {
+                            success: false,
+                            message: `Creating new tags requires ${TAG_CREATE_REPUTATION} reputation: ${newTags.join(', ')}`,
+                        },
+                        { status: 403 }
+                    );
+                }
+            }
+        }
+
+        const result = await applyEdit({
+            postType: target.postType,
+            post,
+            editorId: user.userId,
+            changes: { title: target.title, body: target.body, tags: target.tags },
+            summary: `Rolled back to revision ${target.revision}`,
+            rolledBackFrom: target.revision,
+        });
+
+        if (result.status === 'unchanged') {
+            return NextResponse.json(
+                { success: false, message: 'The post already matches this revision' },
+                { status: 400 }
+            );
+        }
+
+        if (result.status === 'conflict') {
+            return NextResponse.json(
+                { success: false, message: 'This post was edited by someone else at the same time. Reload it and try again.' },
+                { status: 409 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: `Rolled back to revision ${target.revision}`,
+            data: {
+                postType: target.postType,
+                title: post.title,
+                body: post.body,
+                tags: post.tags,
+                editedAt: post.editedAt,
+                revision: result.revision.revision,
+            },
+        });
+
+    } catch (error) {
+        console.error('Error rolling back revision:', error);
+
+        if (error instanceof Error && error.name === 'ValidationError') {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: 'Failed to roll back revision' },
+            { status: 500 }
+        );
+    }
+});
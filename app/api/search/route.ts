@@ -0,0 +1,53 @@
+/**
+ * Search API Route
+ * ================
+ * GET /api/search?q= - Questions and answers matching a search, with answer
+ * hits grouped under their question and highlighted snippets
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth/jwt';
+import { searchPosts, DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT } from '@/lib/search';
+
+// Longer input is almost certainly not a search someone typed
+const MAX_QUERY_LENGTH = 200;
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const q = searchParams.get('q')?.trim() ?? '';
+        const limit = Math.min(
+            MAX_SEARCH_LIMIT,
+            Math.max(1, parseInt(searchParams.get('limit') || '') || DEFAULT_SEARCH_LIMIT)
+        );
+
+        if (!q) {
+            return NextResponse.json({ success: true, data: [] });
+        }
+
+        if (q.length > MAX_QUERY_LENGTH) {
+            return NextResponse.json(
+                { success: false, message: `Search cannot exceed ${MAX_QUERY_LENGTH} characters` },
+                { status: 400 }
+            );
+        }
+
+        await dbConnect();
+
+        const viewer = await getCurrentUser();
+        const { results, errors } = await searchPosts(q, { limit, viewerId: viewer?.userId });
+
+        return NextResponse.json({
+            success: true,
+            data: results,
+            ...(errors.length > 0 && { searchErrors: errors }),
+        });
+    } catch (error) {
+        console.error('Error searching posts:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
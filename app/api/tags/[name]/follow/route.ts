@@ -0,0 +1,107 @@
+/**
+ * Follow Tag API Route
+ * ====================
+ * GET    /api/tags/[name]/follow - Whether the current user follows the tag
+ * POST   /api/tags/[name]/follow - Follow a tag (synonyms follow the canonical tag)
+ * DELETE /api/tags/[name]/follow - Unfollow a tag
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { Tag } from '@/lib/models';
+import { getCurrentUser } from '@/lib/auth/jwt';
+import { withAuth } from '@/lib/auth/withAuth';
+import { normalizeTagName } from '@/lib/tags';
+import { follow, unfollow, isFollowing } from '@/lib/notifications';
+
+interface RouteParams {
+    params: Promise<{ name: string }>;
+}
+
+// ============================================
+// GET - Follow Status
+// ============================================
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ success: true, data: { following: false } });
+        }
+
+        await dbConnect();
+
+        const { name } = await params;
+
+        return NextResponse.json({
+            success: true,
+            data: { following: await isFollowing(user.userId, 'tag', normalizeTagName(decodeURIComponent(name))) },
+        });
+    } catch (error) {
+        console.error('Error fetching follow status:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+// ============================================
+// POST - Follow
+// ============================================
+
+export const POST = withAuth(async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        await dbConnect();
+
+        const { name } = await params;
+
+        const tag = await Tag.findByNameOrSynonym(decodeURIComponent(name));
+        if (!tag) {
+            return NextResponse.json(
+                { success: false, message: 'Tag not found' },
+                { status: 404 }
+            );
+        }
+
+        await follow(user.userId, 'tag', tag.name);
+
+        return NextResponse.json({
+            success: true,
+            message: `Following [${tag.name}]`,
+            data: { following: true, tag: tag.name },
+        });
+    } catch (error) {
+        console.error('Error following tag:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to follow tag' },
+            { status: 500 }
+        );
+    }
+});
+
+// ============================================
+// DELETE - Unfollow
+// ============================================
+
+export const DELETE = withAuth(async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        await dbConnect();
+
+        const { name } = await params;
+
+        await unfollow(user.userId, 'tag', normalizeTagName(decodeURIComponent(name)));
+
+        return NextResponse.json({
+            success: true,
+            message: 'Unfollowed tag',
+            data: { following: false },
+        });
+    } catch (error) {
+        console.error('Error unfollowing tag:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to unfollow tag' },
+            { status: 500 }
+        );
+    }
+});
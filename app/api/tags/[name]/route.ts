@@ -0,0 +1,157 @@
+/**
+ * Single Tag API Route
+ * ====================
+ * GET   /api/tags/[name] - Get a tag by name or synonym
+ * PATCH /api/tags/[name] - Edit excerpt/wiki (trusted users) or synonyms (moderators)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Types } from 'mongoose';
+import { dbConnect } from '@/lib/db';
+import { Tag, User } from '@/lib/models';
+import { withAuth } from '@/lib/auth/withAuth';
+import {
+    canEditTagWiki,
+    canEditTagSynonyms,
+    mergeSynonym,
+    normalizeTagName,
+    TAG_WIKI_EDIT_REPUTATION,
+} from '@/lib/tags';
+
+interface RouteParams {
+    params: Promise<{ name: string }>;
+}
+
+// ============================================
+// GET - Tag Details
+// ============================================
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        await dbConnect();
+
+        const { name } = await params;
+
+        const tag = await Tag.findByNameOrSynonym(decodeURIComponent(name));
+        if (!tag) {
+            return NextResponse.json(
+                { success: false, message: 'Tag not found' },
+                { status: 404 }
+            );
+        }
+
+        await tag.populate('lastEditedBy', 'name');
+
+        return NextResponse.json({
+            success: true,
+            data: tag,
+        });
+    } catch (error) {
+        console.error('Error fetching tag:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+// ============================================
+// PATCH - Edit Tag
+// ============================================
+
+export const PATCH = withAuth(async (request: NextRequest, { params }: RouteParams, user) => {
+    try {
+        await dbConnect();
+
+        const { name } = await params;
+
+        const tag = await Tag.findOne({ name: normalizeTagName(decodeURIComponent(name)) });
+        if (!tag) {
+            return NextResponse.json(
+                { success: false, message: 'Tag not found' },
+                { status: 404 }
+            );
+        }
+
+        // Use the stored role and reputation rather than trusting the token
+        const dbUser = await User.findById(user.userId).select('role reputation');
+        if (!dbUser) {
+            return NextResponse.json(
+                { success: false, message: 'User not found' },
+                { status: 404 }
+            );
+        }
+
+        const { excerpt, wiki, synonyms } = await request.json();
+
+        if (excerpt !== undefined || wiki !== undefined) {
+            if (!canEditTagWiki(dbUser.role, dbUser.reputation)) {
+                return NextResponse.json(
+                    { success: false, message: `You need at least ${TAG_WIKI_EDIT_REPUTATION} reputation to edit tag wikis` },
+                    { status: 403 }
+                );
+            }
+            if (typeof excerpt === 'string') tag.excerpt = excerpt;
+            if (typeof wiki === 'string') tag.wiki = wiki;
+        }
+
+        if (synonyms !== undefined) {
+            if (!canEditTagSynonyms(dbUser.role)) {
+                return NextResponse.json(
+                    { success: false, message: 'Only moderators can change tag synonyms' },
+                    { status: 403 }
+                );
+            }
+
+            if (!Array.isArray(synonyms)) {
+                return NextResponse.json(
+                    { success: false, message: 'Synonyms must be a list of tag names' },
+                    { status: 400 }
+                );
+            }
+
+            const requested = [...new Set(synonyms.map((s: unknown) => normalizeTagName(String(s))).filter((s) => s && s !== tag.name))];
+
+            // A synonym can only point at one canonical tag
+            const conflict = await Tag.findOne({
+                _id: { $ne: tag._id },
+                synonyms: { $in: requested },
+            }).select('name');
+            if (conflict) {
+                return NextResponse.json(
+                    { success: false, message: `One of these synonyms already belongs to "${conflict.name}"` },
+                    { status: 409 }
+                );
+            }
+
+            // Removed synonyms simply stop mapping; new ones absorb any existing tag of that name
+            tag.synonyms = tag.synonyms.filter((s) => requested.includes(s));
+            for (const synonym of requested.filter((s) => !tag.synonyms.includes(s))) {
+                await mergeSynonym(synonym, tag);
+            }
+        }
+
+        tag.lastEditedBy = new Types.ObjectId(user.userId);
+        await tag.save();
+
+        return NextResponse.json({
+            success: true,
+            message: 'Tag updated',
+            data: tag,
+        });
+    } catch (error) {
+        console.error('Error editing tag:', error);
+
+        if (error instanceof Error && error.name === 'ValidationError') {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,65 @@
+/**
+ * Tags API Route
+ * ==============
+ * GET /api/tags - List tags with prefix search, sorting and pagination
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { Tag } from '@/lib/models';
+import { normalizeTagName } from '@/lib/tags';
+import { escapeRegex } from '@/lib/utils';
+
+const MAX_PAGE_SIZE = 100;
+
+export async function GET(request: NextRequest) {
+    try {
+        await dbConnect();
+
+        const { searchParams } = new URL(request.url);
+        const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+        const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('limit') || '36') || 36));
+        const search = normalizeTagName(searchParams.get('search') || '');
+        const sort = searchParams.get('sort') || 'popular';
+
+        // Prefix match on the name or any synonym
+        const query: Record<string, unknown> = {};
+        if (search) {
+            const prefix = new RegExp(`^${escapeRegex(search)}`);
+            query.$or = [{ name: prefix }, { synonyms: prefix }];
+        }
+
+        type SortOrder = 1 | -1;
+        const sortOptions: Record<string, Record<string, SortOrder>> = {
+            popular: { questionCount: -1, name: 1 },
+            name: { name: 1 },
+            newest: { createdAt: -1 },
+        };
+
+        const [tags, total] = await Promise.all([
+            Tag.find(query)
+                .select('name excerpt synonyms questionCount createdAt')
+                .sort(sortOptions[sort] || sortOptions.popular)
+                .skip((page - 1) * limit)
+                .limit(limit),
+            Tag.countDocuments(query),
+        ]);
+
+        return NextResponse.json({
+            success: true,
+            data: tags,
+            pagination: {
+                page,
+                limit,
+                total,
+                pages: Math.ceil(total / limit),
+            },
+        });
+    } catch (error) {
+        console.error('Error fetching tags:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
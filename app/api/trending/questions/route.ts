@@ -0,0 +1,33 @@
+/**
+ * Hot Questions API Route
+ * =======================
+ * GET /api/trending/questions - Recent questions ranked by time-decayed activity
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { getHotQuestions } from '@/lib/trending';
+
+const MAX_LIMIT = 50;
+
+export async function GET(request: NextRequest) {
+    try {
+        await dbConnect();
+
+        const { searchParams } = new URL(request.url);
+        const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(searchParams.get('limit') || '5') || 5));
+
+        const questions = await getHotQuestions(limit);
+
+        return NextResponse.json(
+            { success: true, data: questions },
+            { headers: { 'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600' } }
+        );
+    } catch (error) {
+        console.error('Error fetching hot questions:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,33 @@
+/**
+ * Trending Tags API Route
+ * =======================
+ * GET /api/trending/tags - Tags ranked by recent question velocity, with trend direction
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { getTrendingTags } from '@/lib/trending';
+
+const MAX_LIMIT = 50;
+
+export async function GET(request: NextRequest) {
+    try {
+        await dbConnect();
+
+        const { searchParams } = new URL(request.url);
+        const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(searchParams.get('limit') || '12') || 12));
+
+        const tags = await getTrendingTags(limit);
+
+        return NextResponse.json(
+            { success: true, data: tags },
+            { headers: { 'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600' } }
+        );
+    } catch (error) {
+        console.error('Error fetching trending tags:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
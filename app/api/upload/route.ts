@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { v2 as cloudinary } from 'cloudinary';
+import { withAuth } from '@/lib/auth/withAuth';
 
 // Configure Cloudinary
 cloudinary.config({
@@ -8,7 +9,7 @@ cloudinary.config({
     api_secret: process.env.CLOUDINARY_API_SECRET,
 });
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth({ requireVerified: true }, async (request: NextRequest) => {
     try {
         const formData = await request.formData();
         const file = formData.get('file') as File;
@@ -57,4 +58,4 @@ export async function POST(request: NextRequest) {
             { status: 500 }
         );
     }
-}
+});
@@ -0,0 +1,55 @@
+/**
+ * User Answers API Route
+ * ======================
+ * GET /api/users/[id]/answers - A user's answers, newest or highest scored first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { findPublicUser, listUserAnswers, isPostSort, PROFILE_POSTS_PAGE_SIZE } from '@/lib/users';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+const MAX_PAGE_SIZE = 50;
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { id } = await params;
+
+        await dbConnect();
+
+        if (!(await findPublicUser(id))) {
+            return NextResponse.json(
+                { success: false, message: 'User not found' },
+                { status: 404 }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+        const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+        const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('limit') || String(PROFILE_POSTS_PAGE_SIZE)) || PROFILE_POSTS_PAGE_SIZE));
+        const sortParam = searchParams.get('sort') || 'newest';
+        const sort = isPostSort(sortParam) ? sortParam : 'newest';
+
+        const { answers, total } = await listUserAnswers(id, { sort, page, limit });
+
+        return NextResponse.json({
+            success: true,
+            data: answers,
+            pagination: {
+                page,
+                limit,
+                total,
+                pages: Math.ceil(total / limit),
+            },
+        });
+    } catch (error) {
+        console.error('Error fetching user answers:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,28 +1,31 @@
 /**
- * Example API Route - Get User by ID
- * ===================================
- * Demonstrates proper usage of dbConnect and models
+ * User API Route
+ * ==============
+ * GET   /api/users/[id] - Public profile: stats, top tags and reputation history
+ * PATCH /api/users/[id] - Update profile fields (owner or admin)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { dbConnect } from '@/lib/db';
-import { User } from '@/lib/models';
+import { withAuth } from '@/lib/auth/withAuth';
+import { isAdmin } from '@/lib/auth/roles';
+import { getUserProfile, updateProfile } from '@/lib/users';
+import { profileUpdateSchema } from '@/lib/validations/user';
+import { getZodErrors } from '@/lib/validations/auth';
 
-// GET /api/users/[id]
+// GET /api/users/[id] - Public fields only; never the raw user document
 export async function GET(
     request: NextRequest,
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
-        // Always connect before using models
         await dbConnect();
 
         const { id } = await params;
 
-        // Find user by ID
-        const user = await User.findById(id);
+        const profile = await getUserProfile(id);
 
-        if (!user) {
+        if (!profile) {
             return NextResponse.json(
                 { success: false, message: 'User not found' },
                 { status: 404 }
@@ -31,7 +34,7 @@ export async function GET(
 
         return NextResponse.json({
             success: true,
-            data: user,
+            data: profile,
         });
     } catch (error) {
         console.error('Error fetching user:', error);
@@ -42,25 +45,39 @@ export async function GET(
     }
 }
 
-// PATCH /api/users/[id] - Update user
-export async function PATCH(
+// PATCH /api/users/[id] - Update profile fields (owner or admin)
+export const PATCH = withAuth(async (
     request: NextRequest,
-    { params }: { params: Promise<{ id: string }> }
-) {
+    { params }: { params: Promise<{ id: string }> },
+    currentUser
+) => {
     try {
-        await dbConnect();
-
         const { id } = await params;
-        const body = await request.json();
 
-        // Prevent updating sensitive fields
-        const { password, email, role, ...updateData } = body;
+        if (currentUser.userId !== id && !isAdmin(currentUser.role)) {
+            return NextResponse.json(
+                { success: false, message: 'You can only update your own profile' },
+                { status: 403 }
+            );
+        }
+
+        const body = await request.json().catch(() => null);
+        const parsed = profileUpdateSchema.safeParse(body);
 
-        const user = await User.findByIdAndUpdate(
-            id,
-            { $set: updateData },
-            { new: true, runValidators: true }
-        );
+        if (!parsed.success) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: parsed.error.issues[0]?.message || 'Invalid profile update',
+                    errors: getZodErrors(profileUpdateSchema, body),
+                },
+                { status: 400 }
+            );
+        }
+
+        await dbConnect();
+
+        const user = await updateProfile(id, parsed.data);
 
         if (!user) {
             return NextResponse.json(
@@ -71,6 +88,7 @@ export async function PATCH(
 
         return NextResponse.json({
             success: true,
+            message: 'Profile updated',
             data: user,
         });
     } catch (error) {
@@ -80,4 +98,4 @@ export async function PATCH(
             { status: 500 }
         );
     }
-}
+});
@@ -0,0 +1,43 @@
+/**
+ * Users API Route
+ * ===============
+ * GET /api/users - User directory with name search, sorting and pagination
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dbConnect } from '@/lib/db';
+import { listUsers, isUserSort, USER_PAGE_SIZE } from '@/lib/users';
+
+const MAX_PAGE_SIZE = 100;
+
+export async function GET(request: NextRequest) {
+    try {
+        await dbConnect();
+
+        const { searchParams } = new URL(request.url);
+        const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+        const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('limit') || String(USER_PAGE_SIZE)) || USER_PAGE_SIZE));
+        const search = searchParams.get('search') || '';
+        const sortParam = searchParams.get('sort') || 'reputation';
+        const sort = isUserSort(sortParam) ? sortParam : 'reputation';
+
+        const { users, total } = await listUsers({ search, sort, page, limit });
+
+        return NextResponse.json({
+            success: true,
+            data: users,
+            pagination: {
+                page,
+                limit,
+                total,
+                pages: Math.ceil(total / limit),
+            },
+        });
+    } catch (error) {
+        console.error('Error fetching users:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,286 @@
+'use client';
+
+/**
+ * BookmarkButton Component
+ * ========================
+ * Save toggle for a question or answer. Saving happens on the first click;
+ * the panel that opens files the bookmark into a collection and holds a
+ * private note.
+ */
+
+import React, { useState } from 'react';
+import { Bookmark, Plus } from 'lucide-react';
+import { useAuth } from '@/lib/auth/AuthContext';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export interface BookmarkState {
+    id: string;
+    collectionId: string | null;
+    note: string;
+}
+
+interface CollectionOption {
+    id: string;
+    name: string;
+}
+
+interface BookmarkButtonProps {
+    postType: 'question' | 'answer';
+    postId: string;
+    bookmark: BookmarkState | null;
+    onChange: (bookmark: BookmarkState | null) => void;
+    className?: string;
+    iconClassName?: string;
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function BookmarkButton({
+    postType,
+    postId,
+    bookmark,
+    onChange,
+    className = '',
+    iconClassName = 'w-4 h-4 sm:w-5 sm:h-5',
+}: BookmarkButtonProps) {
+    const { user } = useAuth();
+    const [isOpen, setIsOpen] = useState(false);
+    const [collections, setCollections] = useState<CollectionOption[]>([]);
+    const [collectionId, setCollectionId] = useState('');
+    const [note, setNote] = useState('');
+    const [newCollection, setNewCollection] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    if (!user) return null;
+
+    const openPanel = async (current: BookmarkState) => {
+        setCollectionId(current.collectionId ?? '');
+        setNote(current.note);
+        setNewCollection('');
+        setError(null);
+        setIsOpen(true);
+
+        try {
+            const response = await fetch('/api/bookmarks/collections');
+            const data = await response.json();
+            if (data.success) {
+                setCollections(data.data);
+            }
+        } catch (err) {
+            console.error('Error fetching collections:', err);
+        }
+    };
+
+    const handleClick = async () => {
+        if (bookmark) {
+            if (isOpen) {
+                setIsOpen(false);
+            } else {
+                await openPanel(bookmark);
+            }
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            const response = await fetch('/api/bookmarks', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ postType, postId }),
+            });
+            const data = await response.json();
+            // Saved elsewhere (e.g. another tab) counts as saved here too
+            if (data.success || response.status === 409) {
+                const saved = { id: data.data.id, collectionId: data.data.collectionId ?? null, note: data.data.note ?? '' };
+                onChange(saved);
+                await openPanel(saved);
+            }
+        } catch (err) {
+            console.error('Error saving post:', err);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleCreateCollection = async () => {
+        const name = newCollection.trim();
+        if (!name) return;
+
+        setError(null);
+        try {
+            const response = await fetch('/api/bookmarks/collections', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ name }),
+            });
+            const data = await response.json();
+            if (data.success) {
+                setCollections((prev) => [...prev, data.data].sort((a, b) => a.name.localeCompare(b.name)));
+                setCollectionId(data.data.id);
+                setNewCollection('');
+            } else {
+                setError(data.message || 'Failed to create collection');
+            }
+        } catch (err) {
+            console.error('Error creating collection:', err);
+            setError('Failed to create collection');
+        }
+    };
+
+    const handleSave = async () => {
+        if (!bookmark) return;
+
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/bookmarks/${bookmark.id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ collectionId: collectionId || null, note }),
+            });
+            const data = await response.json();
+            if (data.success) {
+                onChange({ id: bookmark.id, collectionId: data.data.collectionId ?? null, note: data.data.note });
+                setIsOpen(false);
+            } else {
+                setError(data.message || 'Failed to update bookmark');
+            }
+        } catch (err) {
+            console.error('Error updating bookmark:', err);
+            setError('Failed to update bookmark');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleRemove = async () => {
+        if (!bookmark) return;
+
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/bookmarks/${bookmark.id}`, { method: 'DELETE' });
+            const data = await response.json();
+            if (data.success || response.status === 404) {
+                onChange(null);
+                setIsOpen(false);
+            } else {
+                setError(data.message || 'Failed to remove bookmark');
+            }
+        } catch (err) {
+            console.error('Error removing bookmark:', err);
+            setError('Failed to remove bookmark');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const inputClass = 'w-full px-3 bg-[var(--bg-secondary)] border border-[var(--border-light)] rounded-lg text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:border-[var(--color-primary-500)]';
+
+    return (
+        <div className="relative">
+            <button
+                onClick={handleClick}
+                disabled={isSubmitting}
+                title={bookmark ? 'Saved' : `Save this ${postType}`}
+                aria-pressed={!!bookmark}
+                className={`p-1.5 sm:p-2 rounded-lg transition-colors disabled:opacity-50 hover:bg-[var(--bg-secondary)] ${bookmark
+                    ? 'text-[var(--color-warning-500)]'
+                    : 'text-[var(--text-tertiary)] hover:text-[var(--color-warning-500)]'
+                    } ${className}`}
+            >
+                <Bookmark className={`${iconClassName} ${bookmark ? 'fill-current' : ''}`} />
+            </button>
+
+            {isOpen && bookmark && (
+                <>
+                    <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+                    <div className="absolute left-0 sm:left-auto sm:right-0 top-full mt-2 w-72 p-4 bg-[var(--bg-primary)] rounded-xl shadow-xl border border-[var(--border-light)] z-20 space-y-3">
+                        <p className="text-sm font-medium text-[var(--text-primary)]">Saved</p>
+
+                        <div className="space-y-1.5">
+                            <label className="block text-xs text-[var(--text-tertiary)]" htmlFor={`bookmark-collection-${postId}`}>
+                                Collection
+                            </label>
+                            <select
+                                id={`bookmark-collection-${postId}`}
+                                value={collectionId}
+                                onChange={(e) => setCollectionId(e.target.value)}
+                                className={`${inputClass} h-9`}
+                            >
+                                <option value="">No collection</option>
+                                {collections.map((collection) => (
+                                    <option key={collection.id} value={collection.id}>{collection.name}</option>
+                                ))}
+                            </select>
+                            <div className="flex gap-2">
+                                <input
+                                    type="text"
+                                    value={newCollection}
+                                    onChange={(e) => setNewCollection(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') {
+                                            e.preventDefault();
+                                            handleCreateCollection();
+                                        }
+                                    }}
+                                    placeholder="New collection"
+                                    maxLength={50}
+                                    className={`${inputClass} h-8`}
+                                />
+                                <button
+                                    onClick={handleCreateCollection}
+                                    disabled={!newCollection.trim()}
+                                    className="h-8 w-8 shrink-0 flex items-center justify-center rounded-lg border border-[var(--border-light)] text-[var(--text-secondary)] hover:bg-[var(--bg-secondary)] disabled:opacity-50"
+                                    aria-label="Create collection"
+                                >
+                                    <Plus className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className="space-y-1.5">
+                            <label className="block text-xs text-[var(--text-tertiary)]" htmlFor={`bookmark-note-${postId}`}>
+                                Private note
+                            </label>
+                            <textarea
+                                id={`bookmark-note-${postId}`}
+                                value={note}
+                                onChange={(e) => setNote(e.target.value)}
+                                placeholder="Only you can see this"
+                                maxLength={1000}
+                                rows={3}
+                                className={`${inputClass} py-2 resize-none`}
+                            />
+                        </div>
+
+                        {error && <p className="text-xs text-[var(--color-error-500)]">{error}</p>}
+
+                        <div className="flex gap-2">
+                            <button
+                                onClick={handleSave}
+                                disabled={isSubmitting}
+                                className="flex-1 h-9 bg-[var(--color-primary-500)] hover:bg-[var(--color-primary-600)] text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+                            >
+                                Done
+                            </button>
+                            <button
+                                onClick={handleRemove}
+                                disabled={isSubmitting}
+                                className="h-9 px-3 text-sm text-[var(--color-error-500)] hover:bg-[var(--bg-secondary)] rounded-lg transition-colors disabled:opacity-50"
+                            >
+                                Remove
+                            </button>
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
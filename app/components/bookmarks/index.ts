@@ -0,0 +1,8 @@
+/**
+ * Bookmarks Components Index
+ * ==========================
+ * Barrel export for bookmark components
+ */
+
+export { BookmarkButton } from './BookmarkButton';
+export type { BookmarkState } from './BookmarkButton';
@@ -0,0 +1,350 @@
+'use client';
+
+/**
+ * CommentThread Component
+ * =======================
+ * Paginated comment list with add, edit and delete for a question or answer
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { MessageCircle, Pencil, Trash2 } from 'lucide-react';
+import { useAuth } from '@/lib/auth/AuthContext';
+import { isModerator } from '@/lib/auth/roles';
+import { COMMENT_MIN_LENGTH, COMMENT_MAX_LENGTH, COMMENTS_PAGE_SIZE } from '@/lib/comments/validation';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export interface CommentItem {
+    id: string;
+    body: string;
+    author?: {
+        id: string;
+        name: string;
+        avatar?: string;
+    };
+    editedAt?: string;
+    isDeleted: boolean;
+    createdAt: string;
+}
+
+interface CommentThreadProps {
+    postType: 'question' | 'answer';
+    postId: string;
+    // Comments pushed live by other viewers (see useQuestionEvents), oldest first
+    liveComments?: CommentItem[];
+}
+
+const NO_LIVE_COMMENTS: CommentItem[] = [];
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function formatTimeAgo(dateString: string): string {
+    const date = new Date(dateString);
+    const now = new Date();
+    const seconds = Math.floor((now.getTime() - date.getTime()) / 1000);
+
+    if (seconds < 60) return 'just now';
+    if (seconds < 3600) return `${Math.floor(seconds / 60)} mins ago`;
+    if (seconds < 86400) return `${Math.floor(seconds / 3600)} hours ago`;
+    if (seconds < 604800) return `${Math.floor(seconds / 86400)} days ago`;
+    return date.toLocaleDateString();
+}
+
+// Highlight @mentions in plain-text comment bodies
+function renderBody(body: string): React.ReactNode[] {
+    return body.split(/(@[A-Za-z][\w.-]*)/g).map((part, index) =>
+        part.startsWith('@') ? (
+            <span key={index} className="font-medium text-[var(--color-primary-500)]">{part}</span>
+        ) : (
+            <React.Fragment key={index}>{part}</React.Fragment>
+        )
+    );
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function CommentThread({ postType, postId, liveComments = NO_LIVE_COMMENTS }: CommentThreadProps) {
+    const { user, isAuthenticated } = useAuth();
+    const basePath = `/api/${postType === 'question' ? 'questions' : 'answers'}/${postId}/comments`;
+
+    const [comments, setComments] = useState<CommentItem[]>([]);
+    const [page, setPage] = useState(1);
+    const [total, setTotal] = useState(0);
+    const [isLoading, setIsLoading] = useState(false);
+
+    // Composer state
+    const [isComposing, setIsComposing] = useState(false);
+    const [draft, setDraft] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Inline edit state
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editDraft, setEditDraft] = useState('');
+
+    // Fetch a page of comments (page 1 replaces, later pages append)
+    const fetchComments = useCallback(async (pageToLoad: number) => {
+        setIsLoading(true);
+        try {
+            const response = await fetch(`${basePath}?page=${pageToLoad}&limit=${COMMENTS_PAGE_SIZE}`);
+            const data = await response.json();
+            if (data.success) {
+                setComments(prev => pageToLoad === 1 ? data.data : [...prev, ...data.data]);
+                setTotal(data.pagination.total);
+                setPage(pageToLoad);
+            }
+        } catch (err) {
+            console.error('Error fetching comments:', err);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [basePath]);
+
+    useEffect(() => {
+        fetchComments(1);
+    }, [fetchComments]);
+
+    // Adopt live comments as they arrive. The viewer's own comments are already
+    // added by handleSubmit, and while older pages are still unloaded the new
+    // ones only bump the count so "Show more" brings them in order.
+    const [liveSeen, setLiveSeen] = useState(liveComments.length);
+    if (liveComments.length !== liveSeen) {
+        const fresh = liveComments
+            .slice(liveSeen)
+            .filter(c => c.author?.id !== user?.id && !comments.some(k => k.id === c.id));
+        setLiveSeen(liveComments.length);
+        if (fresh.length > 0) {
+            if (comments.length >= total) setComments(prev => [...prev, ...fresh]);
+            setTotal(prev => prev + fresh.length);
+        }
+    }
+
+    const canManage = (comment: CommentItem) =>
+        !!user && (comment.author?.id === user.id || isModerator(user.role));
+
+    // ========================================
+    // Actions
+    // ========================================
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const trimmed = draft.trim();
+        if (trimmed.length < COMMENT_MIN_LENGTH) {
+            setError(`Comment must be at least ${COMMENT_MIN_LENGTH} characters`);
+            return;
+        }
+
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            const response = await fetch(basePath, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ body: trimmed }),
+            });
+            const data = await response.json();
+            if (data.success) {
+                setComments(prev => [...prev, data.data]);
+                setTotal(prev => prev + 1);
+                setDraft('');
+                setIsComposing(false);
+            } else {
+                setError(data.message || 'Failed to post comment');
+            }
+        } catch (err) {
+            console.error('Error posting comment:', err);
+            setError('Failed to post comment');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleEdit = async (commentId: string) => {
+        try {
+            const response = await fetch(`/api/comments/${commentId}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ body: editDraft.trim() }),
+            });
+            const data = await response.json();
+            if (data.success) {
+                setComments(prev => prev.map(c => c.id === commentId ? data.data : c));
+                setEditingId(null);
+            } else {
+                alert(data.message || 'Failed to edit comment');
+            }
+        } catch (err) {
+            console.error('Error editing comment:', err);
+        }
+    };
+
+    const handleDelete = async (commentId: string) => {
+        if (!confirm('Delete this comment?')) return;
+        try {
+            const response = await fetch(`/api/comments/${commentId}`, { method: 'DELETE' });
+            const data = await response.json();
+            if (data.success) {
+                // Moderators keep seeing deleted comments, everyone else loses them
+                if (isModerator(user?.role)) {
+                    setComments(prev => prev.map(c => c.id === commentId ? { ...c, isDeleted: true } : c));
+                } else {
+                    setComments(prev => prev.filter(c => c.id !== commentId));
+                    setTotal(prev => prev - 1);
+                }
+            } else {
+                alert(data.message || 'Failed to delete comment');
+            }
+        } catch (err) {
+            console.error('Error deleting comment:', err);
+        }
+    };
+
+    // ========================================
+    // Render
+    // ========================================
+
+    const remaining = total - comments.length;
+
+    return (
+        <div className="mt-4 pt-3 border-t border-[var(--border-light)]">
+            {comments.length > 0 && (
+                <ul className="space-y-2 mb-2">
+                    {comments.map((comment) => (
+                        <li
+                            key={comment.id}
+                            className={`group text-sm text-[var(--text-secondary)] ${comment.isDeleted ? 'opacity-50 line-through' : ''}`}
+                        >
+                            {editingId === comment.id ? (
+                                <div className="flex flex-col gap-2">
+                                    <textarea
+                                        value={editDraft}
+                                        onChange={(e) => setEditDraft(e.target.value)}
+                                        maxLength={COMMENT_MAX_LENGTH}
+                                        rows={2}
+                                        className="w-full px-3 py-2 bg-[var(--bg-secondary)] border border-[var(--border-light)] rounded-lg text-sm text-[var(--text-primary)] focus:outline-none focus:border-[var(--color-primary-500)]"
+                                    />
+                                    <div className="flex gap-2 text-xs">
+                                        <button
+                                            onClick={() => handleEdit(comment.id)}
+                                            className="px-3 py-1 bg-[var(--color-primary-500)] text-white rounded-md hover:bg-[var(--color-primary-600)] transition-colors"
+                                        >
+                                            Save
+                                        </button>
+                                        <button
+                                            onClick={() => setEditingId(null)}
+                                            className="px-3 py-1 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+                                        >
+                                            Cancel
+                                        </button>
+                                    </div>
+                                </div>
+                            ) : (
+                                <>
+                                    <span>{renderBody(comment.body)}</span>
+                                    <span className="text-[var(--text-tertiary)]">
+                                        {' – '}
+                                        <span className="font-medium text-[var(--text-primary)]">
+                                            {comment.author?.name || 'Anonymous'}
+                                        </span>
+                                        {' '}{formatTimeAgo(comment.createdAt)}
+                                        {comment.editedAt && ' (edited)'}
+                                    </span>
+                                    {!comment.isDeleted && canManage(comment) && (
+                                        <span className="inline-flex items-center gap-1 ml-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                                            <button
+                                                onClick={() => {
+                                                    setEditingId(comment.id);
+                                                    setEditDraft(comment.body);
+                                                }}
+                                                className="p-0.5 text-[var(--text-tertiary)] hover:text-[var(--text-primary)]"
+                                                aria-label="Edit comment"
+                                            >
+                                                <Pencil className="w-3 h-3" />
+                                            </button>
+                                            <button
+                                                onClick={() => handleDelete(comment.id)}
+                                                className="p-0.5 text-[var(--text-tertiary)] hover:text-[var(--color-error-500)]"
+                                                aria-label="Delete comment"
+                                            >
+                                                <Trash2 className="w-3 h-3" />
+                                            </button>
+                                        </span>
+                                    )}
+                                </>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="flex flex-wrap items-center gap-4 text-xs">
+                {remaining > 0 && (
+                    <button
+                        onClick={() => fetchComments(page + 1)}
+                        disabled={isLoading}
+                        className="font-medium text-[var(--color-primary-500)] hover:text-[var(--color-primary-400)] transition-colors disabled:opacity-50"
+                    >
+                        {isLoading ? 'Loading...' : `Show ${remaining} more comment${remaining !== 1 ? 's' : ''}`}
+                    </button>
+                )}
+                {isAuthenticated && !isComposing && (
+                    <button
+                        onClick={() => setIsComposing(true)}
+                        className="inline-flex items-center gap-1 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+                    >
+                        <MessageCircle className="w-3.5 h-3.5" />
+                        Add a comment
+                    </button>
+                )}
+            </div>
+
+            {isComposing && (
+                <form onSubmit={handleSubmit} className="mt-3 flex flex-col gap-2">
+                    <textarea
+                        value={draft}
+                        onChange={(e) => {
+                            setDraft(e.target.value);
+                            setError(null);
+                        }}
+                        maxLength={COMMENT_MAX_LENGTH}
+                        rows={2}
+                        placeholder="Ask for clarification or suggest an improvement. Use @name to mention someone."
+                        className="w-full px-3 py-2 bg-[var(--bg-secondary)] border border-[var(--border-light)] rounded-lg text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:border-[var(--color-primary-500)]"
+                    />
+                    {error && <p className="text-xs text-[var(--color-error-500)]">{error}</p>}
+                    <div className="flex items-center justify-between text-xs">
+                        <span className="text-[var(--text-tertiary)]">
+                            {draft.length} / {COMMENT_MAX_LENGTH}
+                        </span>
+                        <div className="flex gap-2">
+                            <button
+                                type="button"
+                                onClick={() => {
+                                    setIsComposing(false);
+                                    setDraft('');
+                                    setError(null);
+                                }}
+                                className="px-3 py-1 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={isSubmitting}
+                                className="px-3 py-1 bg-[var(--color-primary-500)] text-white rounded-md hover:bg-[var(--color-primary-600)] transition-colors disabled:opacity-50"
+                            >
+                                {isSubmitting ? 'Posting...' : 'Add Comment'}
+                            </button>
+                        </div>
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+}
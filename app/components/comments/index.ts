@@ -0,0 +1,8 @@
+/**
+ * Comments Components Index
+ * =========================
+ * Barrel export for comment components
+ */
+
+export { CommentThread } from './CommentThread';
+export type { CommentItem } from './CommentThread';
@@ -3,9 +3,11 @@
 import React, { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { Search, Bell, Menu, X, ChevronDown, LogOut } from 'lucide-react';
+import { Search, Menu, X, ChevronDown, LogOut } from 'lucide-react';
 import Logo from '@/app/components/ui/Logo';
 import { ModeToggle } from '@/app/components/darkmode';
+import { SearchPalette } from '@/app/components/search';
+import { NotificationBell } from '@/app/components/notifications';
 
 interface NavbarProps {
   onMenuToggle: () => void;
@@ -22,7 +24,6 @@ interface User {
 
 export default function Navbar({ onMenuToggle, isSidebarOpen }: NavbarProps) {
   const router = useRouter();
-  const [isSearchFocused, setIsSearchFocused] = useState(false);
   const [isProfileOpen, setIsProfileOpen] = useState(false);
   const [isLoggingOut, setIsLoggingOut] = useState(false);
   const [user, setUser] = useState<User | null>(null);
@@ -89,19 +90,7 @@ export default function Navbar({ onMenuToggle, isSidebarOpen }: NavbarProps) {
 
         {/* Center Section - Search */}
         <div className="flex-1 max-w-xl hidden sm:block">
-          <div className={`relative transition-all duration-200 ${isSearchFocused ? 'scale-[1.02]' : ''}`}>
-            <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-[var(--text-tertiary)]" />
-            <input
-              type="text"
-              placeholder="Search questions, tags, users..."
-              className="w-full h-10 pl-11 pr-4 bg-[var(--bg-secondary)] border-2 border-transparent rounded-xl text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:border-[var(--color-primary-500)] focus:bg-[var(--bg-primary)] transition-all"
-              onFocus={() => setIsSearchFocused(true)}
-              onBlur={() => setIsSearchFocused(false)}
-            />
-            <kbd className="absolute right-3 top-1/2 -translate-y-1/2 hidden md:inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium text-[var(--text-tertiary)] bg-[var(--bg-tertiary)] rounded">
-              ⌘K
-            </kbd>
-          </div>
+          <SearchPalette />
         </div>
 
         {/* Right Section - Actions */}
@@ -112,10 +101,7 @@ export default function Navbar({ onMenuToggle, isSidebarOpen }: NavbarProps) {
           </button>
 
           {/* Notifications */}
-          <button className="relative p-2 rounded-lg text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-secondary)] transition-colors">
-            <Bell className="w-5 h-5" />
-            <span className="absolute top-1 right-1 w-2 h-2 bg-[var(--color-primary-500)] rounded-full" />
-          </button>
+          <NotificationBell />
 
           {/* Dark Mode Toggle */}
           <ModeToggle />
@@ -1,10 +1,23 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import Link from 'next/link';
-import { popularQuestions, trendingTags } from '@/config/navigation';
 import { Flame, TrendingUp, TrendingDown, Minus, MessageSquare, ArrowUp, ChevronLeft } from 'lucide-react';
 
+interface TrendingTag {
+  name: string;
+  questionCount: number;
+  trend: 'up' | 'down' | 'stable';
+}
+
+interface HotQuestion {
+  id: string;
+  title: string;
+  votes: number;
+  answers: number;
+  isHot: boolean;
+}
+
 // Helper function for trend icons
 const getTrendIcon = (trend: 'up' | 'down' | 'stable') => {
   switch (trend) {
@@ -19,7 +32,18 @@ const getTrendIcon = (trend: 'up' | 'down' | 'stable') => {
 
 // Trending Tags Component (reusable)
 export function TrendingTagsSection({ compact = false }: { compact?: boolean }) {
-  const displayTags = compact ? trendingTags.slice(0, 6) : trendingTags;
+  const [tags, setTags] = useState<TrendingTag[]>([]);
+
+  useEffect(() => {
+    fetch('/api/trending/tags?limit=12')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setTags(data.data);
+      })
+      .catch((err) => console.error('Error fetching tags:', err));
+  }, []);
+
+  const displayTags = compact ? tags.slice(0, 6) : tags;
 
   return (
     <div className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] overflow-hidden">
@@ -30,18 +54,21 @@ export function TrendingTagsSection({ compact = false }: { compact?: boolean })
         </h3>
       </div>
       <div className="p-4">
+        {displayTags.length === 0 && (
+          <p className="text-sm text-[var(--text-tertiary)]">No tags yet</p>
+        )}
         <div className="flex flex-wrap gap-2">
           {displayTags.map((tag) => (
             <Link
               key={tag.name}
-              href={`/dashboard/tags/${tag.name}`}
+              href={`/dashboard/tags/${encodeURIComponent(tag.name)}`}
               className="group flex items-center gap-1.5 px-3 py-1.5 bg-[var(--bg-secondary)] hover:bg-[var(--color-primary-500)]/10 rounded-lg transition-colors"
             >
               <span className="text-sm font-medium text-[var(--text-secondary)] group-hover:text-[var(--color-primary-600)]">
                 #{tag.name}
               </span>
               <span className="text-xs text-[var(--text-tertiary)]">
-                {tag.count}
+                {tag.questionCount}
               </span>
               {getTrendIcon(tag.trend)}
             </Link>
@@ -58,6 +85,70 @@ export function TrendingTagsSection({ compact = false }: { compact?: boolean })
   );
 }
 
+// Hot Questions Component (reusable)
+export function HotQuestionsSection() {
+  const [questions, setQuestions] = useState<HotQuestion[]>([]);
+
+  useEffect(() => {
+    fetch('/api/trending/questions?limit=5')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setQuestions(data.data);
+      })
+      .catch((err) => console.error('Error fetching hot questions:', err));
+  }, []);
+
+  return (
+    <div className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] overflow-hidden">
+      <div className="px-4 py-3 border-b border-[var(--border-light)] bg-[var(--bg-secondary)]">
+        <h3 className="font-semibold text-[var(--text-primary)] flex items-center gap-2">
+          <Flame className="w-4 h-4 text-[var(--color-primary-500)]" />
+          Popular Questions
+        </h3>
+      </div>
+      <div className="divide-y divide-[var(--border-light)]">
+        {questions.length === 0 && (
+          <p className="px-4 py-3 text-sm text-[var(--text-tertiary)]">No recent activity</p>
+        )}
+        {questions.map((question) => (
+          <Link
+            key={question.id}
+            href={`/dashboard/questions/${question.id}`}
+            className="block px-4 py-3 hover:bg-[var(--bg-secondary)] transition-colors group"
+          >
+            <div className="flex items-start gap-2">
+              {question.isHot && (
+                <span className="shrink-0 px-1.5 py-0.5 text-[10px] font-bold uppercase bg-[var(--color-primary-500)] text-white rounded">
+                  Hot
+                </span>
+              )}
+              <p className="text-sm text-[var(--text-secondary)] group-hover:text-[var(--text-primary)] line-clamp-2 transition-colors">
+                {question.title}
+              </p>
+            </div>
+            <div className="flex items-center gap-3 mt-2 text-xs text-[var(--text-tertiary)]">
+              <span className="flex items-center gap-1">
+                <ArrowUp className="w-3 h-3" />
+                {question.votes}
+              </span>
+              <span className="flex items-center gap-1">
+                <MessageSquare className="w-3 h-3" />
+                {question.answers}
+              </span>
+            </div>
+          </Link>
+        ))}
+      </div>
+      <Link
+        href="/dashboard/questions"
+        className="block px-4 py-3 text-sm text-center font-medium text-[var(--color-primary-600)] hover:text-[var(--color-primary-500)] hover:bg-[var(--bg-secondary)] border-t border-[var(--border-light)] transition-colors"
+      >
+        View all questions →
+      </Link>
+    </div>
+  );
+}
+
 // Quick Stats Component (reusable)
 export function QuickStatsSection({ horizontal = false }: { horizontal?: boolean }) {
   return (
@@ -129,50 +220,7 @@ export default function RightSidebar() {
         ${isExpanded ? 'opacity-100 translate-x-0' : 'opacity-0 translate-x-4 pointer-events-none'}
       `}>
         {/* Popular Questions */}
-        <div className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] overflow-hidden">
-          <div className="px-4 py-3 border-b border-[var(--border-light)] bg-[var(--bg-secondary)]">
-            <h3 className="font-semibold text-[var(--text-primary)] flex items-center gap-2">
-              <Flame className="w-4 h-4 text-[var(--color-primary-500)]" />
-              Popular Questions
-            </h3>
-          </div>
-          <div className="divide-y divide-[var(--border-light)]">
-            {popularQuestions.map((question) => (
-              <Link
-                key={question.id}
-                href={`/dashboard/questions/${question.id}`}
-                className="block px-4 py-3 hover:bg-[var(--bg-secondary)] transition-colors group"
-              >
-                <div className="flex items-start gap-2">
-                  {question.isHot && (
-                    <span className="shrink-0 px-1.5 py-0.5 text-[10px] font-bold uppercase bg-[var(--color-primary-500)] text-white rounded">
-                      Hot
-                    </span>
-                  )}
-                  <p className="text-sm text-[var(--text-secondary)] group-hover:text-[var(--text-primary)] line-clamp-2 transition-colors">
-                    {question.title}
-                  </p>
-                </div>
-                <div className="flex items-center gap-3 mt-2 text-xs text-[var(--text-tertiary)]">
-                  <span className="flex items-center gap-1">
-                    <ArrowUp className="w-3 h-3" />
-                    {question.votes}
-                  </span>
-                  <span className="flex items-center gap-1">
-                    <MessageSquare className="w-3 h-3" />
-                    {question.answers}
-                  </span>
-                </div>
-              </Link>
-            ))}
-          </div>
-          <Link
-            href="/dashboard/questions"
-            className="block px-4 py-3 text-sm text-center font-medium text-[var(--color-primary-600)] hover:text-[var(--color-primary-500)] hover:bg-[var(--bg-secondary)] border-t border-[var(--border-light)] transition-colors"
-          >
-            View all questions →
-          </Link>
-        </div>
+        <HotQuestionsSection />
 
         {/* Trending Tags */}
         <TrendingTagsSection />
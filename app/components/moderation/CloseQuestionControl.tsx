@@ -0,0 +1,158 @@
+'use client';
+
+/**
+ * CloseQuestionControl Component
+ * ==============================
+ * Close/reopen button with reason picker. Moderators act instantly,
+ * other eligible users cast votes towards the quorum.
+ */
+
+import React, { useState } from 'react';
+import { Lock, Unlock } from 'lucide-react';
+import { useAuth } from '@/lib/auth/AuthContext';
+import { isModerator } from '@/lib/auth/roles';
+import { CLOSE_REASONS, CLOSE_VOTE_QUORUM, canCastCloseVote } from '@/lib/moderation';
+import type { CloseReason } from '@/lib/moderation';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export interface CloseState {
+    isClosed: boolean;
+    closedReason?: string;
+    duplicateOf?: string;
+}
+
+interface CloseQuestionControlProps {
+    questionId: string;
+    isClosed: boolean;
+    closeVoteCount: number;
+    reopenVoteCount: number;
+    onChange: (state: CloseState) => void;
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function CloseQuestionControl({
+    questionId,
+    isClosed,
+    closeVoteCount,
+    reopenVoteCount,
+    onChange,
+}: CloseQuestionControlProps) {
+    const { user } = useAuth();
+    const [isOpen, setIsOpen] = useState(false);
+    const [reason, setReason] = useState<CloseReason>('needs-details');
+    const [duplicateOf, setDuplicateOf] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [closeVotes, setCloseVotes] = useState(closeVoteCount);
+    const [reopenVotes, setReopenVotes] = useState(reopenVoteCount);
+
+    if (!user) return null;
+
+    const moderator = isModerator(user.role);
+    if (!moderator && !canCastCloseVote(user.reputation)) return null;
+
+    const submit = async (action: 'close' | 'reopen') => {
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/questions/${questionId}/${action}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: action === 'close'
+                    ? JSON.stringify({ reason, duplicateOf: reason === 'duplicate' ? duplicateOf.trim() : undefined })
+                    : JSON.stringify({}),
+            });
+            const data = await response.json();
+            if (data.success) {
+                // Votes reset whenever the question changes state
+                const changed = data.data.isClosed !== isClosed;
+                setCloseVotes(changed ? 0 : data.data.closeVotes ?? closeVotes);
+                setReopenVotes(changed ? 0 : data.data.reopenVotes ?? reopenVotes);
+                onChange({
+                    isClosed: data.data.isClosed,
+                    closedReason: data.data.closedReason,
+                    duplicateOf: data.data.duplicateOf,
+                });
+                setIsOpen(false);
+            } else {
+                setError(data.message || `Failed to ${action} question`);
+            }
+        } catch (err) {
+            console.error(`Error trying to ${action} question:`, err);
+            setError(`Failed to ${action} question`);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const buttonClass = 'inline-flex items-center justify-center gap-2 px-4 py-2.5 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-tertiary)] rounded-lg transition-colors disabled:opacity-50';
+
+    if (isClosed) {
+        return (
+            <div className="flex flex-col items-end gap-1">
+                <button onClick={() => submit('reopen')} disabled={isSubmitting} className={buttonClass}>
+                    <Unlock className="w-4 h-4" />
+                    {moderator ? 'Reopen' : `Reopen (${reopenVotes}/${CLOSE_VOTE_QUORUM})`}
+                </button>
+                {error && <span className="text-xs text-[var(--color-error-500)]">{error}</span>}
+            </div>
+        );
+    }
+
+    return (
+        <div className="relative">
+            <button onClick={() => setIsOpen(!isOpen)} className={buttonClass}>
+                <Lock className="w-4 h-4" />
+                {moderator ? 'Close' : `Close (${closeVotes}/${CLOSE_VOTE_QUORUM})`}
+            </button>
+
+            {isOpen && (
+                <>
+                    <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+                    <div className="absolute right-0 bottom-full mb-2 w-72 p-4 bg-[var(--bg-primary)] rounded-xl shadow-xl border border-[var(--border-light)] z-20 space-y-3">
+                        <p className="text-sm font-medium text-[var(--text-primary)]">
+                            {moderator ? 'Close this question' : 'Vote to close this question'}
+                        </p>
+                        <div className="space-y-1.5">
+                            {(Object.keys(CLOSE_REASONS) as CloseReason[]).map((key) => (
+                                <label key={key} className="flex items-center gap-2 text-sm text-[var(--text-secondary)] cursor-pointer">
+                                    <input
+                                        type="radio"
+                                        name="close-reason"
+                                        value={key}
+                                        checked={reason === key}
+                                        onChange={() => setReason(key)}
+                                    />
+                                    {CLOSE_REASONS[key]}
+                                </label>
+                            ))}
+                        </div>
+                        {reason === 'duplicate' && (
+                            <input
+                                type="text"
+                                value={duplicateOf}
+                                onChange={(e) => setDuplicateOf(e.target.value)}
+                                placeholder="Duplicate question ID"
+                                className="w-full h-9 px-3 bg-[var(--bg-secondary)] border border-[var(--border-light)] rounded-lg text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:border-[var(--color-primary-500)]"
+                            />
+                        )}
+                        {error && <p className="text-xs text-[var(--color-error-500)]">{error}</p>}
+                        <button
+                            onClick={() => submit('close')}
+                            disabled={isSubmitting || (reason === 'duplicate' && !duplicateOf.trim())}
+                            className="w-full h-9 bg-[var(--color-primary-500)] hover:bg-[var(--color-primary-600)] text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+                        >
+                            {isSubmitting ? 'Submitting...' : moderator ? 'Close Question' : 'Cast Close Vote'}
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
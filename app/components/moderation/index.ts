@@ -0,0 +1,8 @@
+/**
+ * Moderation Components Index
+ * ===========================
+ * Barrel export for moderation components
+ */
+
+export { CloseQuestionControl } from './CloseQuestionControl';
+export type { CloseState } from './CloseQuestionControl';
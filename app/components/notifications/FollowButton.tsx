@@ -0,0 +1,91 @@
+'use client';
+
+/**
+ * FollowButton Component
+ * ======================
+ * Follow/unfollow toggle for a question or tag. Followers get a
+ * notification for new activity.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Eye, EyeOff } from 'lucide-react';
+import { useAuth } from '@/lib/auth/AuthContext';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+interface FollowButtonProps {
+    targetType: 'question' | 'tag';
+    // A question ID or tag name
+    target: string;
+    className?: string;
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function FollowButton({ targetType, target, className = '' }: FollowButtonProps) {
+    const { isAuthenticated } = useAuth();
+    const [following, setFollowing] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const endpoint = targetType === 'question'
+        ? `/api/questions/${target}/follow`
+        : `/api/tags/${encodeURIComponent(target)}/follow`;
+
+    useEffect(() => {
+        if (!isAuthenticated) return;
+
+        const fetchStatus = async () => {
+            try {
+                const response = await fetch(endpoint);
+                const data = await response.json();
+                if (data.success) {
+                    setFollowing(data.data.following);
+                }
+            } catch (err) {
+                console.error('Error fetching follow status:', err);
+            }
+        };
+        fetchStatus();
+    }, [endpoint, isAuthenticated]);
+
+    if (!isAuthenticated) return null;
+
+    const handleClick = async () => {
+        setIsSubmitting(true);
+        try {
+            const response = await fetch(endpoint, { method: following ? 'DELETE' : 'POST' });
+            const data = await response.json();
+            if (data.success) {
+                setFollowing(data.data.following);
+            }
+        } catch (err) {
+            console.error('Error updating follow:', err);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const Icon = following ? EyeOff : Eye;
+
+    return (
+        <button
+            onClick={handleClick}
+            disabled={isSubmitting}
+            aria-pressed={following}
+            title={following
+                ? `Stop getting notifications for this ${targetType}`
+                : `Get notified about new ${targetType === 'question' ? 'answers and comments' : 'questions'}`}
+            className={`inline-flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border transition-colors disabled:opacity-50 ${following
+                ? 'border-[var(--color-primary-500)] text-[var(--color-primary-500)] bg-[var(--color-primary-500)]/10'
+                : 'border-[var(--border-light)] text-[var(--text-secondary)] hover:bg-[var(--bg-secondary)]'
+                } ${className}`}
+        >
+            <Icon className="w-4 h-4" />
+            {following ? 'Following' : 'Follow'}
+        </button>
+    );
+}
@@ -0,0 +1,231 @@
+'use client';
+
+/**
+ * NotificationBell Component
+ * ==========================
+ * Navbar bell with the unread count. Polls while the tab is open and shows
+ * the latest notifications in a dropdown.
+ */
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Bell } from 'lucide-react';
+import { useAuth } from '@/lib/auth/AuthContext';
+import { describeNotification, notificationHref } from '@/lib/notifications/format';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export interface NotificationEntry {
+    id: string;
+    type: 'question' | 'answer' | 'comment' | 'mention' | 'accepted' | 'reputation';
+    actor: { id: string; name: string; avatar?: string } | null;
+    question: { id: string; title: string } | null;
+    postType: 'question' | 'answer';
+    postId: string;
+    commentId: string | null;
+    tag: string | null;
+    points: number;
+    isRead: boolean;
+    createdAt: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const POLL_INTERVAL_MS = 60 * 1000;
+const PREVIEW_LIMIT = 5;
+
+// Dispatched on window when notifications are read elsewhere (e.g. the notifications page)
+export const NOTIFICATIONS_UPDATED_EVENT = 'notifications-updated';
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function formatTimeAgo(dateString: string): string {
+    const date = new Date(dateString);
+    const now = new Date();
+    const seconds = Math.floor((now.getTime() - date.getTime()) / 1000);
+
+    if (seconds < 60) return 'just now';
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+    if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+    if (seconds < 604800) return `${Math.floor(seconds / 86400)}d ago`;
+    return date.toLocaleDateString();
+}
+
+/**
+ * The latest notifications and the unread count, or null on failure
+ */
+async function fetchPreview(): Promise<{ notifications: NotificationEntry[]; unreadCount: number } | null> {
+    try {
+        const response = await fetch(`/api/notifications?limit=${PREVIEW_LIMIT}`);
+        const data = await response.json();
+        return data.success ? { notifications: data.data, unreadCount: data.unreadCount } : null;
+    } catch (err) {
+        console.error('Error fetching notifications:', err);
+        return null;
+    }
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function NotificationBell() {
+    const router = useRouter();
+    const { isAuthenticated } = useAuth();
+    const [isOpen, setIsOpen] = useState(false);
+    const [notifications, setNotifications] = useState<NotificationEntry[]>([]);
+    const [unreadCount, setUnreadCount] = useState(0);
+
+    useEffect(() => {
+        if (!isAuthenticated) return;
+
+        const refresh = async () => {
+            const preview = await fetchPreview();
+            if (preview) {
+                setNotifications(preview.notifications);
+                setUnreadCount(preview.unreadCount);
+            }
+        };
+
+        refresh();
+        const interval = window.setInterval(refresh, POLL_INTERVAL_MS);
+        window.addEventListener(NOTIFICATIONS_UPDATED_EVENT, refresh);
+
+        return () => {
+            window.clearInterval(interval);
+            window.removeEventListener(NOTIFICATIONS_UPDATED_EVENT, refresh);
+        };
+    }, [isAuthenticated]);
+
+    if (!isAuthenticated) return null;
+
+    const handleToggle = async () => {
+        if (isOpen) {
+            setIsOpen(false);
+            return;
+        }
+        setIsOpen(true);
+
+        const preview = await fetchPreview();
+        if (preview) {
+            setNotifications(preview.notifications);
+            setUnreadCount(preview.unreadCount);
+        }
+    };
+
+    const handleSelect = async (notification: NotificationEntry) => {
+        setIsOpen(false);
+
+        if (!notification.isRead) {
+            setNotifications((prev) => prev.map((n) => (n.id === notification.id ? { ...n, isRead: true } : n)));
+            setUnreadCount((count) => Math.max(0, count - 1));
+            try {
+                await fetch(`/api/notifications/${notification.id}`, {
+                    method: 'PATCH',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ isRead: true }),
+                });
+            } catch (err) {
+                console.error('Error marking notification read:', err);
+            }
+        }
+
+        const href = notificationHref(notification);
+        if (href) {
+            router.push(href);
+        }
+    };
+
+    const handleMarkAllRead = async () => {
+        try {
+            const response = await fetch('/api/notifications', { method: 'PATCH' });
+            const data = await response.json();
+            if (data.success) {
+                setNotifications((prev) => prev.map((n) => ({ ...n, isRead: true })));
+                setUnreadCount(0);
+            }
+        } catch (err) {
+            console.error('Error marking notifications read:', err);
+        }
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={handleToggle}
+                className="relative p-2 rounded-lg text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-secondary)] transition-colors"
+                aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+            >
+                <Bell className="w-5 h-5" />
+                {unreadCount > 0 && (
+                    <span className="absolute top-0.5 right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 flex items-center justify-center bg-[var(--color-primary-500)] text-white text-[10px] font-semibold rounded-full">
+                        {unreadCount > 99 ? '99+' : unreadCount}
+                    </span>
+                )}
+            </button>
+
+            {isOpen && (
+                <>
+                    <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+                    <div className="absolute right-0 top-full mt-2 w-80 bg-[var(--bg-primary)] rounded-xl shadow-xl border border-[var(--border-light)] z-20 overflow-hidden">
+                        <div className="flex items-center justify-between px-4 py-3 border-b border-[var(--border-light)]">
+                            <p className="font-medium text-[var(--text-primary)]">Notifications</p>
+                            {unreadCount > 0 && (
+                                <button
+                                    onClick={handleMarkAllRead}
+                                    className="text-xs text-[var(--color-primary-500)] hover:underline"
+                                >
+                                    Mark all read
+                                </button>
+                            )}
+                        </div>
+
+                        {notifications.length === 0 ? (
+                            <p className="px-4 py-6 text-sm text-center text-[var(--text-tertiary)]">
+                                You&apos;re all caught up
+                            </p>
+                        ) : (
+                            <ul className="max-h-96 overflow-y-auto divide-y divide-[var(--border-light)]">
+                                {notifications.map((notification) => (
+                                    <li key={notification.id}>
+                                        <button
+                                            onClick={() => handleSelect(notification)}
+                                            className="w-full text-left px-4 py-3 flex gap-3 hover:bg-[var(--bg-secondary)] transition-colors"
+                                        >
+                                            <span
+                                                className={`mt-1.5 w-2 h-2 shrink-0 rounded-full ${notification.isRead ? 'bg-transparent' : 'bg-[var(--color-primary-500)]'}`}
+                                            />
+                                            <span className="min-w-0">
+                                                <span className={`block text-sm line-clamp-2 ${notification.isRead ? 'text-[var(--text-secondary)]' : 'text-[var(--text-primary)] font-medium'}`}>
+                                                    {describeNotification(notification)}
+                                                </span>
+                                                <span className="block text-xs text-[var(--text-tertiary)] mt-0.5">
+                                                    {formatTimeAgo(notification.createdAt)}
+                                                </span>
+                                            </span>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
+                        <Link
+                            href="/dashboard/notifications"
+                            onClick={() => setIsOpen(false)}
+                            className="block px-4 py-2.5 text-sm text-center text-[var(--color-primary-500)] border-t border-[var(--border-light)] hover:bg-[var(--bg-secondary)]"
+                        >
+                            View all notifications
+                        </Link>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
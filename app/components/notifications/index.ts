@@ -0,0 +1,9 @@
+/**
+ * Notifications Components Index
+ * ==============================
+ * Barrel export for the notification bell and follow toggle
+ */
+
+export { NotificationBell, NOTIFICATIONS_UPDATED_EVENT } from './NotificationBell';
+export type { NotificationEntry } from './NotificationBell';
+export { FollowButton } from './FollowButton';
@@ -0,0 +1,166 @@
+'use client';
+
+/**
+ * PostEditor Component
+ * ====================
+ * Inline edit form for a question (title, body, tags) or an answer (body),
+ * with an optional edit summary stored on the revision
+ */
+
+import React, { useState } from 'react';
+import { AlertCircle, Save } from 'lucide-react';
+import TiptapEditor from '@/app/components/editor/TiptapEditor';
+import TagInput from '@/app/components/ui/TagInput';
+import { useAuth } from '@/lib/auth/AuthContext';
+import { canCreateTag } from '@/lib/tags/rules';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export interface EditedPost {
+    title?: string;
+    body: string;
+    tags?: string[];
+    editedAt?: string;
+}
+
+interface PostEditorProps {
+    postType: 'question' | 'answer';
+    postId: string;
+    initial: EditedPost;
+    onSaved: (post: EditedPost) => void;
+    onCancel: () => void;
+}
+
+const SUMMARY_MAX_LENGTH = 300;
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function PostEditor({ postType, postId, initial, onSaved, onCancel }: PostEditorProps) {
+    const { user } = useAuth();
+    const [title, setTitle] = useState(initial.title || '');
+    const [body, setBody] = useState(initial.body);
+    const [tags, setTags] = useState<string[]>(initial.tags || []);
+    const [summary, setSummary] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const isQuestion = postType === 'question';
+    const bodyLength = body.replace(/<[^>]*>/g, '').trim().length;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (isQuestion && title.trim().length < 15) {
+            setError('Title must be at least 15 characters');
+            return;
+        }
+        if (bodyLength < 30) {
+            setError('Body must be at least 30 characters');
+            return;
+        }
+        if (isQuestion && tags.length === 0) {
+            setError('Add at least one tag');
+            return;
+        }
+
+        setIsSaving(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/${postType}s/${postId}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(isQuestion ? { title, body, tags, summary } : { body, summary }),
+            });
+            const data = await response.json();
+            if (data.success) {
+                onSaved(data.data);
+            } else {
+                setError(data.message || 'Failed to save changes');
+            }
+        } catch (err) {
+            console.error('Error saving edit:', err);
+            setError('Failed to save changes. Please try again.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const inputClass = 'w-full h-10 px-3 bg-[var(--bg-secondary)] border border-[var(--border-light)] rounded-lg text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:border-[var(--color-primary-500)]';
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+                <div className="p-3 bg-[var(--color-error-500)]/10 border border-[var(--color-error-500)]/30 rounded-lg flex items-center gap-2 text-[var(--color-error-500)]">
+                    <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                    <span className="text-sm">{error}</span>
+                </div>
+            )}
+
+            {isQuestion && (
+                <input
+                    type="text"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    maxLength={150}
+                    placeholder="Question title"
+                    aria-label="Question title"
+                    className={inputClass}
+                />
+            )}
+
+            <TiptapEditor
+                value={body}
+                onChange={(html) => {
+                    setBody(html);
+                    setError(null);
+                }}
+                placeholder="Edit the post body..."
+                ariaLabel={isQuestion ? 'Question editor' : 'Answer editor'}
+            />
+
+            {isQuestion && (
+                <TagInput
+                    value={tags}
+                    onChange={setTags}
+                    placeholder="Add a tag (e.g. javascript)"
+                    maxTags={5}
+                    allowNewTags={canCreateTag(user?.role, user?.reputation)}
+                    ariaLabel="Question tags"
+                />
+            )}
+
+            <input
+                type="text"
+                value={summary}
+                onChange={(e) => setSummary(e.target.value)}
+                maxLength={SUMMARY_MAX_LENGTH}
+                placeholder="Edit summary (e.g. fixed typo, clarified error message)"
+                aria-label="Edit summary"
+                className={inputClass}
+            />
+
+            <div className="flex items-center justify-end gap-2">
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    disabled={isSaving}
+                    className="px-4 py-2 text-sm text-[var(--text-secondary)] hover:bg-[var(--bg-tertiary)] rounded-lg transition-colors"
+                >
+                    Cancel
+                </button>
+                <button
+                    type="submit"
+                    disabled={isSaving || bodyLength < 30}
+                    className="inline-flex items-center gap-2 px-4 py-2 bg-[var(--color-primary-500)] text-white text-sm rounded-lg font-medium hover:bg-[var(--color-primary-600)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <Save className="w-4 h-4" />
+                    {isSaving ? 'Saving...' : 'Save Edits'}
+                </button>
+            </div>
+        </form>
+    );
+}
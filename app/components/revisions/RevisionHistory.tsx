@@ -0,0 +1,290 @@
+'use client';
+
+/**
+ * RevisionHistory Component
+ * =========================
+ * Modal listing every revision of a post. Any two revisions can be compared
+ * inline or side by side, and older revisions can be restored in one click.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { History, RotateCcw, X } from 'lucide-react';
+import { htmlToText, diffWords, diffLines, toSideBySide } from '@/lib/revisions/diff';
+import type { DiffPart } from '@/lib/revisions/diff';
+import type { EditedPost } from './PostEditor';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+interface RevisionItem {
+    id: string;
+    revision: number;
+    title?: string;
+    body: string;
+    tags: string[];
+    summary: string;
+    rolledBackFrom?: number;
+    editor?: {
+        id: string;
+        name: string;
+        avatar?: string;
+    };
+    createdAt: string;
+}
+
+interface RevisionHistoryProps {
+    postType: 'question' | 'answer';
+    postId: string;
+    canRollback: boolean;
+    onRolledBack: (post: EditedPost) => void;
+    onClose: () => void;
+}
+
+type DiffMode = 'inline' | 'side-by-side';
+
+// ============================================
+// HELPER COMPONENTS
+// ============================================
+
+function InlineDiff({ parts }: { parts: DiffPart[] }) {
+    return (
+        <div className="whitespace-pre-wrap break-words text-sm leading-relaxed text-[var(--text-secondary)]">
+            {parts.map((part, index) => (
+                <span
+                    key={index}
+                    className={
+                        part.type === 'added'
+                            ? 'bg-[var(--color-success-500)]/20 text-[var(--color-success-500)]'
+                            : part.type === 'removed'
+                                ? 'bg-[var(--color-error-500)]/20 text-[var(--color-error-500)] line-through'
+                                : ''
+                    }
+                >
+                    {part.value}
+                </span>
+            ))}
+        </div>
+    );
+}
+
+function SideBySideDiff({ before, after }: { before: string; after: string }) {
+    const rows = toSideBySide(diffLines(before, after));
+    const cellClass = 'w-1/2 px-3 py-1 align-top whitespace-pre-wrap break-words';
+
+    return (
+        <table className="w-full table-fixed text-sm text-[var(--text-secondary)] border border-[var(--border-light)] rounded-lg overflow-hidden">
+            <tbody>
+                {rows.map((row, index) => (
+                    <tr key={index} className="border-b border-[var(--border-light)] last:border-b-0">
+                        <td className={`${cellClass} border-r border-[var(--border-light)] ${row.type === 'removed' || row.type === 'changed' ? 'bg-[var(--color-error-500)]/10' : ''}`}>
+                            {row.left}
+                        </td>
+                        <td className={`${cellClass} ${row.type === 'added' || row.type === 'changed' ? 'bg-[var(--color-success-500)]/10' : ''}`}>
+                            {row.right}
+                        </td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function RevisionHistory({ postType, postId, canRollback, onRolledBack, onClose }: RevisionHistoryProps) {
+    const [revisions, setRevisions] = useState<RevisionItem[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [fromId, setFromId] = useState<string | null>(null);
+    const [toId, setToId] = useState<string | null>(null);
+    const [mode, setMode] = useState<DiffMode>('inline');
+    const [rollingBack, setRollingBack] = useState<string | null>(null);
+
+    const fetchRevisions = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/${postType}s/${postId}/revisions`);
+            const data = await response.json();
+            if (data.success) {
+                const list: RevisionItem[] = data.data;
+                setRevisions(list);
+                // Default to comparing the latest revision against the one before it
+                setToId(list[0]?.id ?? null);
+                setFromId(list[1]?.id ?? list[0]?.id ?? null);
+            } else {
+                setError(data.message || 'Failed to load history');
+            }
+        } catch (err) {
+            console.error('Error fetching revisions:', err);
+            setError('Failed to load history');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [postType, postId]);
+
+    useEffect(() => {
+        fetchRevisions();
+    }, [fetchRevisions]);
+
+    const handleRollback = async (revision: RevisionItem) => {
+        if (!confirm(`Roll back to revision ${revision.revision}?`)) return;
+
+        setRollingBack(revision.id);
+        try {
+            const response = await fetch(`/api/revisions/${revision.id}/rollback`, { method: 'POST' });
+            const data = await response.json();
+            if (data.success) {
+                onRolledBack(data.data);
+                await fetchRevisions();
+            } else {
+                alert(data.message || 'Failed to roll back');
+            }
+        } catch (err) {
+            console.error('Rollback error:', err);
+        } finally {
+            setRollingBack(null);
+        }
+    };
+
+    const from = revisions.find((r) => r.id === fromId);
+    const to = revisions.find((r) => r.id === toId);
+    const latestId = revisions[0]?.id;
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                className="w-full max-w-5xl max-h-[90vh] flex flex-col bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] shadow-2xl overflow-hidden"
+                onClick={(e) => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="px-6 py-4 border-b border-[var(--border-light)] flex items-center justify-between">
+                    <h2 className="flex items-center gap-2 text-lg font-semibold text-[var(--text-primary)]">
+                        <History className="w-5 h-5" />
+                        Edit History
+                    </h2>
+                    <button onClick={onClose} className="p-1.5 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] rounded-lg transition-colors">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {isLoading ? (
+                    <p className="px-6 py-12 text-center text-sm text-[var(--text-tertiary)]">Loading history...</p>
+                ) : error ? (
+                    <p className="px-6 py-12 text-center text-sm text-[var(--color-error-500)]">{error}</p>
+                ) : revisions.length === 0 ? (
+                    <p className="px-6 py-12 text-center text-sm text-[var(--text-tertiary)]">This post has not been edited yet.</p>
+                ) : (
+                    <div className="flex flex-col md:flex-row min-h-0 flex-1">
+                        {/* Revision List */}
+                        <div className="md:w-72 shrink-0 overflow-y-auto border-b md:border-b-0 md:border-r border-[var(--border-light)]">
+                            <div className="px-4 py-2 flex justify-between text-[10px] uppercase tracking-wide text-[var(--text-tertiary)]">
+                                <span>From / To</span>
+                                <span>Revision</span>
+                            </div>
+                            {revisions.map((revision) => (
+                                <div key={revision.id} className="px-4 py-3 border-t border-[var(--border-light)] flex items-start gap-3">
+                                    <div className="flex items-center gap-1.5 pt-0.5">
+                                        <input
+                                            type="radio"
+                                            name="diff-from"
+                                            aria-label={`Compare from revision ${revision.revision}`}
+                                            checked={fromId === revision.id}
+                                            onChange={() => setFromId(revision.id)}
+                                        />
+                                        <input
+                                            type="radio"
+                                            name="diff-to"
+                                            aria-label={`Compare to revision ${revision.revision}`}
+                                            checked={toId === revision.id}
+                                            onChange={() => setToId(revision.id)}
+                                        />
+                                    </div>
+                                    <div className="flex-1 min-w-0 text-xs">
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span className="font-semibold text-[var(--text-primary)]">#{revision.revision}</span>
+                                            <span className="text-[var(--text-tertiary)]">
+                                                {new Date(revision.createdAt).toLocaleDateString()}
+                                            </span>
+                                        </div>
+                                        <p className="text-[var(--text-secondary)] truncate">{revision.editor?.name || 'Unknown'}</p>
+                                        {revision.summary && (
+                                            <p className="text-[var(--text-tertiary)] italic truncate" title={revision.summary}>
+                                                {revision.summary}
+                                            </p>
+                                        )}
+                                        {canRollback && revision.id !== latestId && (
+                                            <button
+                                                onClick={() => handleRollback(revision)}
+                                                disabled={rollingBack !== null}
+                                                className="mt-1 inline-flex items-center gap-1 text-[var(--color-primary-500)] hover:underline disabled:opacity-50"
+                                            >
+                                                <RotateCcw className="w-3 h-3" />
+                                                {rollingBack === revision.id ? 'Rolling back...' : 'Roll back'}
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+
+                        {/* Diff */}
+                        <div className="flex-1 min-w-0 overflow-y-auto p-6 space-y-4">
+                            <div className="flex items-center justify-between gap-4">
+                                <p className="text-sm text-[var(--text-secondary)]">
+                                    Comparing #{from?.revision} → #{to?.revision}
+                                </p>
+                                <div className="flex rounded-lg border border-[var(--border-light)] overflow-hidden text-xs">
+                                    {(['inline', 'side-by-side'] as DiffMode[]).map((option) => (
+                                        <button
+                                            key={option}
+                                            onClick={() => setMode(option)}
+                                            className={`px-3 py-1.5 capitalize transition-colors ${mode === option
+                                                ? 'bg-[var(--color-primary-500)] text-white'
+                                                : 'text-[var(--text-secondary)] hover:bg-[var(--bg-tertiary)]'
+                                                }`}
+                                        >
+                                            {option.replace(/-/g, ' ')}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {from && to && (
+                                <>
+                                    {postType === 'question' && (
+                                        <section className="space-y-2">
+                                            <h3 className="text-xs font-semibold uppercase tracking-wide text-[var(--text-tertiary)]">Title</h3>
+                                            {mode === 'inline'
+                                                ? <InlineDiff parts={diffWords(from.title || '', to.title || '')} />
+                                                : <SideBySideDiff before={from.title || ''} after={to.title || ''} />}
+                                        </section>
+                                    )}
+
+                                    <section className="space-y-2">
+                                        <h3 className="text-xs font-semibold uppercase tracking-wide text-[var(--text-tertiary)]">Body</h3>
+                                        {mode === 'inline'
+                                            ? <InlineDiff parts={diffWords(htmlToText(from.body), htmlToText(to.body))} />
+                                            : <SideBySideDiff before={htmlToText(from.body)} after={htmlToText(to.body)} />}
+                                    </section>
+
+                                    {postType === 'question' && (
+                                        <section className="space-y-2">
+                                            <h3 className="text-xs font-semibold uppercase tracking-wide text-[var(--text-tertiary)]">Tags</h3>
+                                            {mode === 'inline'
+                                                ? <InlineDiff parts={diffWords(from.tags.join(' '), to.tags.join(' '))} />
+                                                : <SideBySideDiff before={from.tags.join('\n')} after={to.tags.join('\n')} />}
+                                        </section>
+                                    )}
+                                </>
+                            )}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
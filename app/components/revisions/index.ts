@@ -0,0 +1,9 @@
+/**
+ * Revisions Components Index
+ * ==========================
+ * Barrel export for post editing and history components
+ */
+
+export { PostEditor } from './PostEditor';
+export type { EditedPost } from './PostEditor';
+export { RevisionHistory } from './RevisionHistory';
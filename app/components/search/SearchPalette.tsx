@@ -0,0 +1,292 @@
+'use client';
+
+/**
+ * SearchPalette - Command-palette style search for the navbar
+ *
+ * Features:
+ * - Results while typing, debounced, across questions and answers
+ * - Answer matches grouped under their question
+ * - Highlighted matches in titles and snippets
+ * - Keyboard support (⌘K / Ctrl+K to focus, arrows to move, Enter to open, Escape to close)
+ * - Supports the search operators ([tag], is:accepted, ...)
+ */
+
+import React, { useState, useRef, useEffect, KeyboardEvent } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Search, MessageSquare, CheckCircle2, Loader2 } from 'lucide-react';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+interface HighlightedText {
+  text: string;
+  highlights: [number, number][];
+}
+
+interface AnswerHit {
+  id: string;
+  snippet: HighlightedText;
+  score: number;
+  isAccepted: boolean;
+}
+
+interface QuestionHit {
+  id: string;
+  title: HighlightedText;
+  snippet: HighlightedText | null;
+  tags: string[];
+  score: number;
+  answerCount: number;
+  hasAcceptedAnswer: boolean;
+  isClosed: boolean;
+  answers: AnswerHit[];
+}
+
+interface PaletteItem {
+  key: string;
+  href: string;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const SEARCH_DEBOUNCE_MS = 200;
+const MIN_QUERY_LENGTH = 2;
+const RESULT_LIMIT = 8;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Text with its matched ranges wrapped in <mark>
+ */
+function Highlighted({ value }: { value: HighlightedText }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  value.highlights.forEach(([start, end], index) => {
+    if (start < position) return;
+    if (start > position) parts.push(value.text.slice(position, start));
+    parts.push(
+      <mark key={index} className="bg-[var(--color-primary-500)]/20 text-inherit rounded-sm">
+        {value.text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  if (position < value.text.length) parts.push(value.text.slice(position));
+
+  return <>{parts}</>;
+}
+
+const questionHref = (questionId: string) => `/dashboard/questions/${questionId}`;
+const answerHref = (questionId: string, answerId: string) => `/dashboard/questions/${questionId}#answer-${answerId}`;
+
+// ============================================
+// SEARCH PALETTE COMPONENT
+// ============================================
+
+export default function SearchPalette() {
+  const router = useRouter();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<QuestionHit[]>([]);
+  const [resultsFor, setResultsFor] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const trimmed = query.trim();
+
+  // ⌘K / Ctrl+K focuses the search from anywhere
+  useEffect(() => {
+    const handleShortcut = (e: globalThis.KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        inputRef.current?.focus();
+        inputRef.current?.select();
+      }
+    };
+    window.addEventListener('keydown', handleShortcut);
+    return () => window.removeEventListener('keydown', handleShortcut);
+  }, []);
+
+  // Search as you type, without a request per keystroke
+  useEffect(() => {
+    if (trimmed.length < MIN_QUERY_LENGTH) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const params = new URLSearchParams({ q: trimmed, limit: RESULT_LIMIT.toString() });
+        const response = await fetch(`/api/search?${params}`, { signal: controller.signal });
+        const data = await response.json();
+        if (data.success) {
+          setResults(data.data);
+          setResultsFor(trimmed);
+          setActiveIndex(0);
+        }
+      } catch (err) {
+        if ((err as Error).name !== 'AbortError') {
+          console.error('Error searching:', err);
+        }
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [trimmed]);
+
+  const close = () => {
+    setIsOpen(false);
+    inputRef.current?.blur();
+  };
+
+  // Results stay up while the next search loads, but never for a too-short query
+  const visibleResults = trimmed.length >= MIN_QUERY_LENGTH ? results : [];
+
+  // Questions and their answers in display order, for keyboard navigation
+  const items: PaletteItem[] = visibleResults.flatMap((hit) => [
+    { key: hit.id, href: questionHref(hit.id) },
+    ...hit.answers.map((answer) => ({ key: answer.id, href: answerHref(hit.id, answer.id) })),
+  ]);
+  const activeKey = items[Math.min(activeIndex, items.length - 1)]?.key;
+
+  // ============================================
+  // EVENT HANDLERS
+  // ============================================
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      close();
+    } else if (e.key === 'ArrowDown' && items.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index + 1) % items.length);
+    } else if (e.key === 'ArrowUp' && items.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index - 1 + items.length) % items.length);
+    } else if (e.key === 'Enter') {
+      const active = items.find((item) => item.key === activeKey);
+      if (active) {
+        e.preventDefault();
+        router.push(active.href);
+        close();
+      }
+    }
+  };
+
+  const itemClass = (key: string) =>
+    `block px-4 py-2.5 transition-colors ${
+      key === activeKey ? 'bg-[var(--bg-secondary)]' : 'hover:bg-[var(--bg-secondary)]'
+    }`;
+
+  const showDropdown = isOpen && trimmed.length >= MIN_QUERY_LENGTH;
+
+  return (
+    <div className={`relative transition-all duration-200 ${isOpen ? 'scale-[1.02]' : ''}`}>
+      <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-[var(--text-tertiary)]" />
+      <input
+        ref={inputRef}
+        type="text"
+        value={query}
+        placeholder="Search questions and answers..."
+        className="w-full h-10 pl-11 pr-4 bg-[var(--bg-secondary)] border-2 border-transparent rounded-xl text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:border-[var(--color-primary-500)] focus:bg-[var(--bg-primary)] transition-all"
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        role="combobox"
+        aria-expanded={showDropdown}
+        aria-controls="search-palette-results"
+        aria-label="Search"
+      />
+      {isLoading ? (
+        <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 animate-spin text-[var(--text-tertiary)]" />
+      ) : (
+        <kbd className="absolute right-3 top-1/2 -translate-y-1/2 hidden md:inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium text-[var(--text-tertiary)] bg-[var(--bg-tertiary)] rounded">
+          ⌘K
+        </kbd>
+      )}
+
+      {/* Results Dropdown */}
+      {showDropdown && (
+        <div
+          id="search-palette-results"
+          role="listbox"
+          className="absolute left-0 right-0 top-full mt-2 max-h-[70vh] overflow-y-auto py-2 bg-[var(--bg-primary)] rounded-xl shadow-xl border border-[var(--border-light)] z-20"
+          // Keep focus in the input so clicks land before blur closes the list
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {visibleResults.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-[var(--text-tertiary)]">
+              {isLoading || resultsFor !== trimmed ? 'Searching...' : `No results for "${trimmed}"`}
+            </p>
+          ) : (
+            visibleResults.map((hit) => (
+              <div key={hit.id} className="border-b border-[var(--border-light)] last:border-b-0">
+                <Link
+                  href={questionHref(hit.id)}
+                  onClick={close}
+                  role="option"
+                  aria-selected={hit.id === activeKey}
+                  className={itemClass(hit.id)}
+                >
+                  <div className="flex items-start gap-2">
+                    <MessageSquare className="w-4 h-4 mt-0.5 shrink-0 text-[var(--text-tertiary)]" />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium text-[var(--text-primary)] line-clamp-1">
+                        <Highlighted value={hit.title} />
+                        {hit.isClosed && <span className="ml-1 text-xs text-[var(--text-tertiary)]">[closed]</span>}
+                      </p>
+                      {hit.snippet && (
+                        <p className="mt-0.5 text-xs text-[var(--text-secondary)] line-clamp-2">
+                          <Highlighted value={hit.snippet} />
+                        </p>
+                      )}
+                      <p className="mt-1 text-xs text-[var(--text-tertiary)]">
+                        {hit.score} vote{hit.score !== 1 ? 's' : ''} · {hit.answerCount} answer{hit.answerCount !== 1 ? 's' : ''}
+                        {hit.tags.length > 0 && ` · ${hit.tags.slice(0, 3).join(', ')}`}
+                      </p>
+                    </div>
+                  </div>
+                </Link>
+
+                {/* Matching answers */}
+                {hit.answers.map((answer) => (
+                  <Link
+                    key={answer.id}
+                    href={answerHref(hit.id, answer.id)}
+                    onClick={close}
+                    role="option"
+                    aria-selected={answer.id === activeKey}
+                    className={`${itemClass(answer.id)} pl-10`}
+                  >
+                    <p className="flex items-center gap-1 text-xs font-medium text-[var(--text-tertiary)]">
+                      {answer.isAccepted && <CheckCircle2 className="w-3.5 h-3.5 text-[var(--color-success-500)]" />}
+                      {answer.isAccepted ? 'Accepted answer' : 'Answer'} · {answer.score} vote{answer.score !== 1 ? 's' : ''}
+                    </p>
+                    <p className="mt-0.5 text-xs text-[var(--text-secondary)] line-clamp-2">
+                      <Highlighted value={answer.snippet} />
+                    </p>
+                  </Link>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
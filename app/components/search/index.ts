@@ -0,0 +1,7 @@
+/**
+ * Search Components Index
+ * =======================
+ * Barrel export for search components
+ */
+
+export { default as SearchPalette } from './SearchPalette';
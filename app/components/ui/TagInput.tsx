@@ -6,7 +6,8 @@
  * Features:
  * - Visual tag badges with remove functionality
  * - Keyboard support (Enter to add, Backspace to remove)
- * - Auto-suggestions (optional)
+ * - Server-backed suggestions with question counts and excerpts
+ * - Synonyms resolved to their canonical tag
  * - Maximum tags limit
  * - Duplicate prevention
  * - Animated transitions
@@ -19,6 +20,7 @@
 import React, { useState, useRef, useCallback, KeyboardEvent, useEffect } from 'react';
 import { X, Plus } from 'lucide-react';
 import { Badge } from '@/app/components/ui/badge';
+import { TAG_CREATE_REPUTATION } from '@/lib/tags/rules';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -39,8 +41,8 @@ export interface TagInputProps {
     minTagLength?: number;
     /** Whether the input is disabled */
     disabled?: boolean;
-    /** Suggested tags to show */
-    suggestions?: string[];
+    /** Whether tags that don't exist yet can be added */
+    allowNewTags?: boolean;
     /** Aria label for accessibility */
     ariaLabel?: string;
     /** Additional CSS classes */
@@ -49,27 +51,38 @@ export interface TagInputProps {
     error?: string;
 }
 
+export interface TagSuggestion {
+    name: string;
+    excerpt: string;
+    questionCount: number;
+    synonyms: string[];
+}
+
 // ============================================
-// POPULAR TAG SUGGESTIONS
+// CONFIGURATION
 // ============================================
 
-const DEFAULT_SUGGESTIONS = [
-    'javascript',
-    'typescript',
-    'react',
-    'nextjs',
-    'nodejs',
-    'python',
-    'css',
-    'html',
-    'api',
-    'database',
-    'mongodb',
-    'postgresql',
-    'tailwindcss',
-    'git',
-    'docker',
-];
+const SUGGESTION_DEBOUNCE_MS = 250;
+const MAX_SUGGESTIONS = 6;
+
+/**
+ * Normalize tag: lowercase, trim, remove special chars
+ */
+const normalizeTag = (tag: string): string => {
+    return tag
+        .toLowerCase()
+        .trim()
+        .replace(/[^a-z0-9\-_.#+ ]/g, '')
+        .replace(/\s+/g, '-');
+};
+
+/**
+ * The synonym that matched the query, when the tag name itself didn't
+ */
+const matchedSynonym = (suggestion: TagSuggestion, query: string): string | undefined => {
+    if (suggestion.name.startsWith(query)) return undefined;
+    return suggestion.synonyms.find((synonym) => synonym.startsWith(query));
+};
 
 // ============================================
 // TAG INPUT COMPONENT
@@ -83,7 +96,7 @@ export default function TagInput({
     maxTagLength = 25,
     minTagLength = 2,
     disabled = false,
-    suggestions = DEFAULT_SUGGESTIONS,
+    allowNewTags = true,
     ariaLabel = 'Tags',
     className = '',
     error,
@@ -92,57 +105,119 @@ export default function TagInput({
     const [isFocused, setIsFocused] = useState(false);
     const [showSuggestions, setShowSuggestions] = useState(false);
     const [showPopularTags, setShowPopularTags] = useState(false);
+    const [suggestions, setSuggestions] = useState<TagSuggestion[]>([]);
+    const [notice, setNotice] = useState<string | null>(null);
     const inputRef = useRef<HTMLInputElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
 
     // ============================================
-    // FILTERED SUGGESTIONS
+    // SERVER SUGGESTIONS
     // ============================================
 
-    const filteredSuggestions = suggestions.filter(
-        (suggestion) =>
-            suggestion.toLowerCase().includes(inputValue.toLowerCase()) &&
-            !value.includes(suggestion.toLowerCase()) &&
-            inputValue.length > 0
-    );
+    // Prefix search on tag names and synonyms, debounced while typing
+    useEffect(() => {
+        const query = normalizeTag(inputValue);
+        if (!query) return;
+
+        const controller = new AbortController();
+        const timer = setTimeout(async () => {
+            try {
+                const params = new URLSearchParams({
+                    search: query,
+                    limit: MAX_SUGGESTIONS.toString(),
+                    sort: 'popular',
+                });
+                const response = await fetch(`/api/tags?${params}`, { signal: controller.signal });
+                const data = await response.json();
+                if (data.success) {
+                    setSuggestions(data.data);
+                }
+            } catch (err) {
+                if ((err as Error).name !== 'AbortError') {
+                    console.error('Error fetching tag suggestions:', err);
+                }
+            }
+        }, SUGGESTION_DEBOUNCE_MS);
+
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [inputValue]);
 
     // ============================================
     // TAG MANIPULATION
     // ============================================
 
     /**
-     * Normalize tag: lowercase, trim, remove special chars
+     * Add already-canonical tags, skipping invalid ones and duplicates
      */
-    const normalizeTag = (tag: string): string => {
-        return tag
-            .toLowerCase()
-            .trim()
-            .replace(/[^a-z0-9\-_.#+ ]/g, '')
-            .replace(/\s+/g, '-');
-    };
-
-    /**
-     * Add a new tag
-     */
-    const addTag = useCallback(
-        (tag: string) => {
-            const normalizedTag = normalizeTag(tag);
-
+    const addTags = useCallback(
+        (tags: string[]) => {
             // Validation checks
-            if (!normalizedTag) return;
-            if (normalizedTag.length < minTagLength) return;
-            if (normalizedTag.length > maxTagLength) return;
-            if (value.length >= maxTags) return;
-            if (value.includes(normalizedTag)) return;
-
-            onChange([...value, normalizedTag]);
-            setInputValue('');
+            const accepted = tags.filter(
+                (tag, index) =>
+                    tag.length >= minTagLength &&
+                    tag.length <= maxTagLength &&
+                    !value.includes(tag) &&
+                    tags.indexOf(tag) === index
+            );
+            const next = [...value, ...accepted.slice(0, Math.max(0, maxTags - value.length))];
+
+            if (next.length !== value.length) {
+                onChange(next);
+            }
             setShowSuggestions(false);
             setShowPopularTags(false); // Hide popular tags after selection
         },
         [value, onChange, maxTags, minTagLength, maxTagLength]
     );
 
+    /**
+     * Resolve typed tags to their canonical names before adding them.
+     * Synonyms map to the tag they alias; unknown tags are only added
+     * when the user is allowed to create new tags.
+     */
+    const commitTags = async (rawTags: string[]) => {
+        const resolved: string[] = [];
+        const rejected: string[] = [];
+
+        for (const raw of rawTags) {
+            const normalizedTag = normalizeTag(raw);
+            if (!normalizedTag) continue;
+
+            const known = suggestions.find(
+                (s) => s.name === normalizedTag || s.synonyms.includes(normalizedTag)
+            );
+            if (known) {
+                resolved.push(known.name);
+                continue;
+            }
+
+            try {
+                const response = await fetch(`/api/tags/${encodeURIComponent(normalizedTag)}`);
+                const data = await response.json();
+                if (data.success) {
+                    resolved.push(data.data.name);
+                    continue;
+                }
+            } catch (err) {
+                console.error('Error resolving tag:', err);
+            }
+
+            if (allowNewTags) {
+                resolved.push(normalizedTag);
+            } else {
+                rejected.push(normalizedTag);
+            }
+        }
+
+        setNotice(rejected.length > 0
+            ? `${rejected.join(', ')} ${rejected.length === 1 ? 'is a new tag' : 'are new tags'}. Creating tags requires ${TAG_CREATE_REPUTATION} reputation.`
+            : null);
+        addTags(resolved);
+    };
+
     /**
      * Remove a tag by index
      */
@@ -162,6 +237,15 @@ export default function TagInput({
         }
     }, [value, inputValue, removeTag]);
 
+    // Drop stale results from an earlier query and tags already added
+    const query = normalizeTag(inputValue);
+    const filteredSuggestions = suggestions.filter(
+        (suggestion) =>
+            query.length > 0 &&
+            !value.includes(suggestion.name) &&
+            (suggestion.name.startsWith(query) || !!matchedSynonym(suggestion, query))
+    );
+
     // ============================================
     // EVENT HANDLERS
     // ============================================
@@ -171,7 +255,8 @@ export default function TagInput({
             case 'Enter':
                 e.preventDefault();
                 if (inputValue.trim()) {
-                    addTag(inputValue);
+                    commitTags([inputValue]);
+                    setInputValue('');
                 }
                 break;
 
@@ -186,7 +271,8 @@ export default function TagInput({
             case 'Tab':
                 if (inputValue.trim()) {
                     e.preventDefault();
-                    addTag(inputValue);
+                    commitTags([inputValue]);
+                    setInputValue('');
                 }
                 break;
 
@@ -209,20 +295,19 @@ export default function TagInput({
         // Check for comma to split tags
         if (newValue.includes(',')) {
             const parts = newValue.split(',');
-            parts.forEach((part, index) => {
-                if (index < parts.length - 1 && part.trim()) {
-                    addTag(part.trim());
-                }
-            });
+            commitTags(parts.slice(0, -1).filter((part) => part.trim()));
             setInputValue(parts[parts.length - 1] || '');
         } else {
             setInputValue(newValue);
             setShowSuggestions(newValue.length > 0);
+            setNotice(null);
         }
     };
 
-    const handleSuggestionClick = (suggestion: string) => {
-        addTag(suggestion);
+    const handleSuggestionClick = (suggestion: TagSuggestion) => {
+        addTags([suggestion.name]);
+        setInputValue('');
+        setNotice(null);
         inputRef.current?.focus();
     };
 
@@ -366,6 +451,13 @@ export default function TagInput({
                 </p>
             )}
 
+            {/* New Tag Notice */}
+            {notice && !error && (
+                <p className="tag-error-message" role="status">
+                    {notice}
+                </p>
+            )}
+
             {/* Hint Text */}
             <p id="tag-hint" className="tag-hint">
                 Press Enter or comma to add • Backspace to remove last tag
@@ -378,17 +470,38 @@ export default function TagInput({
                         <Plus size={14} />
                         <span>Suggestions</span>
                     </div>
-                    {filteredSuggestions.slice(0, 6).map((suggestion) => (
-                        <button
-                            key={suggestion}
-                            type="button"
-                            onClick={() => handleSuggestionClick(suggestion)}
-                            className="tag-suggestion-item"
-                            role="option"
-                        >
-                            {suggestion}
-                        </button>
-                    ))}
+                    {filteredSuggestions.slice(0, MAX_SUGGESTIONS).map((suggestion) => {
+                        const synonym = matchedSynonym(suggestion, query);
+                        return (
+                            <button
+                                key={suggestion.name}
+                                type="button"
+                                onClick={() => handleSuggestionClick(suggestion)}
+                                className="tag-suggestion-item"
+                                role="option"
+                                aria-selected={false}
+                            >
+                                <span className="flex items-center justify-between gap-2">
+                                    <span className="font-medium">
+                                        {suggestion.name}
+                                        {synonym && (
+                                            <span className="ml-1.5 text-xs font-normal text-[var(--text-tertiary)]">
+                                                (synonym: {synonym})
+                                            </span>
+                                        )}
+                                    </span>
+                                    <span className="text-xs text-[var(--text-tertiary)]">
+                                        × {suggestion.questionCount}
+                                    </span>
+                                </span>
+                                {suggestion.excerpt && (
+                                    <span className="block mt-0.5 text-xs text-[var(--text-tertiary)] line-clamp-2">
+                                        {suggestion.excerpt}
+                                    </span>
+                                )}
+                            </button>
+                        );
+                    })}
                 </div>
             )}
 
@@ -0,0 +1,106 @@
+'use client';
+
+/**
+ * ConnectedAccounts Component
+ * ===========================
+ * Identity providers linked to the signed-in user, with unlinking
+ */
+
+import React, { useEffect, useState } from 'react';
+import { KeySquare } from 'lucide-react';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+interface LinkedIdentity {
+    id: string;
+    provider: string;
+    providerName: string;
+    email: string | null;
+    createdAt: string;
+    lastUsedAt: string;
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function ConnectedAccounts() {
+    const [identities, setIdentities] = useState<LinkedIdentity[] | null>(null);
+    const [pendingId, setPendingId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const fetchIdentities = async () => {
+            try {
+                const response = await fetch('/api/auth/identities');
+                const data = await response.json();
+                if (data.success) {
+                    setIdentities(data.data);
+                } else {
+                    setError(data.message || 'Failed to load connected accounts');
+                }
+            } catch (err) {
+                console.error('Error fetching connected accounts:', err);
+                setError('Failed to connect to server');
+            }
+        };
+        fetchIdentities();
+    }, []);
+
+    const unlink = async (id: string) => {
+        setPendingId(id);
+        setError(null);
+        try {
+            const response = await fetch(`/api/auth/identities/${id}`, { method: 'DELETE' });
+            const data = await response.json();
+            if (data.success) {
+                setIdentities(prev => prev?.filter(identity => identity.id !== id) ?? prev);
+            } else {
+                setError(data.message || 'Failed to unlink account');
+            }
+        } catch (err) {
+            console.error('Error unlinking account:', err);
+            setError('Failed to unlink account');
+        } finally {
+            setPendingId(null);
+        }
+    };
+
+    // Nothing to show for password-only accounts
+    if (!error && !identities?.length) return null;
+
+    return (
+        <div className="space-y-3 py-3">
+            <div>
+                <span className="block text-sm font-medium text-[var(--text-primary)]">Connected accounts</span>
+                <span className="block text-sm text-[var(--text-tertiary)]">
+                    Single sign-on accounts that can sign you in. They are linked when you sign in with one using the same verified email.
+                </span>
+            </div>
+
+            {error && <p className="text-sm text-[var(--color-error-500)]" role="alert">{error}</p>}
+
+            {identities?.map((identity) => (
+                <div key={identity.id} className="flex items-center gap-3">
+                    <KeySquare className="w-5 h-5 shrink-0 text-[var(--text-tertiary)]" />
+                    <div className="min-w-0 flex-1">
+                        <span className="block text-sm text-[var(--text-primary)]">{identity.providerName}</span>
+                        <span className="block text-xs text-[var(--text-tertiary)] truncate">
+                            {identity.email ? `${identity.email} · ` : ''}
+                            Last used {new Date(identity.lastUsedAt).toLocaleDateString()}
+                        </span>
+                    </div>
+                    <button
+                        onClick={() => unlink(identity.id)}
+                        disabled={pendingId !== null}
+                        className="px-3 py-1.5 text-sm rounded-lg text-[var(--text-secondary)] hover:text-[var(--color-error-500)] hover:bg-[var(--bg-secondary)] transition-colors disabled:opacity-50"
+                    >
+                        {pendingId === identity.id ? 'Unlinking...' : 'Unlink'}
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+}
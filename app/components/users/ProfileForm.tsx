@@ -0,0 +1,234 @@
+'use client';
+
+/**
+ * ProfileForm Component
+ * =====================
+ * Edit the public profile fields of the signed-in user
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { useAuth } from '@/lib/auth/AuthContext';
+import Loader from '@/app/components/ui/Loader';
+import ImageUpload from '@/app/components/ImageUpload';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+interface ProfileLink {
+    label?: string;
+    url: string;
+}
+
+interface ProfileFields {
+    name: string;
+    avatar: string;
+    bio: string;
+    location: string;
+    links: ProfileLink[];
+}
+
+const MAX_LINKS = 5;
+
+const inputClass = 'w-full px-3 py-2 bg-[var(--bg-secondary)] border border-[var(--border-light)] rounded-lg text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:border-[var(--color-primary-500)]';
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function ProfileForm() {
+    const { user, refreshUser } = useAuth();
+    const userId = user?.id;
+
+    const [fields, setFields] = useState<ProfileFields | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [saved, setSaved] = useState(false);
+
+    // Load the current public profile
+    useEffect(() => {
+        if (!userId) return;
+
+        const fetchProfile = async () => {
+            try {
+                const response = await fetch(`/api/users/${userId}`);
+                const data = await response.json();
+                if (data.success) {
+                    const { name, avatar, bio, location, links } = data.data.user;
+                    setFields({ name, avatar: avatar ?? '', bio, location, links });
+                } else {
+                    setError(data.message || 'Failed to load profile');
+                }
+            } catch (err) {
+                console.error('Error fetching profile:', err);
+                setError('Failed to connect to server');
+            }
+        };
+        fetchProfile();
+    }, [userId]);
+
+    const update = (changes: Partial<ProfileFields>) => {
+        setFields(prev => prev ? { ...prev, ...changes } : prev);
+        setSaved(false);
+    };
+
+    const updateLink = (index: number, changes: Partial<ProfileLink>) => {
+        if (!fields) return;
+        update({ links: fields.links.map((link, i) => i === index ? { ...link, ...changes } : link) });
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!fields || !userId) return;
+
+        setIsSaving(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/users/${userId}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    ...fields,
+                    // Drop empty rows; an empty label means "show the URL"
+                    links: fields.links
+                        .filter(link => link.url.trim())
+                        .map(link => link.label?.trim() ? link : { url: link.url }),
+                }),
+            });
+            const data = await response.json();
+            if (data.success) {
+                const { name, avatar, bio, location, links } = data.data;
+                setFields({ name, avatar: avatar ?? '', bio, location, links });
+                setSaved(true);
+                // The navbar shows the name and avatar from the auth context
+                await refreshUser();
+            } else {
+                setError(data.message || 'Failed to save profile');
+            }
+        } catch (err) {
+            console.error('Error saving profile:', err);
+            setError('Failed to save profile');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!fields) {
+        return error ? (
+            <p className="text-sm text-[var(--color-error-500)]">{error}</p>
+        ) : (
+            <div className="py-6">
+                <Loader fullScreen={false} variant="dots" size="md" message="Loading profile..." />
+            </div>
+        );
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+                <p className="p-3 text-sm rounded-lg bg-[var(--color-error-50)] text-[var(--color-error-600)] border border-[var(--color-error-500)]" role="alert">
+                    {error}
+                </p>
+            )}
+
+            <ImageUpload
+                value={fields.avatar}
+                onChange={(url) => update({ avatar: url })}
+                disabled={isSaving}
+            />
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <label className="block space-y-1">
+                    <span className="text-xs font-medium text-[var(--text-tertiary)]">Display name</span>
+                    <input
+                        type="text"
+                        value={fields.name}
+                        onChange={(e) => update({ name: e.target.value })}
+                        maxLength={50}
+                        required
+                        className={inputClass}
+                    />
+                </label>
+                <label className="block space-y-1">
+                    <span className="text-xs font-medium text-[var(--text-tertiary)]">Location</span>
+                    <input
+                        type="text"
+                        value={fields.location}
+                        onChange={(e) => update({ location: e.target.value })}
+                        maxLength={100}
+                        placeholder="e.g. Berlin, Germany"
+                        className={inputClass}
+                    />
+                </label>
+            </div>
+
+            <label className="block space-y-1">
+                <span className="text-xs font-medium text-[var(--text-tertiary)]">Bio</span>
+                <textarea
+                    value={fields.bio}
+                    onChange={(e) => update({ bio: e.target.value })}
+                    maxLength={500}
+                    rows={3}
+                    placeholder="A few words about you and what you work on"
+                    className={inputClass}
+                />
+            </label>
+
+            <div className="space-y-2">
+                <span className="text-xs font-medium text-[var(--text-tertiary)]">Links</span>
+                {fields.links.map((link, index) => (
+                    <div key={index} className="flex gap-2">
+                        <input
+                            type="text"
+                            value={link.label ?? ''}
+                            onChange={(e) => updateLink(index, { label: e.target.value })}
+                            maxLength={50}
+                            placeholder="Label"
+                            aria-label="Link label"
+                            className={`${inputClass} sm:w-40 w-28 shrink-0`}
+                        />
+                        <input
+                            type="url"
+                            value={link.url}
+                            onChange={(e) => updateLink(index, { url: e.target.value })}
+                            maxLength={200}
+                            placeholder="https://"
+                            aria-label="Link URL"
+                            className={inputClass}
+                        />
+                        <button
+                            type="button"
+                            onClick={() => update({ links: fields.links.filter((_, i) => i !== index) })}
+                            className="p-2 text-[var(--text-tertiary)] hover:text-[var(--color-error-500)] transition-colors"
+                            aria-label="Remove link"
+                        >
+                            <X className="w-4 h-4" />
+                        </button>
+                    </div>
+                ))}
+                {fields.links.length < MAX_LINKS && (
+                    <button
+                        type="button"
+                        onClick={() => update({ links: [...fields.links, { url: '' }] })}
+                        className="inline-flex items-center gap-1 text-sm text-[var(--color-primary-500)] hover:text-[var(--color-primary-400)] transition-colors"
+                    >
+                        <Plus className="w-4 h-4" />
+                        Add link
+                    </button>
+                )}
+            </div>
+
+            <div className="flex items-center justify-end gap-3">
+                {saved && <span className="text-xs text-[var(--text-tertiary)]">Saved</span>}
+                <button
+                    type="submit"
+                    disabled={isSaving}
+                    className="px-4 py-2 bg-[var(--color-primary-500)] text-white text-sm font-medium rounded-lg hover:bg-[var(--color-primary-600)] transition-colors disabled:opacity-50"
+                >
+                    {isSaving ? 'Saving...' : 'Save Profile'}
+                </button>
+            </div>
+        </form>
+    );
+}
@@ -0,0 +1,125 @@
+'use client';
+
+/**
+ * ReputationChart Component
+ * =========================
+ * Line chart of a user's reputation over time, drawn as inline SVG
+ */
+
+import React, { useState } from 'react';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export interface ReputationChartPoint {
+    date: string;
+    reputation: number;
+}
+
+interface ReputationChartProps {
+    points: ReputationChartPoint[];
+    granularity: 'day' | 'week' | 'month';
+}
+
+// Drawing area in SVG units; the chart scales to its container's width
+const WIDTH = 600;
+const HEIGHT = 180;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 44 };
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function formatDate(date: string, granularity: ReputationChartProps['granularity']): string {
+    const d = new Date(`${date}T00:00:00Z`);
+    const options: Intl.DateTimeFormatOptions = granularity === 'month'
+        ? { month: 'short', year: 'numeric', timeZone: 'UTC' }
+        : { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' };
+    return d.toLocaleDateString(undefined, options);
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function ReputationChart({ points, granularity }: ReputationChartProps) {
+    const [hovered, setHovered] = useState<number | null>(null);
+
+    if (points.length === 0) {
+        return <p className="text-sm text-[var(--text-tertiary)]">No reputation yet.</p>;
+    }
+
+    const max = Math.max(1, ...points.map(p => p.reputation));
+    const innerWidth = WIDTH - PADDING.left - PADDING.right;
+    const innerHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+    const x = (index: number) =>
+        PADDING.left + (points.length === 1 ? innerWidth : (index / (points.length - 1)) * innerWidth);
+    const y = (reputation: number) => PADDING.top + innerHeight - (reputation / max) * innerHeight;
+
+    const line = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i)},${y(p.reputation)}`).join(' ');
+    const area = `${line} L${x(points.length - 1)},${y(0)} L${x(0)},${y(0)} Z`;
+
+    // Snap the pointer to the nearest point
+    const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const svgX = ((e.clientX - rect.left) / rect.width) * WIDTH;
+        const ratio = (svgX - PADDING.left) / innerWidth;
+        const index = Math.round(ratio * (points.length - 1));
+        setHovered(Math.min(points.length - 1, Math.max(0, index)));
+    };
+
+    const active = hovered !== null ? points[hovered] : points[points.length - 1];
+
+    return (
+        <div>
+            <div className="flex items-baseline justify-between mb-2 text-sm">
+                <span className="font-semibold text-[var(--text-primary)]">
+                    {active.reputation.toLocaleString()} reputation
+                </span>
+                <span className="text-xs text-[var(--text-tertiary)]">
+                    {hovered !== null ? formatDate(active.date, granularity) : 'Now'}
+                </span>
+            </div>
+            <svg
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                className="w-full h-auto"
+                role="img"
+                aria-label={`Reputation over time, currently ${points[points.length - 1].reputation}`}
+                onMouseMove={handleMove}
+                onMouseLeave={() => setHovered(null)}
+            >
+                {/* Axes */}
+                <line x1={PADDING.left} y1={y(0)} x2={WIDTH - PADDING.right} y2={y(0)} stroke="var(--border-light)" />
+                <line x1={PADDING.left} y1={y(max)} x2={WIDTH - PADDING.right} y2={y(max)} stroke="var(--border-light)" strokeDasharray="4 4" />
+                <text x={PADDING.left - 6} y={y(max) + 4} textAnchor="end" fontSize="11" fill="var(--text-tertiary)">
+                    {max.toLocaleString()}
+                </text>
+                <text x={PADDING.left - 6} y={y(0) + 4} textAnchor="end" fontSize="11" fill="var(--text-tertiary)">
+                    0
+                </text>
+                <text x={PADDING.left} y={HEIGHT - 6} fontSize="11" fill="var(--text-tertiary)">
+                    {formatDate(points[0].date, granularity)}
+                </text>
+                <text x={WIDTH - PADDING.right} y={HEIGHT - 6} textAnchor="end" fontSize="11" fill="var(--text-tertiary)">
+                    {formatDate(points[points.length - 1].date, granularity)}
+                </text>
+
+                {/* Series */}
+                <path d={area} fill="var(--color-primary-500)" fillOpacity="0.12" />
+                <path d={line} fill="none" stroke="var(--color-primary-500)" strokeWidth="2" strokeLinejoin="round" />
+
+                {hovered !== null && (
+                    <>
+                        <line
+                            x1={x(hovered)} y1={PADDING.top} x2={x(hovered)} y2={y(0)}
+                            stroke="var(--text-tertiary)" strokeDasharray="2 3"
+                        />
+                        <circle cx={x(hovered)} cy={y(active.reputation)} r="4" fill="var(--color-primary-500)" />
+                    </>
+                )}
+            </svg>
+        </div>
+    );
+}
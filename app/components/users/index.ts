@@ -0,0 +1,10 @@
+/**
+ * Users Components Index
+ * ======================
+ * Barrel export for user profile components
+ */
+
+export { ReputationChart } from './ReputationChart';
+export { ProfileForm } from './ProfileForm';
+export { ConnectedAccounts } from './ConnectedAccounts';
+export type { ReputationChartPoint } from './ReputationChart';
@@ -8,6 +8,7 @@
  * - Title input
  * - TipTap rich text editor for body
  * - Tags input
+ * - Similar questions panel, with a "my question is different" confirmation for likely duplicates
  * - Save/Post functionality with example backend integration
  * 
  * @author DevSolve Team
@@ -15,9 +16,13 @@
  */
 
 import React, { useState, useCallback, useEffect } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
+import { CheckCircle2, Copy } from 'lucide-react';
 import TiptapEditor from '@/app/components/editor/TiptapEditor';
 import TagInput from '@/app/components/ui/TagInput';
+import { useAuth } from '@/lib/auth/AuthContext';
+import { canCreateTag } from '@/lib/tags/rules';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -33,6 +38,25 @@ interface QuestionData {
   updatedAt?: Date;
 }
 
+interface SimilarQuestion {
+  id: string;
+  title: string;
+  tags: string[];
+  score: number;
+  answerCount: number;
+  hasAcceptedAnswer: boolean;
+  isClosed: boolean;
+  similarity: number;
+  isLikelyDuplicate: boolean;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const SIMILAR_DEBOUNCE_MS = 600;
+const MIN_TITLE_LENGTH = 10;
+
 // ============================================
 // API INTEGRATION FUNCTIONS
 // ============================================
@@ -72,6 +96,7 @@ const createQuestion = async (data: { title: string; body: string; tags: string[
 // ============================================
 
 export default function AskQuestionPage() {
+  const { user } = useAuth();
   const router = useRouter();
 
   // Form state
@@ -85,6 +110,10 @@ export default function AskQuestionPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
+  // Duplicate detection
+  const [similarQuestions, setSimilarQuestions] = useState<SimilarQuestion[]>([]);
+  const [confirmedDifferent, setConfirmedDifferent] = useState(false);
+
   // No draft loading - ready to create new question
   useEffect(() => {
     // Clear any stale state on mount
@@ -94,6 +123,40 @@ export default function AskQuestionPage() {
     setMessage(null);
   }, []);
 
+  // Look for existing questions like this one while the author writes
+  useEffect(() => {
+    if (title.trim().length < MIN_TITLE_LENGTH) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/questions/similar', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ title: title.trim(), body, tags }),
+          signal: controller.signal,
+        });
+        const data = await response.json();
+        if (data.success) {
+          setSimilarQuestions(data.data);
+        }
+      } catch (err) {
+        if ((err as Error).name !== 'AbortError') {
+          console.error('Error fetching similar questions:', err);
+        }
+      }
+    }, SIMILAR_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [title, body, tags]);
+
+  // Results for a title that has since been cleared are hidden rather than refetched
+  const visibleSimilar = title.trim().length >= MIN_TITLE_LENGTH ? similarQuestions : [];
+  const hasLikelyDuplicates = visibleSimilar.some((question) => question.isLikelyDuplicate);
+
   // ============================================
   // HANDLERS
   // ============================================
@@ -144,6 +207,13 @@ export default function AskQuestionPage() {
       setMessage({ type: 'error', text: validationError });
       return;
     }
+    if (hasLikelyDuplicates && !confirmedDifferent) {
+      setMessage({
+        type: 'error',
+        text: 'Your question looks like one that has already been asked. Check the similar questions, or confirm yours is different.',
+      });
+      return;
+    }
 
     setIsPosting(true);
     setMessage(null);
@@ -161,6 +231,7 @@ export default function AskQuestionPage() {
         setTitle('');
         setBody('');
         setTags([]);
+        setConfirmedDifferent(false);
         // Redirect to questions page after short delay
         setTimeout(() => {
           router.push('/dashboard/questions');
@@ -182,6 +253,7 @@ export default function AskQuestionPage() {
     setTitle('');
     setBody('');
     setTags([]);
+    setConfirmedDifferent(false);
     setMessage(null);
   };
 
@@ -242,6 +314,61 @@ export default function AskQuestionPage() {
           <p id="title-hint" className="mt-2 text-sm text-[var(--text-tertiary)]">
             Be specific and imagine you&apos;re asking another person
           </p>
+
+          {/* Similar Questions */}
+          {visibleSimilar.length > 0 && (
+            <div
+              className={`mt-4 p-4 rounded-lg border ${hasLikelyDuplicates
+                ? 'bg-[var(--color-warning-50)] border-[var(--color-warning-500)]'
+                : 'bg-[var(--bg-secondary)] border-[var(--border-light)]'
+                }`}
+            >
+              <h3 className="flex items-center gap-2 text-sm font-semibold text-[var(--text-primary)] mb-1">
+                <Copy className="w-4 h-4" />
+                {hasLikelyDuplicates ? 'This may have been asked before' : 'Similar questions'}
+              </h3>
+              <p className="text-xs text-[var(--text-tertiary)] mb-3">
+                An existing answer might already solve your problem.
+              </p>
+              <ul className="space-y-2">
+                {visibleSimilar.map((question) => (
+                  <li key={question.id} className="flex items-start justify-between gap-3">
+                    <Link
+                      href={`/dashboard/questions/${question.id}`}
+                      target="_blank"
+                      className="text-sm text-[var(--color-primary-600)] hover:underline"
+                    >
+                      {question.title}
+                      {question.isClosed && <span className="ml-1 text-xs text-[var(--text-tertiary)]">[closed]</span>}
+                    </Link>
+                    <span className="shrink-0 flex items-center gap-2 text-xs text-[var(--text-tertiary)]">
+                      {question.isLikelyDuplicate && (
+                        <span className="px-1.5 py-0.5 rounded bg-[var(--color-warning-500)]/15 text-[var(--color-warning-600)] font-medium">
+                          Likely duplicate
+                        </span>
+                      )}
+                      <span className="inline-flex items-center gap-1">
+                        {question.hasAcceptedAnswer && <CheckCircle2 className="w-3.5 h-3.5 text-[var(--color-success-500)]" />}
+                        {question.answerCount} answer{question.answerCount !== 1 ? 's' : ''}
+                      </span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+
+              {hasLikelyDuplicates && (
+                <label className="mt-4 flex items-center gap-2 text-sm text-[var(--text-primary)] cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={confirmedDifferent}
+                    onChange={(e) => setConfirmedDifferent(e.target.checked)}
+                    className="w-4 h-4 accent-[var(--color-primary-500)]"
+                  />
+                  My question is different from these
+                </label>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Body - TipTap Rich Text Editor */}
@@ -272,6 +399,7 @@ export default function AskQuestionPage() {
             onChange={handleTagsChange}
             placeholder="Add a tag (e.g. javascript)"
             maxTags={5}
+            allowNewTags={canCreateTag(user?.role, user?.reputation)}
             ariaLabel="Question tags"
           />
         </div>
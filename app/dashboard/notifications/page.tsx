@@ -0,0 +1,393 @@
+'use client';
+
+import React, { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import { Bell, CheckCheck, Eye, X } from 'lucide-react';
+import Loader from '@/app/components/ui/Loader';
+import { NOTIFICATIONS_UPDATED_EVENT } from '@/app/components/notifications';
+import type { NotificationEntry } from '@/app/components/notifications';
+import { describeNotification, notificationHref } from '@/lib/notifications/format';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+interface NotificationsResponse {
+  success: boolean;
+  data: NotificationEntry[];
+  unreadCount: number;
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+interface FollowedItems {
+  questions: { id: string; title: string; followedAt: string }[];
+  tags: { name: string; followedAt: string }[];
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function formatTimeAgo(dateString: string): string {
+  const date = new Date(dateString);
+  const now = new Date();
+  const seconds = Math.floor((now.getTime() - date.getTime()) / 1000);
+
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} mins ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)} hours ago`;
+  if (seconds < 604800) return `${Math.floor(seconds / 86400)} days ago`;
+  return date.toLocaleDateString();
+}
+
+// Keep the navbar bell in step with changes made here
+function announceUpdate() {
+  window.dispatchEvent(new Event(NOTIFICATIONS_UPDATED_EVENT));
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export default function NotificationsPage() {
+  const [notifications, setNotifications] = useState<NotificationEntry[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [follows, setFollows] = useState<FollowedItems>({ questions: [], tags: [] });
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Fetch notifications and the unread count
+  const fetchNotifications = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ page: page.toString(), limit: '20' });
+      if (unreadOnly) params.set('unread', 'true');
+
+      const response = await fetch(`/api/notifications?${params}`);
+      const data: NotificationsResponse = await response.json();
+
+      if (data.success) {
+        setNotifications(data.data);
+        setUnreadCount(data.unreadCount);
+        setTotalPages(Math.max(1, data.pagination.pages));
+      } else {
+        setError('Failed to load notifications');
+      }
+    } catch (err) {
+      console.error('Error fetching notifications:', err);
+      setError('Failed to connect to server');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, unreadOnly]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  // Fetch followed questions and tags
+  useEffect(() => {
+    const fetchFollows = async () => {
+      try {
+        const response = await fetch('/api/follows');
+        const data = await response.json();
+        if (data.success) {
+          setFollows(data.data);
+        }
+      } catch (err) {
+        console.error('Error fetching follows:', err);
+      }
+    };
+    fetchFollows();
+  }, []);
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+
+  const setRead = async (notification: NotificationEntry, isRead: boolean) => {
+    if (notification.isRead === isRead) return;
+
+    setActionError(null);
+    try {
+      const response = await fetch(`/api/notifications/${notification.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isRead }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setNotifications((prev) => prev.map((n) => (n.id === notification.id ? { ...n, isRead } : n)));
+        setUnreadCount(data.data.unreadCount);
+        announceUpdate();
+      } else {
+        setActionError(data.message || 'Failed to update notification');
+      }
+    } catch (err) {
+      console.error('Error updating notification:', err);
+      setActionError('Failed to update notification');
+    }
+  };
+
+  const markAllRead = async () => {
+    setActionError(null);
+    try {
+      const response = await fetch('/api/notifications', { method: 'PATCH' });
+      const data = await response.json();
+      if (data.success) {
+        announceUpdate();
+        if (unreadOnly) {
+          await fetchNotifications();
+        } else {
+          setNotifications((prev) => prev.map((n) => ({ ...n, isRead: true })));
+          setUnreadCount(0);
+        }
+      } else {
+        setActionError(data.message || 'Failed to mark notifications read');
+      }
+    } catch (err) {
+      console.error('Error marking notifications read:', err);
+      setActionError('Failed to mark notifications read');
+    }
+  };
+
+  const unfollow = async (targetType: 'question' | 'tag', target: string) => {
+    setActionError(null);
+    try {
+      const endpoint = targetType === 'question'
+        ? `/api/questions/${target}/follow`
+        : `/api/tags/${encodeURIComponent(target)}/follow`;
+      const response = await fetch(endpoint, { method: 'DELETE' });
+      const data = await response.json();
+      if (data.success) {
+        setFollows((prev) => ({
+          questions: prev.questions.filter((q) => targetType !== 'question' || q.id !== target),
+          tags: prev.tags.filter((t) => targetType !== 'tag' || t.name !== target),
+        }));
+      } else {
+        setActionError(data.message || 'Failed to unfollow');
+      }
+    } catch (err) {
+      console.error('Error unfollowing:', err);
+      setActionError('Failed to unfollow');
+    }
+  };
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1.5 text-sm rounded-lg transition-colors ${active
+      ? 'bg-[var(--color-primary-500)]/10 text-[var(--color-primary-600)] font-medium'
+      : 'text-[var(--text-secondary)] hover:bg-[var(--bg-secondary)]'
+    }`;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-[var(--text-primary)]">Notifications</h1>
+          <p className="text-sm text-[var(--text-tertiary)] mt-1">
+            Activity on questions and tags you follow, mentions, and reputation changes.
+          </p>
+        </div>
+        <button
+          onClick={markAllRead}
+          disabled={unreadCount === 0}
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm text-[var(--text-secondary)] border border-[var(--border-light)] rounded-lg hover:bg-[var(--bg-tertiary)] transition-colors disabled:opacity-50"
+        >
+          <CheckCheck className="w-4 h-4" />
+          Mark all read
+        </button>
+      </div>
+
+      {actionError && (
+        <div className="flex items-center justify-between gap-3 p-3 text-sm rounded-lg bg-[var(--color-error-50)] text-[var(--color-error-600)] border border-[var(--color-error-500)]" role="alert">
+          {actionError}
+          <button onClick={() => setActionError(null)} aria-label="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        <div className="flex-1 min-w-0 space-y-4">
+          {/* Filter */}
+          <div className="flex items-center gap-2">
+            <button onClick={() => { setUnreadOnly(false); setPage(1); }} className={tabClass(!unreadOnly)}>
+              All
+            </button>
+            <button onClick={() => { setUnreadOnly(true); setPage(1); }} className={tabClass(unreadOnly)}>
+              Unread{unreadCount > 0 && ` (${unreadCount})`}
+            </button>
+          </div>
+
+          <div className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] overflow-hidden">
+            {/* Loading State */}
+            {isLoading && (
+              <div className="py-12">
+                <Loader fullScreen={false} variant="dots" size="md" message="Loading notifications..." />
+              </div>
+            )}
+
+            {/* Error State */}
+            {error && !isLoading && (
+              <div className="py-12 text-center">
+                <p className="text-[var(--color-error-500)] mb-3">{error}</p>
+                <button onClick={fetchNotifications} className="text-sm text-[var(--color-primary-600)] hover:underline">
+                  Try again
+                </button>
+              </div>
+            )}
+
+            {/* Empty State */}
+            {!isLoading && !error && notifications.length === 0 && (
+              <div className="px-6 py-12 text-center">
+                <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-[var(--bg-secondary)] flex items-center justify-center">
+                  <Bell className="w-8 h-8 text-[var(--text-tertiary)]" />
+                </div>
+                <h3 className="text-lg font-semibold text-[var(--text-primary)] mb-2">
+                  {unreadOnly ? "You're all caught up" : 'No notifications yet'}
+                </h3>
+                <p className="text-[var(--text-secondary)]">
+                  Follow questions and tags to hear about new activity
+                </p>
+              </div>
+            )}
+
+            {/* Notifications */}
+            {!isLoading && !error && notifications.length > 0 && (
+              <ul className="divide-y divide-[var(--border-light)]">
+                {notifications.map((notification) => {
+                  const href = notificationHref(notification);
+
+                  return (
+                    <li
+                      key={notification.id}
+                      className={`px-6 py-4 flex items-start gap-3 ${notification.isRead ? '' : 'bg-[var(--color-primary-500)]/5'}`}
+                    >
+                      <span
+                        className={`mt-2 w-2 h-2 shrink-0 rounded-full ${notification.isRead ? 'bg-transparent' : 'bg-[var(--color-primary-500)]'}`}
+                      />
+                      <div className="flex-1 min-w-0">
+                        {href ? (
+                          <Link
+                            href={href}
+                            onClick={() => setRead(notification, true)}
+                            className={`block hover:text-[var(--color-primary-600)] ${notification.isRead ? 'text-[var(--text-secondary)]' : 'text-[var(--text-primary)] font-medium'}`}
+                          >
+                            {describeNotification(notification)}
+                          </Link>
+                        ) : (
+                          <p className="text-[var(--text-tertiary)]">{describeNotification(notification)}</p>
+                        )}
+                        <span className="text-xs text-[var(--text-tertiary)]">{formatTimeAgo(notification.createdAt)}</span>
+                      </div>
+                      <button
+                        onClick={() => setRead(notification, !notification.isRead)}
+                        className="shrink-0 text-xs text-[var(--text-tertiary)] hover:text-[var(--text-primary)]"
+                      >
+                        {notification.isRead ? 'Mark unread' : 'Mark read'}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          {/* Pagination */}
+          {!isLoading && !error && totalPages > 1 && (
+            <div className="flex flex-col sm:flex-row items-center justify-between gap-3">
+              <button
+                onClick={() => setPage(p => Math.max(1, p - 1))}
+                disabled={page === 1}
+                className="w-full sm:w-auto px-4 py-2.5 text-sm font-medium text-[var(--text-primary)] bg-[var(--bg-secondary)] rounded-lg hover:bg-[var(--border-light)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                ← Previous
+              </button>
+              <span className="text-sm text-[var(--text-tertiary)] order-first sm:order-none">
+                Page {page} of {totalPages}
+              </span>
+              <button
+                onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+                disabled={page === totalPages}
+                className="w-full sm:w-auto px-4 py-2.5 text-sm font-medium text-[var(--text-primary)] bg-[var(--bg-secondary)] rounded-lg hover:bg-[var(--border-light)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next →
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Following */}
+        <aside className="lg:w-72 shrink-0 space-y-4">
+          <div className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] p-4 space-y-3">
+            <h2 className="flex items-center gap-2 text-sm font-semibold text-[var(--text-primary)]">
+              <Eye className="w-4 h-4" />
+              Following
+            </h2>
+
+            <div className="space-y-2">
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-[var(--text-tertiary)]">Tags</h3>
+              {follows.tags.length === 0 ? (
+                <p className="text-sm text-[var(--text-tertiary)]">Follow a tag from its page</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {follows.tags.map((tag) => (
+                    <span
+                      key={tag.name}
+                      className="inline-flex items-center gap-1 px-2 py-0.5 text-xs bg-[var(--bg-tertiary)] text-[var(--text-secondary)] rounded border border-[var(--border-light)]"
+                    >
+                      <Link href={`/dashboard/tags/${encodeURIComponent(tag.name)}`} className="hover:text-[var(--color-primary-600)]">
+                        {tag.name}
+                      </Link>
+                      <button onClick={() => unfollow('tag', tag.name)} aria-label={`Unfollow ${tag.name}`}>
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-[var(--text-tertiary)]">Questions</h3>
+              {follows.questions.length === 0 ? (
+                <p className="text-sm text-[var(--text-tertiary)]">You follow questions you ask or answer</p>
+              ) : (
+                <ul className="space-y-1.5">
+                  {follows.questions.map((question) => (
+                    <li key={question.id} className="group flex items-start gap-2">
+                      <Link
+                        href={`/dashboard/questions/${question.id}`}
+                        className="flex-1 min-w-0 text-sm text-[var(--text-secondary)] hover:text-[var(--color-primary-600)] line-clamp-2"
+                      >
+                        {question.title}
+                      </Link>
+                      <button
+                        onClick={() => unfollow('question', question.id)}
+                        className="p-0.5 text-[var(--text-tertiary)] hover:text-[var(--color-error-500)] opacity-0 group-hover:opacity-100 focus:opacity-100"
+                        aria-label="Unfollow question"
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+}
@@ -2,8 +2,8 @@
 
 import React, { useEffect, useState, useCallback } from 'react';
 import Link from 'next/link';
-import { useParams } from 'next/navigation';
-import { ArrowLeft, ThumbsUp, ThumbsDown, MessageSquare, Eye, Bookmark, Clock, Share2, Send, AlertCircle, ChevronDown } from 'lucide-react';
+import { useParams, useRouter } from 'next/navigation';
+import { ArrowLeft, ThumbsUp, ThumbsDown, MessageSquare, Eye, Clock, Share2, Send, AlertCircle, ChevronDown, CheckCircle2, Lock, Pencil, History, Trash2, RotateCcw } from 'lucide-react';
 import Prism from 'prismjs';
 import 'prismjs/components/prism-javascript';
 import 'prismjs/components/prism-typescript';
@@ -19,6 +19,18 @@ import 'prismjs/components/prism-markup';
 import Loader from '@/app/components/ui/Loader';
 import { useAuth } from '@/lib/auth/AuthContext';
 import TiptapEditor from '@/app/components/editor/TiptapEditor';
+import { CommentThread } from '@/app/components/comments';
+import { CloseQuestionControl } from '@/app/components/moderation';
+import type { CloseState } from '@/app/components/moderation';
+import { describeCloseReason } from '@/lib/moderation';
+import { PostEditor, RevisionHistory } from '@/app/components/revisions';
+import type { EditedPost } from '@/app/components/revisions';
+import { isModerator, isAdmin } from '@/lib/auth/roles';
+import { canUndeletePost } from '@/lib/posts/permissions';
+import { BookmarkButton } from '@/app/components/bookmarks';
+import { FollowButton } from '@/app/components/notifications';
+import type { BookmarkState } from '@/app/components/bookmarks';
+import { useQuestionEvents } from '@/lib/hooks/useQuestionEvents';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -33,8 +45,20 @@ interface Question {
     upvotes: string[];
     downvotes: string[];
     answers: Answer[];
+    acceptedAnswer?: string;
+    isClosed?: boolean;
+    closedReason?: string;
+    closedAt?: string;
+    duplicateOf?: { _id: string; title?: string } | null;
+    closeVotes?: { user: string }[];
+    reopenVotes?: { user: string }[];
+    editedAt?: string;
+    editedBy?: { name: string } | null;
+    isDeleted?: boolean;
+    deletedBy?: string | null;
     author?: {
         _id: string;
+        id?: string;
         name: string;
         avatar?: string;
         reputation?: number;
@@ -48,14 +72,25 @@ interface Answer {
     body: string;
     author?: {
         _id: string;
+        id?: string;
         name: string;
         avatar?: string;
     };
     upvotes: string[];
     downvotes: string[];
+    isAccepted?: boolean;
+    editedAt?: string;
+    editedBy?: { name: string } | null;
+    isDeleted?: boolean;
+    deletedBy?: string | null;
     createdAt: string;
 }
 
+interface PostRef {
+    type: 'question' | 'answer';
+    id: string;
+}
+
 interface ApiResponse {
     success: boolean;
     data?: Question;
@@ -126,6 +161,7 @@ function highlightCodeBlocks(container: HTMLElement | null) {
 
 export default function QuestionDetailPage() {
     const params = useParams();
+    const router = useRouter();
     const { user, isAuthenticated } = useAuth();
     const [question, setQuestion] = useState<Question | null>(null);
     const [isLoading, setIsLoading] = useState(true);
@@ -186,6 +222,8 @@ export default function QuestionDetailPage() {
                     upvotes: data.data.upvotes,
                     downvotes: data.data.downvotes,
                 } : null);
+            } else if (data.message) {
+                alert(data.message);
             }
         } catch (err) {
             console.error('Vote error:', err);
@@ -220,6 +258,8 @@ export default function QuestionDetailPage() {
                             : a
                     ),
                 } : null);
+            } else if (data.message) {
+                alert(data.message);
             }
         } catch (err) {
             console.error('Vote error:', err);
@@ -232,6 +272,121 @@ export default function QuestionDetailPage() {
         }
     };
 
+    // Accept loading state
+    const [acceptingAnswer, setAcceptingAnswer] = useState<string | null>(null);
+
+    // Handle accept/unaccept (question author only)
+    const handleAcceptAnswer = async (answer: Answer) => {
+        if (!question || acceptingAnswer) return;
+
+        setAcceptingAnswer(answer._id);
+        try {
+            const response = await fetch(`/api/answers/${answer._id}/accept`, {
+                method: answer.isAccepted ? 'DELETE' : 'POST',
+            });
+            const data = await response.json();
+            if (data.success) {
+                const acceptedId: string | null = data.data.acceptedAnswer;
+                // Mark the accepted answer and pin it first
+                setQuestion(prev => prev ? {
+                    ...prev,
+                    acceptedAnswer: acceptedId || undefined,
+                    answers: prev.answers
+                        .map(a => ({ ...a, isAccepted: a._id === acceptedId }))
+                        .sort((a, b) => Number(!!b.isAccepted) - Number(!!a.isAccepted)),
+                } : null);
+            } else if (data.message) {
+                alert(data.message);
+            }
+        } catch (err) {
+            console.error('Accept error:', err);
+        } finally {
+            setAcceptingAnswer(null);
+        }
+    };
+
+    // Apply close/reopen results without refetching
+    const handleCloseChange = (state: CloseState) => {
+        setQuestion(prev => prev ? {
+            ...prev,
+            isClosed: state.isClosed,
+            closedReason: state.closedReason,
+            duplicateOf: state.duplicateOf ? { _id: state.duplicateOf } : null,
+        } : null);
+    };
+
+    // Edit and history state - at most one post is edited or inspected at a time
+    const [editingPost, setEditingPost] = useState<PostRef | null>(null);
+    const [historyPost, setHistoryPost] = useState<PostRef | null>(null);
+
+    // Merge saved or rolled-back content into page state
+    const applyPostEdit = (ref: PostRef, post: EditedPost) => {
+        const edited = {
+            body: post.body,
+            editedAt: post.editedAt,
+            editedBy: user ? { name: user.name } : null,
+        };
+        setQuestion(prev => {
+            if (!prev) return null;
+            if (ref.type === 'question') {
+                return { ...prev, ...edited, title: post.title ?? prev.title, tags: post.tags ?? prev.tags };
+            }
+            return {
+                ...prev,
+                answers: prev.answers.map(a => a._id === ref.id ? { ...a, ...edited } : a),
+            };
+        });
+        setEditingPost(null);
+    };
+
+    // Authors and moderators can edit and roll back
+    const canEdit = (author?: { _id: string; id?: string }) =>
+        !!user && ((author?._id ?? author?.id) === user.id || isModerator(user.role));
+
+    // Authors can't undo a deletion made by a moderator
+    const canUndelete = (post: { author?: { _id: string; id?: string }; deletedBy?: string | null }) =>
+        !!user && canUndeletePost(
+            { authorId: post.author?._id ?? post.author?.id ?? '', deletedById: post.deletedBy },
+            { userId: user.id, role: user.role }
+        );
+
+    // Delete, undelete and purge (admins only) for either post type
+    const [deletingPost, setDeletingPost] = useState<string | null>(null);
+
+    const handleDeletion = async (ref: PostRef, action: 'delete' | 'undelete' | 'purge') => {
+        const prompts = {
+            delete: `Delete this ${ref.type}?`,
+            undelete: `Undelete this ${ref.type}?`,
+            purge: `Permanently delete this ${ref.type}? This cannot be undone.`,
+        };
+        if (deletingPost || !confirm(prompts[action])) return;
+
+        const base = `/api/${ref.type}s/${ref.id}`;
+        const request = {
+            delete: { url: base, method: 'DELETE' },
+            undelete: { url: `${base}/undelete`, method: 'POST' },
+            purge: { url: `${base}/purge`, method: 'DELETE' },
+        }[action];
+
+        setDeletingPost(ref.id);
+        try {
+            const response = await fetch(request.url, { method: request.method });
+            const data = await response.json();
+            if (!data.success) {
+                alert(data.message || `Failed to ${action} ${ref.type}`);
+            } else if (ref.type === 'question' && action === 'purge') {
+                router.push('/dashboard/questions');
+            } else {
+                // Deletion can cascade to answers and acceptance, so reload the whole thread
+                await fetchQuestion();
+            }
+        } catch (err) {
+            console.error(`Error trying to ${action} ${ref.type}:`, err);
+        } finally {
+            setDeletingPost(null);
+        }
+    };
+
     // Check if current user has voted
     const hasUserUpvotedQuestion = () => question?.upvotes?.includes(user?.id || '') ?? false;
     const hasUserDownvotedQuestion = () => question?.downvotes?.includes(user?.id || '') ?? false;
@@ -266,6 +421,46 @@ export default function QuestionDetailPage() {
         fetchQuestion();
     }, [fetchQuestion]);
 
+    // Live answers, votes, acceptance, close/reopen and comments from other viewers
+    const { isConnected, liveComments } = useQuestionEvents<Question>(question?._id, setQuestion);
+
+    // The viewer's bookmarks on this question and its answers, by post id
+    const [bookmarks, setBookmarks] = useState<Record<string, BookmarkState>>({});
+
+    useEffect(() => {
+        if (!isAuthenticated || !params.id) return;
+
+        const fetchBookmarks = async () => {
+            try {
+                const response = await fetch(`/api/bookmarks?question=${params.id}&limit=50`);
+                const data = await response.json();
+                if (data.success) {
+                    setBookmarks(Object.fromEntries(
+                        (data.data as (BookmarkState & { postId: string })[]).map((b) => [
+                            b.postId,
+                            { id: b.id, collectionId: b.collectionId, note: b.note },
+                        ])
+                    ));
+                }
+            } catch (err) {
+                console.error('Error fetching bookmarks:', err);
+            }
+        };
+        fetchBookmarks();
+    }, [isAuthenticated, params.id]);
+
+    const updateBookmark = (postId: string) => (bookmark: BookmarkState | null) => {
+        setBookmarks((prev) => {
+            const next = { ...prev };
+            if (bookmark) {
+                next[postId] = bookmark;
+            } else {
+                delete next[postId];
+            }
+            return next;
+        });
+    };
+
     // Highlight code blocks when question loads
     useEffect(() => {
         if (question && !isLoading) {
@@ -349,6 +544,8 @@ export default function QuestionDetailPage() {
     }
 
     const voteScore = question.upvotes.length - question.downvotes.length;
+    const answerCount = question.answers.filter(a => !a.isDeleted).length;
+    const isQuestionAuthor = !!user && (question.author?._id ?? question.author?.id) === user.id;
 
     return (
         <div className="space-y-6">
@@ -361,6 +558,66 @@ export default function QuestionDetailPage() {
                 Back to Questions
             </Link>
 
+            {/* Deleted Notice */}
+            {question.isDeleted && (
+                <div className="p-4 rounded-2xl border border-[var(--color-error-500)]/40 bg-[var(--color-error-500)]/10 flex flex-wrap items-center justify-between gap-3">
+                    <div className="flex items-start gap-3">
+                        <Trash2 className="w-5 h-5 mt-0.5 shrink-0 text-[var(--color-error-500)]" />
+                        <div className="text-sm text-[var(--text-secondary)]">
+                            <p className="font-semibold text-[var(--text-primary)]">This question has been deleted</p>
+                            <p className="mt-1">Only its author and moderators can see it.</p>
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        {canUndelete(question) && (
+                            <button
+                                onClick={() => handleDeletion({ type: 'question', id: question._id }, 'undelete')}
+                                disabled={deletingPost !== null}
+                                className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium bg-[var(--bg-primary)] text-[var(--text-primary)] border border-[var(--border-light)] rounded-lg hover:bg-[var(--bg-tertiary)] transition-colors disabled:opacity-50"
+                            >
+                                <RotateCcw className="w-4 h-4" />
+                                Undelete
+                            </button>
+                        )}
+                        {user && isAdmin(user.role) && (
+                            <button
+                                onClick={() => handleDeletion({ type: 'question', id: question._id }, 'purge')}
+                                disabled={deletingPost !== null}
+                                className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium bg-[var(--color-error-500)] text-white rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                                Purge
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {/* Closed Notice */}
+            {question.isClosed && (
+                <div className="p-4 rounded-2xl border border-[var(--color-warning-500)]/40 bg-[var(--color-warning-500)]/10 flex items-start gap-3">
+                    <Lock className="w-5 h-5 mt-0.5 shrink-0 text-[var(--color-warning-500)]" />
+                    <div className="text-sm text-[var(--text-secondary)]">
+                        <p className="font-semibold text-[var(--text-primary)]">
+                            Closed: {describeCloseReason(question.closedReason)}
+                        </p>
+                        {question.closedReason === 'duplicate' && question.duplicateOf ? (
+                            <p className="mt-1">
+                                This question already has an answer at{' '}
+                                <Link
+                                    href={`/dashboard/questions/${question.duplicateOf._id}`}
+                                    className="font-medium text-[var(--color-primary-500)] hover:underline"
+                                >
+                                    {question.duplicateOf.title || 'the original question'}
+                                </Link>
+                            </p>
+                        ) : (
+                            <p className="mt-1">This question is not accepting new answers.</p>
+                        )}
+                    </div>
+                </div>
+            )}
+
             {/* Question Card */}
             <div className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] overflow-hidden">
                 {/* Header - Author & Stats */}
@@ -379,9 +636,16 @@ export default function QuestionDetailPage() {
                             )}
                         </div>
                         <div>
-                            <div className="font-medium text-[var(--text-primary)]">
-                                {question.author?.name || 'Anonymous'}
-                            </div>
+                            {question.author ? (
+                                <Link
+                                    href={`/dashboard/users/${question.author._id}`}
+                                    className="font-medium text-[var(--text-primary)] hover:text-[var(--color-primary-500)] transition-colors"
+                                >
+                                    {question.author.name}
+                                </Link>
+                            ) : (
+                                <div className="font-medium text-[var(--text-primary)]">Anonymous</div>
+                            )}
                             {question.author?.reputation && (
                                 <div className="text-xs text-[var(--text-tertiary)]">
                                     {formatNumber(question.author.reputation)} reputation
@@ -398,54 +662,85 @@ export default function QuestionDetailPage() {
                         </div>
                         <div className="flex items-center gap-1 sm:gap-1.5 text-[var(--text-secondary)]">
                             <MessageSquare className="w-4 h-4 sm:w-5 sm:h-5" />
-                            <span className="font-semibold text-sm sm:text-base">{question.answers.length}</span>
+                            <span className="font-semibold text-sm sm:text-base">{answerCount}</span>
                         </div>
-                        <button className="p-1.5 sm:p-2 text-[var(--text-tertiary)] hover:text-[var(--color-warning-500)] hover:bg-[var(--bg-secondary)] rounded-lg transition-colors">
-                            <Bookmark className="w-4 h-4 sm:w-5 sm:h-5" />
-                        </button>
+                        <BookmarkButton
+                            postType="question"
+                            postId={question._id}
+                            bookmark={bookmarks[question._id] ?? null}
+                            onChange={updateBookmark(question._id)}
+                        />
+                        <FollowButton targetType="question" target={question._id} />
                     </div>
                 </div>
 
                 {/* Question Content */}
                 <div className="px-6 py-6">
-                    {/* Title */}
-                    <h1 className="text-xl md:text-2xl font-bold text-[var(--text-primary)] mb-4 leading-tight">
-                        {question.title}
-                    </h1>
-
-                    {/* Meta */}
-                    <div className="flex flex-wrap items-center gap-4 text-sm text-[var(--text-tertiary)] mb-6">
-                        <div className="flex items-center gap-1.5">
-                            <Clock className="w-4 h-4" />
-                            <span>Asked {formatTimeAgo(question.createdAt)}</span>
-                        </div>
-                        <div className="flex items-center gap-1.5">
-                            <MessageSquare className="w-4 h-4" />
-                            <span>{question.answers.length} Answers</span>
-                        </div>
-                        <div className="flex items-center gap-1.5">
-                            <Eye className="w-4 h-4" />
-                            <span>{formatNumber(question.views)} Views</span>
+                    {editingPost?.type === 'question' ? (
+                        <div className="mb-6">
+                            <PostEditor
+                                postType="question"
+                                postId={question._id}
+                                initial={{ title: question.title, body: question.body, tags: question.tags }}
+                                onSaved={(post) => applyPostEdit({ type: 'question', id: question._id }, post)}
+                                onCancel={() => setEditingPost(null)}
+                            />
                         </div>
-                    </div>
+                    ) : (
+                        <>
+                            {/* Title */}
+                            <h1 className="text-xl md:text-2xl font-bold text-[var(--text-primary)] mb-4 leading-tight">
+                                {question.title}
+                            </h1>
 
-                    {/* Body Content */}
-                    <div
-                        className="question-content prose prose-invert max-w-none mb-6 text-[var(--text-secondary)] leading-relaxed"
-                        dangerouslySetInnerHTML={{ __html: question.body }}
-                    />
-
-                    {/* Tags */}
-                    <div className="flex flex-wrap gap-2 pt-4 border-t border-[var(--border-light)]">
-                        {question.tags.map((tag) => (
-                            <span
-                                key={tag}
-                                className="px-3 py-1.5 text-xs font-medium uppercase tracking-wide bg-[var(--bg-tertiary)] text-[var(--text-secondary)] rounded-lg border border-[var(--border-light)]"
-                            >
-                                {tag}
-                            </span>
-                        ))}
-                    </div>
+                            {/* Meta */}
+                            <div className="flex flex-wrap items-center gap-4 text-sm text-[var(--text-tertiary)] mb-6">
+                                <div className="flex items-center gap-1.5">
+                                    <Clock className="w-4 h-4" />
+                                    <span>Asked {formatTimeAgo(question.createdAt)}</span>
+                                </div>
+                                <div className="flex items-center gap-1.5">
+                                    <MessageSquare className="w-4 h-4" />
+                                    <span>{answerCount} Answers</span>
+                                </div>
+                                <div className="flex items-center gap-1.5">
+                                    <Eye className="w-4 h-4" />
+                                    <span>{formatNumber(question.views)} Views</span>
+                                </div>
+                                {question.editedAt && (
+                                    <button
+                                        onClick={() => setHistoryPost({ type: 'question', id: question._id })}
+                                        className="flex items-center gap-1.5 hover:text-[var(--text-primary)] transition-colors"
+                                    >
+                                        <History className="w-4 h-4" />
+                                        <span>Edited {formatTimeAgo(question.editedAt)}{question.editedBy?.name ? ` by ${question.editedBy.name}` : ''}</span>
+                                    </button>
+                                )}
+                            </div>
+
+                            {/* Body Content */}
+                            <div
+                                className="question-content prose prose-invert max-w-none mb-6 text-[var(--text-secondary)] leading-relaxed"
+                                dangerouslySetInnerHTML={{ __html: question.body }}
+                            />
+
+                            {/* Tags */}
+                            <div className="flex flex-wrap gap-2 pt-4 border-t border-[var(--border-light)]">
+                                {question.tags.map((tag) => (
+                                    <Link
+                                        key={tag}
+                                        href={`/dashboard/tags/${encodeURIComponent(tag)}`}
+                                        className="px-3 py-1.5 text-xs font-medium uppercase tracking-wide bg-[var(--bg-tertiary)] text-[var(--text-secondary)] rounded-lg border border-[var(--border-light)] hover:border-[var(--color-primary-500)] transition-colors"
+                                    >
+                                        {tag}
+                                    </Link>
+                                ))}
+                            </div>
+                        </>
+                    )}
+
+                    {/* Comments */}
+                    <CommentThread postType="question" postId={question._id} liveComments={liveComments[question._id]} />
                 </div>
 
                 {/* Actions */}
@@ -474,19 +769,60 @@ export default function QuestionDetailPage() {
                             Downvote
                         </button>
                     </div>
-                    <button className="inline-flex items-center justify-center gap-2 px-4 py-2.5 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-tertiary)] rounded-lg transition-colors">
-                        <Share2 className="w-4 h-4" />
-                        Share
-                    </button>
+                    <div className="flex items-center gap-2">
+                        {canEdit(question.author) && !question.isDeleted && editingPost?.type !== 'question' && (
+                            <button
+                                onClick={() => setEditingPost({ type: 'question', id: question._id })}
+                                className="inline-flex items-center justify-center gap-2 px-4 py-2.5 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-tertiary)] rounded-lg transition-colors"
+                            >
+                                <Pencil className="w-4 h-4" />
+                                Edit
+                            </button>
+                        )}
+                        <button
+                            onClick={() => setHistoryPost({ type: 'question', id: question._id })}
+                            className="inline-flex items-center justify-center gap-2 px-4 py-2.5 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-tertiary)] rounded-lg transition-colors"
+                        >
+                            <History className="w-4 h-4" />
+                            History
+                        </button>
+                        {canEdit(question.author) && !question.isDeleted && (
+                            <button
+                                onClick={() => handleDeletion({ type: 'question', id: question._id }, 'delete')}
+                                disabled={deletingPost !== null}
+                                className="inline-flex items-center justify-center gap-2 px-4 py-2.5 text-[var(--text-tertiary)] hover:text-[var(--color-error-500)] hover:bg-[var(--bg-tertiary)] rounded-lg transition-colors disabled:opacity-50"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                                Delete
+                            </button>
+                        )}
+                        <CloseQuestionControl
+                            questionId={question._id}
+                            isClosed={!!question.isClosed}
+                            closeVoteCount={question.closeVotes?.length ?? 0}
+                            reopenVoteCount={question.reopenVotes?.length ?? 0}
+                            onChange={handleCloseChange}
+                        />
+                        <button className="inline-flex items-center justify-center gap-2 px-4 py-2.5 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-tertiary)] rounded-lg transition-colors">
+                            <Share2 className="w-4 h-4" />
+                            Share
+                        </button>
+                    </div>
                 </div>
             </div>
 
             {/* Answers Section */}
             <div className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] overflow-hidden">
-                <div className="px-6 py-4 border-b border-[var(--border-light)]">
+                <div className="px-6 py-4 border-b border-[var(--border-light)] flex items-center justify-between gap-4">
                     <h2 className="text-lg font-semibold text-[var(--text-primary)]">
-                        {question.answers.length} Answer{question.answers.length !== 1 ? 's' : ''}
+                        {answerCount} Answer{answerCount !== 1 ? 's' : ''}
                     </h2>
+                    {isConnected && (
+                        <span className="flex items-center gap-1.5 text-xs text-[var(--text-tertiary)]" title="New answers, votes and comments appear as they happen">
+                            <span className="w-2 h-2 rounded-full bg-[var(--color-success-500)] animate-pulse" />
+                            Live
+                        </span>
+                    )}
                 </div>
 
                 {question.answers.length === 0 ? (
@@ -501,7 +837,11 @@ export default function QuestionDetailPage() {
                 ) : (
                     <div className="divide-y divide-[var(--border-light)]">
                         {question.answers.map((answer) => (
-                            <div key={answer._id} className="px-6 py-5">
+                            <div
+                                key={answer._id}
+                                id={`answer-${answer._id}`}
+                                className={`px-6 py-5 scroll-mt-20 ${answer.isAccepted ? 'bg-[var(--color-success-500)]/5 border-l-4 border-[var(--color-success-500)]' : ''} ${answer.isDeleted ? 'opacity-60 bg-[var(--color-error-500)]/5' : ''}`}
+                            >
                                 <div className="flex items-start gap-4">
                                     {/* Vote Buttons - Visible on all screen sizes */}
                                     <div className="flex sm:flex-col items-center gap-2 sm:gap-2 order-first sm:order-none mb-2 sm:mb-0">
@@ -528,11 +868,48 @@ export default function QuestionDetailPage() {
                                         >
                                             <ThumbsDown className={`w-4 h-4 sm:w-5 sm:h-5 ${hasUserDownvotedAnswer(answer) ? 'fill-current' : ''}`} />
                                         </button>
+                                        {isQuestionAuthor ? (
+                                            <button
+                                                onClick={() => handleAcceptAnswer(answer)}
+                                                disabled={acceptingAnswer !== null}
+                                                title={answer.isAccepted ? 'Unaccept this answer' : 'Accept this answer'}
+                                                className={`p-1.5 transition-colors disabled:opacity-50 ${answer.isAccepted
+                                                        ? 'text-[var(--color-success-500)]'
+                                                        : 'text-[var(--text-tertiary)] hover:text-[var(--color-success-500)]'
+                                                    }`}
+                                            >
+                                                <CheckCircle2 className={`w-4 h-4 sm:w-5 sm:h-5 ${answer.isAccepted ? 'fill-[var(--color-success-500)] text-white' : ''}`} />
+                                            </button>
+                                        ) : answer.isAccepted && (
+                                            <span className="p-1.5 text-[var(--color-success-500)]" title="Accepted answer">
+                                                <CheckCircle2 className="w-4 h-4 sm:w-5 sm:h-5" />
+                                            </span>
+                                        )}
+                                        <BookmarkButton
+                                            postType="answer"
+                                            postId={answer._id}
+                                            bookmark={bookmarks[answer._id] ?? null}
+                                            onChange={updateBookmark(answer._id)}
+                                        />
                                     </div>
 
                                     {/* Answer Content */}
                                     <div className="flex-1 min-w-0">
-                                        {(() => {
+                                        {answer.isAccepted && (
+                                            <div className="inline-flex items-center gap-1.5 mb-3 px-2.5 py-1 text-xs font-semibold text-[var(--color-success-500)] bg-[var(--color-success-500)]/10 rounded-md">
+                                                <CheckCircle2 className="w-3.5 h-3.5" />
+                                                Accepted answer
+                                            </div>
+                                        )}
+                                        {editingPost?.type === 'answer' && editingPost.id === answer._id ? (
+                                            <PostEditor
+                                                postType="answer"
+                                                postId={answer._id}
+                                                initial={{ body: answer.body }}
+                                                onSaved={(post) => applyPostEdit({ type: 'answer', id: answer._id }, post)}
+                                                onCancel={() => setEditingPost(null)}
+                                            />
+                                        ) : (() => {
                                             const isLong = isAnswerLong(answer.body);
                                             const isExpanded = expandedAnswers.has(answer._id);
 
@@ -575,11 +952,72 @@ export default function QuestionDetailPage() {
                                                     (answer.author?.name || 'A').charAt(0).toUpperCase()
                                                 )}
                                             </div>
-                                            <span className="font-medium text-[var(--text-primary)]">
-                                                {answer.author?.name || 'Anonymous'}
-                                            </span>
+                                            {answer.author ? (
+                                                <Link
+                                                    href={`/dashboard/users/${answer.author._id}`}
+                                                    className="font-medium text-[var(--text-primary)] hover:text-[var(--color-primary-500)] transition-colors"
+                                                >
+                                                    {answer.author.name}
+                                                </Link>
+                                            ) : (
+                                                <span className="font-medium text-[var(--text-primary)]">Anonymous</span>
+                                            )}
                                             <span>answered {formatTimeAgo(answer.createdAt)}</span>
+                                            {answer.editedAt && (
+                                                <button
+                                                    onClick={() => setHistoryPost({ type: 'answer', id: answer._id })}
+                                                    className="hover:text-[var(--text-primary)] transition-colors"
+                                                >
+                                                    edited {formatTimeAgo(answer.editedAt)}
+                                                </button>
+                                            )}
+                                            {answer.isDeleted ? (
+                                                <>
+                                                    <span className="font-semibold text-[var(--color-error-500)]">Deleted</span>
+                                                    {canUndelete(answer) && (
+                                                        <button
+                                                            onClick={() => handleDeletion({ type: 'answer', id: answer._id }, 'undelete')}
+                                                            disabled={deletingPost !== null}
+                                                            className="inline-flex items-center gap-1 hover:text-[var(--text-primary)] transition-colors disabled:opacity-50"
+                                                        >
+                                                            <RotateCcw className="w-3 h-3" />
+                                                            Undelete
+                                                        </button>
+                                                    )}
+                                                    {user && isAdmin(user.role) && (
+                                                        <button
+                                                            onClick={() => handleDeletion({ type: 'answer', id: answer._id }, 'purge')}
+                                                            disabled={deletingPost !== null}
+                                                            className="inline-flex items-center gap-1 text-[var(--color-error-500)] hover:underline disabled:opacity-50"
+                                                        >
+                                                            <Trash2 className="w-3 h-3" />
+                                                            Purge
+                                                        </button>
+                                                    )}
+                                                </>
+                                            ) : canEdit(answer.author) && !(editingPost?.type === 'answer' && editingPost.id === answer._id) && (
+                                                <>
+                                                    <button
+                                                        onClick={() => setEditingPost({ type: 'answer', id: answer._id })}
+                                                        className="inline-flex items-center gap-1 hover:text-[var(--text-primary)] transition-colors"
+                                                    >
+                                                        <Pencil className="w-3 h-3" />
+                                                        Edit
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleDeletion({ type: 'answer', id: answer._id }, 'delete')}
+                                                        disabled={deletingPost !== null}
+                                                        className="inline-flex items-center gap-1 hover:text-[var(--color-error-500)] transition-colors disabled:opacity-50"
+                                                    >
+                                                        <Trash2 className="w-3 h-3" />
+                                                        Delete
+                                                    </button>
+                                                </>
+                                            )}
                                         </div>
+
+                                        {/* Comments */}
+                                        <CommentThread postType="answer" postId={answer._id} liveComments={liveComments[answer._id]} />
                                     </div>
                                 </div>
                             </div>
@@ -605,6 +1043,13 @@ export default function QuestionDetailPage() {
                                 Login to Answer
                             </Link>
                         </div>
+                    ) : question.isClosed || question.isDeleted ? (
+                        <div className="text-center py-8">
+                            <Lock className="w-12 h-12 mx-auto mb-4 text-[var(--text-tertiary)]" />
+                            <p className="text-[var(--text-secondary)]">
+                                This question is {question.isDeleted ? 'deleted' : 'closed'} and no longer accepts answers
+                            </p>
+                        </div>
                     ) : (
                         <form onSubmit={handleAnswerSubmit}>
                             {submitError && (
@@ -653,6 +1098,19 @@ export default function QuestionDetailPage() {
                     )}
                 </div>
             </div>
+
+            {/* Revision History Modal */}
+            {historyPost && (
+                <RevisionHistory
+                    postType={historyPost.type}
+                    postId={historyPost.id}
+                    canRollback={historyPost.type === 'question'
+                        ? canEdit(question.author)
+                        : canEdit(question.answers.find(a => a._id === historyPost.id)?.author)}
+                    onRolledBack={(post) => applyPostEdit(historyPost, post)}
+                    onClose={() => setHistoryPost(null)}
+                />
+            )}
         </div>
     );
 }
@@ -2,8 +2,9 @@
 
 import React, { useEffect, useState, useCallback } from 'react';
 import Link from 'next/link';
-import { Search, MessageSquare, Plus, RefreshCw, Filter } from 'lucide-react';
+import { Search, MessageSquare, Plus, RefreshCw, Filter, X, HelpCircle } from 'lucide-react';
 import Loader from '@/app/components/ui/Loader';
+import { parseSearchQuery, SEARCH_SYNTAX } from '@/lib/search/query';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -26,17 +27,33 @@ interface Question {
   createdAt: string;
 }
 
+type DateBucket = 'day' | 'week' | 'month' | 'year';
+
+interface QuestionFacets {
+  tags: { name: string; count: number }[];
+  answered: { answered: number; unanswered: number };
+  created: Record<DateBucket, number>;
+}
+
 interface QuestionsResponse {
   success: boolean;
   data: Question[];
   pagination: {
-    page: number;
     limit: number;
     total: number;
-    pages: number;
+    nextCursor: string | null;
+    hasMore: boolean;
   };
+  facets?: QuestionFacets;
 }
 
+const DATE_BUCKET_LABELS: Record<DateBucket, string> = {
+  day: 'Past day',
+  week: 'Past week',
+  month: 'Past month',
+  year: 'Past year',
+};
+
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
@@ -59,6 +76,40 @@ function formatNumber(num: number): string {
   return num.toString();
 }
 
+// ============================================
+// FILTER CHIP
+// ============================================
+
+function FilterChip({
+  label,
+  count,
+  active,
+  onClick,
+}: {
+  label: string;
+  count?: number;
+  active: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      className={`inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-full border transition-colors ${active
+        ? 'bg-[var(--color-primary-500)] border-[var(--color-primary-500)] text-white'
+        : 'bg-[var(--bg-primary)] border-[var(--border-light)] text-[var(--text-secondary)] hover:border-[var(--color-primary-500)]'
+        }`}
+    >
+      {label}
+      {count !== undefined && (
+        <span className={active ? 'text-white/80' : 'text-[var(--text-tertiary)]'}>{formatNumber(count)}</span>
+      )}
+      {active && <X className="w-3 h-3" />}
+    </button>
+  );
+}
+
 // ============================================
 // MAIN COMPONENT
 // ============================================
@@ -68,33 +119,46 @@ export default function QuestionsPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [showSyntaxHelp, setShowSyntaxHelp] = useState(false);
   const [sortBy, setSortBy] = useState('newest');
-  const [page, setPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(1);
   const [total, setTotal] = useState(0);
 
+  // Cursor pagination: cursors of the pages visited after the first, and the next one
+  const [cursorStack, setCursorStack] = useState<string[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+
+  // Filters and their counts
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [answeredFilter, setAnsweredFilter] = useState<'true' | 'false' | null>(null);
+  const [createdFilter, setCreatedFilter] = useState<DateBucket | null>(null);
+  const [facets, setFacets] = useState<QuestionFacets | null>(null);
+
+  const cursor = cursorStack[cursorStack.length - 1];
+
   // Fetch questions
   const fetchQuestions = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     try {
       const params = new URLSearchParams({
-        page: page.toString(),
         limit: '10',
         sort: sortBy,
       });
 
-      if (searchQuery.trim()) {
-        params.set('search', searchQuery.trim());
-      }
+      if (cursor) params.set('cursor', cursor);
+      if (searchQuery.trim()) params.set('search', searchQuery.trim());
+      if (tagFilter) params.set('tag', tagFilter);
+      if (answeredFilter) params.set('answered', answeredFilter);
+      if (createdFilter) params.set('created', createdFilter);
 
       const response = await fetch(`/api/questions?${params}`);
       const data: QuestionsResponse = await response.json();
 
       if (data.success) {
         setQuestions(data.data);
-        setTotalPages(data.pagination.pages);
+        setNextCursor(data.pagination.nextCursor);
         setTotal(data.pagination.total);
+        if (data.facets) setFacets(data.facets);
       } else {
         setError('Failed to load questions');
       }
@@ -104,7 +168,7 @@ export default function QuestionsPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [page, sortBy, searchQuery]);
+  }, [cursor, sortBy, searchQuery, tagFilter, answeredFilter, createdFilter]);
 
   useEffect(() => {
     fetchQuestions();
@@ -113,10 +177,21 @@ export default function QuestionsPage() {
   // Handle search submit
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    setPage(1);
+    setCursorStack([]);
     fetchQuestions();
   };
 
+  // Any filter change starts again from the first page
+  const applyFilter = (update: () => void) => {
+    update();
+    setCursorStack([]);
+  };
+
+  const hasFilters = !!(tagFilter || answeredFilter || createdFilter);
+
+  // Operators the server will ignore, flagged while typing
+  const searchErrors = parseSearchQuery(searchQuery).errors;
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -144,12 +219,58 @@ export default function QuestionsPage() {
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-[var(--text-tertiary)]" />
             <input
               type="text"
-              placeholder="Search questions..."
+              placeholder="Search questions... e.g. [react] is:accepted score:>=3"
               value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="w-full h-10 pl-10 pr-4 bg-[var(--bg-primary)] border border-[var(--border-light)] rounded-lg text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:border-[var(--color-primary-500)]"
+              onChange={(e) => {
+                setSearchQuery(e.target.value);
+                setCursorStack([]);
+              }}
+              className="w-full h-10 pl-10 pr-10 bg-[var(--bg-primary)] border border-[var(--border-light)] rounded-lg text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:border-[var(--color-primary-500)]"
             />
+            <button
+              type="button"
+              onClick={() => setShowSyntaxHelp((show) => !show)}
+              className={`absolute right-3 top-1/2 -translate-y-1/2 transition-colors ${
+                showSyntaxHelp ? 'text-[var(--color-primary-600)]' : 'text-[var(--text-tertiary)] hover:text-[var(--text-primary)]'
+              }`}
+              aria-label="Search syntax help"
+              aria-expanded={showSyntaxHelp}
+            >
+              <HelpCircle className="w-4 h-4" />
+            </button>
           </div>
+
+          {/* Unparsed operators */}
+          {searchErrors.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {searchErrors.map((searchError, index) => (
+                <li key={`${searchError.token}-${index}`} className="text-xs text-[var(--color-error-500)]">
+                  <code className="font-mono">{searchError.token}</code> is ignored: {searchError.message}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* Syntax Help */}
+          {showSyntaxHelp && (
+            <div className="mt-2 p-3 bg-[var(--bg-primary)] border border-[var(--border-light)] rounded-lg">
+              <p className="text-xs text-[var(--text-tertiary)] mb-2">
+                Combine words with any of these operators:
+              </p>
+              <dl className="grid grid-cols-1 sm:grid-cols-[auto_1fr] gap-x-4 gap-y-1.5 text-sm">
+                {SEARCH_SYNTAX.map(({ syntax, description }) => (
+                  <React.Fragment key={syntax}>
+                    <dt>
+                      <code className="px-1.5 py-0.5 text-xs font-mono bg-[var(--bg-tertiary)] text-[var(--text-primary)] rounded">
+                        {syntax}
+                      </code>
+                    </dt>
+                    <dd className="text-[var(--text-secondary)]">{description}</dd>
+                  </React.Fragment>
+                ))}
+              </dl>
+            </div>
+          )}
         </form>
 
         {/* Sort */}
@@ -159,7 +280,7 @@ export default function QuestionsPage() {
             value={sortBy}
             onChange={(e) => {
               setSortBy(e.target.value);
-              setPage(1);
+              setCursorStack([]);
             }}
             className="h-10 px-4 bg-[var(--bg-primary)] border border-[var(--border-light)] rounded-lg text-sm text-[var(--text-primary)] focus:outline-none focus:border-[var(--color-primary-500)] flex-1 sm:flex-initial"
           >
@@ -167,6 +288,9 @@ export default function QuestionsPage() {
             <option value="oldest">Oldest</option>
             <option value="votes">Most Votes</option>
             <option value="views">Most Views</option>
+            <option value="activity">Recent Activity</option>
+            <option value="unanswered">Unanswered</option>
+            <option value="no-accepted">No Accepted Answer</option>
           </select>
 
           <button
@@ -180,6 +304,55 @@ export default function QuestionsPage() {
         </div>
       </div>
 
+      {/* Filter Chips */}
+      {facets && (
+        <div className="flex flex-wrap items-center gap-2">
+          <FilterChip
+            label="Answered"
+            count={facets.answered.answered}
+            active={answeredFilter === 'true'}
+            onClick={() => applyFilter(() => setAnsweredFilter(answeredFilter === 'true' ? null : 'true'))}
+          />
+          <FilterChip
+            label="Unanswered"
+            count={facets.answered.unanswered}
+            active={answeredFilter === 'false'}
+            onClick={() => applyFilter(() => setAnsweredFilter(answeredFilter === 'false' ? null : 'false'))}
+          />
+          {(Object.keys(DATE_BUCKET_LABELS) as DateBucket[]).map((bucket) => (
+            <FilterChip
+              key={bucket}
+              label={DATE_BUCKET_LABELS[bucket]}
+              count={facets.created[bucket]}
+              active={createdFilter === bucket}
+              onClick={() => applyFilter(() => setCreatedFilter(createdFilter === bucket ? null : bucket))}
+            />
+          ))}
+          {facets.tags.map((tag) => (
+            <FilterChip
+              key={tag.name}
+              label={`#${tag.name}`}
+              count={tag.count}
+              active={tagFilter === tag.name}
+              onClick={() => applyFilter(() => setTagFilter(tagFilter === tag.name ? null : tag.name))}
+            />
+          ))}
+          {hasFilters && (
+            <button
+              type="button"
+              onClick={() => applyFilter(() => {
+                setTagFilter(null);
+                setAnsweredFilter(null);
+                setCreatedFilter(null);
+              })}
+              className="text-xs text-[var(--color-primary-600)] hover:underline"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Questions List */}
       <div className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] overflow-hidden">
         {/* Loading State */}
@@ -312,21 +485,21 @@ export default function QuestionsPage() {
         )}
 
         {/* Pagination */}
-        {!isLoading && !error && totalPages > 1 && (
+        {!isLoading && !error && (cursorStack.length > 0 || nextCursor) && (
           <div className="px-4 sm:px-6 py-4 border-t border-[var(--border-light)] flex flex-col sm:flex-row items-center justify-between gap-3">
             <button
-              onClick={() => setPage(p => Math.max(1, p - 1))}
-              disabled={page === 1}
+              onClick={() => setCursorStack(stack => stack.slice(0, -1))}
+              disabled={cursorStack.length === 0}
               className="w-full sm:w-auto px-4 py-2.5 text-sm font-medium text-[var(--text-primary)] bg-[var(--bg-secondary)] rounded-lg hover:bg-[var(--border-light)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               ← Previous
             </button>
             <span className="text-sm text-[var(--text-tertiary)] order-first sm:order-none">
-              Page {page} of {totalPages}
+              Page {cursorStack.length + 1}
             </span>
             <button
-              onClick={() => setPage(p => Math.min(totalPages, p + 1))}
-              disabled={page === totalPages}
+              onClick={() => nextCursor && setCursorStack(stack => [...stack, nextCursor])}
+              disabled={!nextCursor}
               className="w-full sm:w-auto px-4 py-2.5 text-sm font-medium text-[var(--text-primary)] bg-[var(--bg-secondary)] rounded-lg hover:bg-[var(--border-light)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Next →
@@ -0,0 +1,583 @@
+'use client';
+
+import React, { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import { Bookmark, Folder, FolderPlus, Pencil, Trash2, X, MessageSquare, CheckCircle2, StickyNote } from 'lucide-react';
+import Loader from '@/app/components/ui/Loader';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+interface SavedPost {
+  id: string;
+  postType: 'question' | 'answer';
+  postId: string;
+  collectionId: string | null;
+  note: string;
+  createdAt: string;
+  question: {
+    id: string;
+    title: string;
+    tags: string[];
+    score: number;
+    answerCount: number;
+    hasAcceptedAnswer: boolean;
+    isClosed: boolean;
+    isDeleted: boolean;
+  } | null;
+  answer: {
+    id: string;
+    excerpt: string;
+    score: number;
+    isAccepted: boolean;
+    isDeleted: boolean;
+  } | null;
+}
+
+interface CollectionSummary {
+  id: string;
+  name: string;
+  count: number;
+}
+
+interface SavedResponse {
+  success: boolean;
+  data: SavedPost[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+  collections: CollectionSummary[];
+  unfiled: number;
+  tags: { name: string; count: number }[];
+}
+
+// "none" lists bookmarks that aren't in any collection
+type CollectionFilter = string | 'none' | null;
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export default function SavedPage() {
+  const [bookmarks, setBookmarks] = useState<SavedPost[]>([]);
+  const [collections, setCollections] = useState<CollectionSummary[]>([]);
+  const [unfiled, setUnfiled] = useState(0);
+  const [tags, setTags] = useState<{ name: string; count: number }[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+
+  // Filters
+  const [collectionFilter, setCollectionFilter] = useState<CollectionFilter>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+
+  // Collection management
+  const [newCollection, setNewCollection] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Note editing
+  const [editingNote, setEditingNote] = useState<{ id: string; note: string } | null>(null);
+
+  // Fetch bookmarks, collections and tag counts
+  const fetchSaved = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ page: page.toString(), limit: '20' });
+      if (collectionFilter) params.set('collection', collectionFilter);
+      if (tagFilter) params.set('tag', tagFilter);
+
+      const response = await fetch(`/api/bookmarks?${params}`);
+      const data: SavedResponse = await response.json();
+
+      if (data.success) {
+        setBookmarks(data.data);
+        setTotalPages(Math.max(1, data.pagination.pages));
+        setTotal(data.pagination.total);
+        setCollections(data.collections);
+        setUnfiled(data.unfiled);
+        setTags(data.tags);
+      } else {
+        setError('Failed to load saved posts');
+      }
+    } catch (err) {
+      console.error('Error fetching saved posts:', err);
+      setError('Failed to connect to server');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, collectionFilter, tagFilter]);
+
+  useEffect(() => {
+    fetchSaved();
+  }, [fetchSaved]);
+
+  // Any filter change starts again from the first page
+  const applyFilter = (update: () => void) => {
+    update();
+    setPage(1);
+  };
+
+  // ============================================
+  // COLLECTION HANDLERS
+  // ============================================
+
+  const createCollection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newCollection.trim();
+    if (!name) return;
+
+    setActionError(null);
+    try {
+      const response = await fetch('/api/bookmarks/collections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setNewCollection('');
+        await fetchSaved();
+      } else {
+        setActionError(data.message || 'Failed to create collection');
+      }
+    } catch (err) {
+      console.error('Error creating collection:', err);
+      setActionError('Failed to create collection');
+    }
+  };
+
+  const renameCollection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renaming || !renaming.name.trim()) return;
+
+    setActionError(null);
+    try {
+      const response = await fetch(`/api/bookmarks/collections/${renaming.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: renaming.name.trim() }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setRenaming(null);
+        await fetchSaved();
+      } else {
+        setActionError(data.message || 'Failed to rename collection');
+      }
+    } catch (err) {
+      console.error('Error renaming collection:', err);
+      setActionError('Failed to rename collection');
+    }
+  };
+
+  const deleteCollection = async (collection: CollectionSummary) => {
+    if (!confirm(`Delete "${collection.name}"? Its ${collection.count} saved post${collection.count !== 1 ? 's' : ''} will be kept without a collection.`)) {
+      return;
+    }
+
+    setActionError(null);
+    try {
+      const response = await fetch(`/api/bookmarks/collections/${collection.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (data.success) {
+        if (collectionFilter === collection.id) {
+          applyFilter(() => setCollectionFilter(null));
+        } else {
+          await fetchSaved();
+        }
+      } else {
+        setActionError(data.message || 'Failed to delete collection');
+      }
+    } catch (err) {
+      console.error('Error deleting collection:', err);
+      setActionError('Failed to delete collection');
+    }
+  };
+
+  // ============================================
+  // BOOKMARK HANDLERS
+  // ============================================
+
+  const updateBookmark = async (id: string, changes: { collectionId?: string | null; note?: string }) => {
+    setActionError(null);
+    try {
+      const response = await fetch(`/api/bookmarks/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+      if (data.success) {
+        // Moving changes collection counts and may drop the post from this view
+        if (changes.collectionId !== undefined) {
+          await fetchSaved();
+        } else {
+          setBookmarks((prev) => prev.map((b) => (b.id === id ? { ...b, note: data.data.note } : b)));
+        }
+        return true;
+      }
+      setActionError(data.message || 'Failed to update saved post');
+    } catch (err) {
+      console.error('Error updating bookmark:', err);
+      setActionError('Failed to update saved post');
+    }
+    return false;
+  };
+
+  const saveNote = async () => {
+    if (!editingNote) return;
+    if (await updateBookmark(editingNote.id, { note: editingNote.note })) {
+      setEditingNote(null);
+    }
+  };
+
+  const removeBookmark = async (id: string) => {
+    setActionError(null);
+    try {
+      const response = await fetch(`/api/bookmarks/${id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (data.success) {
+        await fetchSaved();
+      } else {
+        setActionError(data.message || 'Failed to remove saved post');
+      }
+    } catch (err) {
+      console.error('Error removing bookmark:', err);
+      setActionError('Failed to remove saved post');
+    }
+  };
+
+  const allCount = collections.reduce((sum, c) => sum + c.count, unfiled);
+
+  const collectionItemClass = (active: boolean) =>
+    `flex-1 min-w-0 flex items-center justify-between gap-2 px-3 py-2 text-sm rounded-lg transition-colors ${active
+      ? 'bg-[var(--color-primary-500)]/10 text-[var(--color-primary-600)] font-medium'
+      : 'text-[var(--text-secondary)] hover:bg-[var(--bg-secondary)]'
+    }`;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-[var(--text-primary)]">Saved</h1>
+        <p className="text-sm text-[var(--text-tertiary)] mt-1">
+          Questions and answers you&apos;ve bookmarked. Notes are only visible to you.
+        </p>
+      </div>
+
+      {actionError && (
+        <div className="flex items-center justify-between gap-3 p-3 text-sm rounded-lg bg-[var(--color-error-50)] text-[var(--color-error-600)] border border-[var(--color-error-500)]" role="alert">
+          {actionError}
+          <button onClick={() => setActionError(null)} aria-label="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        {/* Collections */}
+        <aside className="lg:w-64 shrink-0 space-y-2">
+          <h2 className="px-3 text-xs font-semibold uppercase tracking-wide text-[var(--text-tertiary)]">Collections</h2>
+          <button
+            onClick={() => applyFilter(() => setCollectionFilter(null))}
+            className={`w-full ${collectionItemClass(collectionFilter === null)}`}
+          >
+            <span className="flex items-center gap-2"><Bookmark className="w-4 h-4" />All saved</span>
+            <span className="text-xs text-[var(--text-tertiary)]">{allCount}</span>
+          </button>
+          <button
+            onClick={() => applyFilter(() => setCollectionFilter('none'))}
+            className={`w-full ${collectionItemClass(collectionFilter === 'none')}`}
+          >
+            <span className="flex items-center gap-2"><Folder className="w-4 h-4" />No collection</span>
+            <span className="text-xs text-[var(--text-tertiary)]">{unfiled}</span>
+          </button>
+
+          {collections.map((collection) => (
+            renaming?.id === collection.id ? (
+              <form key={collection.id} onSubmit={renameCollection} className="flex gap-2 px-1">
+                <input
+                  type="text"
+                  value={renaming.name}
+                  onChange={(e) => setRenaming({ id: collection.id, name: e.target.value })}
+                  maxLength={50}
+                  autoFocus
+                  className="flex-1 min-w-0 h-8 px-2 bg-[var(--bg-primary)] border border-[var(--border-light)] rounded-lg text-sm text-[var(--text-primary)] focus:outline-none focus:border-[var(--color-primary-500)]"
+                />
+                <button type="button" onClick={() => setRenaming(null)} className="text-[var(--text-tertiary)]" aria-label="Cancel rename">
+                  <X className="w-4 h-4" />
+                </button>
+              </form>
+            ) : (
+              <div key={collection.id} className="group flex items-center gap-1">
+                <button
+                  onClick={() => applyFilter(() => setCollectionFilter(collection.id))}
+                  className={collectionItemClass(collectionFilter === collection.id)}
+                >
+                  <span className="flex items-center gap-2 truncate"><Folder className="w-4 h-4 shrink-0" />{collection.name}</span>
+                  <span className="text-xs text-[var(--text-tertiary)]">{collection.count}</span>
+                </button>
+                <button
+                  onClick={() => setRenaming({ id: collection.id, name: collection.name })}
+                  className="p-1 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] opacity-0 group-hover:opacity-100 focus:opacity-100"
+                  aria-label={`Rename ${collection.name}`}
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => deleteCollection(collection)}
+                  className="p-1 text-[var(--text-tertiary)] hover:text-[var(--color-error-500)] opacity-0 group-hover:opacity-100 focus:opacity-100"
+                  aria-label={`Delete ${collection.name}`}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )
+          ))}
+
+          <form onSubmit={createCollection} className="flex gap-2 px-1 pt-2">
+            <input
+              type="text"
+              value={newCollection}
+              onChange={(e) => setNewCollection(e.target.value)}
+              placeholder="New collection"
+              maxLength={50}
+              className="flex-1 min-w-0 h-9 px-3 bg-[var(--bg-primary)] border border-[var(--border-light)] rounded-lg text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:border-[var(--color-primary-500)]"
+            />
+            <button
+              type="submit"
+              disabled={!newCollection.trim()}
+              className="h-9 w-9 shrink-0 flex items-center justify-center rounded-lg border border-[var(--border-light)] text-[var(--text-secondary)] hover:bg-[var(--bg-secondary)] disabled:opacity-50"
+              aria-label="Create collection"
+            >
+              <FolderPlus className="w-4 h-4" />
+            </button>
+          </form>
+        </aside>
+
+        <div className="flex-1 min-w-0 space-y-4">
+          {/* Tag Filter */}
+          {tags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-xs font-medium text-[var(--text-tertiary)]">Tags</span>
+              {tags.slice(0, 15).map((tag) => {
+                const active = tagFilter === tag.name;
+                return (
+                  <button
+                    key={tag.name}
+                    type="button"
+                    onClick={() => applyFilter(() => setTagFilter(active ? null : tag.name))}
+                    aria-pressed={active}
+                    className={`inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-full border transition-colors ${active
+                      ? 'bg-[var(--color-primary-500)] border-[var(--color-primary-500)] text-white'
+                      : 'bg-[var(--bg-primary)] border-[var(--border-light)] text-[var(--text-secondary)] hover:border-[var(--color-primary-500)]'
+                      }`}
+                  >
+                    {tag.name}
+                    <span className={active ? 'text-white/80' : 'text-[var(--text-tertiary)]'}>{tag.count}</span>
+                    {active && <X className="w-3 h-3" />}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] overflow-hidden">
+            {/* Loading State */}
+            {isLoading && (
+              <div className="py-12">
+                <Loader fullScreen={false} variant="dots" size="md" message="Loading saved posts..." />
+              </div>
+            )}
+
+            {/* Error State */}
+            {error && !isLoading && (
+              <div className="py-12 text-center">
+                <p className="text-[var(--color-error-500)] mb-3">{error}</p>
+                <button onClick={fetchSaved} className="text-sm text-[var(--color-primary-600)] hover:underline">
+                  Try again
+                </button>
+              </div>
+            )}
+
+            {/* Empty State */}
+            {!isLoading && !error && bookmarks.length === 0 && (
+              <div className="px-6 py-12 text-center">
+                <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-[var(--bg-secondary)] flex items-center justify-center">
+                  <Bookmark className="w-8 h-8 text-[var(--text-tertiary)]" />
+                </div>
+                <h3 className="text-lg font-semibold text-[var(--text-primary)] mb-2">Nothing saved here</h3>
+                <p className="text-[var(--text-secondary)]">
+                  {collectionFilter || tagFilter
+                    ? 'Try another collection or tag'
+                    : 'Use the bookmark button on a question or answer to save it for later'}
+                </p>
+              </div>
+            )}
+
+            {/* Saved Posts */}
+            {!isLoading && !error && bookmarks.length > 0 && (
+              <ul className="divide-y divide-[var(--border-light)]">
+                {bookmarks.map((bookmark) => {
+                  const href = bookmark.postType === 'answer'
+                    ? `/dashboard/questions/${bookmark.question?.id}#answer-${bookmark.postId}`
+                    : `/dashboard/questions/${bookmark.question?.id}`;
+                  const removed = !bookmark.question || bookmark.question.isDeleted || bookmark.answer?.isDeleted;
+
+                  return (
+                    <li key={bookmark.id} className="px-6 py-4 space-y-2">
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="min-w-0">
+                          <span className="text-xs font-medium uppercase tracking-wide text-[var(--text-tertiary)]">
+                            {bookmark.postType === 'answer' ? 'Answer' : 'Question'} · saved {formatDate(bookmark.createdAt)}
+                          </span>
+                          {bookmark.question ? (
+                            <Link href={href} className="block mt-0.5 font-medium text-[var(--text-primary)] hover:text-[var(--color-primary-600)]">
+                              {bookmark.question.title}
+                              {bookmark.question.isClosed && <span className="ml-1 text-xs text-[var(--text-tertiary)]">[closed]</span>}
+                            </Link>
+                          ) : (
+                            <p className="mt-0.5 text-[var(--text-tertiary)]">This question is no longer available</p>
+                          )}
+                          {removed && bookmark.question && (
+                            <p className="text-xs text-[var(--color-error-500)]">This post has been deleted</p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                          <select
+                            value={bookmark.collectionId ?? ''}
+                            onChange={(e) => updateBookmark(bookmark.id, { collectionId: e.target.value || null })}
+                            aria-label="Collection"
+                            className="h-8 px-2 max-w-[10rem] bg-[var(--bg-primary)] border border-[var(--border-light)] rounded-lg text-xs text-[var(--text-secondary)] focus:outline-none focus:border-[var(--color-primary-500)]"
+                          >
+                            <option value="">No collection</option>
+                            {collections.map((collection) => (
+                              <option key={collection.id} value={collection.id}>{collection.name}</option>
+                            ))}
+                          </select>
+                          <button
+                            onClick={() => setEditingNote({ id: bookmark.id, note: bookmark.note })}
+                            className="p-1.5 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] rounded-lg hover:bg-[var(--bg-secondary)]"
+                            aria-label={bookmark.note ? 'Edit note' : 'Add note'}
+                          >
+                            <StickyNote className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => removeBookmark(bookmark.id)}
+                            className="p-1.5 text-[var(--text-tertiary)] hover:text-[var(--color-error-500)] rounded-lg hover:bg-[var(--bg-secondary)]"
+                            aria-label="Remove from saved"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+
+                      {bookmark.answer && (
+                        <p className="text-sm text-[var(--text-secondary)] line-clamp-2">
+                          {bookmark.answer.isAccepted && (
+                            <CheckCircle2 className="inline w-3.5 h-3.5 mr-1 -mt-0.5 text-[var(--color-success-500)]" />
+                          )}
+                          {bookmark.answer.excerpt}
+                        </p>
+                      )}
+
+                      {bookmark.question && (
+                        <div className="flex flex-wrap items-center gap-2 text-xs text-[var(--text-tertiary)]">
+                          {bookmark.question.tags.map((tag) => (
+                            <Link
+                              key={tag}
+                              href={`/dashboard/tags/${encodeURIComponent(tag)}`}
+                              className="px-2 py-0.5 bg-[var(--bg-tertiary)] text-[var(--text-secondary)] rounded border border-[var(--border-light)] hover:border-[var(--color-primary-500)]"
+                            >
+                              {tag}
+                            </Link>
+                          ))}
+                          <span className="inline-flex items-center gap-1">
+                            <MessageSquare className="w-3.5 h-3.5" />
+                            {bookmark.question.answerCount}
+                          </span>
+                        </div>
+                      )}
+
+                      {/* Private Note */}
+                      {editingNote?.id === bookmark.id ? (
+                        <div className="space-y-2">
+                          <textarea
+                            value={editingNote.note}
+                            onChange={(e) => setEditingNote({ id: bookmark.id, note: e.target.value })}
+                            placeholder="Only you can see this"
+                            maxLength={1000}
+                            rows={3}
+                            autoFocus
+                            className="w-full px-3 py-2 bg-[var(--bg-secondary)] border border-[var(--border-light)] rounded-lg text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:border-[var(--color-primary-500)] resize-none"
+                          />
+                          <div className="flex gap-2">
+                            <button
+                              onClick={saveNote}
+                              className="h-8 px-3 bg-[var(--color-primary-500)] hover:bg-[var(--color-primary-600)] text-white text-sm font-medium rounded-lg transition-colors"
+                            >
+                              Save note
+                            </button>
+                            <button
+                              onClick={() => setEditingNote(null)}
+                              className="h-8 px-3 text-sm text-[var(--text-secondary)] hover:bg-[var(--bg-secondary)] rounded-lg transition-colors"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </div>
+                      ) : bookmark.note && (
+                        <p className="px-3 py-2 text-sm text-[var(--text-secondary)] bg-[var(--color-warning-50)] border-l-2 border-[var(--color-warning-500)] rounded whitespace-pre-wrap">
+                          {bookmark.note}
+                        </p>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          {/* Pagination */}
+          {!isLoading && !error && totalPages > 1 && (
+            <div className="flex flex-col sm:flex-row items-center justify-between gap-3">
+              <button
+                onClick={() => setPage(p => Math.max(1, p - 1))}
+                disabled={page === 1}
+                className="w-full sm:w-auto px-4 py-2.5 text-sm font-medium text-[var(--text-primary)] bg-[var(--bg-secondary)] rounded-lg hover:bg-[var(--border-light)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                ← Previous
+              </button>
+              <span className="text-sm text-[var(--text-tertiary)] order-first sm:order-none">
+                Page {page} of {totalPages} · {total} saved
+              </span>
+              <button
+                onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+                disabled={page === totalPages}
+                className="w-full sm:w-auto px-4 py-2.5 text-sm font-medium text-[var(--text-primary)] bg-[var(--bg-secondary)] rounded-lg hover:bg-[var(--border-light)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next →
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
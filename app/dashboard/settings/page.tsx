@@ -0,0 +1,219 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ChevronRight, Mail, ShieldCheck, UserRound } from 'lucide-react';
+import Loader from '@/app/components/ui/Loader';
+import { ConnectedAccounts, ProfileForm } from '@/app/components/users';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+interface EmailPreferences {
+  answers: boolean;
+  mentions: boolean;
+  digest: 'off' | 'daily' | 'weekly';
+}
+
+const DIGEST_OPTIONS: { value: EmailPreferences['digest']; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+];
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export default function SettingsPage() {
+  const [preferences, setPreferences] = useState<EmailPreferences | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  // Fetch email preferences
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        const response = await fetch('/api/notifications/preferences');
+        const data = await response.json();
+        if (data.success) {
+          setPreferences(data.data);
+        } else {
+          setError(data.message || 'Failed to load email preferences');
+        }
+      } catch (err) {
+        console.error('Error fetching email preferences:', err);
+        setError('Failed to connect to server');
+      }
+    };
+    fetchPreferences();
+  }, []);
+
+  // Each change is saved straight away
+  const updatePreferences = async (changes: Partial<EmailPreferences>) => {
+    if (!preferences) return;
+
+    const previous = preferences;
+    setPreferences({ ...preferences, ...changes });
+    setIsSaving(true);
+    setSaved(false);
+    setError(null);
+    try {
+      const response = await fetch('/api/notifications/preferences', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setPreferences(data.data);
+        setSaved(true);
+      } else {
+        setPreferences(previous);
+        setError(data.message || 'Failed to save email preferences');
+      }
+    } catch (err) {
+      console.error('Error saving email preferences:', err);
+      setPreferences(previous);
+      setError('Failed to save email preferences');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-[var(--text-primary)]">Settings</h1>
+        <p className="text-sm text-[var(--text-tertiary)] mt-1">Manage your profile and how DevSolve keeps in touch.</p>
+      </div>
+
+      {/* Profile */}
+      <section className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] p-6 space-y-5">
+        <div>
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-[var(--text-primary)]">
+            <UserRound className="w-5 h-5" />
+            Public profile
+          </h2>
+          <p className="text-sm text-[var(--text-tertiary)] mt-1">Shown to everyone on your profile page.</p>
+        </div>
+        <ProfileForm />
+      </section>
+
+      {/* Email Notifications */}
+      <section className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] p-6 space-y-5">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="flex items-center gap-2 text-lg font-semibold text-[var(--text-primary)]">
+              <Mail className="w-5 h-5" />
+              Email notifications
+            </h2>
+            <p className="text-sm text-[var(--text-tertiary)] mt-1">
+              In-app notifications are always on. Choose which ones also reach your inbox.
+            </p>
+          </div>
+          <span className="text-xs text-[var(--text-tertiary)] shrink-0" aria-live="polite">
+            {isSaving ? 'Saving...' : saved ? 'Saved' : ''}
+          </span>
+        </div>
+
+        {error && (
+          <p className="p-3 text-sm rounded-lg bg-[var(--color-error-50)] text-[var(--color-error-600)] border border-[var(--color-error-500)]" role="alert">
+            {error}
+          </p>
+        )}
+
+        {!preferences && !error && (
+          <div className="py-6">
+            <Loader fullScreen={false} variant="dots" size="md" message="Loading preferences..." />
+          </div>
+        )}
+
+        {preferences && (
+          <div className="divide-y divide-[var(--border-light)]">
+            <label className="flex items-center justify-between gap-4 py-3 cursor-pointer">
+              <span>
+                <span className="block text-sm font-medium text-[var(--text-primary)]">New answers</span>
+                <span className="block text-sm text-[var(--text-tertiary)]">When someone answers a question you asked</span>
+              </span>
+              <input
+                type="checkbox"
+                checked={preferences.answers}
+                onChange={(e) => updatePreferences({ answers: e.target.checked })}
+                className="w-4 h-4 accent-[var(--color-primary-500)]"
+              />
+            </label>
+
+            <label className="flex items-center justify-between gap-4 py-3 cursor-pointer">
+              <span>
+                <span className="block text-sm font-medium text-[var(--text-primary)]">Mentions</span>
+                <span className="block text-sm text-[var(--text-tertiary)]">When someone @mentions you in a comment</span>
+              </span>
+              <input
+                type="checkbox"
+                checked={preferences.mentions}
+                onChange={(e) => updatePreferences({ mentions: e.target.checked })}
+                className="w-4 h-4 accent-[var(--color-primary-500)]"
+              />
+            </label>
+
+            <div className="flex flex-wrap items-center justify-between gap-4 py-3">
+              <span>
+                <span className="block text-sm font-medium text-[var(--text-primary)]">Tag digest</span>
+                <span className="block text-sm text-[var(--text-tertiary)]">New questions in the tags you follow</span>
+              </span>
+              <div className="flex rounded-lg border border-[var(--border-light)] overflow-hidden" role="radiogroup" aria-label="Tag digest">
+                {DIGEST_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    role="radio"
+                    aria-checked={preferences.digest === option.value}
+                    onClick={() => updatePreferences({ digest: option.value })}
+                    className={`px-3 py-1.5 text-sm transition-colors ${preferences.digest === option.value
+                      ? 'bg-[var(--color-primary-500)] text-white'
+                      : 'text-[var(--text-secondary)] hover:bg-[var(--bg-secondary)]'
+                      }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </section>
+
+      {/* Security */}
+      <section className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] p-6 space-y-5">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-[var(--text-primary)]">
+          <ShieldCheck className="w-5 h-5" />
+          Security
+        </h2>
+        <Link
+          href="/dashboard/settings/sessions"
+          className="flex items-center justify-between gap-4 py-3 group"
+        >
+          <span>
+            <span className="block text-sm font-medium text-[var(--text-primary)]">Your sessions</span>
+            <span className="block text-sm text-[var(--text-tertiary)]">See where you&apos;re signed in and sign out other devices</span>
+          </span>
+          <ChevronRight className="w-5 h-5 text-[var(--text-tertiary)] group-hover:text-[var(--text-primary)] transition-colors" />
+        </Link>
+        <Link
+          href="/dashboard/settings/two-factor"
+          className="flex items-center justify-between gap-4 py-3 group"
+        >
+          <span>
+            <span className="block text-sm font-medium text-[var(--text-primary)]">Two-factor authentication</span>
+            <span className="block text-sm text-[var(--text-tertiary)]">Ask for a code from your phone when you sign in</span>
+          </span>
+          <ChevronRight className="w-5 h-5 text-[var(--text-tertiary)] group-hover:text-[var(--text-primary)] transition-colors" />
+        </Link>
+        <ConnectedAccounts />
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Laptop, LogOut, MonitorSmartphone } from 'lucide-react';
+import Loader from '@/app/components/ui/Loader';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+interface SessionEntry {
+  id: string;
+  device: string;
+  userAgent: string;
+  ip: string | null;
+  lastSeenAt: string;
+  createdAt: string;
+  isCurrent: boolean;
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function formatTimeAgo(dateString: string): string {
+  const date = new Date(dateString);
+  const now = new Date();
+  const seconds = Math.floor((now.getTime() - date.getTime()) / 1000);
+
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} mins ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)} hours ago`;
+  if (seconds < 604800) return `${Math.floor(seconds / 86400)} days ago`;
+  return date.toLocaleDateString();
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export default function SessionsPage() {
+  const [sessions, setSessions] = useState<SessionEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  // Fetch sessions
+  useEffect(() => {
+    const fetchSessions = async () => {
+      try {
+        const response = await fetch('/api/auth/sessions');
+        const data = await response.json();
+        if (data.success) {
+          setSessions(data.data);
+        } else {
+          setError(data.message || 'Failed to load sessions');
+        }
+      } catch (err) {
+        console.error('Error fetching sessions:', err);
+        setError('Failed to connect to server');
+      }
+    };
+    fetchSessions();
+  }, []);
+
+  const signOut = async (id: string) => {
+    setPendingId(id);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(`/api/auth/sessions/${id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (data.success) {
+        setSessions(prev => prev?.filter(session => session.id !== id) ?? prev);
+        setNotice(data.message);
+      } else {
+        setError(data.message || 'Failed to sign out device');
+      }
+    } catch (err) {
+      console.error('Error signing out session:', err);
+      setError('Failed to sign out device');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const signOutOthers = async () => {
+    setPendingId('others');
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch('/api/auth/sessions', { method: 'DELETE' });
+      const data = await response.json();
+      if (data.success) {
+        setSessions(prev => prev?.filter(session => session.isCurrent) ?? prev);
+        setNotice(data.message);
+      } else {
+        setError(data.message || 'Failed to sign out other devices');
+      }
+    } catch (err) {
+      console.error('Error signing out other sessions:', err);
+      setError('Failed to sign out other devices');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const otherCount = sessions?.filter(session => !session.isCurrent).length ?? 0;
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <Link
+        href="/dashboard/settings"
+        className="inline-flex items-center gap-2 text-sm text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Settings
+      </Link>
+
+      {/* Header */}
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-[var(--text-primary)]">Your sessions</h1>
+          <p className="text-sm text-[var(--text-tertiary)] mt-1">
+            Devices signed in to your account. Signing one out takes effect within 15 minutes.
+          </p>
+        </div>
+        {otherCount > 0 && (
+          <button
+            onClick={signOutOthers}
+            disabled={pendingId !== null}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg border border-[var(--color-error-500)] text-[var(--color-error-500)] hover:bg-[var(--color-error-50)] transition-colors disabled:opacity-50"
+          >
+            <LogOut className="w-4 h-4" />
+            {pendingId === 'others' ? 'Signing out...' : 'Sign out all other devices'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="p-3 text-sm rounded-lg bg-[var(--color-error-50)] text-[var(--color-error-600)] border border-[var(--color-error-500)]" role="alert">
+          {error}
+        </p>
+      )}
+      {notice && (
+        <p className="p-3 text-sm rounded-lg bg-[var(--bg-secondary)] text-[var(--text-secondary)] border border-[var(--border-light)]" aria-live="polite">
+          {notice}
+        </p>
+      )}
+
+      {!sessions && !error && (
+        <div className="py-12">
+          <Loader fullScreen={false} variant="dots" size="md" message="Loading sessions..." />
+        </div>
+      )}
+
+      {sessions && (
+        <ul className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] divide-y divide-[var(--border-light)]">
+          {sessions.map((session) => (
+            <li key={session.id} className="flex items-center gap-4 p-4">
+              <div className="w-10 h-10 shrink-0 rounded-full bg-[var(--bg-secondary)] flex items-center justify-center text-[var(--text-secondary)]">
+                {session.isCurrent ? <Laptop className="w-5 h-5" /> : <MonitorSmartphone className="w-5 h-5" />}
+              </div>
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-[var(--text-primary)]" title={session.userAgent}>
+                    {session.device}
+                  </span>
+                  {session.isCurrent && (
+                    <span className="px-2 py-0.5 text-xs font-medium rounded bg-[var(--color-primary-500)] text-white">
+                      This device
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-[var(--text-tertiary)] mt-0.5">
+                  {session.ip ? `${session.ip} · ` : ''}
+                  {session.isCurrent ? 'Active now' : `Last active ${formatTimeAgo(session.lastSeenAt)}`}
+                  {' · '}Signed in {new Date(session.createdAt).toLocaleDateString()}
+                </p>
+              </div>
+              {!session.isCurrent && (
+                <button
+                  onClick={() => signOut(session.id)}
+                  disabled={pendingId !== null}
+                  className="px-3 py-1.5 text-sm rounded-lg text-[var(--text-secondary)] hover:text-[var(--color-error-500)] hover:bg-[var(--bg-secondary)] transition-colors disabled:opacity-50"
+                >
+                  {pendingId === session.id ? 'Signing out...' : 'Sign out'}
+                </button>
+              )}
+            </li>
+          ))}
+          {sessions.length === 0 && (
+            <li className="p-6 text-sm text-center text-[var(--text-tertiary)]">
+              No active sessions. Log out and back in to see this device here.
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
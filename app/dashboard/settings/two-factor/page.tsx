@@ -0,0 +1,442 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, KeyRound, ShieldAlert, ShieldCheck, Smartphone } from 'lucide-react';
+import Loader from '@/app/components/ui/Loader';
+import { useAuth } from '@/lib/auth/AuthContext';
+import { ENFORCEABLE_ROLES, isAdmin, type EnforceableRole } from '@/lib/auth/roles';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+interface Enrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+const ROLE_LABELS: Record<EnforceableRole, string> = {
+  moderator: 'Moderators',
+  admin: 'Admins',
+};
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+// Groups of four are easier to type into an authenticator app
+function formatSecret(secret: string): string {
+  return secret.match(/.{1,4}/g)?.join(' ') ?? secret;
+}
+
+async function postJson(url: string, body?: unknown) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return response.json();
+}
+
+const inputClass = 'w-full h-11 px-4 bg-[var(--bg-secondary)] border-2 border-[var(--border-light)] rounded-lg text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] tracking-widest focus:outline-none focus:border-[var(--color-primary-500)]';
+const primaryButtonClass = 'px-4 py-2 text-sm font-medium rounded-lg bg-[var(--color-primary-500)] hover:bg-[var(--color-primary-600)] text-white transition-colors disabled:opacity-50';
+const secondaryButtonClass = 'px-4 py-2 text-sm font-medium rounded-lg border border-[var(--border-light)] text-[var(--text-secondary)] hover:bg-[var(--bg-secondary)] transition-colors disabled:opacity-50';
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export default function TwoFactorPage() {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Fetch status
+  useEffect(() => {
+    const fetchStatus = async () => {
+      try {
+        const response = await fetch('/api/auth/two-factor');
+        const data = await response.json();
+        if (data.success) {
+          setStatus(data.data);
+        } else {
+          setError(data.message || 'Failed to load two-factor settings');
+        }
+      } catch (err) {
+        console.error('Error fetching two-factor status:', err);
+        setError('Failed to connect to server');
+      }
+    };
+    fetchStatus();
+  }, []);
+
+  const run = async (action: string, request: () => Promise<void>) => {
+    setPending(action);
+    setError(null);
+    setNotice(null);
+    try {
+      await request();
+    } catch (err) {
+      console.error(`Error during two-factor ${action}:`, err);
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const startSetup = () => run('setup', async () => {
+    const data = await postJson('/api/auth/two-factor/setup');
+    if (data.success) {
+      setEnrollment(data.data);
+      setCode('');
+    } else {
+      setError(data.message || 'Failed to start setup');
+    }
+  });
+
+  const confirmSetup = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run('enable', async () => {
+      const data = await postJson('/api/auth/two-factor/enable', { code });
+      if (data.success) {
+        setEnrollment(null);
+        setCode('');
+        setRecoveryCodes(data.data.recoveryCodes);
+        setStatus(prev => prev && {
+          ...prev,
+          enabled: true,
+          enabledAt: new Date().toISOString(),
+          recoveryCodesRemaining: data.data.recoveryCodes.length,
+        });
+        setNotice(data.message);
+      } else {
+        setError(data.message || 'Failed to turn on two-factor');
+      }
+    });
+  };
+
+  const disable = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run('disable', async () => {
+      const data = await postJson('/api/auth/two-factor/disable', useRecoveryCode ? { recoveryCode: code } : { code });
+      if (data.success) {
+        setCode('');
+        setRecoveryCodes(null);
+        setStatus(prev => prev && { ...prev, enabled: false, enabledAt: null, recoveryCodesRemaining: 0 });
+        setNotice(data.message);
+      } else {
+        setError(data.message || 'Failed to turn off two-factor');
+      }
+    });
+  };
+
+  const regenerate = () => run('regenerate', async () => {
+    const data = await postJson('/api/auth/two-factor/recovery-codes', { code });
+    if (data.success) {
+      setCode('');
+      setRecoveryCodes(data.data.recoveryCodes);
+      setStatus(prev => prev && { ...prev, recoveryCodesRemaining: data.data.recoveryCodes.length });
+      setNotice(data.message);
+    } else {
+      setError(data.message || 'Failed to generate recovery codes');
+    }
+  });
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <Link
+        href="/dashboard/settings"
+        className="inline-flex items-center gap-2 text-sm text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Settings
+      </Link>
+
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-[var(--text-primary)]">Two-factor authentication</h1>
+        <p className="text-sm text-[var(--text-tertiary)] mt-1">
+          Ask for a code from an authenticator app as well as your password when you sign in.
+        </p>
+      </div>
+
+      {status?.required && !status.enabled && (
+        <p className="flex items-start gap-2 p-3 text-sm rounded-lg bg-[var(--color-warning-50)] text-[var(--color-warning-600)] border border-[var(--color-warning-500)]" role="alert">
+          <ShieldAlert className="w-5 h-5 shrink-0" />
+          Two-factor authentication is required for your role. Turn it on to keep using DevSolve.
+        </p>
+      )}
+      {error && (
+        <p className="p-3 text-sm rounded-lg bg-[var(--color-error-50)] text-[var(--color-error-600)] border border-[var(--color-error-500)]" role="alert">
+          {error}
+        </p>
+      )}
+      {notice && (
+        <p className="p-3 text-sm rounded-lg bg-[var(--bg-secondary)] text-[var(--text-secondary)] border border-[var(--border-light)]" aria-live="polite">
+          {notice}
+        </p>
+      )}
+
+      {!status && !error && (
+        <div className="py-12">
+          <Loader fullScreen={false} variant="dots" size="md" message="Loading..." />
+        </div>
+      )}
+
+      {/* Recovery codes, shown once */}
+      {recoveryCodes && (
+        <section className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] p-6 space-y-4">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-[var(--text-primary)]">
+            <KeyRound className="w-5 h-5" />
+            Save your recovery codes
+          </h2>
+          <p className="text-sm text-[var(--text-secondary)]">
+            Each code signs you in once if you lose your device. Store them somewhere safe;
+            you won&apos;t be able to see them again.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 p-4 rounded-lg bg-[var(--bg-secondary)] font-mono text-sm text-[var(--text-primary)]">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <div className="flex gap-3">
+            <button
+              onClick={() => navigator.clipboard.writeText(recoveryCodes.join('\n'))}
+              className={secondaryButtonClass}
+            >
+              Copy codes
+            </button>
+            <button onClick={() => setRecoveryCodes(null)} className={primaryButtonClass}>
+              I&apos;ve saved them
+            </button>
+          </div>
+        </section>
+      )}
+
+      {/* Off: enroll */}
+      {status && !status.enabled && (
+        <section className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] p-6 space-y-5">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-[var(--text-primary)]">
+            <Smartphone className="w-5 h-5" />
+            Authenticator app
+          </h2>
+
+          {!enrollment ? (
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <p className="text-sm text-[var(--text-secondary)]">
+                Two-factor authentication is off.
+              </p>
+              <button onClick={startSetup} disabled={pending !== null} className={primaryButtonClass}>
+                {pending === 'setup' ? 'Starting...' : 'Set up authenticator app'}
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={confirmSetup} className="space-y-5">
+              <ol className="space-y-4 text-sm text-[var(--text-secondary)] list-decimal list-inside">
+                <li>
+                  On your phone,{' '}
+                  <a href={enrollment.otpauthUri} className="text-[var(--color-primary-600)] hover:underline">
+                    open this link in your authenticator app
+                  </a>
+                  , or add an account and enter this key:
+                  <code className="block mt-2 p-3 rounded-lg bg-[var(--bg-secondary)] font-mono text-[var(--text-primary)] break-all select-all">
+                    {formatSecret(enrollment.secret)}
+                  </code>
+                </li>
+                <li>Enter the 6-digit code the app shows.</li>
+              </ol>
+              <div className="flex flex-wrap gap-3">
+                <input
+                  type="text"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  aria-label="Authentication code"
+                  className={`${inputClass} max-w-[12rem]`}
+                />
+                <button type="submit" disabled={pending !== null || !code.trim()} className={primaryButtonClass}>
+                  {pending === 'enable' ? 'Verifying...' : 'Turn on'}
+                </button>
+                <button type="button" onClick={() => setEnrollment(null)} className={secondaryButtonClass}>
+                  Cancel
+                </button>
+              </div>
+            </form>
+          )}
+        </section>
+      )}
+
+      {/* On: manage */}
+      {status?.enabled && (
+        <section className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] p-6 space-y-5">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-[var(--text-primary)]">
+            <ShieldCheck className="w-5 h-5 text-[var(--color-success-500)]" />
+            Two-factor authentication is on
+          </h2>
+          <p className="text-sm text-[var(--text-secondary)]">
+            {status.enabledAt && `Turned on ${new Date(status.enabledAt).toLocaleDateString()}. `}
+            {status.recoveryCodesRemaining === 1
+              ? '1 recovery code left.'
+              : `${status.recoveryCodesRemaining} recovery codes left.`}
+          </p>
+
+          <form onSubmit={disable} className="space-y-3">
+            <label className="block text-sm font-medium text-[var(--text-primary)]">
+              {useRecoveryCode ? 'Recovery code' : 'Code from your authenticator app'}
+            </label>
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              inputMode={useRecoveryCode ? 'text' : 'numeric'}
+              autoComplete="one-time-code"
+              placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+              className={`${inputClass} max-w-[16rem]`}
+            />
+            <div className="flex flex-wrap gap-3">
+              {!useRecoveryCode && (
+                <button
+                  type="button"
+                  onClick={regenerate}
+                  disabled={pending !== null || !code.trim()}
+                  className={secondaryButtonClass}
+                >
+                  {pending === 'regenerate' ? 'Generating...' : 'New recovery codes'}
+                </button>
+              )}
+              {!status.required && (
+                <button
+                  type="submit"
+                  disabled={pending !== null || !code.trim()}
+                  className="px-4 py-2 text-sm font-medium rounded-lg border border-[var(--color-error-500)] text-[var(--color-error-500)] hover:bg-[var(--color-error-50)] transition-colors disabled:opacity-50"
+                >
+                  {pending === 'disable' ? 'Turning off...' : 'Turn off'}
+                </button>
+              )}
+            </div>
+            {!status.required && (
+              <button
+                type="button"
+                onClick={() => {
+                  setUseRecoveryCode(prev => !prev);
+                  setCode('');
+                }}
+                className="text-sm text-[var(--color-primary-600)] hover:underline"
+              >
+                {useRecoveryCode ? 'Use your authenticator app instead' : 'Lost your device? Use a recovery code'}
+              </button>
+            )}
+          </form>
+        </section>
+      )}
+
+      {isAdmin(user?.role) && <SitePolicy />}
+    </div>
+  );
+}
+
+// ============================================
+// SITE POLICY (ADMINS)
+// ============================================
+
+function SitePolicy() {
+  const [roles, setRoles] = useState<EnforceableRole[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch('/api/admin/settings');
+        const data = await response.json();
+        if (data.success) {
+          setRoles(data.data.twoFactorRequiredRoles);
+        } else {
+          setError(data.message || 'Failed to load site settings');
+        }
+      } catch (err) {
+        console.error('Error fetching site settings:', err);
+        setError('Failed to connect to server');
+      }
+    };
+    fetchSettings();
+  }, []);
+
+  const toggle = async (role: EnforceableRole) => {
+    if (!roles) return;
+    const next = roles.includes(role) ? roles.filter(r => r !== role) : [...roles, role];
+
+    setIsSaving(true);
+    setError(null);
+    setSaved(false);
+    try {
+      const response = await fetch('/api/admin/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ twoFactorRequiredRoles: next }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setRoles(data.data.twoFactorRequiredRoles);
+        setSaved(true);
+      } else {
+        setError(data.message || 'Failed to save site settings');
+      }
+    } catch (err) {
+      console.error('Error saving site settings:', err);
+      setError('Failed to save site settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <section className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-[var(--text-primary)]">Require two-factor</h2>
+        <p className="text-sm text-[var(--text-tertiary)] mt-1">
+          Members of these roles must turn on two-factor before they can do anything else.
+          It applies the next time they sign in or within 15 minutes.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-[var(--color-error-500)]" role="alert">{error}</p>}
+
+      {roles && (
+        <div className="space-y-3">
+          {ENFORCEABLE_ROLES.map((role) => (
+            <label key={role} className="flex items-center gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={roles.includes(role)}
+                onChange={() => toggle(role)}
+                disabled={isSaving}
+                className="w-4 h-4 rounded"
+              />
+              <span className="text-sm text-[var(--text-primary)]">{ROLE_LABELS[role]}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {saved && <p className="text-sm text-[var(--text-tertiary)]" aria-live="polite">Saved</p>}
+    </section>
+  );
+}
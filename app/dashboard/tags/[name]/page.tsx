@@ -0,0 +1,375 @@
+'use client';
+
+import React, { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { ArrowLeft, MessageSquare, Pencil, Plus } from 'lucide-react';
+import Loader from '@/app/components/ui/Loader';
+import { FollowButton } from '@/app/components/notifications';
+import { useAuth } from '@/lib/auth/AuthContext';
+import { canEditTagWiki, canEditTagSynonyms, TAG_EXCERPT_MAX_LENGTH } from '@/lib/tags/rules';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+interface TagDetails {
+  id: string;
+  name: string;
+  excerpt: string;
+  wiki: string;
+  synonyms: string[];
+  questionCount: number;
+  lastEditedBy?: { name: string } | null;
+  updatedAt: string;
+}
+
+interface Question {
+  _id: string;
+  title: string;
+  tags: string[];
+  views: number;
+  upvotes: string[];
+  downvotes: string[];
+  answers: string[];
+  author?: {
+    name: string;
+  };
+  createdAt: string;
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function formatTimeAgo(dateString: string): string {
+  const date = new Date(dateString);
+  const now = new Date();
+  const seconds = Math.floor((now.getTime() - date.getTime()) / 1000);
+
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} min ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)} hours ago`;
+  if (seconds < 604800) return `${Math.floor(seconds / 86400)} days ago`;
+  return date.toLocaleDateString();
+}
+
+function formatNumber(num: number): string {
+  if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+  if (num >= 1000) return `${(num / 1000).toFixed(1)}k`;
+  return num.toString();
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export default function TagPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { user } = useAuth();
+  const tagName = decodeURIComponent(String(params.name || ''));
+
+  const [tag, setTag] = useState<TagDetails | null>(null);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [cursorStack, setCursorStack] = useState<string[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+
+  // Edit form state
+  const [isEditing, setIsEditing] = useState(false);
+  const [excerpt, setExcerpt] = useState('');
+  const [wiki, setWiki] = useState('');
+  const [synonyms, setSynonyms] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Fetch tag details; synonyms redirect to their canonical tag
+  const fetchTag = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tags/${encodeURIComponent(tagName)}`);
+      const data = await response.json();
+      if (data.success) {
+        if (data.data.name !== tagName) {
+          router.replace(`/dashboard/tags/${encodeURIComponent(data.data.name)}`);
+          return;
+        }
+        setTag(data.data);
+      } else {
+        setTag(null);
+      }
+    } catch (err) {
+      console.error('Error fetching tag:', err);
+    }
+  }, [tagName, router]);
+
+  // Fetch questions with this tag
+  const fetchQuestions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const query = new URLSearchParams({ tag: tagName, limit: '10' });
+      const cursor = cursorStack[cursorStack.length - 1];
+      if (cursor) query.set('cursor', cursor);
+      const response = await fetch(`/api/questions?${query}`);
+      const data = await response.json();
+      if (data.success) {
+        setQuestions(data.data);
+        setNextCursor(data.pagination.nextCursor);
+      }
+    } catch (err) {
+      console.error('Error fetching questions:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tagName, cursorStack]);
+
+  useEffect(() => {
+    fetchTag();
+  }, [fetchTag]);
+
+  useEffect(() => {
+    fetchQuestions();
+  }, [fetchQuestions]);
+
+  const canEditWiki = !!user && canEditTagWiki(user.role, user.reputation);
+  const canEditSynonyms = !!user && canEditTagSynonyms(user.role);
+
+  const startEditing = () => {
+    if (!tag) return;
+    setExcerpt(tag.excerpt);
+    setWiki(tag.wiki);
+    setSynonyms(tag.synonyms.join(', '));
+    setSaveError(null);
+    setIsEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tag) return;
+
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      const response = await fetch(`/api/tags/${encodeURIComponent(tag.name)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          excerpt,
+          wiki,
+          ...(canEditSynonyms && {
+            synonyms: synonyms.split(',').map(s => s.trim()).filter(Boolean),
+          }),
+        }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setTag({ ...data.data, lastEditedBy: user ? { name: user.name } : null });
+        setIsEditing(false);
+      } else {
+        setSaveError(data.message || 'Failed to save tag');
+      }
+    } catch (err) {
+      console.error('Error saving tag:', err);
+      setSaveError('Failed to save tag');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-[var(--bg-secondary)] border border-[var(--border-light)] rounded-lg text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:border-[var(--color-primary-500)]';
+
+  return (
+    <div className="space-y-6">
+      {/* Back Button */}
+      <Link
+        href="/dashboard/tags"
+        className="inline-flex items-center gap-2 text-sm text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        All Tags
+      </Link>
+
+      {/* Tag Header */}
+      <div className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] p-6 space-y-4">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-[var(--text-primary)]">Questions tagged [{tagName}]</h1>
+            {tag && (
+              <p className="text-sm text-[var(--text-tertiary)] mt-1">
+                {formatNumber(tag.questionCount)} question{tag.questionCount !== 1 ? 's' : ''}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {tag && <FollowButton targetType="tag" target={tag.name} />}
+            {tag && canEditWiki && !isEditing && (
+              <button
+                onClick={startEditing}
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm text-[var(--text-secondary)] border border-[var(--border-light)] rounded-lg hover:bg-[var(--bg-tertiary)] transition-colors"
+              >
+                <Pencil className="w-4 h-4" />
+                Edit Tag Info
+              </button>
+            )}
+            <Link
+              href="/dashboard/ask"
+              className="inline-flex items-center gap-2 px-4 py-2 bg-[var(--color-primary-500)] hover:bg-[var(--color-primary-600)] text-white text-sm font-medium rounded-lg transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Ask Question
+            </Link>
+          </div>
+        </div>
+
+        {isEditing ? (
+          <form onSubmit={handleSave} className="space-y-3">
+            {saveError && <p className="text-sm text-[var(--color-error-500)]">{saveError}</p>}
+            <label className="block space-y-1">
+              <span className="text-xs font-medium text-[var(--text-tertiary)]">Excerpt</span>
+              <textarea
+                value={excerpt}
+                onChange={(e) => setExcerpt(e.target.value)}
+                maxLength={TAG_EXCERPT_MAX_LENGTH}
+                rows={3}
+                placeholder="A short description shown wherever the tag is listed"
+                className={inputClass}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-xs font-medium text-[var(--text-tertiary)]">Wiki</span>
+              <textarea
+                value={wiki}
+                onChange={(e) => setWiki(e.target.value)}
+                rows={8}
+                placeholder="Usage guidance, links and background for this tag"
+                className={inputClass}
+              />
+            </label>
+            {canEditSynonyms && (
+              <label className="block space-y-1">
+                <span className="text-xs font-medium text-[var(--text-tertiary)]">Synonyms (comma separated)</span>
+                <input
+                  type="text"
+                  value={synonyms}
+                  onChange={(e) => setSynonyms(e.target.value)}
+                  placeholder="e.g. js, ecmascript"
+                  className={inputClass}
+                />
+              </label>
+            )}
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setIsEditing(false)}
+                disabled={isSaving}
+                className="px-4 py-2 text-sm text-[var(--text-secondary)] hover:bg-[var(--bg-tertiary)] rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-4 py-2 bg-[var(--color-primary-500)] text-white text-sm font-medium rounded-lg hover:bg-[var(--color-primary-600)] transition-colors disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </form>
+        ) : tag ? (
+          <>
+            <p className="text-[var(--text-secondary)]">{tag.excerpt || 'This tag has no description yet.'}</p>
+            {tag.wiki && (
+              <details className="text-sm text-[var(--text-secondary)]">
+                <summary className="cursor-pointer font-medium text-[var(--color-primary-500)]">Learn more about this tag</summary>
+                <div className="mt-3 whitespace-pre-wrap leading-relaxed">{tag.wiki}</div>
+              </details>
+            )}
+            {tag.synonyms.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 text-xs text-[var(--text-tertiary)]">
+                <span>Synonyms:</span>
+                {tag.synonyms.map((synonym) => (
+                  <span key={synonym} className="px-2 py-1 bg-[var(--bg-tertiary)] rounded-md">{synonym}</span>
+                ))}
+              </div>
+            )}
+            {tag.lastEditedBy && (
+              <p className="text-xs text-[var(--text-tertiary)]">
+                Last edited by {tag.lastEditedBy.name} {formatTimeAgo(tag.updatedAt)}
+              </p>
+            )}
+          </>
+        ) : null}
+      </div>
+
+      {/* Questions List */}
+      <div className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] overflow-hidden">
+        {isLoading ? (
+          <div className="px-6 py-12">
+            <Loader fullScreen={false} variant="dots" size="md" message="Loading questions..." />
+          </div>
+        ) : questions.length === 0 ? (
+          <div className="px-6 py-12 text-center">
+            <MessageSquare className="w-12 h-12 mx-auto mb-4 text-[var(--text-tertiary)]" />
+            <p className="text-[var(--text-secondary)]">No questions with this tag yet</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-[var(--border-light)]">
+            {questions.map((question) => (
+              <Link
+                key={question._id}
+                href={`/dashboard/questions/${question._id}`}
+                className="block px-6 py-5 hover:bg-[var(--bg-secondary)] transition-colors"
+              >
+                <h3 className="text-lg font-semibold text-[var(--text-primary)] mb-3 line-clamp-2 hover:text-[var(--color-primary-500)] transition-colors">
+                  {question.title}
+                </h3>
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {question.tags.map((t) => (
+                    <span
+                      key={t}
+                      className={`px-3 py-1.5 text-xs font-medium uppercase tracking-wide rounded-lg border border-[var(--border-light)] ${t === tagName
+                        ? 'bg-[var(--color-primary-500)]/10 text-[var(--color-primary-500)]'
+                        : 'bg-[var(--bg-tertiary)] text-[var(--text-secondary)]'
+                        }`}
+                    >
+                      {t}
+                    </span>
+                  ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-4 text-xs text-[var(--text-tertiary)]">
+                  <span>{formatNumber(question.upvotes.length - question.downvotes.length)} votes</span>
+                  <span>{formatNumber(question.answers.length)} answers</span>
+                  <span>{formatNumber(question.views)} views</span>
+                  <span>asked {formatTimeAgo(question.createdAt)} by {question.author?.name || 'Anonymous'}</span>
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+
+        {/* Pagination */}
+        {!isLoading && (cursorStack.length > 0 || nextCursor) && (
+          <div className="px-4 sm:px-6 py-4 border-t border-[var(--border-light)] flex items-center justify-between gap-3">
+            <button
+              onClick={() => setCursorStack(stack => stack.slice(0, -1))}
+              disabled={cursorStack.length === 0}
+              className="px-4 py-2.5 text-sm font-medium text-[var(--text-primary)] bg-[var(--bg-secondary)] rounded-lg hover:bg-[var(--border-light)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              ← Previous
+            </button>
+            <span className="text-sm text-[var(--text-tertiary)]">
+              Page {cursorStack.length + 1}
+            </span>
+            <button
+              onClick={() => nextCursor && setCursorStack(stack => [...stack, nextCursor])}
+              disabled={!nextCursor}
+              className="px-4 py-2.5 text-sm font-medium text-[var(--text-primary)] bg-[var(--bg-secondary)] rounded-lg hover:bg-[var(--border-light)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next →
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+'use client';
+
+import React, { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import { Search, Tags, Filter } from 'lucide-react';
+import Loader from '@/app/components/ui/Loader';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+interface TagSummary {
+  id: string;
+  name: string;
+  excerpt: string;
+  synonyms: string[];
+  questionCount: number;
+}
+
+interface TagsResponse {
+  success: boolean;
+  data: TagSummary[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function formatNumber(num: number): string {
+  if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+  if (num >= 1000) return `${(num / 1000).toFixed(1)}k`;
+  return num.toString();
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export default function TagsPage() {
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [sortBy, setSortBy] = useState('popular');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+
+  // Search as you type, without a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(searchQuery.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Fetch tags
+  const fetchTags = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: '36',
+        sort: sortBy,
+      });
+
+      if (debouncedSearch) {
+        params.set('search', debouncedSearch);
+      }
+
+      const response = await fetch(`/api/tags?${params}`);
+      const data: TagsResponse = await response.json();
+
+      if (data.success) {
+        setTags(data.data);
+        setTotalPages(data.pagination.pages);
+        setTotal(data.pagination.total);
+      } else {
+        setError('Failed to load tags');
+      }
+    } catch (err) {
+      console.error('Error fetching tags:', err);
+      setError('Failed to connect to server');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, sortBy, debouncedSearch]);
+
+  useEffect(() => {
+    fetchTags();
+  }, [fetchTags]);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-[var(--text-primary)]">Tags</h1>
+        <p className="text-sm text-[var(--text-tertiary)] mt-1">
+          A tag is a keyword that groups your question with similar ones. {total} tag{total !== 1 ? 's' : ''}
+        </p>
+      </div>
+
+      {/* Search and Sort */}
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-[var(--text-tertiary)]" />
+          <input
+            type="text"
+            placeholder="Filter by tag name..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="w-full h-10 pl-10 pr-4 bg-[var(--bg-primary)] border border-[var(--border-light)] rounded-lg text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:border-[var(--color-primary-500)]"
+          />
+        </div>
+
+        <div className="flex items-center gap-2 w-full sm:w-auto">
+          <Filter className="w-4 h-4 text-[var(--text-tertiary)] hidden sm:block" />
+          <select
+            value={sortBy}
+            onChange={(e) => {
+              setSortBy(e.target.value);
+              setPage(1);
+            }}
+            className="h-10 px-4 bg-[var(--bg-primary)] border border-[var(--border-light)] rounded-lg text-sm text-[var(--text-primary)] focus:outline-none focus:border-[var(--color-primary-500)] flex-1 sm:flex-initial"
+          >
+            <option value="popular">Popular</option>
+            <option value="name">Name</option>
+            <option value="newest">New</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Loading State */}
+      {isLoading && (
+        <div className="py-12">
+          <Loader fullScreen={false} variant="dots" size="md" message="Loading tags..." />
+        </div>
+      )}
+
+      {/* Error State */}
+      {error && !isLoading && (
+        <div className="py-12 text-center">
+          <p className="text-[var(--color-error-500)] mb-3">{error}</p>
+          <button
+            onClick={fetchTags}
+            className="text-sm text-[var(--color-primary-600)] hover:underline"
+          >
+            Try again
+          </button>
+        </div>
+      )}
+
+      {/* Empty State */}
+      {!isLoading && !error && tags.length === 0 && (
+        <div className="py-12 text-center">
+          <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-[var(--bg-secondary)] flex items-center justify-center">
+            <Tags className="w-8 h-8 text-[var(--text-tertiary)]" />
+          </div>
+          <h3 className="text-lg font-semibold text-[var(--text-primary)] mb-2">No tags found</h3>
+          <p className="text-[var(--text-secondary)]">
+            {debouncedSearch ? 'Try a different search term' : 'Tags appear here once questions use them'}
+          </p>
+        </div>
+      )}
+
+      {/* Tags Grid */}
+      {!isLoading && !error && tags.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {tags.map((tag) => (
+            <Link
+              key={tag.id}
+              href={`/dashboard/tags/${encodeURIComponent(tag.name)}`}
+              className="flex flex-col p-4 bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] hover:border-[var(--color-primary-500)] transition-colors"
+            >
+              <span className="self-start px-3 py-1.5 text-xs font-medium uppercase tracking-wide bg-[var(--bg-tertiary)] text-[var(--text-secondary)] rounded-lg border border-[var(--border-light)]">
+                {tag.name}
+              </span>
+              <p className="flex-1 mt-3 text-sm text-[var(--text-secondary)] line-clamp-3">
+                {tag.excerpt || 'No description yet.'}
+              </p>
+              <span className="mt-3 text-xs text-[var(--text-tertiary)]">
+                {formatNumber(tag.questionCount)} question{tag.questionCount !== 1 ? 's' : ''}
+              </span>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {!isLoading && !error && totalPages > 1 && (
+        <div className="flex flex-col sm:flex-row items-center justify-between gap-3">
+          <button
+            onClick={() => setPage(p => Math.max(1, p - 1))}
+            disabled={page === 1}
+            className="w-full sm:w-auto px-4 py-2.5 text-sm font-medium text-[var(--text-primary)] bg-[var(--bg-secondary)] rounded-lg hover:bg-[var(--border-light)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            ← Previous
+          </button>
+          <span className="text-sm text-[var(--text-tertiary)] order-first sm:order-none">
+            Page {page} of {totalPages}
+          </span>
+          <button
+            onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+            disabled={page === totalPages}
+            className="w-full sm:w-auto px-4 py-2.5 text-sm font-medium text-[var(--text-primary)] bg-[var(--bg-secondary)] rounded-lg hover:bg-[var(--border-light)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next →
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,404 @@
+'use client';
+
+import React, { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ArrowLeft, CheckCircle2, MessageSquare, Lock, Calendar, MapPin, Link2 } from 'lucide-react';
+import Loader from '@/app/components/ui/Loader';
+import { ReputationChart } from '@/app/components/users';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+interface UserProfile {
+  user: {
+    id: string;
+    name: string;
+    avatar: string | null;
+    bio: string;
+    location: string;
+    links: { label?: string; url: string }[];
+    role: 'user' | 'moderator' | 'admin';
+    reputation: number;
+    createdAt: string;
+  };
+  stats: {
+    questions: number;
+    answers: number;
+    acceptedAnswers: number;
+    acceptRate: number | null;
+    questionScore: number;
+    answerScore: number;
+  };
+  topTags: { name: string; score: number; posts: number }[];
+  reputationHistory: {
+    granularity: 'day' | 'week' | 'month';
+    points: { date: string; reputation: number }[];
+  };
+}
+
+interface ProfileQuestion {
+  id: string;
+  title: string;
+  tags: string[];
+  score: number;
+  answerCount: number;
+  hasAcceptedAnswer: boolean;
+  isClosed: boolean;
+  createdAt: string;
+}
+
+interface ProfileAnswer {
+  id: string;
+  excerpt: string;
+  score: number;
+  isAccepted: boolean;
+  createdAt: string;
+  question: { id: string; title: string };
+}
+
+type PostTab = 'questions' | 'answers';
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function formatTimeAgo(dateString: string): string {
+  const date = new Date(dateString);
+  const now = new Date();
+  const seconds = Math.floor((now.getTime() - date.getTime()) / 1000);
+
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} min ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)} hours ago`;
+  if (seconds < 604800) return `${Math.floor(seconds / 86400)} days ago`;
+  return date.toLocaleDateString();
+}
+
+function formatNumber(num: number): string {
+  if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+  if (num >= 1000) return `${(num / 1000).toFixed(1)}k`;
+  return num.toString();
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export default function UserProfilePage() {
+  const params = useParams();
+  const userId = String(params.id || '');
+
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Post list state
+  const [tab, setTab] = useState<PostTab>('questions');
+  const [sortBy, setSortBy] = useState<'newest' | 'score'>('newest');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [questions, setQuestions] = useState<ProfileQuestion[]>([]);
+  const [answers, setAnswers] = useState<ProfileAnswer[]>([]);
+  const [isLoadingPosts, setIsLoadingPosts] = useState(true);
+
+  // Fetch profile
+  useEffect(() => {
+    const fetchProfile = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/users/${userId}`);
+        const data = await response.json();
+        if (data.success) {
+          setProfile(data.data);
+        } else {
+          setError(data.message || 'User not found');
+        }
+      } catch (err) {
+        console.error('Error fetching profile:', err);
+        setError('Failed to connect to server');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    if (userId) fetchProfile();
+  }, [userId]);
+
+  // Fetch the selected tab's posts
+  const fetchPosts = useCallback(async () => {
+    setIsLoadingPosts(true);
+    try {
+      const query = new URLSearchParams({ page: page.toString(), sort: sortBy });
+      const response = await fetch(`/api/users/${userId}/${tab}?${query}`);
+      const data = await response.json();
+      if (data.success) {
+        if (tab === 'questions') setQuestions(data.data);
+        else setAnswers(data.data);
+        setTotalPages(Math.max(1, data.pagination.pages));
+      }
+    } catch (err) {
+      console.error(`Error fetching ${tab}:`, err);
+    } finally {
+      setIsLoadingPosts(false);
+    }
+  }, [userId, tab, sortBy, page]);
+
+  useEffect(() => {
+    if (userId) fetchPosts();
+  }, [userId, fetchPosts]);
+
+  if (isLoading) {
+    return <Loader message="Loading profile..." variant="default" />;
+  }
+
+  if (error || !profile) {
+    return (
+      <div className="py-12 text-center space-y-3">
+        <p className="text-[var(--color-error-500)]">{error || 'User not found'}</p>
+        <Link href="/dashboard/users" className="text-sm text-[var(--color-primary-600)] hover:underline">
+          Browse users
+        </Link>
+      </div>
+    );
+  }
+
+  const { user: member, stats, topTags, reputationHistory } = profile;
+  const statCards = [
+    { label: 'Reputation', value: formatNumber(member.reputation) },
+    { label: 'Questions', value: formatNumber(stats.questions) },
+    { label: 'Answers', value: formatNumber(stats.answers) },
+    {
+      label: 'Accepted',
+      value: stats.acceptRate === null ? '—' : `${Math.round(stats.acceptRate * 100)}%`,
+      hint: `${stats.acceptedAnswers} of ${stats.answers} answers`,
+    },
+  ];
+
+  const switchTab = (next: PostTab) => {
+    setTab(next);
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Back Button */}
+      <Link
+        href="/dashboard/users"
+        className="inline-flex items-center gap-2 text-sm text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        All Users
+      </Link>
+
+      {/* Profile Header */}
+      <div className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] p-6 flex flex-wrap items-center gap-5">
+        <div className="relative w-20 h-20 shrink-0 rounded-full overflow-hidden bg-gradient-to-br from-[var(--color-primary-400)] to-[var(--color-accent-500)] flex items-center justify-center text-2xl font-semibold text-white">
+          {member.avatar ? (
+            <img src={member.avatar} alt={member.name} className="w-full h-full object-cover" />
+          ) : (
+            member.name.charAt(0).toUpperCase()
+          )}
+        </div>
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <h1 className="text-2xl font-bold text-[var(--text-primary)] truncate">{member.name}</h1>
+            {member.role !== 'user' && (
+              <span className="px-2 py-0.5 text-xs font-medium uppercase rounded bg-[var(--bg-tertiary)] text-[var(--text-secondary)]">
+                {member.role}
+              </span>
+            )}
+          </div>
+          {member.bio && (
+            <p className="mt-1 text-sm text-[var(--text-secondary)] whitespace-pre-line">{member.bio}</p>
+          )}
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1 text-sm text-[var(--text-tertiary)]">
+            <span className="flex items-center gap-1.5">
+              <Calendar className="w-4 h-4" />
+              Member since {new Date(member.createdAt).toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+            </span>
+            {member.location && (
+              <span className="flex items-center gap-1.5">
+                <MapPin className="w-4 h-4" />
+                {member.location}
+              </span>
+            )}
+            {member.links.map((link) => (
+              <a
+                key={link.url}
+                href={link.url}
+                target="_blank"
+                rel="noopener noreferrer nofollow"
+                className="flex items-center gap-1.5 hover:text-[var(--color-primary-500)] transition-colors"
+              >
+                <Link2 className="w-4 h-4" />
+                {link.label || link.url.replace(/^https?:\/\//, '')}
+              </a>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {statCards.map((card) => (
+          <div key={card.label} className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] p-4" title={card.hint}>
+            <div className="text-2xl font-bold text-[var(--text-primary)]">{card.value}</div>
+            <div className="text-sm text-[var(--text-tertiary)]">{card.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Reputation Chart */}
+        <section className="lg:col-span-2 bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] p-6">
+          <h2 className="text-lg font-semibold text-[var(--text-primary)] mb-4">Reputation</h2>
+          <ReputationChart points={reputationHistory.points} granularity={reputationHistory.granularity} />
+        </section>
+
+        {/* Top Tags */}
+        <section className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] p-6">
+          <h2 className="text-lg font-semibold text-[var(--text-primary)] mb-4">Top Tags</h2>
+          {topTags.length === 0 ? (
+            <p className="text-sm text-[var(--text-tertiary)]">No tagged posts yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {topTags.map((tag) => (
+                <li key={tag.name} className="flex items-center justify-between gap-3">
+                  <Link
+                    href={`/dashboard/tags/${encodeURIComponent(tag.name)}`}
+                    className="px-3 py-1.5 text-xs font-medium uppercase tracking-wide bg-[var(--bg-tertiary)] text-[var(--text-secondary)] rounded-lg border border-[var(--border-light)] hover:border-[var(--color-primary-500)] transition-colors"
+                  >
+                    {tag.name}
+                  </Link>
+                  <span className="text-xs text-[var(--text-tertiary)]">
+                    <span className="font-semibold text-[var(--text-primary)]">{formatNumber(tag.score)}</span> score · {tag.posts} post{tag.posts !== 1 ? 's' : ''}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+
+      {/* Posts */}
+      <section className="bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] overflow-hidden">
+        <div className="px-6 py-4 border-b border-[var(--border-light)] flex flex-wrap items-center justify-between gap-3">
+          <div className="flex gap-1 p-1 bg-[var(--bg-secondary)] rounded-lg">
+            {(['questions', 'answers'] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => switchTab(option)}
+                className={`px-4 py-1.5 text-sm font-medium rounded-md capitalize transition-colors ${tab === option
+                  ? 'bg-[var(--bg-primary)] text-[var(--text-primary)] shadow-sm'
+                  : 'text-[var(--text-tertiary)] hover:text-[var(--text-primary)]'
+                  }`}
+              >
+                {option} ({option === 'questions' ? stats.questions : stats.answers})
+              </button>
+            ))}
+          </div>
+          <select
+            value={sortBy}
+            onChange={(e) => {
+              setSortBy(e.target.value as 'newest' | 'score');
+              setPage(1);
+            }}
+            className="h-9 px-3 bg-[var(--bg-primary)] border border-[var(--border-light)] rounded-lg text-sm text-[var(--text-primary)] focus:outline-none focus:border-[var(--color-primary-500)]"
+          >
+            <option value="newest">Newest</option>
+            <option value="score">Score</option>
+          </select>
+        </div>
+
+        {isLoadingPosts ? (
+          <div className="px-6 py-12">
+            <Loader fullScreen={false} variant="dots" size="md" message={`Loading ${tab}...`} />
+          </div>
+        ) : (tab === 'questions' ? questions : answers).length === 0 ? (
+          <div className="px-6 py-12 text-center">
+            <MessageSquare className="w-12 h-12 mx-auto mb-4 text-[var(--text-tertiary)]" />
+            <p className="text-[var(--text-secondary)]">No {tab} yet</p>
+          </div>
+        ) : tab === 'questions' ? (
+          <div className="divide-y divide-[var(--border-light)]">
+            {questions.map((question) => (
+              <Link
+                key={question.id}
+                href={`/dashboard/questions/${question.id}`}
+                className="flex gap-4 px-6 py-4 hover:bg-[var(--bg-secondary)] transition-colors"
+              >
+                <div className="w-14 shrink-0 text-center">
+                  <div className="font-semibold text-[var(--text-primary)]">{formatNumber(question.score)}</div>
+                  <div className="text-xs text-[var(--text-tertiary)]">votes</div>
+                </div>
+                <div className="min-w-0 flex-1">
+                  <h3 className="font-medium text-[var(--text-primary)] line-clamp-2">
+                    {question.isClosed && <Lock className="inline w-4 h-4 mr-1 -mt-0.5 text-[var(--text-tertiary)]" />}
+                    {question.title}
+                  </h3>
+                  <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-[var(--text-tertiary)]">
+                    {question.tags.map((t) => (
+                      <span key={t} className="px-2 py-0.5 bg-[var(--bg-tertiary)] rounded-md">{t}</span>
+                    ))}
+                    <span className={question.hasAcceptedAnswer ? 'text-[var(--color-success-500)]' : ''}>
+                      {question.answerCount} answer{question.answerCount !== 1 ? 's' : ''}
+                    </span>
+                    <span>asked {formatTimeAgo(question.createdAt)}</span>
+                  </div>
+                </div>
+              </Link>
+            ))}
+          </div>
+        ) : (
+          <div className="divide-y divide-[var(--border-light)]">
+            {answers.map((answer) => (
+              <Link
+                key={answer.id}
+                href={`/dashboard/questions/${answer.question.id}#answer-${answer.id}`}
+                className="flex gap-4 px-6 py-4 hover:bg-[var(--bg-secondary)] transition-colors"
+              >
+                <div className="w-14 shrink-0 text-center">
+                  <div className="font-semibold text-[var(--text-primary)]">{formatNumber(answer.score)}</div>
+                  <div className="text-xs text-[var(--text-tertiary)]">votes</div>
+                  {answer.isAccepted && (
+                    <CheckCircle2 className="w-4 h-4 mx-auto mt-1 text-[var(--color-success-500)]" aria-label="Accepted" />
+                  )}
+                </div>
+                <div className="min-w-0 flex-1">
+                  <h3 className="font-medium text-[var(--text-primary)] line-clamp-1">{answer.question.title}</h3>
+                  <p className="mt-1 text-sm text-[var(--text-secondary)] line-clamp-2">{answer.excerpt}</p>
+                  <div className="mt-2 text-xs text-[var(--text-tertiary)]">answered {formatTimeAgo(answer.createdAt)}</div>
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+
+        {/* Pagination */}
+        {!isLoadingPosts && totalPages > 1 && (
+          <div className="px-4 sm:px-6 py-4 border-t border-[var(--border-light)] flex items-center justify-between gap-3">
+            <button
+              onClick={() => setPage(p => Math.max(1, p - 1))}
+              disabled={page === 1}
+              className="px-4 py-2.5 text-sm font-medium text-[var(--text-primary)] bg-[var(--bg-secondary)] rounded-lg hover:bg-[var(--border-light)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              ← Previous
+            </button>
+            <span className="text-sm text-[var(--text-tertiary)]">
+              Page {page} of {totalPages}
+            </span>
+            <button
+              onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+              disabled={page === totalPages}
+              className="px-4 py-2.5 text-sm font-medium text-[var(--text-primary)] bg-[var(--bg-secondary)] rounded-lg hover:bg-[var(--border-light)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next →
+            </button>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+'use client';
+
+import React, { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import { Search, Users, Filter } from 'lucide-react';
+import Loader from '@/app/components/ui/Loader';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+interface UserSummary {
+  id: string;
+  name: string;
+  avatar: string | null;
+  role: 'user' | 'moderator' | 'admin';
+  reputation: number;
+  createdAt: string;
+  questionCount: number;
+  answerCount: number;
+}
+
+interface UsersResponse {
+  success: boolean;
+  data: UserSummary[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function formatNumber(num: number): string {
+  if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+  if (num >= 1000) return `${(num / 1000).toFixed(1)}k`;
+  return num.toString();
+}
+
+function formatJoined(dateString: string): string {
+  return new Date(dateString).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export default function UsersPage() {
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [sortBy, setSortBy] = useState('reputation');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+
+  // Search as you type, without a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(searchQuery.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Fetch users
+  const fetchUsers = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: '36',
+        sort: sortBy,
+      });
+
+      if (debouncedSearch) {
+        params.set('search', debouncedSearch);
+      }
+
+      const response = await fetch(`/api/users?${params}`);
+      const data: UsersResponse = await response.json();
+
+      if (data.success) {
+        setUsers(data.data);
+        setTotalPages(data.pagination.pages);
+        setTotal(data.pagination.total);
+      } else {
+        setError('Failed to load users');
+      }
+    } catch (err) {
+      console.error('Error fetching users:', err);
+      setError('Failed to connect to server');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, sortBy, debouncedSearch]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-[var(--text-primary)]">Users</h1>
+        <p className="text-sm text-[var(--text-tertiary)] mt-1">
+          The people asking and answering on DevSolve. {total} user{total !== 1 ? 's' : ''}
+        </p>
+      </div>
+
+      {/* Search and Sort */}
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-[var(--text-tertiary)]" />
+          <input
+            type="text"
+            placeholder="Filter by name..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="w-full h-10 pl-10 pr-4 bg-[var(--bg-primary)] border border-[var(--border-light)] rounded-lg text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:border-[var(--color-primary-500)]"
+          />
+        </div>
+
+        <div className="flex items-center gap-2 w-full sm:w-auto">
+          <Filter className="w-4 h-4 text-[var(--text-tertiary)] hidden sm:block" />
+          <select
+            value={sortBy}
+            onChange={(e) => {
+              setSortBy(e.target.value);
+              setPage(1);
+            }}
+            className="h-10 px-4 bg-[var(--bg-primary)] border border-[var(--border-light)] rounded-lg text-sm text-[var(--text-primary)] focus:outline-none focus:border-[var(--color-primary-500)] flex-1 sm:flex-initial"
+          >
+            <option value="reputation">Reputation</option>
+            <option value="newest">New users</option>
+            <option value="oldest">Longest members</option>
+            <option value="name">Name</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Loading State */}
+      {isLoading && (
+        <div className="py-12">
+          <Loader fullScreen={false} variant="dots" size="md" message="Loading users..." />
+        </div>
+      )}
+
+      {/* Error State */}
+      {error && !isLoading && (
+        <div className="py-12 text-center">
+          <p className="text-[var(--color-error-500)] mb-3">{error}</p>
+          <button
+            onClick={fetchUsers}
+            className="text-sm text-[var(--color-primary-600)] hover:underline"
+          >
+            Try again
+          </button>
+        </div>
+      )}
+
+      {/* Empty State */}
+      {!isLoading && !error && users.length === 0 && (
+        <div className="py-12 text-center">
+          <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-[var(--bg-secondary)] flex items-center justify-center">
+            <Users className="w-8 h-8 text-[var(--text-tertiary)]" />
+          </div>
+          <h3 className="text-lg font-semibold text-[var(--text-primary)] mb-2">No users found</h3>
+          <p className="text-[var(--text-secondary)]">Try a different name</p>
+        </div>
+      )}
+
+      {/* Users Grid */}
+      {!isLoading && !error && users.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {users.map((member) => (
+            <Link
+              key={member.id}
+              href={`/dashboard/users/${member.id}`}
+              className="flex items-center gap-4 p-4 bg-[var(--bg-primary)] rounded-2xl border border-[var(--border-light)] hover:border-[var(--color-primary-500)] transition-colors"
+            >
+              <div className="relative w-12 h-12 shrink-0 rounded-full overflow-hidden bg-gradient-to-br from-[var(--color-primary-400)] to-[var(--color-accent-500)] flex items-center justify-center text-base font-semibold text-white">
+                {member.avatar ? (
+                  <img src={member.avatar} alt={member.name} className="w-full h-full object-cover" />
+                ) : (
+                  member.name.charAt(0).toUpperCase()
+                )}
+              </div>
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-[var(--text-primary)] truncate">{member.name}</span>
+                  {member.role !== 'user' && (
+                    <span className="px-1.5 py-0.5 text-[10px] font-medium uppercase rounded bg-[var(--bg-tertiary)] text-[var(--text-secondary)]">
+                      {member.role}
+                    </span>
+                  )}
+                </div>
+                <div className="text-sm font-semibold text-[var(--color-primary-500)]">
+                  {formatNumber(member.reputation)} reputation
+                </div>
+                <div className="text-xs text-[var(--text-tertiary)]">
+                  {member.questionCount} question{member.questionCount !== 1 ? 's' : ''} · {member.answerCount} answer{member.answerCount !== 1 ? 's' : ''} · joined {formatJoined(member.createdAt)}
+                </div>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {!isLoading && !error && totalPages > 1 && (
+        <div className="flex flex-col sm:flex-row items-center justify-between gap-3">
+          <button
+            onClick={() => setPage(p => Math.max(1, p - 1))}
+            disabled={page === 1}
+            className="w-full sm:w-auto px-4 py-2.5 text-sm font-medium text-[var(--text-primary)] bg-[var(--bg-secondary)] rounded-lg hover:bg-[var(--border-light)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            ← Previous
+          </button>
+          <span className="text-sm text-[var(--text-tertiary)] order-first sm:order-none">
+            Page {page} of {totalPages}
+          </span>
+          <button
+            onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+            disabled={page === totalPages}
+            className="w-full sm:w-auto px-4 py-2.5 text-sm font-medium text-[var(--text-primary)] bg-[var(--bg-secondary)] rounded-lg hover:bg-[var(--border-light)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next →
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * Instrumentation
+ * ===============
+ * Next.js calls register() once when a server instance starts.
+ */
+
+export async function register(): Promise<void> {
+    // Mongoose only runs on Node.js, not the edge runtime
+    if (process.env.NEXT_RUNTIME === 'nodejs') {
+        // Not awaited: the server takes requests while pending migrations run
+        import('@/lib/db/migrations')
+            .then(({ runMigrationsOnStartup }) => runMigrationsOnStartup())
+            .catch((error) => console.error('Error starting migrations:', error));
+    }
+}
@@ -8,10 +8,12 @@
 export {
     createStreamingCompletion,
     createCompletion,
+    createEmbeddings,
     validateApiKey,
     AVAILABLE_MODELS,
     DEFAULT_MODEL,
     FALLBACK_MODEL,
+    EMBEDDING_MODEL,
 } from './openai';
 export type { OpenAIStreamOptions, TokenUsage, StreamResult } from './openai';
 
@@ -14,9 +14,11 @@ import { ChatMessage } from './contextManager';
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
 const OPENAI_API_URL = 'https://api.openai.com/v1/responses';
 const OPENAI_CHAT_URL = 'https://api.openai.com/v1/chat/completions';
+const OPENAI_EMBEDDINGS_URL = 'https://api.openai.com/v1/embeddings';
 
 export const DEFAULT_MODEL = 'gpt-4.1-mini';
 export const FALLBACK_MODEL = 'gpt-4o-mini';
+export const EMBEDDING_MODEL = 'text-embedding-3-small';
 
 // Request timeout in milliseconds
 const REQUEST_TIMEOUT = 60000; // 60 seconds
@@ -288,6 +290,57 @@ export async function createCompletion(
     };
 }
 
+// ============================================
+// Embeddings
+// ============================================
+
+/**
+ * Embedding vectors for a batch of texts, in input order
+ */
+export async function createEmbeddings(
+    inputs: string[],
+    { model = EMBEDDING_MODEL }: { model?: string } = {}
+): Promise<number[][]> {
+    validateApiKey();
+    if (inputs.length === 0) return [];
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+    try {
+        const response = await fetch(OPENAI_EMBEDDINGS_URL, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${OPENAI_API_KEY}`,
+            },
+            body: JSON.stringify({ model, input: inputs }),
+            signal: controller.signal,
+        });
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            let errorMessage = `OpenAI API error: ${response.status}`;
+
+            try {
+                const errorJson = JSON.parse(errorBody);
+                errorMessage = errorJson.error?.message || errorMessage;
+            } catch {
+                // Use default error message
+            }
+
+            throw new Error(errorMessage);
+        }
+
+        const data: { data: { index: number; embedding: number[] }[] } = await response.json();
+        return [...data.data]
+            .sort((a, b) => a.index - b.index)
+            .map((item) => item.embedding);
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
 /**
  * Get available models
  */
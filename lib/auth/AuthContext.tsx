@@ -17,7 +17,13 @@ interface AuthContextType {
     user: User | null;
     isLoading: boolean;
     isAuthenticated: boolean;
-    login: (email: string, password: string) => Promise<{ success: boolean; message: string; requiresVerification?: boolean }>;
+    login: (email: string, password: string) => Promise<{
+        success: boolean;
+        message: string;
+        requiresVerification?: boolean;
+        // Finish signing in with a code at /api/auth/login/two-factor
+        requiresTwoFactor?: boolean;
+    }>;
     register: (name: string, email: string, password: string) => Promise<{ success: boolean; message: string }>;
     logout: () => Promise<void>;
     refreshUser: () => Promise<void>;
@@ -25,6 +31,9 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Access tokens last 15 minutes by default; renew comfortably before that
+const TOKEN_REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
     const router = useRouter();
     const [user, setUser] = useState<User | null>(null);
@@ -33,7 +42,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     // Fetch current user on mount
     const refreshUser = useCallback(async () => {
         try {
-            const response = await fetch('/api/auth/me');
+            let response = await fetch('/api/auth/me');
+
+            // The access token may have expired while the refresh token is still good
+            if (response.status === 401 && (await fetch('/api/auth/refresh', { method: 'POST' })).ok) {
+                response = await fetch('/api/auth/me');
+            }
 
             if (response.ok) {
                 const data = await response.json();
@@ -52,6 +66,24 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         refreshUser();
     }, [refreshUser]);
 
+    // Keep the access token fresh while the app is open
+    const isSignedIn = !!user;
+    useEffect(() => {
+        if (!isSignedIn) return;
+
+        const interval = setInterval(async () => {
+            try {
+                const response = await fetch('/api/auth/refresh', { method: 'POST' });
+                // The session was signed out from another device
+                if (response.status === 401) setUser(null);
+            } catch {
+                // Offline; try again next time
+            }
+        }, TOKEN_REFRESH_INTERVAL_MS);
+
+        return () => clearInterval(interval);
+    }, [isSignedIn]);
+
     // Login
     const login = async (email: string, password: string) => {
         try {
@@ -63,6 +95,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
             const data = await response.json();
 
+            if (response.ok && data.requiresTwoFactor) {
+                return { success: false, message: data.message, requiresTwoFactor: true };
+            }
+
             if (response.ok) {
                 setUser(data.data);
                 return { success: true, message: 'Login successful' };
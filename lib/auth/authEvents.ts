@@ -0,0 +1,160 @@
+/**
+ * Auth Events
+ * ===========
+ * Writes the AuthEvent security log and spots sign-ins from a device or IP
+ * address the account hasn't used before. Recording never throws: a failed
+ * log write must not stop someone signing in.
+ */
+
+import { Types } from 'mongoose';
+import { dbConnect } from '@/lib/db';
+import { AuthEvent } from '@/lib/models';
+import type { AuthEventType, AuthMethod } from '@/lib/models';
+import { sendNewSignInEmail } from './email';
+import { describeUserAgent } from './userAgent';
+import type { SessionClient } from './sessions';
+
+// ============================================
+// Types
+// ============================================
+
+export interface AuthEventInput {
+    type: AuthEventType;
+    userId?: string | Types.ObjectId;
+    email?: string;
+    method?: AuthMethod;
+    reason?: string;
+    client?: SessionClient;
+    newContext?: boolean;
+}
+
+export interface AuthEventFilters {
+    userId?: string;
+    email?: string;
+    type?: AuthEventType;
+    ip?: string;
+    page?: number;
+    limit?: number;
+}
+
+export interface AuthEventEntry {
+    id: string;
+    type: AuthEventType;
+    userId: string | null;
+    email: string | null;
+    method: AuthMethod | null;
+    reason: string | null;
+    ip: string | null;
+    device: string;
+    newContext: boolean;
+    createdAt: Date;
+}
+
+export const AUTH_EVENT_PAGE_SIZE = 50;
+
+// Recent sign-ins compared against when deciding whether a login is new
+const KNOWN_CONTEXT_LIMIT = 50;
+
+// ============================================
+// Recording
+// ============================================
+
+export async function recordAuthEvent(input: AuthEventInput): Promise<void> {
+    try {
+        await dbConnect();
+
+        await AuthEvent.create({
+            type: input.type,
+            user: input.userId,
+            email: input.email,
+            method: input.method,
+            reason: input.reason,
+            ip: input.client?.ip || undefined,
+            userAgent: input.client?.userAgent,
+            newContext: input.newContext,
+        });
+    } catch (error) {
+        console.error('Error recording auth event:', error);
+    }
+}
+
+/**
+ * Record a completed sign-in. If it comes from a device or IP address this
+ * account hasn't signed in from recently, email the owner. Devices are
+ * compared by browser and OS, so updates don't count as new devices.
+ */
+export async function recordLogin(
+    user: { _id: Types.ObjectId | string; email: string; name: string },
+    client: SessionClient,
+    method: AuthMethod
+): Promise<void> {
+    let newContext = false;
+
+    try {
+        await dbConnect();
+
+        const previous = await AuthEvent.find({ user: user._id, type: 'login' })
+            .select('ip userAgent')
+            .sort({ createdAt: -1 })
+            .limit(KNOWN_CONTEXT_LIMIT)
+            .lean();
+
+        const device = describeUserAgent(client.userAgent);
+        const knownIp = previous.some(event => (event.ip ?? null) === client.ip);
+        const knownDevice = previous.some(event => describeUserAgent(event.userAgent ?? '') === device);
+
+        // The first recorded sign-in has nothing to compare against
+        newContext = previous.length > 0 && (!knownIp || !knownDevice);
+
+        if (newContext) {
+            await sendNewSignInEmail(user.email, user.name, { device, ip: client.ip, time: new Date() });
+        }
+    } catch (error) {
+        console.error('Error checking sign-in context:', error);
+    }
+
+    await recordAuthEvent({ type: 'login', userId: user._id, email: user.email, method, client, newContext });
+}
+
+// ============================================
+// Querying
+// ============================================
+
+export async function listAuthEvents(
+    { userId, email, type, ip, page = 1, limit = AUTH_EVENT_PAGE_SIZE }: AuthEventFilters = {}
+): Promise<{ entries: AuthEventEntry[]; total: number }> {
+    if (userId && !Types.ObjectId.isValid(userId)) return { entries: [], total: 0 };
+
+    await dbConnect();
+
+    const query = {
+        ...(userId && { user: userId }),
+        ...(email && { email: email.toLowerCase() }),
+        ...(type && { type }),
+        ...(ip && { ip }),
+    };
+    const [events, total] = await Promise.all([
+        AuthEvent.find(query)
+            .sort({ createdAt: -1 })
+            .skip((page - 1) * limit)
+            .limit(limit)
+            .lean(),
+        AuthEvent.countDocuments(query),
+    ]);
+
+    return {
+        entries: events.map((event) => ({
+            id: event._id.toString(),
+            type: event.type,
+            userId: event.user?.toString() ?? null,
+            email: event.email ?? null,
+            method: event.method ?? null,
+            reason: event.reason ?? null,
+            ip: event.ip ?? null,
+            device: describeUserAgent(event.userAgent ?? ''),
+            newContext: event.newContext ?? false,
+            createdAt: event.createdAt,
+        })),
+        total,
+    };
+}
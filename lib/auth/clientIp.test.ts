@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { getClientIp } from './clientIp';
+
+const forwardedFor = (value?: string) => new Headers(value === undefined ? {} : { 'x-forwarded-for': value });
+
+describe('getClientIp', () => {
+    it('takes the entry appended by the only trusted proxy', () => {
+        expect(getClientIp(forwardedFor('203.0.113.7'), 1)).toBe('203.0.113.7');
+    });
+
+    it('ignores addresses the client put in front of the list', () => {
+        expect(getClientIp(forwardedFor('10.0.0.1, 198.51.100.9, 203.0.113.7'), 1)).toBe('203.0.113.7');
+    });
+
+    it('counts in from the right for each trusted proxy', () => {
+        expect(getClientIp(forwardedFor('10.0.0.1, 203.0.113.7, 192.0.2.1'), 2)).toBe('203.0.113.7');
+    });
+
+    it('gives up when there are fewer entries than proxies', () => {
+        expect(getClientIp(forwardedFor('203.0.113.7'), 2)).toBeNull();
+        expect(getClientIp(forwardedFor(), 1)).toBeNull();
+        expect(getClientIp(forwardedFor(' , '), 1)).toBeNull();
+    });
+
+    it('ignores the header when no proxies are trusted', () => {
+        expect(getClientIp(forwardedFor('203.0.113.7'), 0)).toBeNull();
+    });
+});
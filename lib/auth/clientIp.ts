@@ -0,0 +1,37 @@
+/**
+ * Client IP
+ * =========
+ * The address a request came from, for rate limits, sessions and the
+ * AuthEvent log. Each proxy appends the address it received the request
+ * from to X-Forwarded-For, so only the entries added by our own proxies can
+ * be trusted; anything to their left was sent by the client.
+ *
+ * TRUSTED_PROXY_COUNT is the number of proxies in front of the app
+ * (default 1, e.g. Vercel or a single load balancer). The client is the
+ * entry that many places from the right.
+ */
+
+const DEFAULT_TRUSTED_PROXY_COUNT = 1;
+
+function trustedProxyCount(): number {
+    const count = parseInt(process.env.TRUSTED_PROXY_COUNT ?? '', 10);
+    return Number.isInteger(count) && count >= 0 ? count : DEFAULT_TRUSTED_PROXY_COUNT;
+}
+
+/**
+ * The client address as seen by the outermost trusted proxy, or null when
+ * the request didn't come through one
+ */
+export function getClientIp(headers: Headers, proxyCount: number = trustedProxyCount()): string | null {
+    if (proxyCount === 0) return null;
+
+    const hops = (headers.get('x-forwarded-for') ?? '')
+        .split(',')
+        .map((hop) => hop.trim())
+        .filter(Boolean);
+
+    // Fewer entries than proxies means the request skipped one; don't guess
+    if (hops.length < proxyCount) return null;
+
+    return hops[hops.length - proxyCount];
+}
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Identity, User } from '@/lib/models';
+import { signInWithIdentity } from './identities';
+import type { OAuthProfile, OAuthProvider } from './oauth';
+
+vi.mock('@/lib/db', () => ({ dbConnect: vi.fn() }));
+
+const provider: OAuthProvider = {
+    id: 'mock',
+    name: 'Mock SSO',
+    issuer: 'https://login.example.com',
+    clientId: 'devsolve',
+    scopes: ['openid', 'email', 'profile'],
+};
+
+const profile = (overrides: Partial<OAuthProfile> = {}): OAuthProfile => ({
+    subject: 'mock-user-1',
+    email: 'ada@example.com',
+    emailVerified: true,
+    name: 'Ada Lovelace',
+    picture: null,
+    ...overrides,
+});
+
+let existing: InstanceType<typeof User>;
+
+beforeEach(() => {
+    existing = new User({ name: 'Ada', email: 'ada@example.com', isVerified: true });
+
+    // No identity linked yet, and an account already registered with the email
+    vi.spyOn(Identity, 'findOneAndUpdate').mockResolvedValue(null);
+    vi.spyOn(User, 'findOne').mockResolvedValue(existing);
+    vi.spyOn(User, 'create').mockImplementation(() => {
+        throw new Error('User.create should not be called');
+    });
+    vi.spyOn(Identity, 'create').mockResolvedValue([]);
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+// ============================================
+// signInWithIdentity
+// ============================================
+
+describe('signInWithIdentity', () => {
+    it('links a verified email to the existing account', async () => {
+        const result = await signInWithIdentity(provider, profile());
+
+        expect(result).toEqual({ status: 'ok', user: existing, created: false });
+        expect(Identity.create).toHaveBeenCalledWith(expect.objectContaining({
+            user: existing._id,
+            provider: 'mock',
+            subject: 'mock-user-1',
+        }));
+    });
+
+    it('does not link an unverified email to an existing account', async () => {
+        const result = await signInWithIdentity(provider, profile({ emailVerified: false }));
+
+        expect(result).toEqual({ status: 'email_unverified' });
+        expect(User.findOne).not.toHaveBeenCalled();
+        expect(Identity.create).not.toHaveBeenCalled();
+    });
+
+    it('does not match an account when the provider sends no email', async () => {
+        const result = await signInWithIdentity(provider, profile({ email: null, emailVerified: true }));
+
+        expect(result).toEqual({ status: 'email_unverified' });
+        expect(User.findOne).not.toHaveBeenCalled();
+        expect(Identity.create).not.toHaveBeenCalled();
+    });
+
+    it('signs in the account an identity is already linked to, whatever its email', async () => {
+        const linkedUser = new User({ name: 'Grace', email: 'grace@example.com', isVerified: true });
+        vi.spyOn(Identity, 'findOneAndUpdate').mockResolvedValue({ user: linkedUser._id });
+        vi.spyOn(User, 'findById').mockResolvedValue(linkedUser);
+
+        const result = await signInWithIdentity(provider, profile({ emailVerified: false }));
+
+        expect(result).toEqual({ status: 'ok', user: linkedUser, created: false });
+        expect(User.findOne).not.toHaveBeenCalled();
+    });
+
+    it('creates a verified account when no account has the email', async () => {
+        const created = new User({ name: 'Ada Lovelace', email: 'ada@example.com', isVerified: true });
+        vi.spyOn(User, 'findOne').mockResolvedValue(null);
+        vi.spyOn(User, 'create').mockResolvedValue(created as never);
+
+        const result = await signInWithIdentity(provider, profile());
+
+        expect(result).toEqual({ status: 'ok', user: created, created: true });
+        expect(User.create).toHaveBeenCalledWith(expect.objectContaining({
+            email: 'ada@example.com',
+            isVerified: true,
+        }));
+        expect(Identity.create).toHaveBeenCalledWith(expect.objectContaining({ user: created._id }));
+    });
+
+    it('keeps the identity when a parallel callback linked it first', async () => {
+        vi.spyOn(Identity, 'create').mockRejectedValue(Object.assign(new Error('duplicate key'), { code: 11000 }));
+
+        expect(await signInWithIdentity(provider, profile())).toMatchObject({ status: 'ok', user: existing });
+    });
+});
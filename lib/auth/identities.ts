@@ -0,0 +1,147 @@
+/**
+ * Linked Identities
+ * =================
+ * Turns a profile from an OAuth / OIDC provider into a local account. An
+ * identity that is already linked signs in its user; otherwise the
+ * provider's verified email finds the existing account, or a new one is
+ * created, and the identity is linked to it.
+ */
+
+import { Types } from 'mongoose';
+import { dbConnect } from '@/lib/db';
+import { Identity, User } from '@/lib/models';
+import type { IUserDocument } from '@/lib/models';
+import { getOAuthProviders } from './oauth';
+import type { OAuthProvider, OAuthProfile } from './oauth';
+import { revokeUserSessions } from './sessions';
+
+// ============================================
+// Types
+// ============================================
+
+export type IdentitySignInResult =
+    | { status: 'ok'; user: IUserDocument; created: boolean }
+    // Without a verified email there's no safe way to match or create an account
+    | { status: 'email_unverified' };
+
+export interface LinkedIdentity {
+    id: string;
+    provider: string;
+    providerName: string;
+    email: string | null;
+    createdAt: Date;
+    lastUsedAt: Date;
+}
+
+export type UnlinkResult = 'unlinked' | 'not_found' | 'last_sign_in_method';
+
+// ============================================
+// Sign In
+// ============================================
+
+function displayName(profile: OAuthProfile): string {
+    const name = (profile.name || profile.email?.split('@')[0] || '').slice(0, 50).trim();
+    return name.length >= 2 ? name : 'New member';
+}
+
+export async function signInWithIdentity(provider: OAuthProvider, profile: OAuthProfile): Promise<IdentitySignInResult> {
+    await dbConnect();
+
+    const linked = await Identity.findOneAndUpdate(
+        { provider: provider.id, subject: profile.subject },
+        { $set: { lastUsedAt: new Date(), ...(profile.email && { email: profile.email }) } },
+        { returnDocument: 'after' }
+    );
+    if (linked) {
+        const user = await User.findById(linked.user);
+        if (user) return { status: 'ok', user, created: false };
+
+        // The account was deleted; start over as if this identity were new
+        await linked.deleteOne();
+    }
+
+    if (!profile.email || !profile.emailVerified) {
+        return { status: 'email_unverified' };
+    }
+
+    let user = await User.findOne({ email: profile.email });
+    let created = false;
+
+    if (user && !user.isVerified) {
+        // Whoever signed up with this address never proved they own it, and
+        // the provider just did. Drop their password and sessions so an
+        // unconfirmed sign-up can't be used to get into the account.
+        user.isVerified = true;
+        user.verificationToken = undefined;
+        user.password = undefined;
+        await user.save();
+        await revokeUserSessions(user._id.toString(), 'signed_out');
+    }
+
+    if (!user) {
+        user = await User.create({
+            name: displayName(profile),
+            email: profile.email,
+            isVerified: true,
+            ...(profile.picture && { avatar: profile.picture }),
+        });
+        created = true;
+    }
+
+    try {
+        await Identity.create({
+            user: user._id,
+            provider: provider.id,
+            subject: profile.subject,
+            email: profile.email,
+        });
+    } catch (error) {
+        // A parallel callback for the same account linked it first
+        if ((error as { code?: number }).code !== 11000) throw error;
+    }
+
+    return { status: 'ok', user, created };
+}
+
+// ============================================
+// Listing and Unlinking
+// ============================================
+
+export async function listIdentities(userId: string): Promise<LinkedIdentity[]> {
+    await dbConnect();
+
+    const providers = new Map(getOAuthProviders().map(provider => [provider.id, provider.name]));
+    const identities = await Identity.find({ user: userId }).sort({ createdAt: 1 }).lean();
+
+    return identities.map(identity => ({
+        id: identity._id.toString(),
+        provider: identity.provider,
+        providerName: providers.get(identity.provider) ?? identity.provider,
+        email: identity.email ?? null,
+        createdAt: identity.createdAt,
+        lastUsedAt: identity.lastUsedAt,
+    }));
+}
+
+/**
+ * Unlink one of the user's identities, unless it is their only way to sign in
+ */
+export async function unlinkIdentity(userId: string, identityId: string): Promise<UnlinkResult> {
+    if (!Types.ObjectId.isValid(identityId)) return 'not_found';
+
+    await dbConnect();
+
+    const [identity, user, count] = await Promise.all([
+        Identity.findOne({ _id: identityId, user: userId }),
+        User.findById(userId).select('+password'),
+        Identity.countDocuments({ user: userId }),
+    ]);
+    if (!identity || !user) return 'not_found';
+
+    if (!user.password && count <= 1) {
+        return 'last_sign_in_method';
+    }
+
+    await identity.deleteOne();
+    return 'unlinked';
+}
@@ -12,15 +12,82 @@ export {
     clearAuthCookies,
     getTokensFromCookies,
     getCurrentUser,
+    signTwoFactorToken,
+    setTwoFactorCookie,
     ACCESS_TOKEN_COOKIE,
     REFRESH_TOKEN_COOKIE,
+    TWO_FACTOR_COOKIE,
+    REFRESH_TOKEN_TTL_MS,
 } from './jwt';
 
+export { signJwt, verifyJwt, isAccessToken } from './token';
+export type { TokenPayload, DecodedToken } from './token';
+
+export { withAuth, unauthorized, forbidden } from './withAuth';
+export type { SessionUser, WithAuthOptions, AuthenticatedHandler } from './withAuth';
+
+export {
+    getSessionClient,
+    startSession,
+    rotateSession,
+    renewSession,
+    listActiveSessions,
+    revokeSession,
+    revokeUserSessions,
+} from './sessions';
+export type { SessionClient, SessionAccount, SessionTokens, RotateResult, SessionSummary } from './sessions';
+
+export { describeUserAgent } from './userAgent';
+
+export { getClientIp } from './clientIp';
+
+export {
+    getLockout,
+    recordFailedAttempt,
+    clearFailedAttempts,
+    lockoutDuration,
+    lockoutMessage,
+    retryAfterSeconds,
+    isLocked,
+} from './lockout';
+export type { FailedAttemptResult } from './lockout';
+
+export { recordAuthEvent, recordLogin, listAuthEvents, AUTH_EVENT_PAGE_SIZE } from './authEvents';
+export type { AuthEventInput, AuthEventFilters, AuthEventEntry } from './authEvents';
+
+export {
+    getTwoFactorPolicy,
+    setTwoFactorPolicy,
+    isTwoFactorRequired,
+    getTwoFactorStatus,
+    startEnrollment,
+    confirmEnrollment,
+    disableTwoFactor,
+    regenerateRecoveryCodes,
+    verifySecondFactor,
+} from './twoFactor';
+export type { TwoFactorStatus, TwoFactorEnrollment, SecondFactorInput } from './twoFactor';
+
+export {
+    getOAuthProviders,
+    getOAuthProvider,
+    beginAuthorization,
+    completeAuthorization,
+    setOAuthFlowCookie,
+    safeReturnTo,
+    OAUTH_FLOW_COOKIE,
+} from './oauth';
+export type { OAuthProvider, OAuthProfile, OAuthErrorCode, OAuthResult } from './oauth';
+
+export { signInWithIdentity, listIdentities, unlinkIdentity } from './identities';
+export type { IdentitySignInResult, LinkedIdentity, UnlinkResult } from './identities';
+
 export {
     generateToken,
     hashToken,
     sendVerificationEmail,
     sendPasswordResetEmail,
+    sendNewSignInEmail,
 } from './email';
 
 export {
@@ -29,3 +96,6 @@ export {
     resetRateLimit,
     RATE_LIMIT_CONFIGS,
 } from './rateLimit';
+
+export { isModerator, isAdmin, ENFORCEABLE_ROLES } from './roles';
+export type { UserRole, EnforceableRole } from './roles';
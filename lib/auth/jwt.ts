@@ -6,26 +6,20 @@
 
 import { cookies } from 'next/headers';
 import { NextResponse } from 'next/server';
+import { signJwt, verifyJwt, isAccessToken } from './token';
+import type { TokenPayload, DecodedToken } from './token';
 
-// JWT Secret - MUST be set in environment
-const JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret-change-in-production';
+// The signing secret is read from JWT_SECRET in token.ts
 const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
 const JWT_REFRESH_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN || '7d';
 
 // Cookie names
 export const ACCESS_TOKEN_COOKIE = 'access_token';
 export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+export const TWO_FACTOR_COOKIE = 'two_factor_token';
 
-interface TokenPayload {
-    userId: string;
-    email: string;
-    role: string;
-}
-
-interface DecodedToken extends TokenPayload {
-    iat: number;
-    exp: number;
-}
+// Time allowed between entering the password and the second factor
+const TWO_FACTOR_TOKEN_TTL_SECONDS = 5 * 60;
 
 /**
  * Parse duration string to milliseconds
@@ -47,95 +41,51 @@ function parseDuration(duration: string): number {
 }
 
 /**
- * Simple base64url encoding/decoding
+ * How long a refresh token, and so a session, stays valid
  */
-function base64urlEncode(str: string): string {
-    return Buffer.from(str)
-        .toString('base64')
-        .replace(/\+/g, '-')
-        .replace(/\//g, '_')
-        .replace(/=/g, '');
-}
-
-function base64urlDecode(str: string): string {
-    str = str.replace(/-/g, '+').replace(/_/g, '/');
-    while (str.length % 4) str += '=';
-    return Buffer.from(str, 'base64').toString();
-}
+export const REFRESH_TOKEN_TTL_MS = parseDuration(JWT_REFRESH_EXPIRES_IN);
 
 /**
- * Create HMAC signature
+ * Verify and decode a JWT token
  */
-async function createSignature(data: string, secret: string): Promise<string> {
-    const crypto = await import('crypto');
-    return crypto
-        .createHmac('sha256', secret)
-        .update(data)
-        .digest('base64')
-        .replace(/\+/g, '-')
-        .replace(/\//g, '_')
-        .replace(/=/g, '');
+export async function verifyToken(token: string): Promise<DecodedToken | null> {
+    return verifyJwt(token);
 }
 
 /**
- * Sign a JWT token (without jsonwebtoken dependency)
+ * Sign access token (short-lived)
  */
-async function signToken(payload: TokenPayload, expiresIn: string): Promise<string> {
-    const header = { alg: 'HS256', typ: 'JWT' };
-    const now = Math.floor(Date.now() / 1000);
-    const exp = now + Math.floor(parseDuration(expiresIn) / 1000);
-
-    const fullPayload = {
-        ...payload,
-        iat: now,
-        exp,
-    };
-
-    const encodedHeader = base64urlEncode(JSON.stringify(header));
-    const encodedPayload = base64urlEncode(JSON.stringify(fullPayload));
-    const signature = await createSignature(`${encodedHeader}.${encodedPayload}`, JWT_SECRET);
-
-    return `${encodedHeader}.${encodedPayload}.${signature}`;
+export async function signAccessToken(payload: TokenPayload): Promise<string> {
+    return signJwt(payload, parseDuration(JWT_EXPIRES_IN) / 1000);
 }
 
 /**
- * Verify and decode a JWT token
+ * Sign refresh token (long-lived)
  */
-export async function verifyToken(token: string): Promise<DecodedToken | null> {
-    try {
-        const parts = token.split('.');
-        if (parts.length !== 3) return null;
-
-        const [encodedHeader, encodedPayload, signature] = parts;
-
-        // Verify signature
-        const expectedSignature = await createSignature(`${encodedHeader}.${encodedPayload}`, JWT_SECRET);
-        if (signature !== expectedSignature) return null;
-
-        // Decode payload
-        const payload = JSON.parse(base64urlDecode(encodedPayload)) as DecodedToken;
-
-        // Check expiration
-        if (payload.exp < Math.floor(Date.now() / 1000)) return null;
-
-        return payload;
-    } catch {
-        return null;
-    }
+export async function signRefreshToken(payload: TokenPayload): Promise<string> {
+    return signJwt(payload, parseDuration(JWT_REFRESH_EXPIRES_IN) / 1000);
 }
 
 /**
- * Sign access token (short-lived)
+ * Sign the partial token that proves the password step of a two-factor login
  */
-export async function signAccessToken(payload: TokenPayload): Promise<string> {
-    return signToken(payload, JWT_EXPIRES_IN);
+export async function signTwoFactorToken(payload: TokenPayload): Promise<string> {
+    return signJwt({ ...payload, purpose: 'two_factor' }, TWO_FACTOR_TOKEN_TTL_SECONDS);
 }
 
 /**
- * Sign refresh token (long-lived)
+ * Set or clear the partial sign-in cookie; it is only sent to the login endpoints
  */
-export async function signRefreshToken(payload: TokenPayload): Promise<string> {
-    return signToken(payload, JWT_REFRESH_EXPIRES_IN);
+export function setTwoFactorCookie(response: NextResponse, token: string | null): NextResponse {
+    response.cookies.set(TWO_FACTOR_COOKIE, token ?? '', {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        maxAge: token ? TWO_FACTOR_TOKEN_TTL_SECONDS : 0,
+        path: '/api/auth/login',
+    });
+
+    return response;
 }
 
 /**
@@ -211,5 +161,7 @@ export async function getTokensFromCookies(): Promise<{
 export async function getCurrentUser(): Promise<DecodedToken | null> {
     const { accessToken } = await getTokensFromCookies();
     if (!accessToken) return null;
-    return verifyToken(accessToken);
+
+    const decoded = await verifyToken(accessToken);
+    return decoded && isAccessToken(decoded) ? decoded : null;
 }
@@ -0,0 +1,86 @@
+/**
+ * Account Lockout
+ * ===============
+ * Per-account failed sign-in tracking. The IP rate limit in rateLimit.ts
+ * keys on a header the client controls and forgets everything on restart;
+ * this count lives on the user, so it holds wherever the guesses come from.
+ *
+ * The first failures are free. From LOCKOUT_THRESHOLD on, each failure
+ * locks the account for twice as long as the one before, from 1 minute up
+ * to 1 hour. Password and two-factor failures share the count, and only a
+ * completed sign-in or a password reset clears it.
+ */
+
+import { Types } from 'mongoose';
+import { dbConnect } from '@/lib/db';
+import { User } from '@/lib/models';
+
+const LOCKOUT_THRESHOLD = 5;
+const BASE_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+export interface FailedAttemptResult {
+    attempts: number;
+    // Set when this failure locked the account
+    lockedUntil: Date | null;
+}
+
+/**
+ * How long the given number of consecutive failures locks the account for
+ */
+export function lockoutDuration(attempts: number): number {
+    if (attempts < LOCKOUT_THRESHOLD) return 0;
+    return Math.min(BASE_LOCKOUT_MS * 2 ** (attempts - LOCKOUT_THRESHOLD), MAX_LOCKOUT_MS);
+}
+
+export function isLocked(lockedUntil: Date | null | undefined): lockedUntil is Date {
+    return !!lockedUntil && lockedUntil.getTime() > Date.now();
+}
+
+export function lockoutMessage(lockedUntil: Date): string {
+    const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 60000));
+    return `Too many failed attempts. Try again in ${minutes === 1 ? '1 minute' : `${minutes} minutes`}.`;
+}
+
+export function retryAfterSeconds(lockedUntil: Date): string {
+    return String(Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000)));
+}
+
+/**
+ * When the account's current lock ends, or null if it isn't locked
+ */
+export async function getLockout(userId: string | Types.ObjectId): Promise<Date | null> {
+    await dbConnect();
+
+    const user = await User.findById(userId).select('+lockedUntil');
+    return isLocked(user?.lockedUntil) ? user.lockedUntil : null;
+}
+
+export async function recordFailedAttempt(userId: string | Types.ObjectId): Promise<FailedAttemptResult> {
+    await dbConnect();
+
+    const user = await User.findByIdAndUpdate(
+        userId,
+        { $inc: { failedLoginAttempts: 1 } },
+        { returnDocument: 'after' }
+    ).select('+failedLoginAttempts');
+    const attempts = user?.failedLoginAttempts ?? 0;
+
+    const duration = lockoutDuration(attempts);
+    if (!duration) {
+        return { attempts, lockedUntil: null };
+    }
+
+    const lockedUntil = new Date(Date.now() + duration);
+    await User.updateOne({ _id: userId }, { $set: { lockedUntil } });
+    return { attempts, lockedUntil };
+}
+
+export async function clearFailedAttempts(userId: string | Types.ObjectId): Promise<void> {
+    await dbConnect();
+
+    await User.updateOne(
+        { _id: userId, failedLoginAttempts: { $gt: 0 } },
+        { $set: { failedLoginAttempts: 0, lockedUntil: null } }
+    );
+}
@@ -0,0 +1,183 @@
+/**
+ * Mock OpenID Connect Issuer
+ * ==========================
+ * A small in-process provider for the OAuth tests: discovery, the token
+ * endpoint (with PKCE and client authentication checks) and userinfo,
+ * served from 127.0.0.1 on a free port.
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { OAuthProvider } from './oauth';
+
+// ============================================
+// Types
+// ============================================
+
+export interface MockIssuer {
+    url: string;
+    // A provider configured against this issuer, as getOAuthProvider would build it
+    provider: OAuthProvider;
+    // Claims merged over the defaults in every ID token issued from now on
+    claims: Record<string, unknown>;
+    // What the userinfo endpoint returns; null answers 401
+    userinfo: Record<string, unknown> | null;
+    /**
+     * Act as the user signing in at the authorization URL: returns the
+     * query string the provider sends back to the redirect URI
+     */
+    authorize(authorizationUrl: string): URLSearchParams;
+    close(): Promise<void>;
+}
+
+interface PendingCode {
+    clientId: string;
+    redirectUri: string;
+    nonce: string;
+    challenge: string;
+}
+
+export const MOCK_SUBJECT = 'mock-user-1';
+export const MOCK_CLIENT_ID = 'devsolve';
+const MOCK_CLIENT_SECRET = 'mock-secret';
+
+// ============================================
+// Helpers
+// ============================================
+
+function encodeJson(value: unknown): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+async function readBody(request: http.IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+function sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+}
+
+// ============================================
+// Issuer
+// ============================================
+
+export async function startMockIssuer(): Promise<MockIssuer> {
+    const codes = new Map<string, PendingCode>();
+
+    const server = http.createServer(async (request, response) => {
+        const path = new URL(request.url ?? '/', issuer.url).pathname;
+
+        if (request.method === 'GET' && path === '/.well-known/openid-configuration') {
+            return sendJson(response, 200, {
+                issuer: issuer.url,
+                authorization_endpoint: `${issuer.url}/authorize`,
+                token_endpoint: `${issuer.url}/token`,
+                userinfo_endpoint: `${issuer.url}/userinfo`,
+            });
+        }
+
+        if (request.method === 'POST' && path === '/token') {
+            const form = new URLSearchParams(await readBody(request));
+            const pending = codes.get(form.get('code') ?? '');
+            codes.delete(form.get('code') ?? '');
+
+            const expectedAuth = `Basic ${Buffer.from(`${MOCK_CLIENT_ID}:${MOCK_CLIENT_SECRET}`).toString('base64')}`;
+            const verifier = form.get('code_verifier') ?? '';
+            const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+
+            if (
+                !pending
+                || request.headers.authorization !== expectedAuth
+                || form.get('client_id') !== pending.clientId
+                || form.get('redirect_uri') !== pending.redirectUri
+                || challenge !== pending.challenge
+            ) {
+                return sendJson(response, 400, { error: 'invalid_grant' });
+            }
+
+            const now = Math.floor(Date.now() / 1000);
+            const idToken = [
+                encodeJson({ alg: 'none', typ: 'JWT' }),
+                encodeJson({
+                    iss: issuer.url,
+                    aud: pending.clientId,
+                    sub: MOCK_SUBJECT,
+                    iat: now,
+                    exp: now + 300,
+                    nonce: pending.nonce,
+                    email: 'ada@example.com',
+                    email_verified: true,
+                    name: 'Ada Lovelace',
+                    ...issuer.claims,
+                }),
+                '',
+            ].join('.');
+
+            return sendJson(response, 200, { access_token: 'mock-access-token', token_type: 'Bearer', id_token: idToken });
+        }
+
+        if (request.method === 'GET' && path === '/userinfo') {
+            if (!issuer.userinfo || request.headers.authorization !== 'Bearer mock-access-token') {
+                return sendJson(response, 401, { error: 'invalid_token' });
+            }
+            return sendJson(response, 200, issuer.userinfo);
+        }
+
+        sendJson(response, 404, { error: 'not_found' });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const url = `http://127.0.0.1:${port}`;
+
+    const issuer: MockIssuer = {
+        url,
+        provider: {
+            id: 'mock',
+            name: 'Mock SSO',
+            issuer: url,
+            clientId: MOCK_CLIENT_ID,
+            clientSecret: MOCK_CLIENT_SECRET,
+            scopes: ['openid', 'email', 'profile'],
+        },
+        claims: {},
+        userinfo: null,
+
+        authorize(authorizationUrl) {
+            const params = new URL(authorizationUrl).searchParams;
+            const code = crypto.randomBytes(16).toString('hex');
+
+            codes.set(code, {
+                clientId: params.get('client_id') ?? '',
+                redirectUri: params.get('redirect_uri') ?? '',
+                nonce: params.get('nonce') ?? '',
+                challenge: params.get('code_challenge') ?? '',
+            });
+
+            return new URLSearchParams({ code, state: params.get('state') ?? '' });
+        },
+
+        close() {
+            return new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+        },
+    };
+
+    return issuer;
+}
+
+/**
+ * The environment getOAuthProviders reads to configure the issuer's provider
+ */
+export function mockIssuerEnv(issuer: MockIssuer): Record<string, string> {
+    return {
+        OAUTH_PROVIDERS: issuer.provider.id,
+        OAUTH_MOCK_ISSUER: issuer.url,
+        OAUTH_MOCK_CLIENT_ID: MOCK_CLIENT_ID,
+        OAUTH_MOCK_CLIENT_SECRET: MOCK_CLIENT_SECRET,
+        OAUTH_MOCK_NAME: issuer.provider.name,
+    };
+}
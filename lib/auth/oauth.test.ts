@@ -0,0 +1,173 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { beginAuthorization, completeAuthorization, safeReturnTo } from './oauth';
+import { MOCK_CLIENT_ID, MOCK_SUBJECT, startMockIssuer } from './oauth.mock';
+import type { MockIssuer } from './oauth.mock';
+
+let issuer: MockIssuer;
+
+beforeAll(async () => {
+    vi.stubEnv('JWT_SECRET', 'test-secret');
+    issuer = await startMockIssuer();
+});
+
+afterAll(async () => {
+    await issuer.close();
+    vi.unstubAllEnvs();
+});
+
+beforeEach(() => {
+    issuer.claims = {};
+    issuer.userinfo = null;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+/**
+ * Run the whole flow: start it, sign in at the issuer, and hand the
+ * redirect back to completeAuthorization
+ */
+async function signIn(returnTo?: string) {
+    const { url, flowCookie } = await beginAuthorization(issuer.provider, returnTo);
+    return completeAuthorization(issuer.provider, issuer.authorize(url), flowCookie);
+}
+
+// ============================================
+// safeReturnTo
+// ============================================
+
+describe('safeReturnTo', () => {
+    it('keeps same-site paths', () => {
+        expect(safeReturnTo('/dashboard/questions/1?tab=answers#a2')).toBe('/dashboard/questions/1?tab=answers#a2');
+    });
+
+    it('refuses off-site and missing values', () => {
+        expect(safeReturnTo('https://evil.example/phish')).toBe('/dashboard');
+        expect(safeReturnTo('//evil.example/phish')).toBe('/dashboard');
+        expect(safeReturnTo('/\\evil.example/phish')).toBe('/dashboard');
+        expect(safeReturnTo('javascript:alert(1)')).toBe('/dashboard');
+        expect(safeReturnTo('')).toBe('/dashboard');
+        expect(safeReturnTo(null)).toBe('/dashboard');
+    });
+});
+
+// ============================================
+// Authorization Flow
+// ============================================
+
+describe('beginAuthorization', () => {
+    it('sends the user to the discovered endpoint with state, nonce and PKCE', async () => {
+        const { url } = await beginAuthorization(issuer.provider);
+        const params = new URL(url).searchParams;
+
+        expect(url.startsWith(`${issuer.url}/authorize?`)).toBe(true);
+        expect(params.get('client_id')).toBe(MOCK_CLIENT_ID);
+        expect(params.get('redirect_uri')).toMatch(/\/api\/auth\/oauth\/mock\/callback$/);
+        expect(params.get('code_challenge_method')).toBe('S256');
+        expect(params.get('state')).toBeTruthy();
+        expect(params.get('nonce')).toBeTruthy();
+    });
+});
+
+describe('completeAuthorization', () => {
+    it('returns the profile from a valid ID token', async () => {
+        expect(await signIn('/dashboard/questions/1')).toEqual({
+            status: 'ok',
+            profile: {
+                subject: MOCK_SUBJECT,
+                email: 'ada@example.com',
+                emailVerified: true,
+                name: 'Ada Lovelace',
+                picture: null,
+            },
+            returnTo: '/dashboard/questions/1',
+        });
+    });
+
+    it('refuses an off-site returnTo', async () => {
+        const result = await signIn('https://evil.example/phish');
+
+        expect(result).toMatchObject({ status: 'ok', returnTo: '/dashboard' });
+    });
+
+    it('rejects a token from another issuer', async () => {
+        issuer.claims = { iss: 'https://evil.example' };
+
+        expect(await signIn()).toEqual({ status: 'error', error: 'provider_error' });
+    });
+
+    it('rejects a token for another audience', async () => {
+        issuer.claims = { aud: 'another-client' };
+        expect(await signIn()).toEqual({ status: 'error', error: 'provider_error' });
+
+        // Several audiences are only accepted when the token names us as its party
+        issuer.claims = { aud: [MOCK_CLIENT_ID, 'another-client'] };
+        expect(await signIn()).toEqual({ status: 'error', error: 'provider_error' });
+
+        issuer.claims = { aud: [MOCK_CLIENT_ID, 'another-client'], azp: MOCK_CLIENT_ID };
+        expect(await signIn()).toMatchObject({ status: 'ok' });
+    });
+
+    it('rejects a token with the wrong nonce', async () => {
+        issuer.claims = { nonce: 'replayed-nonce' };
+
+        expect(await signIn()).toEqual({ status: 'error', error: 'provider_error' });
+    });
+
+    it('rejects an expired token', async () => {
+        issuer.claims = { exp: Math.floor(Date.now() / 1000) - 60 };
+
+        expect(await signIn()).toEqual({ status: 'error', error: 'provider_error' });
+    });
+
+    it('rejects a redirect whose state does not match the cookie', async () => {
+        const { url, flowCookie } = await beginAuthorization(issuer.provider);
+        const params = issuer.authorize(url);
+        params.set('state', 'forged-state');
+
+        expect(await completeAuthorization(issuer.provider, params, flowCookie)).toEqual({
+            status: 'error',
+            error: 'invalid_state',
+        });
+    });
+
+    it('rejects a tampered flow cookie', async () => {
+        const { url, flowCookie } = await beginAuthorization(issuer.provider, '/dashboard/settings');
+        const [body, signature] = flowCookie.split('.');
+        const flow = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+        const forged = Buffer.from(JSON.stringify({ ...flow, returnTo: '//evil.example' })).toString('base64url');
+
+        expect(await completeAuthorization(issuer.provider, issuer.authorize(url), `${forged}.${signature}`)).toEqual({
+            status: 'error',
+            error: 'invalid_state',
+        });
+    });
+
+    it('reports a denied sign-in', async () => {
+        const { url, flowCookie } = await beginAuthorization(issuer.provider);
+        const params = new URLSearchParams({ state: new URL(url).searchParams.get('state')!, error: 'access_denied' });
+
+        expect(await completeAuthorization(issuer.provider, params, flowCookie)).toEqual({
+            status: 'error',
+            error: 'access_denied',
+        });
+    });
+
+    it('reads the email from userinfo when the ID token has none', async () => {
+        issuer.claims = { email: undefined, email_verified: undefined };
+        issuer.userinfo = { sub: MOCK_SUBJECT, email: 'Ada@Example.com', email_verified: 'true' };
+
+        expect(await signIn()).toMatchObject({
+            status: 'ok',
+            profile: { subject: MOCK_SUBJECT, email: 'ada@example.com', emailVerified: true },
+        });
+    });
+
+    it('ignores userinfo about another account', async () => {
+        issuer.claims = { email: undefined, email_verified: undefined };
+        issuer.userinfo = { sub: 'someone-else', email: 'eve@example.com', email_verified: true };
+
+        expect(await signIn()).toMatchObject({
+            status: 'ok',
+            profile: { subject: MOCK_SUBJECT, email: null, emailVerified: false },
+        });
+    });
+});
@@ -0,0 +1,401 @@
+/**
+ * OAuth / OpenID Connect Sign-In
+ * ==============================
+ * Authorization code flow with PKCE against any OpenID Connect provider.
+ * Providers are configured through the environment:
+ *
+ *   OAUTH_PROVIDERS=company
+ *   OAUTH_COMPANY_ISSUER=https://login.example.com
+ *   OAUTH_COMPANY_CLIENT_ID=devsolve
+ *   OAUTH_COMPANY_CLIENT_SECRET=...           (omit for public clients)
+ *   OAUTH_COMPANY_NAME=Example SSO            (button label)
+ *   OAUTH_COMPANY_SCOPES=openid email profile (the default)
+ *
+ * Endpoints come from the issuer's discovery document. State, nonce and the
+ * PKCE verifier travel in a signed cookie, so nothing is stored until the
+ * provider sends the user back. Turning the resulting profile into an
+ * account is identities.ts's job.
+ */
+
+import crypto from 'crypto';
+import type { NextResponse } from 'next/server';
+import { getAppUrl } from '@/lib/email';
+
+// ============================================
+// Types
+// ============================================
+
+export interface OAuthProvider {
+    // Lowercase, used in URLs and stored on linked identities
+    id: string;
+    name: string;
+    issuer: string;
+    clientId: string;
+    clientSecret?: string;
+    scopes: string[];
+}
+
+export interface OAuthProfile {
+    // The provider's stable account id ("sub")
+    subject: string;
+    email: string | null;
+    emailVerified: boolean;
+    name: string | null;
+    picture: string | null;
+}
+
+export type OAuthErrorCode = 'invalid_state' | 'access_denied' | 'provider_error';
+
+export type OAuthResult =
+    | { status: 'ok'; profile: OAuthProfile; returnTo: string }
+    | { status: 'error'; error: OAuthErrorCode };
+
+interface DiscoveryDocument {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    userinfo_endpoint?: string;
+}
+
+interface OAuthFlow {
+    provider: string;
+    state: string;
+    nonce: string;
+    verifier: string;
+    returnTo: string;
+    exp: number;
+}
+
+export const OAUTH_FLOW_COOKIE = 'oauth_flow';
+
+// Time allowed on the provider's sign-in page
+const FLOW_TTL_SECONDS = 10 * 60;
+const DISCOVERY_CACHE_MS = 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const DEFAULT_SCOPES = ['openid', 'email', 'profile'];
+const DEFAULT_RETURN_TO = '/dashboard';
+
+// ============================================
+// Providers
+// ============================================
+
+export function getOAuthProviders(): OAuthProvider[] {
+    const ids = (process.env.OAUTH_PROVIDERS || '')
+        .split(',')
+        .map(id => id.trim().toLowerCase())
+        .filter(id => /^[a-z0-9-]+$/.test(id));
+
+    return ids.flatMap(id => {
+        const prefix = `OAUTH_${id.toUpperCase().replace(/-/g, '_')}_`;
+        const issuer = process.env[`${prefix}ISSUER`];
+        const clientId = process.env[`${prefix}CLIENT_ID`];
+
+        if (!issuer || !clientId) {
+            console.warn(`OAuth provider "${id}" is missing ${prefix}ISSUER or ${prefix}CLIENT_ID`);
+            return [];
+        }
+
+        const scopes = process.env[`${prefix}SCOPES`]?.split(/[\s,]+/).filter(Boolean);
+
+        return [{
+            id,
+            name: process.env[`${prefix}NAME`] || id,
+            issuer: issuer.replace(/\/+$/, ''),
+            clientId,
+            clientSecret: process.env[`${prefix}CLIENT_SECRET`] || undefined,
+            scopes: scopes?.length ? scopes : DEFAULT_SCOPES,
+        }];
+    });
+}
+
+export function getOAuthProvider(id: string): OAuthProvider | null {
+    return getOAuthProviders().find(provider => provider.id === id) ?? null;
+}
+
+export function getRedirectUri(provider: OAuthProvider): string {
+    return `${getAppUrl()}/api/auth/oauth/${provider.id}/callback`;
+}
+
+const discoveryCache = new Map<string, { document: DiscoveryDocument; expiresAt: number }>();
+
+async function discover(provider: OAuthProvider): Promise<DiscoveryDocument> {
+    const cached = discoveryCache.get(provider.issuer);
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.document;
+    }
+
+    const response = await fetch(`${provider.issuer}/.well-known/openid-configuration`, {
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+        throw new Error(`OIDC discovery for "${provider.id}" failed with status ${response.status}`);
+    }
+
+    const document = await response.json() as Partial<DiscoveryDocument>;
+    // The document has to describe the issuer we were configured with
+    if (
+        document.issuer?.replace(/\/+$/, '') !== provider.issuer
+        || !document.authorization_endpoint
+        || !document.token_endpoint
+    ) {
+        throw new Error(`OIDC discovery for "${provider.id}" returned a document for another issuer`);
+    }
+
+    discoveryCache.set(provider.issuer, {
+        document: document as DiscoveryDocument,
+        expiresAt: Date.now() + DISCOVERY_CACHE_MS,
+    });
+    return document as DiscoveryDocument;
+}
+
+// ============================================
+// Flow Cookie
+// ============================================
+
+function randomString(bytes = 32): string {
+    return crypto.randomBytes(bytes).toString('base64url');
+}
+
+function safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+function getFlowKey(): Buffer {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+        throw new Error('Set JWT_SECRET to sign OAuth state');
+    }
+    return crypto.createHash('sha256').update(`oauth-flow:${secret}`).digest();
+}
+
+function sealFlow(flow: OAuthFlow): string {
+    const body = Buffer.from(JSON.stringify(flow)).toString('base64url');
+    const signature = crypto.createHmac('sha256', getFlowKey()).update(body).digest('base64url');
+    return `${body}.${signature}`;
+}
+
+function openFlow(value: string): OAuthFlow | null {
+    const [body, signature] = value.split('.');
+    if (!body || !signature) return null;
+
+    const expected = crypto.createHmac('sha256', getFlowKey()).update(body).digest('base64url');
+    if (!safeEqual(signature, expected)) return null;
+
+    try {
+        const flow = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as OAuthFlow;
+        return flow.exp > Math.floor(Date.now() / 1000) ? flow : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Set or clear the in-flight sign-in cookie; it is only sent to the OAuth endpoints.
+ * SameSite=Lax so it comes back on the provider's redirect.
+ */
+export function setOAuthFlowCookie(response: NextResponse, value: string | null): NextResponse {
+    response.cookies.set(OAUTH_FLOW_COOKIE, value ?? '', {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        maxAge: value ? FLOW_TTL_SECONDS : 0,
+        path: '/api/auth/oauth',
+    });
+
+    return response;
+}
+
+/**
+ * Only same-site paths, so the callback can't be used as an open redirect
+ */
+export function safeReturnTo(value: string | null | undefined): string {
+    if (!value || !value.startsWith('/') || value.startsWith('//') || value.startsWith('/\\')) {
+        return DEFAULT_RETURN_TO;
+    }
+    return value;
+}
+
+// ============================================
+// Authorization
+// ============================================
+
+/**
+ * The provider URL to send the user to, and the cookie value that has to
+ * come back with them
+ */
+export async function beginAuthorization(
+    provider: OAuthProvider,
+    returnTo?: string | null
+): Promise<{ url: string; flowCookie: string }> {
+    const document = await discover(provider);
+
+    const flow: OAuthFlow = {
+        provider: provider.id,
+        state: randomString(),
+        nonce: randomString(),
+        verifier: randomString(),
+        returnTo: safeReturnTo(returnTo),
+        exp: Math.floor(Date.now() / 1000) + FLOW_TTL_SECONDS,
+    };
+    const challenge = crypto.createHash('sha256').update(flow.verifier).digest('base64url');
+
+    const url = new URL(document.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', provider.clientId);
+    url.searchParams.set('redirect_uri', getRedirectUri(provider));
+    url.searchParams.set('scope', provider.scopes.join(' '));
+    url.searchParams.set('state', flow.state);
+    url.searchParams.set('nonce', flow.nonce);
+    url.searchParams.set('code_challenge', challenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return { url: url.toString(), flowCookie: sealFlow(flow) };
+}
+
+/**
+ * Handle the provider's redirect back: check state, swap the code for
+ * tokens and read the user's profile from the ID token (and the userinfo
+ * endpoint if the ID token has no email)
+ */
+export async function completeAuthorization(
+    provider: OAuthProvider,
+    params: URLSearchParams,
+    flowCookie: string | undefined
+): Promise<OAuthResult> {
+    const flow = flowCookie ? openFlow(flowCookie) : null;
+    const state = params.get('state');
+
+    if (!flow || flow.provider !== provider.id || !state || !safeEqual(state, flow.state)) {
+        return { status: 'error', error: 'invalid_state' };
+    }
+
+    const providerError = params.get('error');
+    if (providerError) {
+        return { status: 'error', error: providerError === 'access_denied' ? 'access_denied' : 'provider_error' };
+    }
+
+    const code = params.get('code');
+    if (!code) {
+        return { status: 'error', error: 'provider_error' };
+    }
+
+    const document = await discover(provider);
+    const tokens = await exchangeCode(provider, document, code, flow.verifier);
+    const claims = tokens?.id_token ? readIdToken(tokens.id_token, provider, document, flow.nonce) : null;
+    if (!tokens || !claims) {
+        return { status: 'error', error: 'provider_error' };
+    }
+
+    let profile = toProfile(claims);
+    if (!profile.email && tokens.access_token && document.userinfo_endpoint) {
+        const userinfo = await fetchUserinfo(document.userinfo_endpoint, tokens.access_token);
+        // Userinfo must be about the same account as the ID token
+        if (userinfo?.sub === claims.sub) {
+            profile = { ...toProfile({ ...claims, ...userinfo }), subject: profile.subject };
+        }
+    }
+
+    return { status: 'ok', profile, returnTo: flow.returnTo };
+}
+
+// ============================================
+// Token Endpoint
+// ============================================
+
+interface TokenResponse {
+    access_token?: string;
+    id_token?: string;
+}
+
+type Claims = Record<string, unknown> & { sub: string };
+
+async function exchangeCode(
+    provider: OAuthProvider,
+    document: DiscoveryDocument,
+    code: string,
+    verifier: string
+): Promise<TokenResponse | null> {
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+    };
+    // client_secret_basic, the default client authentication method
+    if (provider.clientSecret) {
+        const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`;
+        headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const response = await fetch(document.token_endpoint, {
+        method: 'POST',
+        headers,
+        body: new URLSearchParams({
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: getRedirectUri(provider),
+            client_id: provider.clientId,
+            code_verifier: verifier,
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+        console.error(`OAuth token exchange with "${provider.id}" failed with status ${response.status}`);
+        return null;
+    }
+    return response.json() as Promise<TokenResponse>;
+}
+
+/**
+ * Validate the ID token's claims. Its signature isn't checked: the token
+ * came straight from the token endpoint over TLS, which OpenID Connect Core
+ * (3.1.3.7) accepts in place of signature validation.
+ */
+function readIdToken(
+    idToken: string,
+    provider: OAuthProvider,
+    document: DiscoveryDocument,
+    nonce: string
+): Claims | null {
+    try {
+        const claims = JSON.parse(Buffer.from(idToken.split('.')[1], 'base64url').toString('utf8'));
+        const audience: unknown[] = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+        const valid = claims.iss === document.issuer
+            && audience.includes(provider.clientId)
+            && (audience.length === 1 || claims.azp === provider.clientId)
+            && typeof claims.exp === 'number' && claims.exp > Math.floor(Date.now() / 1000)
+            && typeof claims.nonce === 'string' && safeEqual(claims.nonce, nonce)
+            && typeof claims.sub === 'string' && claims.sub.length > 0;
+
+        if (!valid) {
+            console.error(`OAuth ID token from "${provider.id}" failed validation`);
+            return null;
+        }
+        return claims as Claims;
+    } catch {
+        return null;
+    }
+}
+
+async function fetchUserinfo(endpoint: string, accessToken: string): Promise<Claims | null> {
+    const response = await fetch(endpoint, {
+        headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    return response.ok ? response.json() as Promise<Claims> : null;
+}
+
+function toProfile(claims: Claims): OAuthProfile {
+    const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+    return {
+        subject: claims.sub,
+        email: text(claims.email)?.toLowerCase() ?? null,
+        // Some providers send the string "true"
+        emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+        name: text(claims.name),
+        picture: text(claims.picture),
+    };
+}
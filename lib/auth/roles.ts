@@ -0,0 +1,28 @@
+/**
+ * Role Helpers
+ * ============
+ * Shared checks for the user roles defined on IUser.role
+ */
+
+export type UserRole = 'user' | 'moderator' | 'admin';
+
+/**
+ * Roles the site can require two-factor authentication for
+ */
+export type EnforceableRole = Extract<UserRole, 'moderator' | 'admin'>;
+
+export const ENFORCEABLE_ROLES: EnforceableRole[] = ['moderator', 'admin'];
+
+/**
+ * Moderators and admins can moderate any post
+ */
+export function isModerator(role?: string): boolean {
+    return role === 'moderator' || role === 'admin';
+}
+
+/**
+ * Admin-only operations
+ */
+export function isAdmin(role?: string): boolean {
+    return role === 'admin';
+}
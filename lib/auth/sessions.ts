@@ -0,0 +1,284 @@
+/**
+ * Session Registry
+ * ================
+ * Persists every sign-in as a Session and rotates its refresh token on each
+ * use. A refresh token that has already been rotated away is evidence the
+ * token was copied, so presenting one revokes the whole session (token
+ * family) for both the thief and the victim.
+ *
+ * Revoking a session stops it refreshing; access tokens it already issued
+ * stay valid until they expire (JWT_EXPIRES_IN, 15 minutes by default).
+ */
+
+import type { NextRequest } from 'next/server';
+import { Types } from 'mongoose';
+import { dbConnect } from '@/lib/db';
+import { Session, User } from '@/lib/models';
+import type { ISessionDocument, SessionRevokeReason } from '@/lib/models';
+import { signAccessToken, signRefreshToken, REFRESH_TOKEN_TTL_MS } from './jwt';
+import { generateToken, hashToken } from './email';
+import { describeUserAgent } from './userAgent';
+import { getClientIp } from './clientIp';
+import { isTwoFactorRequired } from './twoFactor';
+import { recordAuthEvent } from './authEvents';
+import type { DecodedToken } from './token';
+import type { UserRole } from './roles';
+
+// ============================================
+// Types
+// ============================================
+
+export interface SessionClient {
+    userAgent: string;
+    ip: string | null;
+}
+
+export interface SessionAccount {
+    _id: Types.ObjectId | string;
+    email: string;
+    role: UserRole;
+    isVerified: boolean;
+    twoFactor?: { enabled: boolean };
+}
+
+export interface SessionTokens {
+    accessToken: string;
+    refreshToken: string;
+    sessionId: string;
+}
+
+export type RotateResult =
+    | { status: 'rotated'; tokens: SessionTokens }
+    // Another tab refreshed with the same token moments ago; its cookies are already set
+    | { status: 'superseded' }
+    | { status: 'reused' }
+    | { status: 'invalid' };
+
+export interface SessionSummary {
+    id: string;
+    device: string;
+    userAgent: string;
+    ip: string | null;
+    lastSeenAt: Date;
+    createdAt: Date;
+    isCurrent: boolean;
+}
+
+// Two tabs refreshing at once both present the same token; the slower one
+// is let off within this window instead of being treated as a replay
+const ROTATION_GRACE_MS = 30 * 1000;
+
+// ============================================
+// Helpers
+// ============================================
+
+export function getSessionClient(request: NextRequest): SessionClient {
+    return {
+        userAgent: (request.headers.get('user-agent') || '').slice(0, 500),
+        ip: getClientIp(request.headers),
+    };
+}
+
+async function signSessionTokens(user: SessionAccount, sessionId: string, jti: string): Promise<SessionTokens> {
+    const payload = {
+        userId: user._id.toString(),
+        email: user.email,
+        role: user.role,
+        isVerified: user.isVerified,
+        sid: sessionId,
+        ...(!user.twoFactor?.enabled && await isTwoFactorRequired(user.role) && { needsTwoFactorSetup: true }),
+    };
+
+    return {
+        accessToken: await signAccessToken(payload),
+        refreshToken: await signRefreshToken({ ...payload, jti }),
+        sessionId,
+    };
+}
+
+// ============================================
+// Sign In and Refresh
+// ============================================
+
+/**
+ * Open a session for a user who has just proven who they are
+ */
+export async function startSession(user: SessionAccount, client: SessionClient): Promise<SessionTokens> {
+    await dbConnect();
+
+    const jti = generateToken();
+    const now = new Date();
+    const session = await Session.create({
+        user: user._id,
+        tokenHash: hashToken(jti),
+        userAgent: client.userAgent,
+        ip: client.ip || undefined,
+        lastSeenAt: now,
+        expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+    });
+
+    return signSessionTokens(user, session._id.toString(), jti);
+}
+
+/**
+ * Swap a verified refresh token for a new pair. The compare-and-set on
+ * tokenHash means only one caller can rotate a given token.
+ */
+export async function rotateSession(decoded: DecodedToken, client: SessionClient): Promise<RotateResult> {
+    if (!decoded.sid || !decoded.jti || !Types.ObjectId.isValid(decoded.sid)) {
+        return { status: 'invalid' };
+    }
+
+    await dbConnect();
+
+    const presentedHash = hashToken(decoded.jti);
+    const nextJti = generateToken();
+    const now = new Date();
+
+    const session = await Session.findOneAndUpdate(
+        { _id: decoded.sid, user: decoded.userId, tokenHash: presentedHash, revokedAt: null },
+        {
+            $set: {
+                tokenHash: hashToken(nextJti),
+                previousTokenHash: presentedHash,
+                rotatedAt: now,
+                lastSeenAt: now,
+                userAgent: client.userAgent,
+                ip: client.ip,
+                expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+            },
+        },
+        { returnDocument: 'before' }
+    );
+
+    if (!session) {
+        return handleStaleToken(decoded, presentedHash, now, client);
+    }
+
+    // Re-read the account so role, verification and deletions take effect on refresh
+    const user = await User.findById(decoded.userId).select('email role isVerified twoFactor.enabled');
+    if (!user) {
+        await revokeSession(decoded.sid, 'signed_out');
+        return { status: 'invalid' };
+    }
+
+    return { status: 'rotated', tokens: await signSessionTokens(user, decoded.sid, nextJti) };
+}
+
+/**
+ * Reissue a session's tokens after the account changed in a way the current
+ * access token should reflect straight away (e.g. two-factor turned on).
+ * Returns null if the session is gone or revoked.
+ */
+export async function renewSession(sessionId: string, userId: string): Promise<SessionTokens | null> {
+    if (!Types.ObjectId.isValid(sessionId)) return null;
+
+    await dbConnect();
+
+    const [session, user] = await Promise.all([
+        Session.findOne({ _id: sessionId, user: userId, revokedAt: null }),
+        User.findById(userId).select('email role isVerified twoFactor.enabled'),
+    ]);
+    if (!session || !user) return null;
+
+    // The refresh token in flight becomes the previous one, inside the rotation grace window
+    const jti = generateToken();
+    const now = new Date();
+    session.previousTokenHash = session.tokenHash;
+    session.tokenHash = hashToken(jti);
+    session.rotatedAt = now;
+    session.lastSeenAt = now;
+    await session.save();
+
+    return signSessionTokens(user, sessionId, jti);
+}
+
+async function handleStaleToken(
+    decoded: DecodedToken,
+    presentedHash: string,
+    now: Date,
+    client: SessionClient
+): Promise<RotateResult> {
+    const sessionId = decoded.sid!;
+    const session = await Session.findById(sessionId);
+    if (!session || session.revokedAt) {
+        return { status: 'invalid' };
+    }
+
+    const justRotated = session.previousTokenHash === presentedHash
+        && session.rotatedAt
+        && now.getTime() - session.rotatedAt.getTime() < ROTATION_GRACE_MS;
+    if (justRotated) {
+        return { status: 'superseded' };
+    }
+
+    // An older token from this family came back: someone else holds a copy
+    await revokeSession(sessionId, 'reuse');
+    console.warn(`Refresh token reuse detected; revoked session ${sessionId}`);
+    await recordAuthEvent({ type: 'refresh_reuse', userId: decoded.userId, email: decoded.email, client });
+    return { status: 'reused' };
+}
+
+// ============================================
+// Listing and Revoking
+// ============================================
+
+export async function listActiveSessions(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+    await dbConnect();
+
+    const sessions = await Session.find({ user: userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+        .sort({ lastSeenAt: -1 })
+        .lean<ISessionDocument[]>();
+
+    return sessions.map(session => ({
+        id: session._id.toString(),
+        device: describeUserAgent(session.userAgent),
+        userAgent: session.userAgent,
+        ip: session.ip ?? null,
+        lastSeenAt: session.lastSeenAt,
+        createdAt: session.createdAt,
+        isCurrent: session._id.toString() === currentSessionId,
+    }));
+}
+
+/**
+ * Revoke one session. Pass userId to only touch that user's sessions.
+ * Returns whether an active session was revoked.
+ */
+export async function revokeSession(
+    sessionId: string,
+    reason: SessionRevokeReason,
+    userId?: string
+): Promise<boolean> {
+    if (!Types.ObjectId.isValid(sessionId)) return false;
+
+    await dbConnect();
+
+    const result = await Session.updateOne(
+        { _id: sessionId, revokedAt: null, ...(userId && { user: userId }) },
+        { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+    return result.modifiedCount > 0;
+}
+
+/**
+ * Revoke all of a user's sessions, optionally keeping the current one.
+ * Returns how many were revoked.
+ */
+export async function revokeUserSessions(
+    userId: string,
+    reason: SessionRevokeReason,
+    exceptSessionId?: string
+): Promise<number> {
+    await dbConnect();
+
+    const result = await Session.updateMany(
+        {
+            user: userId,
+            revokedAt: null,
+            ...(exceptSessionId && Types.ObjectId.isValid(exceptSessionId) && { _id: { $ne: exceptSessionId } }),
+        },
+        { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+    return result.modifiedCount;
+}
@@ -0,0 +1,143 @@
+/**
+ * JWT Signing and Verification
+ * ============================
+ * HS256 tokens built on the Web Crypto API only, so the same code runs in
+ * the Edge runtime (middleware.ts) and in Node route handlers (jwt.ts).
+ * Nothing here may import Node built-ins or next/headers.
+ */
+
+import type { UserRole } from './roles';
+
+// ============================================
+// Types
+// ============================================
+
+export interface TokenPayload {
+    userId: string;
+    email: string;
+    role: UserRole;
+    isVerified?: boolean;
+    // Session (refresh-token family) the token belongs to
+    sid?: string;
+    // Refresh tokens only: unique id, hashed into Session.tokenHash
+    jti?: string;
+    // Set on the short-lived token issued between password and second factor
+    purpose?: 'two_factor';
+    // Two-factor is required for this role but not set up yet; only enrollment is allowed
+    needsTwoFactorSetup?: boolean;
+}
+
+export interface DecodedToken extends TokenPayload {
+    iat: number;
+    exp: number;
+}
+
+/**
+ * Refresh and partial sign-in tokens are valid JWTs too, but may only be
+ * used at the endpoint that issued them
+ */
+export function isAccessToken(token: DecodedToken): boolean {
+    return !token.jti && !token.purpose;
+}
+
+// ============================================
+// Encoding
+// ============================================
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function base64urlEncode(bytes: Uint8Array): string {
+    let binary = '';
+    for (const byte of bytes) binary += String.fromCharCode(byte);
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64urlDecode(str: string): Uint8Array<ArrayBuffer> {
+    const base64 = str.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+// ============================================
+// Keys
+// ============================================
+
+let cachedKey: { secret: string; key: Promise<CryptoKey> } | null = null;
+
+function getSecret(): string {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+        throw new Error('Set JWT_SECRET to sign and verify auth tokens');
+    }
+    return secret;
+}
+
+function getKey(): Promise<CryptoKey> {
+    const secret = getSecret();
+    if (cachedKey?.secret !== secret) {
+        cachedKey = {
+            secret,
+            key: crypto.subtle.importKey(
+                'raw',
+                encoder.encode(secret),
+                { name: 'HMAC', hash: 'SHA-256' },
+                false,
+                ['sign', 'verify']
+            ),
+        };
+    }
+    return cachedKey.key;
+}
+
+// ============================================
+// Tokens
+// ============================================
+
+const HEADER = base64urlEncode(encoder.encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+
+/**
+ * Sign a payload that expires after the given number of seconds
+ */
+export async function signJwt(payload: TokenPayload, expiresInSeconds: number): Promise<string> {
+    const now = Math.floor(Date.now() / 1000);
+    const body = base64urlEncode(encoder.encode(JSON.stringify({ ...payload, iat: now, exp: now + expiresInSeconds })));
+
+    const signature = await crypto.subtle.sign('HMAC', await getKey(), encoder.encode(`${HEADER}.${body}`));
+    return `${HEADER}.${body}.${base64urlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * The decoded payload, or null if the token is malformed, forged or expired.
+ * Never throws; a missing JWT_SECRET is logged and treated as invalid.
+ */
+export async function verifyJwt(token: string): Promise<DecodedToken | null> {
+    try {
+        const parts = token.split('.');
+        if (parts.length !== 3) return null;
+
+        const [header, body, signature] = parts;
+        // Only our own header is accepted, which rules out alg=none and friends
+        if (header !== HEADER) return null;
+
+        // crypto.subtle.verify compares in constant time
+        const valid = await crypto.subtle.verify(
+            'HMAC',
+            await getKey(),
+            base64urlDecode(signature),
+            encoder.encode(`${header}.${body}`)
+        );
+        if (!valid) return null;
+
+        const payload = JSON.parse(decoder.decode(base64urlDecode(body))) as DecodedToken;
+        if (typeof payload.exp !== 'number' || payload.exp < Math.floor(Date.now() / 1000)) return null;
+        if (typeof payload.userId !== 'string') return null;
+
+        return payload;
+    } catch (error) {
+        if (error instanceof Error && error.message.includes('JWT_SECRET')) {
+            console.error('Token verification error:', error.message);
+        }
+        return null;
+    }
+}
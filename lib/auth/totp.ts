@@ -0,0 +1,177 @@
+/**
+ * TOTP Utility
+ * ============
+ * Time-based one-time passwords (RFC 6238) as used by Google Authenticator,
+ * 1Password, Authy and friends: SHA-1, 6 digits, 30-second steps. Also
+ * recovery code generation and at-rest encryption of TOTP secrets.
+ */
+
+import crypto from 'crypto';
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept the previous and next step too, for clock drift and slow typing
+const DRIFT_STEPS = 1;
+const ISSUER = 'DevSolve';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// ============================================
+// Base32 (RFC 4648), the format authenticator apps expect
+// ============================================
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(bytes: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of bytes) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+}
+
+function base32Decode(str: string): Buffer {
+    const clean = str.toUpperCase().replace(/[\s=-]/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of clean) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) throw new Error('Invalid base32 character');
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+}
+
+// ============================================
+// Codes
+// ============================================
+
+/**
+ * A new random secret, base32 encoded (160 bits, as RFC 4226 recommends)
+ */
+export function generateTotpSecret(): string {
+    return base32Encode(crypto.randomBytes(20));
+}
+
+function hotp(secret: Buffer, counter: number): string {
+    const message = Buffer.alloc(8);
+    message.writeBigUInt64BE(BigInt(counter));
+
+    const digest = crypto.createHmac('sha1', secret).update(message).digest();
+    const offset = digest[digest.length - 1] & 0xf;
+    const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+    return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+export function currentTotpStep(now = Date.now()): number {
+    return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+/**
+ * The time step the code belongs to, or null if it doesn't match. Steps at
+ * or before lastUsedStep are refused so a code can't be used twice.
+ */
+export function verifyTotp(secret: string, code: string, lastUsedStep?: number, now = Date.now()): number | null {
+    const digits = code.replace(/\s/g, '');
+    if (!/^\d{6}$/.test(digits)) return null;
+
+    const key = base32Decode(secret);
+    const current = currentTotpStep(now);
+
+    for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+        if (lastUsedStep !== undefined && step <= lastUsedStep) continue;
+
+        const expected = Buffer.from(hotp(key, step));
+        if (crypto.timingSafeEqual(expected, Buffer.from(digits))) {
+            return step;
+        }
+    }
+    return null;
+}
+
+/**
+ * The otpauth:// URI authenticator apps read from a QR code or a link
+ */
+export function buildOtpauthUri(secret: string, accountName: string): string {
+    const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer: ISSUER,
+        algorithm: 'SHA1',
+        digits: String(DIGITS),
+        period: String(STEP_SECONDS),
+    });
+    return `otpauth://totp/${label}?${params}`;
+}
+
+// ============================================
+// Recovery Codes
+// ============================================
+
+/**
+ * Single-use codes shown once at enrollment, formatted "xxxxx-xxxxx"
+ */
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+    return Array.from({ length: count }, () => {
+        const code = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+        return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+}
+
+/**
+ * Hash a recovery code for storage; case and dashes don't matter
+ */
+export function hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[^a-z2-7]/g, '');
+    return crypto.createHash('sha256').update(`recovery:${normalized}`).digest('hex');
+}
+
+// ============================================
+// Secret Encryption
+// ============================================
+
+function getEncryptionKey(): Buffer {
+    const secret = process.env.TWO_FACTOR_SECRET || process.env.JWT_SECRET;
+    if (!secret) {
+        throw new Error('Set TWO_FACTOR_SECRET (or JWT_SECRET) to encrypt two-factor secrets');
+    }
+    return crypto.createHash('sha256').update(`two-factor:${secret}`).digest();
+}
+
+/**
+ * AES-256-GCM, stored as iv.tag.ciphertext in base64url
+ */
+export function encryptSecret(plain: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64url')).join('.');
+}
+
+export function decryptSecret(stored: string): string {
+    const [iv, tag, encrypted] = stored.split('.').map(part => Buffer.from(part, 'base64url'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+    decipher.setAuthTag(tag);
+
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
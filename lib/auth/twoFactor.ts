@@ -0,0 +1,234 @@
+/**
+ * Two-Factor Authentication
+ * =========================
+ * Enrollment, verification and recovery codes for TOTP two-factor, plus the
+ * site-wide policy that can require it for moderators and admins.
+ *
+ * Enrollment is two steps: startEnrollment() stores a pending secret, and
+ * confirmEnrollment() switches two-factor on once the user proves their app
+ * produces matching codes. Nothing changes for the account before that.
+ */
+
+import { Types } from 'mongoose';
+import { dbConnect } from '@/lib/db';
+import { User, SiteSettings } from '@/lib/models';
+import {
+    generateTotpSecret,
+    verifyTotp,
+    buildOtpauthUri,
+    generateRecoveryCodes,
+    hashRecoveryCode,
+    encryptSecret,
+    decryptSecret,
+} from './totp';
+import type { EnforceableRole } from './roles';
+
+// ============================================
+// Types
+// ============================================
+
+export interface TwoFactorStatus {
+    enabled: boolean;
+    enabledAt: Date | null;
+    recoveryCodesRemaining: number;
+    // The site requires two-factor for this user's role
+    required: boolean;
+}
+
+export interface TwoFactorEnrollment {
+    secret: string;
+    otpauthUri: string;
+}
+
+export interface SecondFactorInput {
+    code?: string;
+    recoveryCode?: string;
+}
+
+// ============================================
+// Policy
+// ============================================
+
+// Checked on every sign-in and refresh, so keep it in memory briefly
+const POLICY_CACHE_MS = 60 * 1000;
+let policyCache: { roles: EnforceableRole[]; expiresAt: number } | null = null;
+
+export async function getTwoFactorPolicy(): Promise<EnforceableRole[]> {
+    if (policyCache && policyCache.expiresAt > Date.now()) {
+        return policyCache.roles;
+    }
+
+    await dbConnect();
+    const settings = await SiteSettings.findOne({ key: 'site' }).lean();
+    const roles = settings?.twoFactorRequiredRoles ?? [];
+
+    policyCache = { roles, expiresAt: Date.now() + POLICY_CACHE_MS };
+    return roles;
+}
+
+export async function setTwoFactorPolicy(roles: EnforceableRole[], actorId: string): Promise<EnforceableRole[]> {
+    await dbConnect();
+
+    const settings = await SiteSettings.findOneAndUpdate(
+        { key: 'site' },
+        { $set: { twoFactorRequiredRoles: roles, updatedBy: actorId } },
+        { upsert: true, returnDocument: 'after', runValidators: true }
+    );
+
+    policyCache = null;
+    return settings.twoFactorRequiredRoles;
+}
+
+export async function isTwoFactorRequired(role: string): Promise<boolean> {
+    const roles = await getTwoFactorPolicy();
+    return roles.includes(role as EnforceableRole);
+}
+
+// ============================================
+// Status and Enrollment
+// ============================================
+
+export async function getTwoFactorStatus(userId: string): Promise<TwoFactorStatus | null> {
+    await dbConnect();
+
+    const user = await User.findById(userId).select('role twoFactor.enabled twoFactor.enabledAt +twoFactor.recoveryCodes');
+    if (!user) return null;
+
+    return {
+        enabled: user.twoFactor?.enabled ?? false,
+        enabledAt: user.twoFactor?.enabledAt ?? null,
+        recoveryCodesRemaining: user.twoFactor?.recoveryCodes?.length ?? 0,
+        required: await isTwoFactorRequired(user.role),
+    };
+}
+
+/**
+ * Generate a secret for the user to add to their authenticator app.
+ * Returns null if two-factor is already on.
+ */
+export async function startEnrollment(userId: string): Promise<TwoFactorEnrollment | null> {
+    await dbConnect();
+
+    const secret = generateTotpSecret();
+    const user = await User.findOneAndUpdate(
+        { _id: userId, 'twoFactor.enabled': { $ne: true } },
+        { $set: { 'twoFactor.pendingSecret': encryptSecret(secret) } },
+        { returnDocument: 'after' }
+    ).select('email');
+    if (!user) return null;
+
+    return { secret, otpauthUri: buildOtpauthUri(secret, user.email) };
+}
+
+/**
+ * Turn two-factor on if the code matches the pending secret. Returns the
+ * recovery codes, which are shown once and only stored hashed, or null if
+ * the code is wrong or enrollment wasn't started.
+ */
+export async function confirmEnrollment(userId: string, code: string): Promise<string[] | null> {
+    await dbConnect();
+
+    const user = await User.findById(userId).select('twoFactor.enabled +twoFactor.pendingSecret');
+    if (!user?.twoFactor?.pendingSecret || user.twoFactor.enabled) return null;
+
+    const secret = user.twoFactor.pendingSecret;
+    const step = verifyTotp(decryptSecret(secret), code);
+    if (step === null) return null;
+
+    const recoveryCodes = generateRecoveryCodes();
+    const result = await User.updateOne(
+        { _id: userId, 'twoFactor.pendingSecret': secret },
+        {
+            $set: {
+                'twoFactor.enabled': true,
+                'twoFactor.secret': secret,
+                'twoFactor.recoveryCodes': recoveryCodes.map(hashRecoveryCode),
+                'twoFactor.lastUsedStep': step,
+                'twoFactor.enabledAt': new Date(),
+            },
+            $unset: { 'twoFactor.pendingSecret': 1 },
+        }
+    );
+
+    return result.modifiedCount === 1 ? recoveryCodes : null;
+}
+
+export async function disableTwoFactor(userId: string): Promise<void> {
+    await dbConnect();
+
+    await User.updateOne(
+        { _id: userId },
+        {
+            $set: { 'twoFactor.enabled': false, 'twoFactor.recoveryCodes': [] },
+            $unset: {
+                'twoFactor.secret': 1,
+                'twoFactor.pendingSecret': 1,
+                'twoFactor.lastUsedStep': 1,
+                'twoFactor.enabledAt': 1,
+            },
+        }
+    );
+}
+
+/**
+ * Replace every recovery code with a fresh set
+ */
+export async function regenerateRecoveryCodes(userId: string): Promise<string[] | null> {
+    await dbConnect();
+
+    const recoveryCodes = generateRecoveryCodes();
+    const result = await User.updateOne(
+        { _id: userId, 'twoFactor.enabled': true },
+        { $set: { 'twoFactor.recoveryCodes': recoveryCodes.map(hashRecoveryCode) } }
+    );
+
+    return result.modifiedCount === 1 ? recoveryCodes : null;
+}
+
+// ============================================
+// Verification
+// ============================================
+
+/**
+ * Check an authenticator code or a recovery code. Both are single use: the
+ * code's time step is recorded and a recovery code is removed. The updates
+ * are conditional so two requests racing with the same code can't both win.
+ */
+export async function verifySecondFactor(
+    userId: string,
+    input: SecondFactorInput
+): Promise<'totp' | 'recovery' | null> {
+    if (!Types.ObjectId.isValid(userId)) return null;
+
+    await dbConnect();
+
+    if (input.recoveryCode) {
+        const hash = hashRecoveryCode(input.recoveryCode);
+        const result = await User.updateOne(
+            { _id: userId, 'twoFactor.enabled': true, 'twoFactor.recoveryCodes': hash },
+            { $pull: { 'twoFactor.recoveryCodes': hash } }
+        );
+        return result.modifiedCount === 1 ? 'recovery' : null;
+    }
+
+    if (!input.code) return null;
+
+    const user = await User.findById(userId).select('twoFactor.enabled +twoFactor.secret +twoFactor.lastUsedStep');
+    if (!user?.twoFactor?.enabled || !user.twoFactor.secret) return null;
+
+    const lastUsedStep = user.twoFactor.lastUsedStep ?? undefined;
+    const step = verifyTotp(decryptSecret(user.twoFactor.secret), input.code, lastUsedStep);
+    if (step === null) return null;
+
+    const result = await User.updateOne(
+        {
+            _id: userId,
+            $or: [
+                { 'twoFactor.lastUsedStep': null },
+                { 'twoFactor.lastUsedStep': { $lt: step } },
+            ],
+        },
+        { $set: { 'twoFactor.lastUsedStep': step } }
+    );
+    return result.modifiedCount === 1 ? 'totp' : null;
+}
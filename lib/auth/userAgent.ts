@@ -0,0 +1,37 @@
+/**
+ * User Agent Descriptions
+ * =======================
+ * Turns a User-Agent header into a short label such as "Chrome on macOS"
+ * for the sessions list. Good enough to recognise your own devices; not
+ * meant for feature detection.
+ */
+
+// Order matters: Edge and Opera also claim to be Chrome, and Chrome claims to be Safari
+const BROWSERS: [RegExp, string][] = [
+    [/Edg(e|A|iOS)?\//, 'Edge'],
+    [/OPR\/|Opera/, 'Opera'],
+    [/Firefox\/|FxiOS\//, 'Firefox'],
+    [/Chrome\/|CriOS\//, 'Chrome'],
+    [/Safari\//, 'Safari'],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+    [/iPhone|iPad|iPod/, 'iOS'],
+    [/Android/, 'Android'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/CrOS/, 'ChromeOS'],
+    [/Linux/, 'Linux'],
+];
+
+function match(userAgent: string, patterns: [RegExp, string][]): string | null {
+    return patterns.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null;
+}
+
+export function describeUserAgent(userAgent: string): string {
+    const browser = match(userAgent, BROWSERS);
+    const system = match(userAgent, SYSTEMS);
+
+    if (browser && system) return `${browser} on ${system}`;
+    return browser ?? system ?? 'Unknown device';
+}
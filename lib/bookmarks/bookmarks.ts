@@ -0,0 +1,234 @@
+/**
+ * Bookmarks Service
+ * =================
+ * Saving questions and answers, filing them into collections, and listing
+ * them with the post details the saved page shows
+ */
+
+import { Types } from 'mongoose';
+import { Bookmark, BookmarkCollection, Question, Answer } from '@/lib/models';
+import type { BookmarkPostType, IBookmarkDocument } from '@/lib/models';
+import { stripHtml } from '@/lib/search';
+
+// ============================================
+// Configuration
+// ============================================
+
+export const MAX_COLLECTIONS = 50;
+export const BOOKMARK_PAGE_SIZE = 20;
+
+// Length of the answer excerpt shown for saved answers
+const EXCERPT_LENGTH = 200;
+
+// ============================================
+// Types
+// ============================================
+
+export interface SavedPost {
+    id: string;
+    postType: BookmarkPostType;
+    postId: string;
+    collectionId: string | null;
+    note: string;
+    createdAt: Date;
+    question: {
+        id: string;
+        title: string;
+        tags: string[];
+        score: number;
+        answerCount: number;
+        hasAcceptedAnswer: boolean;
+        isClosed: boolean;
+        isDeleted: boolean;
+    } | null;
+    answer: {
+        id: string;
+        excerpt: string;
+        score: number;
+        isAccepted: boolean;
+        isDeleted: boolean;
+    } | null;
+}
+
+export interface CollectionSummary {
+    id: string;
+    name: string;
+    count: number;
+}
+
+export interface ListBookmarksOptions {
+    // A collection id, or "none" for unfiled bookmarks
+    collection?: string | null;
+    tag?: string | null;
+    question?: string | null;
+    page?: number;
+    limit?: number;
+}
+
+// ============================================
+// Targets
+// ============================================
+
+/**
+ * The post being saved and the question it belongs to, or null when it
+ * doesn't exist or has been deleted
+ */
+export async function findBookmarkTarget(
+    postType: BookmarkPostType,
+    postId: string
+): Promise<{ post: Types.ObjectId; question: Types.ObjectId } | null> {
+    if (!Types.ObjectId.isValid(postId)) return null;
+
+    if (postType === 'question') {
+        const question = await Question.findOne({ _id: postId, isDeleted: { $ne: true } }).select('_id');
+        return question ? { post: question._id as Types.ObjectId, question: question._id as Types.ObjectId } : null;
+    }
+
+    const answer = await Answer.findOne({ _id: postId, isDeleted: { $ne: true } }).select('question');
+    return answer ? { post: answer._id as Types.ObjectId, question: answer.question } : null;
+}
+
+/**
+ * Whether a collection exists and belongs to the user
+ */
+export async function ownsCollection(userId: string, collectionId: string): Promise<boolean> {
+    if (!Types.ObjectId.isValid(collectionId)) return false;
+    return (await BookmarkCollection.exists({ _id: collectionId, user: userId })) !== null;
+}
+
+// ============================================
+// Listing
+// ============================================
+
+/**
+ * Bookmark documents with their questions and answers, in one query per model
+ */
+async function toSavedPosts(bookmarks: IBookmarkDocument[]): Promise<SavedPost[]> {
+    const questionIds = bookmarks.map((b) => b.question);
+    const answerIds = bookmarks.filter((b) => b.postType === 'answer').map((b) => b.post);
+
+    const [questions, answers] = await Promise.all([
+        Question.find({ _id: { $in: questionIds } })
+            .select('title tags score answerCount acceptedAnswer isClosed isDeleted')
+            .lean(),
+        answerIds.length > 0
+            ? Answer.find({ _id: { $in: answerIds } }).select('body score isAccepted isDeleted').lean()
+            : [],
+    ]);
+    const questionById = new Map(questions.map((q) => [q._id.toString(), q]));
+    const answerById = new Map(answers.map((a) => [a._id.toString(), a]));
+
+    return bookmarks.map((bookmark) => {
+        const question = questionById.get(bookmark.question.toString());
+        const answer = bookmark.postType === 'answer' ? answerById.get(bookmark.post.toString()) : undefined;
+        const excerpt = answer ? stripHtml(answer.body) : '';
+
+        return {
+            id: bookmark._id.toString(),
+            postType: bookmark.postType,
+            postId: bookmark.post.toString(),
+            collectionId: bookmark.collectionId?.toString() ?? null,
+            note: bookmark.note,
+            createdAt: bookmark.createdAt,
+            question: question
+                ? {
+                    id: question._id.toString(),
+                    title: question.title,
+                    tags: question.tags,
+                    score: question.score ?? 0,
+                    answerCount: question.answerCount ?? 0,
+                    hasAcceptedAnswer: !!question.acceptedAnswer,
+                    isClosed: !!question.isClosed,
+                    isDeleted: !!question.isDeleted,
+                }
+                : null,
+            answer: answer
+                ? {
+                    id: answer._id.toString(),
+                    excerpt: excerpt.length > EXCERPT_LENGTH ? `${excerpt.slice(0, EXCERPT_LENGTH)}…` : excerpt,
+                    score: answer.score ?? 0,
+                    isAccepted: !!answer.isAccepted,
+                    isDeleted: !!answer.isDeleted,
+                }
+                : null,
+        };
+    });
+}
+
+/**
+ * A user's bookmarks, newest first, filtered by collection, question tag or question
+ */
+export async function listBookmarks(
+    userId: string,
+    { collection, tag, question, page = 1, limit = BOOKMARK_PAGE_SIZE }: ListBookmarksOptions = {}
+): Promise<{ bookmarks: SavedPost[]; total: number }> {
+    const filter: Record<string, unknown> = { user: userId };
+
+    if (collection === 'none') {
+        filter.collectionId = null;
+    } else if (collection) {
+        filter.collectionId = collection;
+    }
+
+    if (question) {
+        filter.question = question;
+    }
+
+    if (tag) {
+        // Tags live on the question, so narrow to the saved questions carrying it
+        const savedQuestionIds = await Bookmark.distinct('question', { user: userId });
+        filter.question = {
+            $in: await Question.distinct('_id', { _id: { $in: savedQuestionIds }, tags: tag }),
+            ...(question && { $eq: question }),
+        };
+    }
+
+    const [bookmarks, total] = await Promise.all([
+        Bookmark.find(filter)
+            .sort({ createdAt: -1, _id: -1 })
+            .skip((page - 1) * limit)
+            .limit(limit),
+        Bookmark.countDocuments(filter),
+    ]);
+
+    return { bookmarks: await toSavedPosts(bookmarks), total };
+}
+
+/**
+ * The user's collections with how many bookmarks each holds, plus the unfiled count
+ */
+export async function listCollections(userId: string): Promise<{ collections: CollectionSummary[]; unfiled: number }> {
+    const [collections, counts] = await Promise.all([
+        BookmarkCollection.find({ user: userId }).sort({ name: 1 }),
+        Bookmark.aggregate<{ _id: Types.ObjectId | null; count: number }>([
+            { $match: { user: new Types.ObjectId(userId) } },
+            { $group: { _id: '$collectionId', count: { $sum: 1 } } },
+        ]),
+    ]);
+    const countById = new Map(counts.map((c) => [c._id?.toString() ?? 'none', c.count]));
+
+    return {
+        collections: collections.map((c) => ({
+            id: c._id.toString(),
+            name: c.name,
+            count: countById.get(c._id.toString()) ?? 0,
+        })),
+        unfiled: countById.get('none') ?? 0,
+    };
+}
+
+/**
+ * Tags across the user's saved posts, most used first
+ */
+export async function bookmarkTagCounts(userId: string): Promise<{ name: string; count: number }[]> {
+    const rows = await Bookmark.aggregate<{ _id: string; count: number }>([
+        { $match: { user: new Types.ObjectId(userId) } },
+        { $lookup: { from: 'questions', localField: 'question', foreignField: '_id', as: 'q' } },
+        { $unwind: '$q' },
+        { $unwind: '$q.tags' },
+        { $group: { _id: '$q.tags', count: { $sum: 1 } } },
+        { $sort: { count: -1, _id: 1 } },
+    ]);
+
+    return rows.map((row) => ({ name: row._id, count: row.count }));
+}
@@ -0,0 +1,16 @@
+/**
+ * Bookmarks Module Index
+ * ======================
+ * Barrel export for saved posts and collections
+ */
+
+export {
+    findBookmarkTarget,
+    ownsCollection,
+    listBookmarks,
+    listCollections,
+    bookmarkTagCounts,
+    MAX_COLLECTIONS,
+    BOOKMARK_PAGE_SIZE,
+} from './bookmarks';
+export type { SavedPost, CollectionSummary, ListBookmarksOptions } from './bookmarks';
@@ -0,0 +1,19 @@
+/**
+ * Comments Module Index
+ * =====================
+ * Barrel export for comment utilities
+ */
+
+export { parseMentionCandidates, resolveMentions } from './mentions';
+
+export { toLiveComment } from './live';
+export type { LiveCommentAuthor } from './live';
+
+export {
+    validateCommentBody,
+    parseCommentPagination,
+    COMMENT_MIN_LENGTH,
+    COMMENT_MAX_LENGTH,
+    COMMENTS_PAGE_SIZE,
+    COMMENTS_MAX_PAGE_SIZE,
+} from './validation';
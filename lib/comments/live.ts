@@ -0,0 +1,30 @@
+/**
+ * Live Comments
+ * =============
+ * The payload pushed to everyone viewing a question when a comment is posted
+ */
+
+import type { Types } from 'mongoose';
+import type { ICommentDocument, IUser } from '@/lib/models';
+import type { LiveCommentPayload } from '@/lib/realtime';
+
+// The comment's author after populating 'name avatar'
+export type LiveCommentAuthor = Pick<IUser, 'name' | 'avatar'> & { _id: Types.ObjectId };
+
+/**
+ * Serialize a new comment the way the comments API lists it
+ */
+export function toLiveComment(
+    comment: Omit<ICommentDocument, 'author'> & { author: LiveCommentAuthor | null }
+): LiveCommentPayload {
+    return {
+        id: comment._id.toString(),
+        body: comment.body,
+        author: comment.author
+            ? { id: comment.author._id.toString(), name: comment.author.name, avatar: comment.author.avatar || undefined }
+            : undefined,
+        editedAt: comment.editedAt?.toISOString(),
+        isDeleted: comment.isDeleted,
+        createdAt: comment.createdAt.toISOString(),
+    };
+}
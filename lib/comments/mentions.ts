@@ -0,0 +1,52 @@
+/**
+ * Mention Parsing
+ * ===============
+ * Extracts @mentions from comment text and resolves them against User.name
+ */
+
+import { Types } from 'mongoose';
+import { User } from '@/lib/models';
+
+// Matches "@Name" plus an optional second word, e.g. "@Jane" or "@Jane Doe"
+const MENTION_PATTERN = /@([A-Za-z][\w.-]*)(?:\s+([A-Za-z][\w.-]*))?/g;
+
+// Cap lookups so a comment can't fan out to an unbounded number of users
+const MAX_MENTIONS = 10;
+
+/**
+ * Candidate names mentioned in a body.
+ * Both the one-word and two-word forms are returned since names may contain spaces.
+ */
+export function parseMentionCandidates(body: string): string[] {
+    const candidates = new Set<string>();
+
+    for (const match of body.matchAll(MENTION_PATTERN)) {
+        candidates.add(match[1]);
+        if (match[2]) {
+            candidates.add(`${match[1]} ${match[2]}`);
+        }
+    }
+
+    return [...candidates].slice(0, MAX_MENTIONS * 2);
+}
+
+/**
+ * Resolve mentions to user IDs (case-insensitive exact name match)
+ */
+export async function resolveMentions(
+    body: string,
+    excludeUserId?: string
+): Promise<Types.ObjectId[]> {
+    const candidates = parseMentionCandidates(body);
+    if (candidates.length === 0) return [];
+
+    const users = await User.find({ name: { $in: candidates } })
+        .collation({ locale: 'en', strength: 2 })
+        .select('_id')
+        .limit(MAX_MENTIONS)
+        .lean();
+
+    return users
+        .map((u) => u._id as Types.ObjectId)
+        .filter((id) => id.toString() !== excludeUserId);
+}
@@ -0,0 +1,46 @@
+/**
+ * Comment Validation
+ * ==================
+ * Shared limits and input checks for comment bodies
+ */
+
+// Length limits (mirrored by the Comment schema)
+export const COMMENT_MIN_LENGTH = 5;
+export const COMMENT_MAX_LENGTH = 600;
+
+// Pagination defaults for comment threads
+export const COMMENTS_PAGE_SIZE = 5;
+export const COMMENTS_MAX_PAGE_SIZE = 50;
+
+/**
+ * Validate a comment body before saving
+ */
+export function validateCommentBody(body: unknown): { valid: boolean; error?: string } {
+    if (!body || typeof body !== 'string') {
+        return { valid: false, error: 'Comment body is required' };
+    }
+
+    const trimmed = body.trim();
+
+    if (trimmed.length < COMMENT_MIN_LENGTH) {
+        return { valid: false, error: `Comment must be at least ${COMMENT_MIN_LENGTH} characters` };
+    }
+
+    if (trimmed.length > COMMENT_MAX_LENGTH) {
+        return { valid: false, error: `Comment cannot exceed ${COMMENT_MAX_LENGTH} characters` };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * Parse page/limit query params for comment listing
+ */
+export function parseCommentPagination(searchParams: URLSearchParams): { page: number; limit: number } {
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+    const limit = Math.min(
+        COMMENTS_MAX_PAGE_SIZE,
+        Math.max(1, parseInt(searchParams.get('limit') || String(COMMENTS_PAGE_SIZE)) || COMMENTS_PAGE_SIZE)
+    );
+    return { page, limit };
+}
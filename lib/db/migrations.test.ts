@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { dbConnect } from '@/lib/db';
+import { Migration, Question } from '@/lib/models';
+import { recountPostStats } from '@/lib/posts';
+import { runMigrations, runMigrationsOnStartup } from './migrations';
+
+vi.mock('@/lib/db', () => ({ dbConnect: vi.fn() }));
+vi.mock('@/lib/posts', () => ({ recountPostStats: vi.fn() }));
+vi.mock('@/lib/tags', () => ({ recountTags: vi.fn() }));
+
+const applied = (names: string[]) => ({
+    select: () => ({ lean: async () => names.map((name) => ({ name })) }),
+});
+
+// Names of the migrations recorded as applied, in order
+let recorded: string[];
+
+beforeEach(() => {
+    recorded = [];
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(Migration, 'find').mockReturnValue(applied([]) as never);
+    vi.spyOn(Migration, 'updateOne').mockImplementation(((filter: { name: string }) => {
+        recorded.push(filter.name);
+        return Promise.resolve({});
+    }) as never);
+    vi.spyOn(Question.collection, 'indexes').mockResolvedValue([]);
+    vi.spyOn(Question, 'createIndexes').mockResolvedValue();
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(dbConnect).mockReset();
+});
+
+// ============================================
+// runMigrations
+// ============================================
+
+describe('runMigrations', () => {
+    it('runs and records every pending migration in order', async () => {
+        await runMigrations();
+
+        expect(recorded).toEqual(['2026-question-text-index', '2026-post-stats-backfill', '2026-seed-tags']);
+    });
+
+    it('skips migrations that were already applied', async () => {
+        vi.spyOn(Migration, 'find').mockReturnValue(applied(['2026-question-text-index']) as never);
+
+        await runMigrations();
+
+        expect(Question.createIndexes).not.toHaveBeenCalled();
+        expect(recorded).toEqual(['2026-post-stats-backfill', '2026-seed-tags']);
+    });
+
+    it('carries on past a failed migration without recording it', async () => {
+        vi.mocked(recountPostStats).mockRejectedValueOnce(new Error('cursor killed'));
+
+        await expect(runMigrations()).resolves.toBeUndefined();
+        expect(recorded).toEqual(['2026-question-text-index', '2026-seed-tags']);
+    });
+});
+
+// ============================================
+// runMigrationsOnStartup
+// ============================================
+
+describe('runMigrationsOnStartup', () => {
+    it('connects before running migrations', async () => {
+        await runMigrationsOnStartup();
+
+        expect(dbConnect).toHaveBeenCalled();
+        expect(recorded).toHaveLength(3);
+    });
+
+    it('resolves without running migrations when the database is unreachable', async () => {
+        vi.mocked(dbConnect).mockRejectedValueOnce(new Error('server selection timed out'));
+
+        await expect(runMigrationsOnStartup()).resolves.toBeUndefined();
+        expect(Migration.find).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,103 @@
+/**
+ * Data Migrations
+ * ===============
+ * One-off changes to existing data and indexes that schema defaults can't
+ * cover. instrumentation.ts runs the pending ones in the background when a
+ * server starts, in order, and each is recorded in the Migration collection
+ * when it finishes. Requests never wait on them.
+ *
+ * Every migration must be safe to run again: two instances starting at the
+ * same time can both run one before either records it.
+ */
+
+import { dbConnect } from '@/lib/db';
+import { Migration, Question } from '@/lib/models';
+import { recountPostStats } from '@/lib/posts';
+import { recountTags } from '@/lib/tags';
+
+// ============================================
+// Migrations
+// ============================================
+
+interface DataMigration {
+    name: string;
+    up: () => Promise<void>;
+}
+
+/**
+ * Replace the old title/body text index with question_text, which also
+ * covers tags. A collection can only have one text index, so Mongoose
+ * can't build the new one while the old one exists.
+ */
+async function questionTextIndex(): Promise<void> {
+    const indexes = await Question.collection.indexes();
+
+    for (const index of indexes) {
+        const isText = Object.values(index.key).includes('text');
+        if (isText && index.name && index.name !== 'question_text') {
+            await Question.collection.dropIndex(index.name);
+        }
+    }
+
+    await Question.createIndexes();
+}
+
+const MIGRATIONS: DataMigration[] = [
+    { name: '2026-question-text-index', up: questionTextIndex },
+    // Fill in score, answerCount and lastActivityAt on posts created before they were stored
+    { name: '2026-post-stats-backfill', up: recountPostStats },
+    // Create Tag documents for tags already on questions, so they aren't treated as new
+    { name: '2026-seed-tags', up: async () => { await recountTags(); } },
+];
+
+// ============================================
+// Runner
+// ============================================
+
+/**
+ * Run every migration that hasn't been recorded yet. Never throws: a failed
+ * migration is logged and retried on the next start, and the ones after it
+ * still run.
+ */
+export async function runMigrations(): Promise<void> {
+    let applied: Set<string>;
+    try {
+        applied = new Set(
+            (await Migration.find().select('name').lean()).map((migration) => migration.name)
+        );
+    } catch (error) {
+        console.error('Error loading applied migrations:', error);
+        return;
+    }
+
+    for (const migration of MIGRATIONS) {
+        if (applied.has(migration.name)) continue;
+
+        try {
+            console.log(`🛠️ Running migration ${migration.name}`);
+            await migration.up();
+            await Migration.updateOne(
+                { name: migration.name },
+                { $setOnInsert: { appliedAt: new Date() } },
+                { upsert: true }
+            );
+        } catch (error) {
+            console.error(`Error running migration ${migration.name}:`, error);
+        }
+    }
+}
+
+/**
+ * Connect and run the pending migrations. Called from instrumentation.ts
+ * when a server starts; never throws, so a failure can't stop the server.
+ */
+export async function runMigrationsOnStartup(): Promise<void> {
+    try {
+        await dbConnect();
+    } catch (error) {
+        console.error('Error connecting to run migrations:', error);
+        return;
+    }
+
+    await runMigrations();
+}
@@ -0,0 +1,31 @@
+/**
+ * Email Module Index
+ * ==================
+ * Barrel export for the mailer, templates, unsubscribe tokens and sample emails
+ */
+
+export { sendEmail, getAppUrl } from './mailer';
+export type { SendEmailOptions } from './mailer';
+
+export {
+    escapeHtml,
+    verificationEmail,
+    passwordResetEmail,
+    newSignInEmail,
+    newAnswerEmail,
+    mentionEmail,
+    digestEmail,
+} from './templates';
+export type { EmailMessage, DigestFrequency, DigestQuestion, DigestSection } from './templates';
+
+export {
+    createUnsubscribeToken,
+    verifyUnsubscribeToken,
+    unsubscribePageUrl,
+    unsubscribeHeaders,
+    UNSUBSCRIBE_SCOPES,
+} from './unsubscribe';
+export type { UnsubscribeScope } from './unsubscribe';
+
+export { renderSampleEmail, EMAIL_TEMPLATE_NAMES } from './samples';
+export type { EmailTemplateName } from './samples';
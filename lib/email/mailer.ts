@@ -0,0 +1,128 @@
+/**
+ * Mailer
+ * ======
+ * Sends mail through Nodemailer using the SMTP settings from the environment.
+ *
+ * SMTP_USER and SMTP_PASS are optional so a local stand-in such as Mailpit
+ * or MailHog (SMTP_HOST=localhost SMTP_PORT=1025) can capture everything
+ * the app sends. With no SMTP_HOST, mail is only logged.
+ */
+
+import type { Transporter } from 'nodemailer';
+
+// ============================================
+// Types
+// ============================================
+
+interface EmailConfig {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    pass?: string;
+    from: string;
+}
+
+export interface SendEmailOptions {
+    to: string;
+    subject: string;
+    html: string;
+    text?: string;
+    headers?: Record<string, string>;
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+/**
+ * Get email configuration from environment
+ */
+function getEmailConfig(): EmailConfig | null {
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+        console.warn('Email not configured. Set SMTP_HOST (and SMTP_USER, SMTP_PASS) in .env.local');
+        return null;
+    }
+
+    const port = parseInt(process.env.SMTP_PORT || '587');
+    const user = process.env.SMTP_USER || undefined;
+    const pass = process.env.SMTP_PASS || undefined;
+
+    return {
+        host,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        user,
+        pass,
+        from: process.env.SMTP_FROM || `"DevSolve" <${user || 'no-reply@devsolve.local'}>`,
+    };
+}
+
+/**
+ * Get app URL, used for links in emails
+ */
+export function getAppUrl(): string {
+    return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+}
+
+// One transporter per process so digest runs reuse the connection pool
+let transporter: Transporter | null = null;
+
+async function getTransporter(config: EmailConfig): Promise<Transporter> {
+    if (!transporter) {
+        const nodemailer = await import('nodemailer');
+
+        transporter = nodemailer.createTransport({
+            host: config.host,
+            port: config.port,
+            secure: config.secure,
+            pool: true,
+            ...(config.user && config.pass && {
+                auth: {
+                    user: config.user,
+                    pass: config.pass,
+                },
+            }),
+        });
+    }
+
+    return transporter;
+}
+
+// ============================================
+// Sending
+// ============================================
+
+/**
+ * Send email using Nodemailer. Returns false if sending failed.
+ */
+export async function sendEmail(options: SendEmailOptions): Promise<boolean> {
+    const config = getEmailConfig();
+
+    if (!config) {
+        console.log('📧 Email would be sent to:', options.to);
+        console.log('📧 Subject:', options.subject);
+        console.log('📧 (Email not configured - set SMTP environment variables)');
+        return true; // Return true for development
+    }
+
+    try {
+        const mailer = await getTransporter(config);
+
+        await mailer.sendMail({
+            from: config.from,
+            to: options.to,
+            subject: options.subject,
+            html: options.html,
+            text: options.text,
+            headers: options.headers,
+        });
+
+        console.log('✅ Email sent to:', options.to);
+        return true;
+    } catch (error) {
+        console.error('❌ Email error:', error);
+        return false;
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * Sample Emails
+ * =============
+ * Every template rendered with example data, for previewing in the browser
+ * and for sending to a local SMTP stand-in (see docs/NOTIFICATIONS.md)
+ */
+
+import { getAppUrl } from './mailer';
+import {
+    verificationEmail,
+    passwordResetEmail,
+    newSignInEmail,
+    newAnswerEmail,
+    mentionEmail,
+    digestEmail,
+} from './templates';
+import type { EmailMessage } from './templates';
+
+export const EMAIL_TEMPLATE_NAMES = ['verification', 'password-reset', 'new-sign-in', 'new-answer', 'mention', 'digest'] as const;
+
+export type EmailTemplateName = (typeof EMAIL_TEMPLATE_NAMES)[number];
+
+export function renderSampleEmail(name: EmailTemplateName): EmailMessage {
+    const appUrl = getAppUrl();
+    const questionUrl = `${appUrl}/dashboard/questions/000000000000000000000000`;
+    const links = {
+        unsubscribeUrl: `${appUrl}/unsubscribe?token=sample`,
+        preferencesUrl: `${appUrl}/dashboard/settings`,
+    };
+
+    switch (name) {
+        case 'verification':
+            return verificationEmail({ name: 'Ada Lovelace', url: `${appUrl}/verify-email?token=sample` });
+        case 'password-reset':
+            return passwordResetEmail({ name: 'Ada Lovelace', url: `${appUrl}/reset-password?token=sample` });
+        case 'new-sign-in':
+            return newSignInEmail({
+                name: 'Ada Lovelace',
+                device: 'Firefox on Windows',
+                ip: '203.0.113.7',
+                time: new Date().toUTCString(),
+                url: `${appUrl}/dashboard/settings/sessions`,
+            });
+        case 'new-answer':
+            return newAnswerEmail({
+                name: 'Ada Lovelace',
+                answererName: 'Grace Hopper',
+                questionTitle: 'Why does useEffect run twice in development?',
+                excerpt: 'React 18 Strict Mode mounts, unmounts and remounts every component in development to surface effects that don\'t clean up after themselves. <script> tags and other markup in answers are escaped.',
+                url: `${questionUrl}#answer-000000000000000000000001`,
+                ...links,
+            });
+        case 'mention':
+            return mentionEmail({
+                name: 'Ada Lovelace',
+                actorName: 'Grace Hopper',
+                questionTitle: 'Why does useEffect run twice in development?',
+                comment: '@Ada Lovelace could you add the React version you are on?',
+                url: questionUrl,
+                ...links,
+            });
+        case 'digest':
+            return digestEmail({
+                name: 'Ada Lovelace',
+                frequency: 'weekly',
+                sections: [
+                    {
+                        tag: 'react',
+                        questions: [
+                            { title: 'Why does useEffect run twice in development?', url: questionUrl, score: 12, answerCount: 3 },
+                            { title: 'How do I type a generic forwardRef component?', url: questionUrl, score: 4, answerCount: 1 },
+                        ],
+                    },
+                    {
+                        tag: 'mongodb',
+                        questions: [
+                            { title: 'Partial index vs sparse index for optional unique fields', url: questionUrl, score: 7, answerCount: 2 },
+                        ],
+                    },
+                ],
+                url: `${appUrl}/dashboard/questions`,
+                ...links,
+            });
+    }
+}
@@ -0,0 +1,279 @@
+/**
+ * Email Templates
+ * ===============
+ * Every email the app sends, rendered to a subject, HTML and plain-text body.
+ * Templates take plain values (links already built) and escape them, so
+ * they can be rendered and sent to a local SMTP stand-in without a database.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface EmailMessage {
+    subject: string;
+    html: string;
+    text: string;
+}
+
+export type DigestFrequency = 'daily' | 'weekly';
+
+export interface DigestQuestion {
+    title: string;
+    url: string;
+    score: number;
+    answerCount: number;
+}
+
+export interface DigestSection {
+    tag: string;
+    questions: DigestQuestion[];
+}
+
+// Links every notification email carries in its footer
+interface NotificationLinks {
+    unsubscribeUrl: string;
+    preferencesUrl: string;
+}
+
+interface LayoutOptions {
+    heading: string;
+    // Trusted HTML; callers escape any user content
+    content: string;
+    action?: { label: string; url: string };
+    footer: string;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+export function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function paragraph(html: string): string {
+    return `<p style="color: #475569; line-height: 1.6; margin: 0 0 16px;">${html}</p>`;
+}
+
+function quote(text: string): string {
+    return `<blockquote style="margin: 0 0 16px; padding: 12px 16px; background: #f8fafc; border-left: 3px solid #ffa12e; border-radius: 4px; color: #334155; line-height: 1.6;">${escapeHtml(text)}</blockquote>`;
+}
+
+function notificationFooter(reason: string, links: NotificationLinks): string {
+    return `${escapeHtml(reason)}<br>
+            <a href="${escapeHtml(links.preferencesUrl)}" style="color: #94a3b8;">Email preferences</a>
+            &middot;
+            <a href="${escapeHtml(links.unsubscribeUrl)}" style="color: #94a3b8;">Unsubscribe</a>`;
+}
+
+function notificationFooterText(reason: string, links: NotificationLinks): string {
+    return `${reason}\nEmail preferences: ${links.preferencesUrl}\nUnsubscribe: ${links.unsubscribeUrl}`;
+}
+
+/**
+ * Wrap content in the shared DevSolve email layout
+ */
+function renderLayout({ heading, content, action, footer }: LayoutOptions): string {
+    return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    </head>
+    <body style="margin: 0; padding: 0; background-color: #f8fafc; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;">
+      <div style="max-width: 600px; margin: 0 auto; padding: 40px 20px;">
+        <div style="background: white; border-radius: 16px; padding: 40px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.05);">
+          <div style="text-align: center; margin-bottom: 32px;">
+            <h1 style="color: #ffa12e; margin: 0; font-size: 28px;">DevSolve</h1>
+          </div>
+
+          <h2 style="color: #0f172a; margin: 0 0 16px;">${heading}</h2>
+
+          ${content}
+          ${action ? `
+          <div style="text-align: center; margin: 32px 0;">
+            <a href="${escapeHtml(action.url)}" style="display: inline-block; background: #ffa12e; color: white; padding: 14px 32px; border-radius: 8px; text-decoration: none; font-weight: 600;">
+              ${escapeHtml(action.label)}
+            </a>
+          </div>` : ''}
+
+          <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 32px 0;">
+
+          <p style="color: #94a3b8; font-size: 12px; margin: 0; text-align: center; line-height: 1.6;">
+            ${footer}
+          </p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+// ============================================
+// Account Emails
+// ============================================
+
+export function verificationEmail({ name, url }: { name: string; url: string }): EmailMessage {
+    return {
+        subject: 'Verify your DevSolve account',
+        html: renderLayout({
+            heading: `Welcome, ${escapeHtml(name)}! 👋`,
+            content: paragraph('Thanks for signing up for DevSolve. Please verify your email address to complete your registration.'),
+            action: { label: 'Verify Email Address', url },
+            footer: 'If you didn\'t create an account, you can safely ignore this email. This link expires in 24 hours.',
+        }),
+        text: `Welcome, ${name}!\n\nThanks for signing up for DevSolve. Verify your email address to complete your registration:\n${url}\n\nThis link expires in 24 hours. If you didn't create an account, you can safely ignore this email.`,
+    };
+}
+
+export function passwordResetEmail({ name, url }: { name: string; url: string }): EmailMessage {
+    return {
+        subject: 'Reset your DevSolve password',
+        html: renderLayout({
+            heading: 'Password Reset Request',
+            content: paragraph(`Hi ${escapeHtml(name)}, we received a request to reset your password. Click the button below to create a new password.`),
+            action: { label: 'Reset Password', url },
+            footer: 'If you didn\'t request a password reset, you can safely ignore this email. This link expires in 1 hour.',
+        }),
+        text: `Hi ${name}, we received a request to reset your password. Create a new one here:\n${url}\n\nThis link expires in 1 hour. If you didn't request a password reset, you can safely ignore this email.`,
+    };
+}
+
+export function newSignInEmail({
+    name,
+    device,
+    ip,
+    time,
+    url,
+}: {
+    name: string;
+    device: string;
+    ip: string | null;
+    time: string;
+    url: string;
+}): EmailMessage {
+    const details = [`Device: ${device}`, ...(ip ? [`IP address: ${ip}`] : []), `Time: ${time}`];
+
+    return {
+        subject: 'New sign-in to your DevSolve account',
+        html: renderLayout({
+            heading: 'New sign-in',
+            content: paragraph(`Hi ${escapeHtml(name)}, your account was just signed in to from a device or location we haven't seen before.`)
+                + paragraph(details.map(escapeHtml).join('<br>'))
+                + paragraph('If this was you, there\'s nothing to do. If not, sign that device out and reset your password.'),
+            action: { label: 'Review your sessions', url },
+            footer: 'We send this email for every sign-in from a new device or IP address. It can\'t be turned off.',
+        }),
+        text: `Hi ${name}, your account was just signed in to from a device or location we haven't seen before.\n\n${details.join('\n')}\n\nIf this was you, there's nothing to do. If not, sign that device out and reset your password:\n${url}`,
+    };
+}
+
+// ============================================
+// Notification Emails
+// ============================================
+
+export function newAnswerEmail({
+    name,
+    answererName,
+    questionTitle,
+    excerpt,
+    url,
+    ...links
+}: NotificationLinks & {
+    name: string;
+    answererName: string;
+    questionTitle: string;
+    excerpt: string;
+    url: string;
+}): EmailMessage {
+    const reason = 'You\'re receiving this because someone answered your question.';
+
+    return {
+        subject: `New answer to "${questionTitle}"`,
+        html: renderLayout({
+            heading: 'Your question has a new answer',
+            content: paragraph(`Hi ${escapeHtml(name)}, ${escapeHtml(answererName)} answered <strong>${escapeHtml(questionTitle)}</strong>:`)
+                + quote(excerpt),
+            action: { label: 'Read the Answer', url },
+            footer: notificationFooter(reason, links),
+        }),
+        text: `Hi ${name}, ${answererName} answered "${questionTitle}":\n\n${excerpt}\n\nRead the answer: ${url}\n\n${notificationFooterText(reason, links)}`,
+    };
+}
+
+export function mentionEmail({
+    name,
+    actorName,
+    questionTitle,
+    comment,
+    url,
+    ...links
+}: NotificationLinks & {
+    name: string;
+    actorName: string;
+    questionTitle: string;
+    comment: string;
+    url: string;
+}): EmailMessage {
+    const reason = 'You\'re receiving this because someone mentioned you in a comment.';
+
+    return {
+        subject: `${actorName} mentioned you on "${questionTitle}"`,
+        html: renderLayout({
+            heading: 'You were mentioned',
+            content: paragraph(`Hi ${escapeHtml(name)}, ${escapeHtml(actorName)} mentioned you on <strong>${escapeHtml(questionTitle)}</strong>:`)
+                + quote(comment),
+            action: { label: 'View the Comment', url },
+            footer: notificationFooter(reason, links),
+        }),
+        text: `Hi ${name}, ${actorName} mentioned you on "${questionTitle}":\n\n${comment}\n\nView the comment: ${url}\n\n${notificationFooterText(reason, links)}`,
+    };
+}
+
+export function digestEmail({
+    name,
+    frequency,
+    sections,
+    url,
+    ...links
+}: NotificationLinks & {
+    name: string;
+    frequency: DigestFrequency;
+    sections: DigestSection[];
+    url: string;
+}): EmailMessage {
+    const period = frequency === 'daily' ? 'today' : 'this week';
+    const count = sections.reduce((sum, section) => sum + section.questions.length, 0);
+    const reason = `You're receiving this ${frequency} digest because you follow these tags.`;
+
+    const sectionsHtml = sections.map((section) => `
+          <h3 style="color: #0f172a; font-size: 16px; margin: 24px 0 8px;">[${escapeHtml(section.tag)}]</h3>
+          <ul style="margin: 0; padding: 0 0 0 20px; color: #475569; line-height: 1.6;">
+            ${section.questions.map((q) => `<li style="margin-bottom: 8px;">
+              <a href="${escapeHtml(q.url)}" style="color: #0f172a; text-decoration: none; font-weight: 500;">${escapeHtml(q.title)}</a>
+              <span style="color: #94a3b8; font-size: 13px;">&middot; ${q.score} votes &middot; ${q.answerCount} answers</span>
+            </li>`).join('')}
+          </ul>`).join('');
+
+    const sectionsText = sections.map((section) =>
+        `[${section.tag}]\n${section.questions.map((q) => `- ${q.title} (${q.score} votes, ${q.answerCount} answers)\n  ${q.url}`).join('\n')}`
+    ).join('\n\n');
+
+    return {
+        subject: `${count} new question${count !== 1 ? 's' : ''} in tags you follow`,
+        html: renderLayout({
+            heading: `New in your tags ${period}`,
+            content: paragraph(`Hi ${escapeHtml(name)}, here's what was asked ${period} in the tags you follow.`) + sectionsHtml,
+            action: { label: 'Browse Questions', url },
+            footer: notificationFooter(reason, links),
+        }),
+        text: `Hi ${name}, here's what was asked ${period} in the tags you follow.\n\n${sectionsText}\n\n${notificationFooterText(reason, links)}`,
+    };
+}
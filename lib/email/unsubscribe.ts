@@ -0,0 +1,81 @@
+/**
+ * Unsubscribe Tokens
+ * ==================
+ * Signed, non-expiring tokens for one-click unsubscribe links. A token names
+ * the user and the kind of email it turns off, so no lookup table is needed
+ * and an old email's link keeps working.
+ */
+
+import crypto from 'crypto';
+import { getAppUrl } from './mailer';
+
+// ============================================
+// Types
+// ============================================
+
+// The email kinds a link can turn off; "all" turns off every notification email
+export type UnsubscribeScope = 'answers' | 'mentions' | 'digest' | 'all';
+
+export const UNSUBSCRIBE_SCOPES: UnsubscribeScope[] = ['answers', 'mentions', 'digest', 'all'];
+
+// ============================================
+// Tokens
+// ============================================
+
+function getSecret(): string {
+    const secret = process.env.EMAIL_TOKEN_SECRET || process.env.JWT_SECRET;
+    if (!secret) {
+        throw new Error('Set EMAIL_TOKEN_SECRET (or JWT_SECRET) to sign unsubscribe links');
+    }
+    return secret;
+}
+
+function sign(payload: string): string {
+    return crypto.createHmac('sha256', getSecret()).update(`unsubscribe:${payload}`).digest('base64url');
+}
+
+export function createUnsubscribeToken(userId: string, scope: UnsubscribeScope): string {
+    const payload = Buffer.from(`${userId}:${scope}`).toString('base64url');
+    return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * The user and scope a token was issued for, or null if it is malformed or forged
+ */
+export function verifyUnsubscribeToken(token: string): { userId: string; scope: UnsubscribeScope } | null {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+
+    const expected = Buffer.from(sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        return null;
+    }
+
+    const [userId, scope] = Buffer.from(payload, 'base64url').toString().split(':');
+    if (!userId || !UNSUBSCRIBE_SCOPES.includes(scope as UnsubscribeScope)) return null;
+
+    return { userId, scope: scope as UnsubscribeScope };
+}
+
+// ============================================
+// Links
+// ============================================
+
+/**
+ * Page that confirms the unsubscribe (linked from the email body)
+ */
+export function unsubscribePageUrl(token: string): string {
+    return `${getAppUrl()}/unsubscribe?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * List-Unsubscribe headers for one-click unsubscribe (RFC 8058). Mail clients
+ * POST straight to the API, so there is no page in between.
+ */
+export function unsubscribeHeaders(token: string): Record<string, string> {
+    return {
+        'List-Unsubscribe': `<${getAppUrl()}/api/email/unsubscribe?token=${encodeURIComponent(token)}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    };
+}
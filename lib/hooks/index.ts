@@ -11,3 +11,6 @@ export type {
     Conversation,
     Message
 } from './useChat';
+
+export { useQuestionEvents } from './useQuestionEvents';
+export type { UseQuestionEventsReturn } from './useQuestionEvents';
@@ -111,7 +111,7 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
             const data = await response.json();
 
             if (!response.ok) {
-                throw new Error(data.error || 'Failed to load conversations');
+                throw new Error(data.error || data.message || 'Failed to load conversations');
             }
 
             // Normalize IDs
@@ -140,7 +140,7 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
             const data = await response.json();
 
             if (!response.ok) {
-                throw new Error(data.error || 'Failed to create conversation');
+                throw new Error(data.error || data.message || 'Failed to create conversation');
             }
 
             const conversation = {
@@ -170,7 +170,7 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
             const data = await response.json();
 
             if (!response.ok) {
-                throw new Error(data.error || 'Failed to load conversation');
+                throw new Error(data.error || data.message || 'Failed to load conversation');
             }
 
             const conversation = {
@@ -200,7 +200,7 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
 
             if (!response.ok) {
                 const data = await response.json();
-                throw new Error(data.error || 'Failed to delete conversation');
+                throw new Error(data.error || data.message || 'Failed to delete conversation');
             }
 
             setConversations(prev => prev.filter(c => c.id !== conversationId));
@@ -224,7 +224,7 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
 
             if (!response.ok) {
                 const data = await response.json();
-                throw new Error(data.error || 'Failed to update conversation');
+                throw new Error(data.error || data.message || 'Failed to update conversation');
             }
 
             setConversations(prev =>
@@ -284,7 +284,7 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
 
             if (!response.ok) {
                 const data = await response.json();
-                throw new Error(data.error || 'Failed to send message');
+                throw new Error(data.error || data.message || 'Failed to send message');
             }
 
             // Process SSE stream
@@ -402,7 +402,7 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
 
             if (!response.ok) {
                 const data = await response.json();
-                throw new Error(data.error || 'Failed to regenerate response');
+                throw new Error(data.error || data.message || 'Failed to regenerate response');
             }
 
             // Process SSE stream
@@ -0,0 +1,75 @@
+'use client';
+
+/**
+ * useQuestionEvents Hook
+ * ======================
+ * Subscribes to a question's server-sent events and merges new answers,
+ * votes, acceptance and close/reopen into the page's question state.
+ * Comments are collected per post for each CommentThread to pick up.
+ */
+
+import { useState, useEffect } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { applyQuestionEvent } from '@/lib/realtime/merge';
+import type { LiveQuestion } from '@/lib/realtime/merge';
+import type { LiveCommentPayload, QuestionEvent } from '@/lib/realtime/types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface UseQuestionEventsReturn {
+    // Whether the stream is currently open
+    isConnected: boolean;
+    // Comments pushed since the page loaded, by post id, oldest first
+    liveComments: Record<string, LiveCommentPayload[]>;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+export function useQuestionEvents<Q extends LiveQuestion>(
+    questionId: string | undefined,
+    setQuestion: Dispatch<SetStateAction<Q | null>>
+): UseQuestionEventsReturn {
+    const [isConnected, setIsConnected] = useState(false);
+    const [liveComments, setLiveComments] = useState<Record<string, LiveCommentPayload[]>>({});
+
+    useEffect(() => {
+        if (!questionId) return;
+
+        // EventSource reconnects on its own after a dropped connection
+        const source = new EventSource(`/api/questions/${questionId}/events`);
+
+        source.onopen = () => setIsConnected(true);
+        source.onerror = () => setIsConnected(false);
+
+        source.onmessage = (message) => {
+            let event: QuestionEvent;
+            try {
+                event = JSON.parse(message.data);
+            } catch {
+                // Skip malformed JSON
+                return;
+            }
+
+            if (event.type === 'comment') {
+                setLiveComments(prev => ({
+                    ...prev,
+                    [event.postId]: [...(prev[event.postId] ?? []), event.comment],
+                }));
+                return;
+            }
+
+            setQuestion(prev => prev ? applyQuestionEvent(prev, event) : prev);
+        };
+
+        return () => {
+            source.close();
+            setIsConnected(false);
+        };
+    }, [questionId, setQuestion]);
+
+    return { isConnected, liveComments };
+}
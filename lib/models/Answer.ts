@@ -16,12 +16,17 @@ export interface IAnswer {
     question: Types.ObjectId;
     upvotes: Types.ObjectId[];
     downvotes: Types.ObjectId[];
+    // Denormalized: upvotes - downvotes, and last edit time
+    score: number;
+    lastActivityAt: Date;
     isAccepted: boolean;
-    comments: {
-        body: string;
-        author: Types.ObjectId;
-        createdAt: Date;
-    }[];
+    editedAt?: Date;
+    editedBy?: Types.ObjectId;
+    isDeleted: boolean;
+    deletedAt?: Date;
+    deletedBy?: Types.ObjectId;
+    // Set when the answer was deleted as part of deleting its question
+    deletedWithQuestion?: boolean;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -61,15 +66,33 @@ const AnswerSchema = new Schema<IAnswerDocument, IAnswerModel>(
             type: Schema.Types.ObjectId,
             ref: 'User',
         }],
+        score: {
+            type: Number,
+            default: 0,
+        },
+        lastActivityAt: {
+            type: Date,
+            default: Date.now,
+        },
         isAccepted: {
             type: Boolean,
             default: false,
         },
-        comments: [{
-            body: { type: String, required: true, maxlength: 600 },
-            author: { type: Schema.Types.ObjectId, ref: 'User', required: true },
-            createdAt: { type: Date, default: Date.now },
-        }],
+        editedAt: Date,
+        editedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+        isDeleted: {
+            type: Boolean,
+            default: false,
+        },
+        deletedAt: Date,
+        deletedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+        deletedWithQuestion: Boolean,
     },
     {
         timestamps: true,
@@ -91,6 +114,7 @@ AnswerSchema.virtual('voteScore').get(function () {
 // ============================================
 
 AnswerSchema.index({ question: 1, createdAt: -1 });
+AnswerSchema.index({ body: 'text' }); // Text search
 AnswerSchema.index({ author: 1 });
 AnswerSchema.index({ isAccepted: 1 });
 
@@ -0,0 +1,104 @@
+/**
+ * Audit Log Model
+ * ===============
+ * Append-only record of admin actions on other users' accounts, such as
+ * role changes. Entries are never edited or deleted by the app.
+ */
+
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+// ============================================
+// TypeScript Interfaces
+// ============================================
+
+export type AuditAction = 'role_change';
+
+export interface IAuditLog {
+    actor: Types.ObjectId;
+    action: AuditAction;
+    target: Types.ObjectId;
+    // Field values before and after the change
+    from: string;
+    to: string;
+    reason: string;
+    ip?: string;
+    createdAt: Date;
+}
+
+export interface IAuditLogDocument extends IAuditLog, Document { }
+
+export type IAuditLogModel = Model<IAuditLogDocument>;
+
+// ============================================
+// Schema Definition
+// ============================================
+
+const AuditLogSchema = new Schema<IAuditLogDocument, IAuditLogModel>(
+    {
+        actor: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: [true, 'Actor is required'],
+        },
+        action: {
+            type: String,
+            required: true,
+            enum: {
+                values: ['role_change'],
+                message: 'Invalid audit action',
+            },
+        },
+        target: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: [true, 'Target user is required'],
+        },
+        from: {
+            type: String,
+            required: true,
+        },
+        to: {
+            type: String,
+            required: true,
+        },
+        reason: {
+            type: String,
+            trim: true,
+            maxlength: [500, 'Reason cannot exceed 500 characters'],
+            default: '',
+        },
+        ip: {
+            type: String,
+            default: null,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+        toJSON: {
+            transform: (_, ret: Record<string, unknown>) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+// A user's history, and everything an admin has done
+AuditLogSchema.index({ target: 1, createdAt: -1 });
+AuditLogSchema.index({ actor: 1, createdAt: -1 });
+
+// ============================================
+// Model Export
+// ============================================
+
+const AuditLog: IAuditLogModel =
+    (mongoose.models.AuditLog as IAuditLogModel) ||
+    mongoose.model<IAuditLogDocument, IAuditLogModel>('AuditLog', AuditLogSchema);
+
+export default AuditLog;
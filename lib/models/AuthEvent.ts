@@ -0,0 +1,140 @@
+/**
+ * Auth Event Model
+ * ================
+ * Append-only security log of sign-ins, failed attempts, lockouts, password
+ * resets, email verification and refresh token reuse. Failed attempts for
+ * unknown addresses have no user, only the email that was tried. Entries
+ * expire after a year.
+ */
+
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+// ============================================
+// TypeScript Interfaces
+// ============================================
+
+export type AuthEventType =
+    | 'login'
+    | 'login_failed'
+    | 'account_locked'
+    | 'password_reset_requested'
+    | 'password_reset'
+    | 'email_verified'
+    | 'refresh_reuse';
+
+export type AuthMethod = 'password' | 'two_factor' | 'recovery_code' | 'oauth';
+
+export interface IAuthEvent {
+    type: AuthEventType;
+    user?: Types.ObjectId;
+    email?: string;
+    method?: AuthMethod;
+    // Why an attempt failed, e.g. "wrong_password" or "locked"
+    reason?: string;
+    ip?: string;
+    userAgent?: string;
+    // A login from a device or IP this account hadn't signed in from before
+    newContext?: boolean;
+    createdAt: Date;
+}
+
+export interface IAuthEventDocument extends IAuthEvent, Document { }
+
+export type IAuthEventModel = Model<IAuthEventDocument>;
+
+export const AUTH_EVENT_TYPES: AuthEventType[] = [
+    'login',
+    'login_failed',
+    'account_locked',
+    'password_reset_requested',
+    'password_reset',
+    'email_verified',
+    'refresh_reuse',
+];
+
+// ============================================
+// Schema Definition
+// ============================================
+
+const AuthEventSchema = new Schema<IAuthEventDocument, IAuthEventModel>(
+    {
+        type: {
+            type: String,
+            required: true,
+            enum: {
+                values: AUTH_EVENT_TYPES,
+                message: 'Invalid auth event type',
+            },
+        },
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            default: null,
+        },
+        email: {
+            type: String,
+            lowercase: true,
+            trim: true,
+            maxlength: 254,
+            default: null,
+        },
+        method: {
+            type: String,
+            enum: ['password', 'two_factor', 'recovery_code', 'oauth', null],
+            default: null,
+        },
+        reason: {
+            type: String,
+            maxlength: 100,
+            default: null,
+        },
+        ip: {
+            type: String,
+            default: null,
+        },
+        userAgent: {
+            type: String,
+            maxlength: 500,
+            default: '',
+        },
+        newContext: {
+            type: Boolean,
+            default: false,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+        toJSON: {
+            transform: (_, ret: Record<string, unknown>) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+// A user's history, the known-device check, and site-wide views by type or address
+AuthEventSchema.index({ user: 1, createdAt: -1 });
+AuthEventSchema.index({ user: 1, type: 1, ip: 1 });
+AuthEventSchema.index({ type: 1, createdAt: -1 });
+AuthEventSchema.index({ ip: 1, createdAt: -1 });
+AuthEventSchema.index({ email: 1, createdAt: -1 });
+
+// Kept for a year
+AuthEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: 365 * 24 * 60 * 60 });
+
+// ============================================
+// Model Export
+// ============================================
+
+const AuthEvent: IAuthEventModel =
+    (mongoose.models.AuthEvent as IAuthEventModel) ||
+    mongoose.model<IAuthEventDocument, IAuthEventModel>('AuthEvent', AuthEventSchema);
+
+export default AuthEvent;
@@ -0,0 +1,104 @@
+/**
+ * Bookmark Model
+ * ==============
+ * A user's saved question or answer, optionally filed in a collection
+ * and annotated with a note only they can see
+ */
+
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+// ============================================
+// TypeScript Interfaces
+// ============================================
+
+export type BookmarkPostType = 'question' | 'answer';
+
+export interface IBookmark {
+    user: Types.ObjectId;
+    postType: BookmarkPostType;
+    post: Types.ObjectId;
+    // The question itself, or the answer's question (for tag filters and grouping)
+    question: Types.ObjectId;
+    // Unfiled when unset ("collection" is reserved by Mongoose)
+    collectionId?: Types.ObjectId | null;
+    note: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IBookmarkDocument extends IBookmark, Document { }
+
+export type IBookmarkModel = Model<IBookmarkDocument>;
+
+// ============================================
+// Schema Definition
+// ============================================
+
+const BookmarkSchema = new Schema<IBookmarkDocument, IBookmarkModel>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        postType: {
+            type: String,
+            required: true,
+            enum: {
+                values: ['question', 'answer'],
+                message: 'Post type must be question or answer',
+            },
+        },
+        post: {
+            type: Schema.Types.ObjectId,
+            required: [true, 'Post is required'],
+        },
+        question: {
+            type: Schema.Types.ObjectId,
+            ref: 'Question',
+            required: [true, 'Question is required'],
+        },
+        collectionId: {
+            type: Schema.Types.ObjectId,
+            ref: 'BookmarkCollection',
+            default: null,
+        },
+        note: {
+            type: String,
+            trim: true,
+            default: '',
+            maxlength: [1000, 'Note cannot exceed 1000 characters'],
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (_, ret: Record<string, unknown>) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+// A post is saved at most once per user
+BookmarkSchema.index({ user: 1, postType: 1, post: 1 }, { unique: true });
+BookmarkSchema.index({ user: 1, createdAt: -1 });
+BookmarkSchema.index({ user: 1, collectionId: 1, createdAt: -1 });
+BookmarkSchema.index({ user: 1, question: 1 });
+
+// ============================================
+// Model Export
+// ============================================
+
+const Bookmark: IBookmarkModel =
+    (mongoose.models.Bookmark as IBookmarkModel) ||
+    mongoose.model<IBookmarkDocument, IBookmarkModel>('Bookmark', BookmarkSchema);
+
+export default Bookmark;
@@ -0,0 +1,70 @@
+/**
+ * BookmarkCollection Model
+ * ========================
+ * Named, per-user folders for saved questions and answers
+ */
+
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+// ============================================
+// TypeScript Interfaces
+// ============================================
+
+export interface IBookmarkCollection {
+    user: Types.ObjectId;
+    name: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IBookmarkCollectionDocument extends IBookmarkCollection, Document { }
+
+export type IBookmarkCollectionModel = Model<IBookmarkCollectionDocument>;
+
+// ============================================
+// Schema Definition
+// ============================================
+
+const BookmarkCollectionSchema = new Schema<IBookmarkCollectionDocument, IBookmarkCollectionModel>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        name: {
+            type: String,
+            required: [true, 'Collection name is required'],
+            trim: true,
+            maxlength: [50, 'Collection name cannot exceed 50 characters'],
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (_, ret: Record<string, unknown>) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+// Names are unique per user
+BookmarkCollectionSchema.index({ user: 1, name: 1 }, { unique: true });
+
+// ============================================
+// Model Export
+// ============================================
+
+const BookmarkCollection: IBookmarkCollectionModel =
+    (mongoose.models.BookmarkCollection as IBookmarkCollectionModel) ||
+    mongoose.model<IBookmarkCollectionDocument, IBookmarkCollectionModel>('BookmarkCollection', BookmarkCollectionSchema);
+
+export default BookmarkCollection;
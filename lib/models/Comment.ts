@@ -0,0 +1,156 @@
+/**
+ * Comment Model
+ * =============
+ * Short clarifying comments on questions and answers
+ */
+
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+// ============================================
+// TypeScript Interfaces
+// ============================================
+
+export type CommentPostType = 'question' | 'answer';
+
+export interface IComment {
+    postType: CommentPostType;
+    post: Types.ObjectId;
+    question: Types.ObjectId;
+    body: string;
+    author: Types.ObjectId;
+    mentions: Types.ObjectId[];
+    editedAt?: Date;
+    isDeleted: boolean;
+    deletedAt?: Date;
+    deletedBy?: Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface ICommentDocument extends IComment, Document { }
+
+export interface ICommentListOptions {
+    page?: number;
+    limit?: number;
+    includeDeleted?: boolean;
+}
+
+export interface ICommentModel extends Model<ICommentDocument> {
+    findByPost(
+        postType: CommentPostType,
+        postId: string,
+        options?: ICommentListOptions
+    ): Promise<{ comments: ICommentDocument[]; total: number }>;
+}
+
+// ============================================
+// Schema Definition
+// ============================================
+
+const CommentSchema = new Schema<ICommentDocument, ICommentModel>(
+    {
+        postType: {
+            type: String,
+            required: true,
+            enum: {
+                values: ['question', 'answer'],
+                message: 'Post type must be question or answer',
+            },
+        },
+        post: {
+            type: Schema.Types.ObjectId,
+            required: [true, 'Post is required'],
+        },
+        question: {
+            type: Schema.Types.ObjectId,
+            ref: 'Question',
+            required: [true, 'Question is required'],
+        },
+        body: {
+            type: String,
+            required: [true, 'Comment body is required'],
+            trim: true,
+            minlength: [5, 'Comment must be at least 5 characters'],
+            maxlength: [600, 'Comment cannot exceed 600 characters'],
+        },
+        author: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        mentions: [{
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        }],
+        editedAt: Date,
+        isDeleted: {
+            type: Boolean,
+            default: false,
+        },
+        deletedAt: Date,
+        deletedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (_, ret: Record<string, unknown>) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+CommentSchema.index({ postType: 1, post: 1, createdAt: 1 });
+CommentSchema.index({ question: 1 });
+CommentSchema.index({ author: 1 });
+
+// ============================================
+// Static Methods
+// ============================================
+
+/**
+ * Paginated comments for a post, oldest first
+ */
+CommentSchema.statics.findByPost = async function (
+    postType: CommentPostType,
+    postId: string,
+    options: ICommentListOptions = {}
+) {
+    const { page = 1, limit = 5, includeDeleted = false } = options;
+
+    const query: Record<string, unknown> = { postType, post: postId };
+    if (!includeDeleted) {
+        query.isDeleted = false;
+    }
+
+    const [comments, total] = await Promise.all([
+        this.find(query)
+            .populate('author', 'name avatar reputation')
+            .sort({ createdAt: 1 })
+            .skip((page - 1) * limit)
+            .limit(limit),
+        this.countDocuments(query),
+    ]);
+
+    return { comments, total };
+};
+
+// ============================================
+// Model Export
+// ============================================
+
+const Comment: ICommentModel =
+    (mongoose.models.Comment as ICommentModel) ||
+    mongoose.model<ICommentDocument, ICommentModel>('Comment', CommentSchema);
+
+export default Comment;
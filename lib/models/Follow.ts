@@ -0,0 +1,82 @@
+/**
+ * Follow Model
+ * ============
+ * A user watching a question or a tag. Question followers hear about new
+ * answers, comments and acceptances; tag followers hear about new questions.
+ */
+
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+// ============================================
+// TypeScript Interfaces
+// ============================================
+
+export type FollowTargetType = 'question' | 'tag';
+
+export interface IFollow {
+    user: Types.ObjectId;
+    targetType: FollowTargetType;
+    // A question ID, or a canonical tag name
+    target: string;
+    createdAt: Date;
+}
+
+export interface IFollowDocument extends IFollow, Document { }
+
+export type IFollowModel = Model<IFollowDocument>;
+
+// ============================================
+// Schema Definition
+// ============================================
+
+const FollowSchema = new Schema<IFollowDocument, IFollowModel>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        targetType: {
+            type: String,
+            required: true,
+            enum: {
+                values: ['question', 'tag'],
+                message: 'Follow target must be a question or tag',
+            },
+        },
+        target: {
+            type: String,
+            required: [true, 'Follow target is required'],
+            trim: true,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+        toJSON: {
+            transform: (_, ret: Record<string, unknown>) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+FollowSchema.index({ user: 1, targetType: 1, target: 1 }, { unique: true });
+// Fan-out: everyone following a question or tag
+FollowSchema.index({ targetType: 1, target: 1 });
+
+// ============================================
+// Model Export
+// ============================================
+
+const Follow: IFollowModel =
+    (mongoose.models.Follow as IFollowModel) ||
+    mongoose.model<IFollowDocument, IFollowModel>('Follow', FollowSchema);
+
+export default Follow;
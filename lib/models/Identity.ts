@@ -0,0 +1,92 @@
+/**
+ * Identity Model
+ * ==============
+ * An external identity provider account (OAuth / OpenID Connect) linked to
+ * a user. The provider's subject ("sub") is what identifies the account;
+ * the email is kept for display and can change at the provider.
+ */
+
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+// ============================================
+// TypeScript Interfaces
+// ============================================
+
+export interface IIdentity {
+    user: Types.ObjectId;
+    // Provider id from OAUTH_PROVIDERS, e.g. "company"
+    provider: string;
+    subject: string;
+    email?: string;
+    lastUsedAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IIdentityDocument extends IIdentity, Document { }
+
+export type IIdentityModel = Model<IIdentityDocument>;
+
+// ============================================
+// Schema Definition
+// ============================================
+
+const IdentitySchema = new Schema<IIdentityDocument, IIdentityModel>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: [true, 'User is required'],
+        },
+        provider: {
+            type: String,
+            required: [true, 'Provider is required'],
+            trim: true,
+        },
+        subject: {
+            type: String,
+            required: [true, 'Subject is required'],
+        },
+        email: {
+            type: String,
+            lowercase: true,
+            trim: true,
+            default: null,
+        },
+        lastUsedAt: {
+            type: Date,
+            default: Date.now,
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (_, ret: Record<string, unknown>) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+// One local account per provider account
+IdentitySchema.index({ provider: 1, subject: 1 }, { unique: true });
+
+// A user's linked accounts
+IdentitySchema.index({ user: 1 });
+
+// ============================================
+// Model Export
+// ============================================
+
+const Identity: IIdentityModel =
+    (mongoose.models.Identity as IIdentityModel) ||
+    mongoose.model<IIdentityDocument, IIdentityModel>('Identity', IdentitySchema);
+
+export default Identity;
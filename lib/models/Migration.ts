@@ -0,0 +1,59 @@
+/**
+ * Migration Model
+ * ===============
+ * One document per data migration that has finished, so each one runs once.
+ * Written by the runner in lib/db/migrations.ts.
+ */
+
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+// ============================================
+// TypeScript Interfaces
+// ============================================
+
+export interface IMigration {
+    name: string;
+    appliedAt: Date;
+}
+
+export interface IMigrationDocument extends IMigration, Document { }
+
+export type IMigrationModel = Model<IMigrationDocument>;
+
+// ============================================
+// Schema Definition
+// ============================================
+
+const MigrationSchema = new Schema<IMigrationDocument, IMigrationModel>(
+    {
+        name: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        appliedAt: {
+            type: Date,
+            default: Date.now,
+        },
+    },
+    {
+        toJSON: {
+            transform: (_, ret: Record<string, unknown>) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+// ============================================
+// Model Export
+// ============================================
+
+const Migration: IMigrationModel =
+    (mongoose.models.Migration as IMigrationModel) ||
+    mongoose.model<IMigrationDocument, IMigrationModel>('Migration', MigrationSchema);
+
+export default Migration;
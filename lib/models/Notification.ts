@@ -0,0 +1,138 @@
+/**
+ * Notification Model
+ * ==================
+ * An in-app notification for one recipient. Text is rendered from the type
+ * and the linked question at read time, so edits to titles show up.
+ */
+
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+// ============================================
+// TypeScript Interfaces
+// ============================================
+
+export type NotificationType =
+    | 'question' // New question in a followed tag
+    | 'answer' // New answer on a followed question
+    | 'comment' // New comment on a followed question or on your answer
+    | 'mention' // @mentioned in a comment
+    | 'accepted' // An answer was accepted
+    | 'reputation'; // Votes changed your reputation
+
+export type NotificationPostType = 'question' | 'answer';
+
+export interface INotification {
+    recipient: Types.ObjectId;
+    type: NotificationType;
+    // Who triggered it; unset for anonymous events such as votes
+    actor?: Types.ObjectId | null;
+    question: Types.ObjectId;
+    postType: NotificationPostType;
+    post: Types.ObjectId;
+    comment?: Types.ObjectId | null;
+    // The followed tag that matched a new question
+    tag?: string | null;
+    // Net reputation change, for reputation notifications
+    points?: number;
+    isRead: boolean;
+    readAt?: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface INotificationDocument extends INotification, Document { }
+
+export type INotificationModel = Model<INotificationDocument>;
+
+// ============================================
+// Schema Definition
+// ============================================
+
+const NotificationSchema = new Schema<INotificationDocument, INotificationModel>(
+    {
+        recipient: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        type: {
+            type: String,
+            required: true,
+            enum: {
+                values: ['question', 'answer', 'comment', 'mention', 'accepted', 'reputation'],
+                message: 'Invalid notification type',
+            },
+        },
+        actor: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            default: null,
+        },
+        question: {
+            type: Schema.Types.ObjectId,
+            ref: 'Question',
+            required: [true, 'Question is required'],
+        },
+        postType: {
+            type: String,
+            required: true,
+            enum: ['question', 'answer'],
+        },
+        post: {
+            type: Schema.Types.ObjectId,
+            required: [true, 'Post is required'],
+        },
+        comment: {
+            type: Schema.Types.ObjectId,
+            ref: 'Comment',
+            default: null,
+        },
+        tag: {
+            type: String,
+            default: null,
+        },
+        points: {
+            type: Number,
+            default: 0,
+        },
+        isRead: {
+            type: Boolean,
+            default: false,
+        },
+        readAt: {
+            type: Date,
+            default: null,
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (_, ret: Record<string, unknown>) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+NotificationSchema.index({ recipient: 1, createdAt: -1 });
+NotificationSchema.index({ recipient: 1, isRead: 1, createdAt: -1 });
+// Vote notifications are folded into the unread one for the same post
+NotificationSchema.index({ recipient: 1, type: 1, post: 1, isRead: 1 });
+NotificationSchema.index({ question: 1 });
+
+// ============================================
+// Model Export
+// ============================================
+
+const Notification: INotificationModel =
+    (mongoose.models.Notification as INotificationModel) ||
+    mongoose.model<INotificationDocument, INotificationModel>('Notification', NotificationSchema);
+
+export default Notification;
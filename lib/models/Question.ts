@@ -5,17 +5,30 @@
  */
 
 import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { parseSearchQuery } from '@/lib/search/query';
+import { compileSearchQuery } from '@/lib/search/compile';
 
 // ============================================
 // TypeScript Interfaces
 // ============================================
 
+export interface ICloseVote {
+    user: Types.ObjectId;
+    reason: string;
+    duplicateOf?: Types.ObjectId;
+    createdAt: Date;
+}
+
 export interface IQuestion {
     title: string;
     body: string;
     author: Types.ObjectId;
     tags: string[];
     views: number;
+    // Denormalized: upvotes - downvotes, live answers, and last answer/edit time
+    score: number;
+    answerCount: number;
+    lastActivityAt: Date;
     upvotes: Types.ObjectId[];
     downvotes: Types.ObjectId[];
     answers: Types.ObjectId[];
@@ -24,6 +37,18 @@ export interface IQuestion {
     closedReason?: string;
     closedAt?: Date;
     closedBy?: Types.ObjectId;
+    duplicateOf?: Types.ObjectId;
+    closeVotes: ICloseVote[];
+    reopenVotes: ICloseVote[];
+    editedAt?: Date;
+    editedBy?: Types.ObjectId;
+    isDeleted: boolean;
+    deletedAt?: Date;
+    deletedBy?: Types.ObjectId;
+    // Cached title/body embedding for similar-question lookups; stale once edited after embeddedAt
+    embedding?: number[];
+    embeddingModel?: string;
+    embeddedAt?: Date;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -31,8 +56,6 @@ export interface IQuestion {
 export interface IQuestionDocument extends IQuestion, Document {
     // Virtual: Calculate vote score
     voteScore: number;
-    // Virtual: Answer count
-    answerCount: number;
 }
 
 export interface IQuestionModel extends Model<IQuestionDocument> {
@@ -75,6 +98,19 @@ const QuestionSchema = new Schema<IQuestionDocument, IQuestionModel>(
             default: 0,
             min: 0,
         },
+        score: {
+            type: Number,
+            default: 0,
+        },
+        answerCount: {
+            type: Number,
+            default: 0,
+            min: 0,
+        },
+        lastActivityAt: {
+            type: Date,
+            default: Date.now,
+        },
         upvotes: [{
             type: Schema.Types.ObjectId,
             ref: 'User',
@@ -101,6 +137,48 @@ const QuestionSchema = new Schema<IQuestionDocument, IQuestionModel>(
             type: Schema.Types.ObjectId,
             ref: 'User',
         },
+        duplicateOf: {
+            type: Schema.Types.ObjectId,
+            ref: 'Question',
+        },
+        closeVotes: [{
+            user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+            reason: { type: String, required: true },
+            duplicateOf: { type: Schema.Types.ObjectId, ref: 'Question' },
+            createdAt: { type: Date, default: Date.now },
+        }],
+        reopenVotes: [{
+            user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+            reason: { type: String, default: 'reopen' },
+            createdAt: { type: Date, default: Date.now },
+        }],
+        editedAt: Date,
+        editedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+        isDeleted: {
+            type: Boolean,
+            default: false,
+        },
+        deletedAt: Date,
+        deletedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+        embedding: {
+            type: [Number],
+            default: undefined,
+            select: false,
+        },
+        embeddingModel: {
+            type: String,
+            select: false,
+        },
+        embeddedAt: {
+            type: Date,
+            select: false,
+        },
     },
     {
         timestamps: true,
@@ -117,37 +195,52 @@ QuestionSchema.virtual('voteScore').get(function () {
     return this.upvotes.length - this.downvotes.length;
 });
 
-QuestionSchema.virtual('answerCount').get(function () {
-    return this.answers.length;
-});
-
 // ============================================
 // Indexes
 // ============================================
 
-QuestionSchema.index({ title: 'text', body: 'text' }); // Text search
+// Text search; title and tag matches outrank body matches.
+// Replaces the old title/body index; lib/db/migrations.ts swaps them on existing databases.
+QuestionSchema.index(
+    { title: 'text', tags: 'text', body: 'text' },
+    { name: 'question_text', weights: { title: 10, tags: 5, body: 1 } }
+);
 QuestionSchema.index({ tags: 1 });
 QuestionSchema.index({ author: 1 });
 QuestionSchema.index({ createdAt: -1 });
 QuestionSchema.index({ views: -1 });
+QuestionSchema.index({ isDeleted: 1, createdAt: -1 });
+QuestionSchema.index({ score: -1, createdAt: -1 });
+QuestionSchema.index({ lastActivityAt: -1 });
+QuestionSchema.index({ answerCount: 1, createdAt: -1 });
 
 // ============================================
 // Static Methods
 // ============================================
 
 QuestionSchema.statics.findByTag = function (tag: string) {
-    return this.find({ tags: tag.toLowerCase() })
+    return this.find({ tags: tag.toLowerCase(), isDeleted: { $ne: true } })
         .populate('author', 'name avatar reputation')
         .sort({ createdAt: -1 });
 };
 
+// Accepts the search query language; see lib/search/query.ts
 QuestionSchema.statics.searchQuestions = function (query: string) {
+    const { filter, text } = compileSearchQuery(parseSearchQuery(query));
+    const conditions = { ...filter, isDeleted: { $ne: true } };
+
+    if (!text) {
+        return this.find(conditions)
+            .populate('author', 'name avatar reputation')
+            .sort({ createdAt: -1 });
+    }
+
     return this.find(
-        { $text: { $search: query } },
-        { score: { $meta: 'textScore' } }
+        { $text: { $search: text }, ...conditions },
+        { textScore: { $meta: 'textScore' } }
     )
         .populate('author', 'name avatar reputation')
-        .sort({ score: { $meta: 'textScore' } });
+        .sort({ textScore: { $meta: 'textScore' } });
 };
 
 // ============================================
@@ -0,0 +1,146 @@
+/**
+ * Reputation Event Model
+ * ======================
+ * Audit ledger of every reputation change. A user's reputation is the sum
+ * of their non-reversed events, so totals can always be recomputed.
+ */
+
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+// ============================================
+// TypeScript Interfaces
+// ============================================
+
+export type ReputationEventType =
+    | 'question_upvoted'
+    | 'question_downvoted'
+    | 'answer_upvoted'
+    | 'answer_downvoted'
+    | 'downvote_cast'
+    | 'answer_accepted'
+    | 'accepted_answer';
+
+export type ReputationPostType = 'question' | 'answer';
+
+export interface IReputationEvent {
+    user: Types.ObjectId;
+    actor: Types.ObjectId;
+    type: ReputationEventType;
+    points: number;
+    postType: ReputationPostType;
+    post: Types.ObjectId;
+    reversedAt?: Date;
+    createdAt: Date;
+}
+
+export interface IReputationEventDocument extends IReputationEvent, Document { }
+
+export interface IReputationEventModel extends Model<IReputationEventDocument> {
+    sumForUser(userId: string): Promise<number>;
+}
+
+// ============================================
+// Schema Definition
+// ============================================
+
+const ReputationEventSchema = new Schema<IReputationEventDocument, IReputationEventModel>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: [true, 'User is required'],
+        },
+        actor: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: [true, 'Actor is required'],
+        },
+        type: {
+            type: String,
+            required: [true, 'Event type is required'],
+            enum: {
+                values: [
+                    'question_upvoted',
+                    'question_downvoted',
+                    'answer_upvoted',
+                    'answer_downvoted',
+                    'downvote_cast',
+                    'answer_accepted',
+                    'accepted_answer',
+                ],
+                message: 'Invalid reputation event type',
+            },
+        },
+        points: {
+            type: Number,
+            required: true,
+        },
+        postType: {
+            type: String,
+            required: true,
+            enum: ['question', 'answer'],
+        },
+        post: {
+            type: Schema.Types.ObjectId,
+            required: true,
+        },
+        reversedAt: {
+            type: Date,
+            default: null,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+        toJSON: {
+            transform: (_, ret: Record<string, unknown>) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+ReputationEventSchema.index({ user: 1, createdAt: -1 });
+ReputationEventSchema.index({ actor: 1, post: 1, type: 1, reversedAt: 1 });
+
+// ============================================
+// Static Methods
+// ============================================
+
+/**
+ * Sum all active (non-reversed) events for a user
+ */
+ReputationEventSchema.statics.sumForUser = async function (userId: string) {
+    const result = await this.aggregate([
+        {
+            $match: {
+                user: new mongoose.Types.ObjectId(userId),
+                reversedAt: null,
+            },
+        },
+        {
+            $group: {
+                _id: null,
+                total: { $sum: '$points' },
+            },
+        },
+    ]);
+
+    return result[0]?.total || 0;
+};
+
+// ============================================
+// Model Export
+// ============================================
+
+const ReputationEvent: IReputationEventModel =
+    (mongoose.models.ReputationEvent as IReputationEventModel) ||
+    mongoose.model<IReputationEventDocument, IReputationEventModel>('ReputationEvent', ReputationEventSchema);
+
+export default ReputationEvent;
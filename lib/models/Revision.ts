@@ -0,0 +1,132 @@
+/**
+ * Revision Model
+ * ==============
+ * Snapshot of a question or answer after each edit, used for history and rollback
+ */
+
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+// ============================================
+// TypeScript Interfaces
+// ============================================
+
+export type RevisionPostType = 'question' | 'answer';
+
+export interface IRevision {
+    postType: RevisionPostType;
+    post: Types.ObjectId;
+    revision: number;
+    title?: string;
+    body: string;
+    tags: string[];
+    editor: Types.ObjectId;
+    summary: string;
+    rolledBackFrom?: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IRevisionDocument extends IRevision, Document { }
+
+export interface IRevisionModel extends Model<IRevisionDocument> {
+    findByPost(postType: RevisionPostType, postId: string): Promise<IRevisionDocument[]>;
+    latestNumber(postType: RevisionPostType, postId: string): Promise<number>;
+}
+
+// ============================================
+// Schema Definition
+// ============================================
+
+const RevisionSchema = new Schema<IRevisionDocument, IRevisionModel>(
+    {
+        postType: {
+            type: String,
+            required: true,
+            enum: {
+                values: ['question', 'answer'],
+                message: 'Post type must be question or answer',
+            },
+        },
+        post: {
+            type: Schema.Types.ObjectId,
+            required: [true, 'Post is required'],
+        },
+        revision: {
+            type: Number,
+            required: true,
+            min: 1,
+        },
+        title: String,
+        body: {
+            type: String,
+            required: [true, 'Revision body is required'],
+        },
+        tags: {
+            type: [String],
+            default: [],
+        },
+        editor: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        summary: {
+            type: String,
+            trim: true,
+            maxlength: [300, 'Edit summary cannot exceed 300 characters'],
+            default: '',
+        },
+        rolledBackFrom: Number,
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (_, ret: Record<string, unknown>) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+RevisionSchema.index({ postType: 1, post: 1, revision: 1 }, { unique: true });
+RevisionSchema.index({ editor: 1 });
+
+// ============================================
+// Static Methods
+// ============================================
+
+/**
+ * All revisions of a post, newest first
+ */
+RevisionSchema.statics.findByPost = function (postType: RevisionPostType, postId: string) {
+    return this.find({ postType, post: postId })
+        .populate('editor', 'name avatar reputation')
+        .sort({ revision: -1 });
+};
+
+/**
+ * Highest revision number recorded for a post (0 if never edited)
+ */
+RevisionSchema.statics.latestNumber = async function (postType: RevisionPostType, postId: string) {
+    const latest = await this.findOne({ postType, post: postId })
+        .sort({ revision: -1 })
+        .select('revision');
+    return latest?.revision ?? 0;
+};
+
+// ============================================
+// Model Export
+// ============================================
+
+const Revision: IRevisionModel =
+    (mongoose.models.Revision as IRevisionModel) ||
+    mongoose.model<IRevisionDocument, IRevisionModel>('Revision', RevisionSchema);
+
+export default Revision;
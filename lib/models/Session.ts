@@ -0,0 +1,122 @@
+/**
+ * Session Model
+ * =============
+ * One signed-in device. Each session is a refresh-token family: every
+ * refresh replaces tokenHash with the hash of a new token, and presenting
+ * any older token revokes the session. Documents expire with their last
+ * refresh token.
+ */
+
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+// ============================================
+// TypeScript Interfaces
+// ============================================
+
+export type SessionRevokeReason = 'logout' | 'signed_out' | 'reuse' | 'password_reset';
+
+export interface ISession {
+    user: Types.ObjectId;
+    // sha256 of the current refresh token's jti; the token itself is never stored
+    tokenHash: string;
+    // The token it replaced, so a second tab refreshing at the same moment isn't taken for reuse
+    previousTokenHash?: string;
+    rotatedAt?: Date;
+    userAgent: string;
+    ip?: string;
+    lastSeenAt: Date;
+    expiresAt: Date;
+    revokedAt?: Date;
+    revokedReason?: SessionRevokeReason;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface ISessionDocument extends ISession, Document { }
+
+export type ISessionModel = Model<ISessionDocument>;
+
+// ============================================
+// Schema Definition
+// ============================================
+
+const SessionSchema = new Schema<ISessionDocument, ISessionModel>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: [true, 'User is required'],
+        },
+        tokenHash: {
+            type: String,
+            required: true,
+        },
+        previousTokenHash: {
+            type: String,
+            default: null,
+        },
+        rotatedAt: {
+            type: Date,
+            default: null,
+        },
+        userAgent: {
+            type: String,
+            maxlength: 500,
+            default: '',
+        },
+        ip: {
+            type: String,
+            default: null,
+        },
+        lastSeenAt: {
+            type: Date,
+            default: Date.now,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+        revokedAt: {
+            type: Date,
+            default: null,
+        },
+        revokedReason: {
+            type: String,
+            enum: ['logout', 'signed_out', 'reuse', 'password_reset', null],
+            default: null,
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (_, ret: Record<string, unknown>) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+                delete ret.tokenHash;
+                delete ret.previousTokenHash;
+                return ret;
+            },
+        },
+    }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+// A user's devices, most recently used first
+SessionSchema.index({ user: 1, lastSeenAt: -1 });
+
+// MongoDB removes sessions once their refresh token can no longer be used
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// ============================================
+// Model Export
+// ============================================
+
+const Session: ISessionModel =
+    (mongoose.models.Session as ISessionModel) ||
+    mongoose.model<ISessionDocument, ISessionModel>('Session', SessionSchema);
+
+export default Session;
@@ -0,0 +1,77 @@
+/**
+ * Site Settings Model
+ * ===================
+ * Site-wide options admins can change at runtime. There is a single
+ * document, found by its key; read it through the helpers in lib/auth
+ * rather than querying directly.
+ */
+
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+// ============================================
+// TypeScript Interfaces
+// ============================================
+
+export interface ISiteSettings {
+    key: 'site';
+    // Roles that must have two-factor authentication turned on
+    twoFactorRequiredRoles: ('moderator' | 'admin')[];
+    updatedBy?: Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface ISiteSettingsDocument extends ISiteSettings, Document { }
+
+export type ISiteSettingsModel = Model<ISiteSettingsDocument>;
+
+// ============================================
+// Schema Definition
+// ============================================
+
+const SiteSettingsSchema = new Schema<ISiteSettingsDocument, ISiteSettingsModel>(
+    {
+        key: {
+            type: String,
+            enum: ['site'],
+            default: 'site',
+            unique: true,
+        },
+        twoFactorRequiredRoles: {
+            type: [{
+                type: String,
+                enum: {
+                    values: ['moderator', 'admin'],
+                    message: 'Two-factor can only be required for moderators and admins',
+                },
+            }],
+            default: [],
+        },
+        updatedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            default: null,
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (_, ret: Record<string, unknown>) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+// ============================================
+// Model Export
+// ============================================
+
+const SiteSettings: ISiteSettingsModel =
+    (mongoose.models.SiteSettings as ISiteSettingsModel) ||
+    mongoose.model<ISiteSettingsDocument, ISiteSettingsModel>('SiteSettings', SiteSettingsSchema);
+
+export default SiteSettings;
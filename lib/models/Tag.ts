@@ -0,0 +1,116 @@
+/**
+ * Tag Model
+ * =========
+ * Canonical tags with usage counts, wiki text and synonyms
+ */
+
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+// ============================================
+// TypeScript Interfaces
+// ============================================
+
+export interface ITag {
+    name: string;
+    excerpt: string;
+    wiki: string;
+    synonyms: string[];
+    questionCount: number;
+    createdBy?: Types.ObjectId;
+    lastEditedBy?: Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface ITagDocument extends ITag, Document { }
+
+export interface ITagModel extends Model<ITagDocument> {
+    findByNameOrSynonym(name: string): Promise<ITagDocument | null>;
+}
+
+// ============================================
+// Schema Definition
+// ============================================
+
+const TagSchema = new Schema<ITagDocument, ITagModel>(
+    {
+        name: {
+            type: String,
+            required: [true, 'Tag name is required'],
+            unique: true,
+            trim: true,
+            lowercase: true,
+            maxlength: [35, 'Tag name cannot exceed 35 characters'],
+            match: [/^[a-z0-9][a-z0-9+#.-]*$/, 'Tag names can only contain letters, numbers, +, #, . and -'],
+        },
+        excerpt: {
+            type: String,
+            trim: true,
+            maxlength: [500, 'Excerpt cannot exceed 500 characters'],
+            default: '',
+        },
+        wiki: {
+            type: String,
+            maxlength: [20000, 'Wiki cannot exceed 20000 characters'],
+            default: '',
+        },
+        synonyms: [{
+            type: String,
+            trim: true,
+            lowercase: true,
+        }],
+        questionCount: {
+            type: Number,
+            default: 0,
+            min: 0,
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+        lastEditedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (_, ret: Record<string, unknown>) => {
+                ret.id = ret._id;
+                delete ret._id;
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+TagSchema.index({ synonyms: 1 });
+TagSchema.index({ questionCount: -1 });
+
+// ============================================
+// Static Methods
+// ============================================
+
+/**
+ * Find a tag by its canonical name or one of its synonyms
+ */
+TagSchema.statics.findByNameOrSynonym = function (name: string) {
+    const normalized = name.trim().toLowerCase();
+    return this.findOne({ $or: [{ name: normalized }, { synonyms: normalized }] });
+};
+
+// ============================================
+// Model Export
+// ============================================
+
+const Tag: ITagModel =
+    (mongoose.models.Tag as ITagModel) ||
+    mongoose.model<ITagDocument, ITagModel>('Tag', TagSchema);
+
+export default Tag;
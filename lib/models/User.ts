@@ -27,11 +27,48 @@ export interface IAIUsage {
     dailyResetAt?: Date;
 }
 
+export type DigestPreference = 'off' | 'daily' | 'weekly';
+
+/**
+ * Which notification emails the user wants
+ */
+export interface IEmailPreferences {
+    answers: boolean; // New answers on their questions
+    mentions: boolean; // @mentions in comments
+    digest: DigestPreference; // New questions in followed tags
+    lastDigestAt?: Date;
+}
+
+/**
+ * A link shown on the user's public profile
+ */
+export interface IProfileLink {
+    label?: string;
+    url: string;
+}
+
+/**
+ * TOTP two-factor authentication. Secrets are stored encrypted and
+ * recovery codes as SHA-256 hashes (see lib/auth/totp.ts).
+ */
+export interface ITwoFactor {
+    enabled: boolean;
+    secret?: string;
+    pendingSecret?: string; // Set during enrollment until the first code is confirmed
+    recoveryCodes: string[];
+    lastUsedStep?: number; // Stops a code being replayed within its 30-second window
+    enabledAt?: Date;
+}
+
 export interface IUser {
     name: string;
     email: string;
-    password: string;
+    // Unset for accounts that only sign in through an identity provider
+    password?: string;
     avatar?: string;
+    bio?: string;
+    location?: string;
+    links: IProfileLink[];
     role: 'user' | 'moderator' | 'admin';
     reputation: number;
     isVerified: boolean;
@@ -39,7 +76,12 @@ export interface IUser {
     resetPasswordToken?: string;
     resetPasswordExpires?: Date;
     lastLoginAt?: Date;
+    // Consecutive failed sign-ins; reset by a successful one or a password reset
+    failedLoginAttempts: number;
+    lockedUntil?: Date;
     aiUsage: IAIUsage;
+    emailPreferences: IEmailPreferences;
+    twoFactor: ITwoFactor;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -88,7 +130,6 @@ const UserSchema = new Schema<IUserDocument, IUserModel>(
         },
         password: {
             type: String,
-            required: [true, 'Password is required'],
             minlength: [8, 'Password must be at least 8 characters'],
             select: false, // Don't include password in queries by default
         },
@@ -96,6 +137,28 @@ const UserSchema = new Schema<IUserDocument, IUserModel>(
             type: String,
             default: null,
         },
+        bio: {
+            type: String,
+            trim: true,
+            maxlength: [500, 'Bio cannot exceed 500 characters'],
+            default: '',
+        },
+        location: {
+            type: String,
+            trim: true,
+            maxlength: [100, 'Location cannot exceed 100 characters'],
+            default: '',
+        },
+        links: {
+            type: [
+                {
+                    _id: false,
+                    label: { type: String, trim: true, maxlength: 50 },
+                    url: { type: String, required: true, trim: true, maxlength: 200 },
+                },
+            ],
+            default: [],
+        },
         role: {
             type: String,
             enum: {
@@ -128,6 +191,16 @@ const UserSchema = new Schema<IUserDocument, IUserModel>(
         lastLoginAt: {
             type: Date,
         },
+        failedLoginAttempts: {
+            type: Number,
+            default: 0,
+            select: false,
+        },
+        lockedUntil: {
+            type: Date,
+            default: null,
+            select: false,
+        },
         aiUsage: {
             totalTokensUsed: {
                 type: Number,
@@ -151,6 +224,53 @@ const UserSchema = new Schema<IUserDocument, IUserModel>(
                 type: Date,
             },
         },
+        emailPreferences: {
+            answers: {
+                type: Boolean,
+                default: true,
+            },
+            mentions: {
+                type: Boolean,
+                default: true,
+            },
+            digest: {
+                type: String,
+                enum: {
+                    values: ['off', 'daily', 'weekly'],
+                    message: 'Digest must be off, daily, or weekly',
+                },
+                default: 'weekly',
+            },
+            lastDigestAt: {
+                type: Date,
+            },
+        },
+        twoFactor: {
+            enabled: {
+                type: Boolean,
+                default: false,
+            },
+            secret: {
+                type: String,
+                select: false,
+            },
+            pendingSecret: {
+                type: String,
+                select: false,
+            },
+            recoveryCodes: {
+                type: [String],
+                select: false,
+                default: [],
+            },
+            lastUsedStep: {
+                type: Number,
+                select: false,
+            },
+            enabledAt: {
+                type: Date,
+            },
+        },
     },
     {
         timestamps: true, // Adds createdAt and updatedAt
@@ -175,6 +295,7 @@ UserSchema.index({ email: 1 }, { unique: true });
 UserSchema.index({ createdAt: -1 });
 UserSchema.index({ reputation: -1 });
 UserSchema.index({ role: 1 });
+UserSchema.index({ 'emailPreferences.digest': 1 });
 
 // ============================================
 // Instance Methods
@@ -187,6 +308,9 @@ UserSchema.index({ role: 1 });
 UserSchema.methods.comparePassword = async function (
     candidatePassword: string
 ): Promise<boolean> {
+    // Single sign-on accounts have no password to match
+    if (!this.password) return false;
+
     // Import bcrypt here to avoid issues if not installed yet
     try {
         const bcrypt = await import('bcryptjs');
@@ -232,8 +356,8 @@ UserSchema.statics.findByVerificationToken = function (token: string) {
 // ============================================
 
 UserSchema.pre('save', async function () {
-    // Only hash password if it's modified
-    if (!this.isModified('password')) {
+    // Only hash password if it's modified (and not being removed)
+    if (!this.isModified('password') || !this.password) {
         return;
     }
 
@@ -6,14 +6,31 @@
  */
 
 export { default as User } from './User';
-export type { IUser, IUserDocument, IUserModel } from './User';
+export type {
+    IUser,
+    IUserDocument,
+    IUserModel,
+    IEmailPreferences,
+    IProfileLink,
+    ITwoFactor,
+    DigestPreference,
+} from './User';
 
 export { default as Question } from './Question';
-export type { IQuestion, IQuestionDocument, IQuestionModel } from './Question';
+export type { IQuestion, IQuestionDocument, IQuestionModel, ICloseVote } from './Question';
 
 export { default as Answer } from './Answer';
 export type { IAnswer, IAnswerDocument, IAnswerModel } from './Answer';
 
+export { default as Comment } from './Comment';
+export type { IComment, ICommentDocument, ICommentModel, ICommentListOptions, CommentPostType } from './Comment';
+
+export { default as Revision } from './Revision';
+export type { IRevision, IRevisionDocument, IRevisionModel, RevisionPostType } from './Revision';
+
+export { default as Tag } from './Tag';
+export type { ITag, ITagDocument, ITagModel } from './Tag';
+
 // AI Chat Models
 export { default as Conversation } from './Conversation';
 export type { IConversation, IConversationDocument, IConversationModel } from './Conversation';
@@ -23,3 +40,61 @@ export type { IMessage, IMessageDocument, IMessageModel, MessageRole } from './M
 
 export { default as AIUsageLog, calculateCost, MODEL_PRICING } from './AIUsageLog';
 export type { IAIUsageLog, IAIUsageLogDocument, IAIUsageLogModel } from './AIUsageLog';
+
+// Reputation
+export { default as ReputationEvent } from './ReputationEvent';
+export type {
+    IReputationEvent,
+    IReputationEventDocument,
+    IReputationEventModel,
+    ReputationEventType,
+    ReputationPostType,
+} from './ReputationEvent';
+
+// Bookmarks
+export { default as Bookmark } from './Bookmark';
+export type { IBookmark, IBookmarkDocument, IBookmarkModel, BookmarkPostType } from './Bookmark';
+
+export { default as BookmarkCollection } from './BookmarkCollection';
+export type {
+    IBookmarkCollection,
+    IBookmarkCollectionDocument,
+    IBookmarkCollectionModel,
+} from './BookmarkCollection';
+
+// Follows & Notifications
+export { default as Follow } from './Follow';
+export type { IFollow, IFollowDocument, IFollowModel, FollowTargetType } from './Follow';
+
+export { default as Notification } from './Notification';
+export type {
+    INotification,
+    INotificationDocument,
+    INotificationModel,
+    NotificationType,
+    NotificationPostType,
+} from './Notification';
+
+// Admin Audit
+export { default as AuditLog } from './AuditLog';
+export type { IAuditLog, IAuditLogDocument, IAuditLogModel, AuditAction } from './AuditLog';
+
+// Sessions
+export { default as Session } from './Session';
+export type { ISession, ISessionDocument, ISessionModel, SessionRevokeReason } from './Session';
+
+// Auth Events
+export { default as AuthEvent, AUTH_EVENT_TYPES } from './AuthEvent';
+export type { IAuthEvent, IAuthEventDocument, IAuthEventModel, AuthEventType, AuthMethod } from './AuthEvent';
+
+// Linked Identities (OAuth / OIDC)
+export { default as Identity } from './Identity';
+export type { IIdentity, IIdentityDocument, IIdentityModel } from './Identity';
+
+// Site Settings
+export { default as SiteSettings } from './SiteSettings';
+export type { ISiteSettings, ISiteSettingsDocument, ISiteSettingsModel } from './SiteSettings';
+
+// Data Migrations
+export { default as Migration } from './Migration';
+export type { IMigration, IMigrationDocument, IMigrationModel } from './Migration';
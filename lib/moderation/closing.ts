@@ -0,0 +1,96 @@
+/**
+ * Question Closing Rules
+ * ======================
+ * Close reasons, vote thresholds and quorum resolution.
+ * Pure module - safe to import from client components.
+ */
+
+// ============================================
+// Configuration
+// ============================================
+
+export const CLOSE_REASONS = {
+    duplicate: 'Duplicate of another question',
+    'off-topic': 'Off-topic for this community',
+    'needs-details': 'Needs details or clarity',
+    'needs-focus': 'Needs more focus',
+    'opinion-based': 'Opinion-based',
+} as const;
+
+export type CloseReason = keyof typeof CLOSE_REASONS;
+
+// Minimum reputation to cast close/reopen votes
+export const CLOSE_VOTE_REPUTATION = 250;
+
+// Number of votes needed to close or reopen without a moderator
+export const CLOSE_VOTE_QUORUM = 3;
+
+// ============================================
+// Types
+// ============================================
+
+export interface CloseVoteLike {
+    reason: string;
+    duplicateOf?: { toString(): string } | null;
+}
+
+// ============================================
+// Functions
+// ============================================
+
+/**
+ * Check a reason string is one of the fixed close reasons
+ */
+export function isCloseReason(reason: unknown): reason is CloseReason {
+    return typeof reason === 'string' && Object.prototype.hasOwnProperty.call(CLOSE_REASONS, reason);
+}
+
+/**
+ * Whether a user can cast close/reopen votes (moderators close instantly instead)
+ */
+export function canCastCloseVote(reputation: number = 0): boolean {
+    return reputation >= CLOSE_VOTE_REPUTATION;
+}
+
+/**
+ * Pick the winning reason once quorum is reached.
+ * The most common reason wins; ties go to the most recent vote.
+ * For duplicates, the most-voted target question wins the same way.
+ */
+export function resolveCloseReason(votes: CloseVoteLike[]): {
+    reason: CloseReason;
+    duplicateOf?: string;
+} {
+    const tally = (keys: string[]) => {
+        const counts = new Map<string, number>();
+        let winner = keys[keys.length - 1];
+        for (const key of keys) {
+            counts.set(key, (counts.get(key) || 0) + 1);
+        }
+        for (const key of [...keys].reverse()) {
+            if ((counts.get(key) || 0) > (counts.get(winner) || 0)) {
+                winner = key;
+            }
+        }
+        return winner;
+    };
+
+    const reason = tally(votes.map((v) => v.reason)) as CloseReason;
+
+    if (reason !== 'duplicate') {
+        return { reason };
+    }
+
+    const targets = votes
+        .filter((v) => v.reason === 'duplicate' && v.duplicateOf)
+        .map((v) => v.duplicateOf!.toString());
+
+    return { reason, duplicateOf: targets.length > 0 ? tally(targets) : undefined };
+}
+
+/**
+ * Human-readable label for a stored close reason
+ */
+export function describeCloseReason(reason?: string): string {
+    return isCloseReason(reason) ? CLOSE_REASONS[reason] : 'Closed';
+}
@@ -0,0 +1,16 @@
+/**
+ * Moderation Module Index
+ * =======================
+ * Barrel export for moderation rules
+ */
+
+export {
+    isCloseReason,
+    canCastCloseVote,
+    resolveCloseReason,
+    describeCloseReason,
+    CLOSE_REASONS,
+    CLOSE_VOTE_REPUTATION,
+    CLOSE_VOTE_QUORUM,
+} from './closing';
+export type { CloseReason, CloseVoteLike } from './closing';
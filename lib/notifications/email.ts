@@ -0,0 +1,304 @@
+/**
+ * Notification Emails
+ * ===================
+ * Instant emails for new answers and mentions, and daily or weekly digests
+ * of new questions in followed tags. Every send respects the recipient's
+ * email preferences and carries a one-click unsubscribe link.
+ */
+
+import { Types } from 'mongoose';
+import { User, Question, Answer, Follow } from '@/lib/models';
+import type { IEmailPreferences, DigestPreference } from '@/lib/models';
+import {
+    sendEmail,
+    getAppUrl,
+    newAnswerEmail,
+    mentionEmail,
+    digestEmail,
+    createUnsubscribeToken,
+    unsubscribePageUrl,
+    unsubscribeHeaders,
+} from '@/lib/email';
+import type { DigestFrequency, DigestSection, UnsubscribeScope } from '@/lib/email';
+import { stripHtml } from '@/lib/search/snippets';
+
+// ============================================
+// Configuration
+// ============================================
+
+export const DIGEST_PERIOD_MS: Record<DigestFrequency, number> = {
+    daily: 24 * 60 * 60 * 1000,
+    weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+const DIGEST_MAX_QUESTIONS = 20;
+const DIGEST_QUESTIONS_PER_TAG = 5;
+const EXCERPT_LENGTH = 300;
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+interface Recipient {
+    _id: Types.ObjectId;
+    name: string;
+    email: string;
+    isVerified: boolean;
+    // Absent on accounts created before preferences existed
+    emailPreferences?: Partial<IEmailPreferences>;
+}
+
+function excerpt(text: string): string {
+    return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text;
+}
+
+function questionUrl(questionId: Types.ObjectId | string, answerId?: Types.ObjectId | string): string {
+    const base = `${getAppUrl()}/dashboard/questions/${questionId}`;
+    return answerId ? `${base}#answer-${answerId}` : base;
+}
+
+/**
+ * Footer links and List-Unsubscribe headers for a notification email
+ */
+function unsubscribeLinks(userId: string, scope: UnsubscribeScope) {
+    const token = createUnsubscribeToken(userId, scope);
+
+    return {
+        links: {
+            unsubscribeUrl: unsubscribePageUrl(token),
+            preferencesUrl: `${getAppUrl()}/dashboard/settings`,
+        },
+        headers: unsubscribeHeaders(token),
+    };
+}
+
+// ============================================
+// Instant Emails
+// ============================================
+
+/**
+ * Email the question's author about a new answer
+ */
+export async function emailNewAnswer(
+    questionId: Types.ObjectId,
+    answerId: Types.ObjectId,
+    actorId: string
+): Promise<void> {
+    const question = await Question.findById(questionId).select('title author').lean();
+    if (!question || question.author.toString() === actorId) return;
+
+    const [author, answer, actor] = await Promise.all([
+        User.findById(question.author).select('name email isVerified emailPreferences').lean<Recipient>(),
+        Answer.findById(answerId).select('body').lean(),
+        User.findById(actorId).select('name').lean(),
+    ]);
+    if (!author?.isVerified || author.emailPreferences?.answers === false || !answer) return;
+
+    const { links, headers } = unsubscribeLinks(author._id.toString(), 'answers');
+    const message = newAnswerEmail({
+        name: author.name,
+        answererName: actor?.name ?? 'Someone',
+        questionTitle: question.title,
+        excerpt: excerpt(stripHtml(answer.body)),
+        url: questionUrl(questionId, answerId),
+        ...links,
+    });
+
+    await sendEmail({ to: author.email, ...message, headers });
+}
+
+/**
+ * Email users mentioned in a comment
+ */
+export async function emailMentions(
+    comment: { postType: 'question' | 'answer'; post: Types.ObjectId; question: Types.ObjectId; body: string },
+    mentionedIds: string[],
+    actorId: string
+): Promise<void> {
+    const recipientIds = mentionedIds.filter((id) => id !== actorId);
+    if (recipientIds.length === 0) return;
+
+    const [recipients, question, actor] = await Promise.all([
+        User.find({ _id: { $in: recipientIds }, isVerified: true })
+            .select('name email isVerified emailPreferences')
+            .lean<Recipient[]>(),
+        Question.findById(comment.question).select('title').lean(),
+        User.findById(actorId).select('name').lean(),
+    ]);
+    if (!question) return;
+
+    const url = questionUrl(comment.question, comment.postType === 'answer' ? comment.post : undefined);
+
+    for (const recipient of recipients) {
+        if (recipient.emailPreferences?.mentions === false) continue;
+
+        const { links, headers } = unsubscribeLinks(recipient._id.toString(), 'mentions');
+        const message = mentionEmail({
+            name: recipient.name,
+            actorName: actor?.name ?? 'Someone',
+            questionTitle: question.title,
+            comment: comment.body,
+            url,
+            ...links,
+        });
+
+        await sendEmail({ to: recipient.email, ...message, headers });
+    }
+}
+
+// ============================================
+// Digests
+// ============================================
+
+/**
+ * New questions in the user's followed tags, grouped under the first followed
+ * tag each question carries
+ */
+async function digestSections(
+    userId: Types.ObjectId,
+    tags: string[],
+    since: Date,
+    until: Date
+): Promise<DigestSection[]> {
+    const questions = await Question.find({
+        tags: { $in: tags },
+        createdAt: { $gte: since, $lt: until },
+        isDeleted: { $ne: true },
+        author: { $ne: userId },
+    })
+        .sort({ score: -1, createdAt: -1 })
+        .limit(DIGEST_MAX_QUESTIONS)
+        .select('title tags score answerCount')
+        .lean();
+
+    const followed = new Set(tags);
+    const sections = new Map<string, DigestSection>();
+
+    for (const question of questions) {
+        const tag = question.tags.find((name) => followed.has(name));
+        if (!tag) continue;
+
+        const section = sections.get(tag) ?? { tag, questions: [] };
+        if (section.questions.length >= DIGEST_QUESTIONS_PER_TAG) continue;
+
+        section.questions.push({
+            title: question.title,
+            url: questionUrl(question._id),
+            score: question.score ?? 0,
+            answerCount: question.answerCount ?? 0,
+        });
+        sections.set(tag, section);
+    }
+
+    return [...sections.values()];
+}
+
+/**
+ * Send the daily or weekly digest to everyone who chose it and follows tags.
+ * Each digest covers the time since that user's previous one, capped at one
+ * period; users with nothing new are skipped.
+ */
+export async function sendDigests(
+    frequency: DigestFrequency,
+    now: Date = new Date()
+): Promise<{ sent: number; skipped: number; failed: number }> {
+    const follows = await Follow.aggregate<{ _id: Types.ObjectId; tags: string[] }>([
+        { $match: { targetType: 'tag' } },
+        { $group: { _id: '$user', tags: { $push: '$target' } } },
+    ]);
+    const tagsByUser = new Map(follows.map((f) => [f._id.toString(), f.tags]));
+
+    const users = await User.find({
+        _id: { $in: follows.map((f) => f._id) },
+        isVerified: true,
+        // Weekly is the default, including for accounts that predate preferences
+        'emailPreferences.digest': frequency === 'weekly' ? { $in: ['weekly', null] } : 'daily',
+    })
+        .select('name email isVerified emailPreferences')
+        .lean<Recipient[]>();
+
+    const result = { sent: 0, skipped: 0, failed: 0 };
+
+    for (const user of users) {
+        const lastDigestAt = user.emailPreferences?.lastDigestAt?.getTime() ?? 0;
+        const since = new Date(Math.max(now.getTime() - DIGEST_PERIOD_MS[frequency], lastDigestAt));
+
+        const sections = await digestSections(user._id, tagsByUser.get(user._id.toString()) ?? [], since, now);
+        if (sections.length === 0) {
+            result.skipped++;
+            continue;
+        }
+
+        const { links, headers } = unsubscribeLinks(user._id.toString(), 'digest');
+        const message = digestEmail({
+            name: user.name,
+            frequency,
+            sections,
+            url: `${getAppUrl()}/dashboard/questions`,
+            ...links,
+        });
+
+        if (await sendEmail({ to: user.email, ...message, headers })) {
+            await User.updateOne({ _id: user._id }, { $set: { 'emailPreferences.lastDigestAt': now } });
+            result.sent++;
+        } else {
+            result.failed++;
+        }
+    }
+
+    return result;
+}
+
+// ============================================
+// Preferences
+// ============================================
+
+export interface EmailPreferences {
+    answers: boolean;
+    mentions: boolean;
+    digest: DigestPreference;
+}
+
+/**
+ * A user's preferences with defaults filled in for older accounts
+ */
+export async function getEmailPreferences(userId: string): Promise<EmailPreferences | null> {
+    const user = await User.findById(userId).select('emailPreferences').lean<Pick<Recipient, 'emailPreferences'>>();
+    if (!user) return null;
+
+    return {
+        answers: user.emailPreferences?.answers ?? true,
+        mentions: user.emailPreferences?.mentions ?? true,
+        digest: user.emailPreferences?.digest ?? 'weekly',
+    };
+}
+
+export async function updateEmailPreferences(
+    userId: string,
+    changes: Partial<EmailPreferences>
+): Promise<EmailPreferences | null> {
+    const update: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(changes)) {
+        if (value !== undefined) {
+            update[`emailPreferences.${key}`] = value;
+        }
+    }
+
+    if (Object.keys(update).length > 0) {
+        await User.updateOne({ _id: userId }, { $set: update }, { runValidators: true });
+    }
+
+    return getEmailPreferences(userId);
+}
+
+/**
+ * Turn off the emails an unsubscribe link covers. Returns false if the user is gone.
+ */
+export async function unsubscribeEmails(userId: string, scope: UnsubscribeScope): Promise<boolean> {
+    const changes: Partial<EmailPreferences> =
+        scope === 'all' ? { answers: false, mentions: false, digest: 'off' }
+            : scope === 'digest' ? { digest: 'off' }
+                : { [scope]: false };
+
+    return (await updateEmailPreferences(userId, changes)) !== null;
+}
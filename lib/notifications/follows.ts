@@ -0,0 +1,111 @@
+/**
+ * Follow Service
+ * ==============
+ * Following and unfollowing questions and tags, and looking up who
+ * follows what for notification fan-out
+ */
+
+import { Follow, Question } from '@/lib/models';
+import type { FollowTargetType } from '@/lib/models';
+
+// ============================================
+// Types
+// ============================================
+
+export interface FollowedItems {
+    questions: { id: string; title: string; followedAt: Date }[];
+    tags: { name: string; followedAt: Date }[];
+}
+
+// ============================================
+// Following
+// ============================================
+
+/**
+ * Follow a question or tag. Following twice is a no-op.
+ */
+export async function follow(userId: string, targetType: FollowTargetType, target: string): Promise<void> {
+    await Follow.updateOne(
+        { user: userId, targetType, target },
+        { $setOnInsert: { user: userId, targetType, target } },
+        { upsert: true }
+    );
+}
+
+export async function unfollow(userId: string, targetType: FollowTargetType, target: string): Promise<void> {
+    await Follow.deleteOne({ user: userId, targetType, target });
+}
+
+export async function isFollowing(userId: string, targetType: FollowTargetType, target: string): Promise<boolean> {
+    return (await Follow.exists({ user: userId, targetType, target })) !== null;
+}
+
+/**
+ * User IDs following any of the targets, mapped to the first target they follow
+ */
+export async function findFollowers(
+    targetType: FollowTargetType,
+    targets: string[]
+): Promise<Map<string, string>> {
+    const followers = new Map<string, string>();
+    if (targets.length === 0) return followers;
+
+    const follows = await Follow.find({ targetType, target: { $in: targets } })
+        .select('user target')
+        .lean();
+
+    // Keep the caller's target order so the most relevant one is reported
+    const rank = new Map(targets.map((target, index) => [target, index]));
+    follows.sort((a, b) => (rank.get(a.target) ?? 0) - (rank.get(b.target) ?? 0));
+
+    for (const f of follows) {
+        const userId = f.user.toString();
+        if (!followers.has(userId)) {
+            followers.set(userId, f.target);
+        }
+    }
+
+    return followers;
+}
+
+/**
+ * Everything a user follows, newest first
+ */
+export async function listFollows(userId: string): Promise<FollowedItems> {
+    const follows = await Follow.find({ user: userId }).sort({ createdAt: -1 }).lean();
+
+    const questionFollows = follows.filter((f) => f.targetType === 'question');
+    const questions = await Question.find({
+        _id: { $in: questionFollows.map((f) => f.target) },
+        isDeleted: { $ne: true },
+    })
+        .select('title')
+        .lean();
+    const titleById = new Map(questions.map((q) => [q._id.toString(), q.title]));
+
+    return {
+        questions: questionFollows
+            .filter((f) => titleById.has(f.target))
+            .map((f) => ({ id: f.target, title: titleById.get(f.target)!, followedAt: f.createdAt })),
+        tags: follows
+            .filter((f) => f.targetType === 'tag')
+            .map((f) => ({ name: f.target, followedAt: f.createdAt })),
+    };
+}
+
+/**
+ * Move a tag's followers to another tag, e.g. when it becomes a synonym
+ */
+export async function moveTagFollowers(from: string, to: string): Promise<void> {
+    const users = await Follow.distinct('user', { targetType: 'tag', target: from });
+    if (users.length === 0) return;
+
+    await Follow.bulkWrite(users.map((user) => ({
+        updateOne: {
+            filter: { user, targetType: 'tag', target: to },
+            update: { $setOnInsert: { user, targetType: 'tag', target: to } },
+            upsert: true,
+        },
+    })));
+    await Follow.deleteMany({ targetType: 'tag', target: from });
+}
@@ -0,0 +1,52 @@
+/**
+ * Notification Formatting
+ * =======================
+ * Text and links for notifications. Free of model imports so the bell and
+ * the notifications page can use it directly.
+ */
+
+import type { NotificationItem } from './notifications';
+
+// Serialized over the API, dates arrive as strings
+type FormattableNotification = Pick<
+    NotificationItem,
+    'type' | 'actor' | 'question' | 'postType' | 'postId' | 'tag' | 'points'
+>;
+
+/**
+ * One-line summary, e.g. "Jane answered How do I ..."
+ */
+export function describeNotification(notification: FormattableNotification): string {
+    const actor = notification.actor?.name ?? 'Someone';
+    const title = notification.question?.title ?? 'a deleted question';
+    const onAnswer = notification.postType === 'answer';
+
+    switch (notification.type) {
+        case 'question':
+            return `${actor} asked ${title}${notification.tag ? ` in [${notification.tag}]` : ''}`;
+        case 'answer':
+            return `${actor} answered ${title}`;
+        case 'comment':
+            return `${actor} commented on ${onAnswer ? 'an answer to ' : ''}${title}`;
+        case 'mention':
+            return `${actor} mentioned you on ${title}`;
+        case 'accepted':
+            return `${actor} accepted an answer on ${title}`;
+        case 'reputation': {
+            const points = notification.points > 0 ? `+${notification.points}` : String(notification.points);
+            return `${points} reputation for your ${onAnswer ? 'answer to' : 'question'} ${title}`;
+        }
+        default:
+            return title;
+    }
+}
+
+/**
+ * Where clicking a notification goes, or null when its question is gone
+ */
+export function notificationHref(notification: FormattableNotification): string | null {
+    if (!notification.question) return null;
+
+    const base = `/dashboard/questions/${notification.question.id}`;
+    return notification.postType === 'answer' ? `${base}#answer-${notification.postId}` : base;
+}
@@ -0,0 +1,42 @@
+/**
+ * Notifications Module Index
+ * ==========================
+ * Barrel export for follows, in-app notifications and notification emails
+ */
+
+export {
+    follow,
+    unfollow,
+    isFollowing,
+    findFollowers,
+    listFollows,
+    moveTagFollowers,
+} from './follows';
+export type { FollowedItems } from './follows';
+
+export {
+    notifyNewQuestion,
+    notifyNewAnswer,
+    notifyNewComment,
+    notifyAcceptedAnswer,
+    notifyReputationChange,
+    listNotifications,
+    countUnread,
+    markNotification,
+    markAllRead,
+    NOTIFICATION_PAGE_SIZE,
+} from './notifications';
+export type { NotificationItem, ListNotificationsOptions } from './notifications';
+
+export {
+    emailNewAnswer,
+    emailMentions,
+    sendDigests,
+    getEmailPreferences,
+    updateEmailPreferences,
+    unsubscribeEmails,
+    DIGEST_PERIOD_MS,
+} from './email';
+export type { EmailPreferences } from './email';
+
+export { describeNotification, notificationHref } from './format';
@@ -0,0 +1,316 @@
+/**
+ * Notification Service
+ * ====================
+ * Fans activity out to followers, mentioned users and post authors, and
+ * lists and marks a user's notifications.
+ *
+ * Fan-out is best-effort: a failure is logged and never fails the answer,
+ * comment or vote that triggered it. Instant emails go out from here too.
+ */
+
+import { Types } from 'mongoose';
+import { Notification, Question, Answer } from '@/lib/models';
+import type { INotification, NotificationType, NotificationPostType } from '@/lib/models';
+import { findFollowers } from './follows';
+import { emailNewAnswer, emailMentions } from './email';
+
+// ============================================
+// Configuration
+// ============================================
+
+export const NOTIFICATION_PAGE_SIZE = 20;
+
+// ============================================
+// Types
+// ============================================
+
+export interface NotificationItem {
+    id: string;
+    type: NotificationType;
+    actor: { id: string; name: string; avatar?: string } | null;
+    question: { id: string; title: string } | null;
+    postType: NotificationPostType;
+    postId: string;
+    commentId: string | null;
+    tag: string | null;
+    points: number;
+    isRead: boolean;
+    createdAt: Date;
+}
+
+export interface ListNotificationsOptions {
+    unreadOnly?: boolean;
+    page?: number;
+    limit?: number;
+}
+
+type NotificationFields = Pick<INotification, 'type' | 'question' | 'postType' | 'post'> &
+    Partial<Pick<INotification, 'comment' | 'tag'>>;
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+/**
+ * Create one notification per recipient, skipping the actor
+ */
+async function deliver(
+    recipients: Iterable<string>,
+    actorId: string | null,
+    fields: NotificationFields | ((recipientId: string) => NotificationFields)
+): Promise<void> {
+    const ids = [...new Set(recipients)].filter((id) => id !== actorId);
+    if (ids.length === 0) return;
+
+    await Notification.insertMany(
+        ids.map((recipient) => ({
+            ...(typeof fields === 'function' ? fields(recipient) : fields),
+            recipient,
+            actor: actorId,
+        })),
+        { ordered: false }
+    );
+}
+
+/**
+ * Run a fan-out without letting its failure reach the caller
+ */
+async function bestEffort(task: () => Promise<void>): Promise<void> {
+    try {
+        await task();
+    } catch (error) {
+        console.error('Error sending notifications:', error);
+    }
+}
+
+// ============================================
+// Fan-out
+// ============================================
+
+/**
+ * Tell tag followers about a new question
+ */
+export async function notifyNewQuestion(questionId: Types.ObjectId, tags: string[], actorId: string): Promise<void> {
+    await bestEffort(async () => {
+        const followers = await findFollowers('tag', tags);
+
+        await deliver(followers.keys(), actorId, (recipient) => ({
+            type: 'question',
+            question: questionId,
+            postType: 'question',
+            post: questionId,
+            tag: followers.get(recipient),
+        }));
+    });
+}
+
+/**
+ * Tell question followers about a new answer, and email the question's author
+ */
+export async function notifyNewAnswer(
+    questionId: Types.ObjectId,
+    answerId: Types.ObjectId,
+    actorId: string
+): Promise<void> {
+    await bestEffort(async () => {
+        const followers = await findFollowers('question', [questionId.toString()]);
+
+        await deliver(followers.keys(), actorId, {
+            type: 'answer',
+            question: questionId,
+            postType: 'answer',
+            post: answerId,
+        });
+
+        await emailNewAnswer(questionId, answerId, actorId);
+    });
+}
+
+/**
+ * Notify mentioned users, the commented post's author and the question's
+ * followers. Someone who qualifies twice only gets the mention. Mentioned
+ * users are also emailed.
+ */
+export async function notifyNewComment(comment: {
+    _id: Types.ObjectId;
+    postType: NotificationPostType;
+    post: Types.ObjectId;
+    question: Types.ObjectId;
+    body: string;
+    mentions: Types.ObjectId[];
+}, actorId: string): Promise<void> {
+    await bestEffort(async () => {
+        const fields = {
+            question: comment.question,
+            postType: comment.postType,
+            post: comment.post,
+            comment: comment._id,
+        };
+
+        const mentioned = new Set(comment.mentions.map((id) => id.toString()));
+        await deliver(mentioned, actorId, { ...fields, type: 'mention' });
+        await emailMentions(comment, [...mentioned], actorId);
+
+        const followers = await findFollowers('question', [comment.question.toString()]);
+        const recipients = new Set(followers.keys());
+        if (comment.postType === 'answer') {
+            const answer = await Answer.findById(comment.post).select('author').lean();
+            if (answer) recipients.add(answer.author.toString());
+        }
+
+        await deliver([...recipients].filter((id) => !mentioned.has(id)), actorId, { ...fields, type: 'comment' });
+    });
+}
+
+/**
+ * Tell the answer's author and the question's followers that an answer was accepted
+ */
+export async function notifyAcceptedAnswer(
+    questionId: Types.ObjectId,
+    answerId: Types.ObjectId,
+    answerAuthorId: string,
+    actorId: string
+): Promise<void> {
+    await bestEffort(async () => {
+        const followers = await findFollowers('question', [questionId.toString()]);
+
+        await deliver([answerAuthorId, ...followers.keys()], actorId, {
+            type: 'accepted',
+            question: questionId,
+            postType: 'answer',
+            post: answerId,
+        });
+    });
+}
+
+/**
+ * Fold a vote's reputation change into the recipient's unread notification
+ * for that post. Votes are anonymous, so no actor is recorded. A reversal
+ * only adjusts a notification that hasn't been read yet, and one that nets
+ * out to zero is removed.
+ */
+export async function notifyReputationChange(change: {
+    userId: string;
+    postType: NotificationPostType;
+    postId: string;
+    points: number;
+    reversal?: boolean;
+}): Promise<void> {
+    await bestEffort(async () => {
+        const { userId, postType, postId, points, reversal = false } = change;
+        if (points === 0) return;
+
+        const filter = { recipient: userId, type: 'reputation', post: postId, isRead: false };
+
+        if (reversal) {
+            const updated = await Notification.findOneAndUpdate(filter, { $inc: { points } }, { new: true });
+            if (updated && updated.points === 0) {
+                await updated.deleteOne();
+            }
+            return;
+        }
+
+        const questionId = postType === 'question'
+            ? postId
+            : (await Answer.findById(postId).select('question').lean())?.question;
+        if (!questionId) return;
+
+        await Notification.updateOne(
+            filter,
+            {
+                $inc: { points },
+                $set: { question: questionId, postType },
+            },
+            { upsert: true }
+        );
+    });
+}
+
+// ============================================
+// Reading
+// ============================================
+
+/**
+ * A user's notifications, newest first
+ */
+export async function listNotifications(
+    userId: string,
+    { unreadOnly = false, page = 1, limit = NOTIFICATION_PAGE_SIZE }: ListNotificationsOptions = {}
+): Promise<{ notifications: NotificationItem[]; total: number }> {
+    const filter: Record<string, unknown> = { recipient: userId };
+    if (unreadOnly) {
+        filter.isRead = false;
+    }
+
+    const [notifications, total] = await Promise.all([
+        Notification.find(filter)
+            .sort({ createdAt: -1, _id: -1 })
+            .skip((page - 1) * limit)
+            .limit(limit)
+            .populate<{ actor: { _id: Types.ObjectId; name: string; avatar?: string } | null }>('actor', 'name avatar')
+            .lean(),
+        Notification.countDocuments(filter),
+    ]);
+
+    const questions = await Question.find({
+        _id: { $in: notifications.map((n) => n.question) },
+        isDeleted: { $ne: true },
+    })
+        .select('title')
+        .lean();
+    const titleById = new Map(questions.map((q) => [q._id.toString(), q.title]));
+
+    return {
+        notifications: notifications.map((n) => {
+            const title = titleById.get(n.question.toString());
+
+            return {
+                id: n._id.toString(),
+                type: n.type,
+                actor: n.actor
+                    ? { id: n.actor._id.toString(), name: n.actor.name, avatar: n.actor.avatar }
+                    : null,
+                question: title !== undefined ? { id: n.question.toString(), title } : null,
+                postType: n.postType,
+                postId: n.post.toString(),
+                commentId: n.comment?.toString() ?? null,
+                tag: n.tag ?? null,
+                points: n.points ?? 0,
+                isRead: n.isRead,
+                createdAt: n.createdAt,
+            };
+        }),
+        total,
+    };
+}
+
+export async function countUnread(userId: string): Promise<number> {
+    return Notification.countDocuments({ recipient: userId, isRead: false });
+}
+
+/**
+ * Mark one of the user's notifications read or unread.
+ * Returns false when it doesn't exist or belongs to someone else.
+ */
+export async function markNotification(userId: string, notificationId: string, isRead: boolean): Promise<boolean> {
+    if (!Types.ObjectId.isValid(notificationId)) return false;
+
+    const result = await Notification.updateOne(
+        { _id: notificationId, recipient: userId },
+        { $set: { isRead, readAt: isRead ? new Date() : null } }
+    );
+
+    return result.matchedCount > 0;
+}
+
+/**
+ * Mark every unread notification read; returns how many changed
+ */
+export async function markAllRead(userId: string): Promise<number> {
+    const result = await Notification.updateMany(
+        { recipient: userId, isRead: false },
+        { $set: { isRead: true, readAt: new Date() } }
+    );
+
+    return result.modifiedCount;
+}
@@ -0,0 +1,171 @@
+/**
+ * Post Deletion Service
+ * =====================
+ * Soft-delete, undelete and admin purge for questions and answers.
+ * Deleting a question cascades to its answers; deleting an accepted
+ * answer clears the question's accepted-answer link.
+ */
+
+import { Types } from 'mongoose';
+import { Question, Answer, Comment, Revision, Bookmark, Follow, Notification } from '@/lib/models';
+import type { IQuestionDocument, IAnswerDocument } from '@/lib/models';
+import { revokeAcceptance } from '@/lib/reputation';
+import { updateTagCounts } from '@/lib/tags';
+import { addAnswerToQuestion, removeAnswerFromQuestion } from './stats';
+
+// ============================================
+// Configuration
+// ============================================
+
+// How long after deletion authors and moderators can still undelete
+export const UNDELETE_WINDOW_DAYS = 30;
+
+const UNDELETE_WINDOW_MS = UNDELETE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Whether a deleted post is still inside the undelete window
+ */
+export function isWithinUndeleteWindow(deletedAt?: Date | null, now: Date = new Date()): boolean {
+    return !!deletedAt && now.getTime() - deletedAt.getTime() <= UNDELETE_WINDOW_MS;
+}
+
+/**
+ * Unlink an accepted answer from its question and take back the reputation
+ */
+async function clearAcceptance(answer: IAnswerDocument): Promise<void> {
+    const question = await Question.findOneAndUpdate(
+        { _id: answer.question, acceptedAnswer: answer._id },
+        { $unset: { acceptedAnswer: 1 } }
+    );
+
+    answer.isAccepted = false;
+
+    if (question) {
+        await revokeAcceptance({
+            answerId: answer._id.toString(),
+            answerAuthorId: answer.author.toString(),
+            questionAuthorId: question.author.toString(),
+        });
+    }
+}
+
+// ============================================
+// Questions
+// ============================================
+
+/**
+ * Soft-delete a question and every answer that is still live under it
+ */
+export async function softDeleteQuestion(question: IQuestionDocument, userId: string): Promise<void> {
+    const deletedAt = new Date();
+    const deletedBy = new Types.ObjectId(userId);
+
+    question.isDeleted = true;
+    question.deletedAt = deletedAt;
+    question.deletedBy = deletedBy;
+    await question.save();
+
+    await updateTagCounts(question.tags, []);
+
+    await Answer.updateMany(
+        { question: question._id, isDeleted: { $ne: true } },
+        { $set: { isDeleted: true, deletedAt, deletedBy, deletedWithQuestion: true } }
+    );
+}
+
+/**
+ * Restore a question along with the answers removed by its deletion.
+ * Answers deleted on their own beforehand stay deleted.
+ */
+export async function restoreQuestion(question: IQuestionDocument): Promise<void> {
+    question.isDeleted = false;
+    question.deletedAt = undefined;
+    question.deletedBy = undefined;
+    await question.save();
+
+    await updateTagCounts([], question.tags);
+
+    await Answer.updateMany(
+        { question: question._id, deletedWithQuestion: true },
+        {
+            $set: { isDeleted: false },
+            $unset: { deletedAt: 1, deletedBy: 1, deletedWithQuestion: 1 },
+        }
+    );
+}
+
+/**
+ * Permanently remove a question, its answers, and their comments, revisions,
+ * bookmarks, follows and notifications
+ */
+export async function purgeQuestion(question: IQuestionDocument): Promise<void> {
+    const answerIds = (await Answer.find({ question: question._id }).select('_id')).map((a) => a._id);
+    const postIds = [question._id, ...answerIds];
+
+    await Promise.all([
+        Comment.deleteMany({ question: question._id }),
+        Revision.deleteMany({ post: { $in: postIds } }),
+        Bookmark.deleteMany({ question: question._id }),
+        Follow.deleteMany({ targetType: 'question', target: question._id.toString() }),
+        Notification.deleteMany({ question: question._id }),
+        Answer.deleteMany({ question: question._id }),
+    ]);
+
+    await question.deleteOne();
+}
+
+// ============================================
+// Answers
+// ============================================
+
+/**
+ * Soft-delete an answer, dropping it from the question's answer list
+ */
+export async function softDeleteAnswer(answer: IAnswerDocument, userId: string): Promise<void> {
+    if (answer.isAccepted) {
+        await clearAcceptance(answer);
+    }
+
+    answer.isDeleted = true;
+    answer.deletedAt = new Date();
+    answer.deletedBy = new Types.ObjectId(userId);
+    await answer.save();
+
+    await removeAnswerFromQuestion(answer.question, answer._id);
+}
+
+/**
+ * Restore an answer to its question. Acceptance is not restored;
+ * the question author can accept it again.
+ */
+export async function restoreAnswer(answer: IAnswerDocument): Promise<void> {
+    answer.isDeleted = false;
+    answer.deletedAt = undefined;
+    answer.deletedBy = undefined;
+    await answer.save();
+
+    await addAnswerToQuestion(answer.question, answer._id);
+}
+
+/**
+ * Permanently remove an answer with its comments, revisions, bookmarks and notifications
+ */
+export async function purgeAnswer(answer: IAnswerDocument): Promise<void> {
+    if (answer.isAccepted) {
+        await clearAcceptance(answer);
+    }
+
+    await Promise.all([
+        Comment.deleteMany({ postType: 'answer', post: answer._id }),
+        Revision.deleteMany({ postType: 'answer', post: answer._id }),
+        Bookmark.deleteMany({ postType: 'answer', post: answer._id }),
+        Notification.deleteMany({ postType: 'answer', post: answer._id }),
+        removeAnswerFromQuestion(answer.question, answer._id),
+    ]);
+
+    await answer.deleteOne();
+}
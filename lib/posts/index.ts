@@ -0,0 +1,33 @@
+/**
+ * Posts Module Index
+ * ==================
+ * Barrel export for question and answer lifecycle operations and stats
+ */
+
+export {
+    softDeleteQuestion,
+    restoreQuestion,
+    purgeQuestion,
+    softDeleteAnswer,
+    restoreAnswer,
+    purgeAnswer,
+    isWithinUndeleteWindow,
+    UNDELETE_WINDOW_DAYS,
+} from './deletion';
+
+export { toLiveAnswer } from './live';
+export type { LiveAnswerAuthor } from './live';
+
+export { canViewDeletedPost, canUndeletePost } from './permissions';
+export type { PostViewer } from './permissions';
+
+export {
+    currentVote,
+    voteUpdate,
+    votesAfter,
+    addAnswerToQuestion,
+    removeAnswerFromQuestion,
+    touchQuestionActivity,
+    recountPostStats,
+} from './stats';
+export type { VoteType } from './stats';
@@ -0,0 +1,31 @@
+/**
+ * Live Answers
+ * ============
+ * The payload pushed to everyone viewing a question when an answer is posted
+ */
+
+import type { Types } from 'mongoose';
+import type { IAnswerDocument, IUser } from '@/lib/models';
+import type { LiveAnswerPayload } from '@/lib/realtime';
+
+// The answer's author after populating 'name avatar'
+export type LiveAnswerAuthor = Pick<IUser, 'name' | 'avatar'> & { _id: Types.ObjectId };
+
+/**
+ * Serialize a new answer the way the question page lists it
+ */
+export function toLiveAnswer(
+    answer: Omit<IAnswerDocument, 'author'> & { author: LiveAnswerAuthor | null }
+): LiveAnswerPayload {
+    return {
+        _id: answer._id.toString(),
+        body: answer.body,
+        author: answer.author
+            ? { _id: answer.author._id.toString(), name: answer.author.name, avatar: answer.author.avatar || undefined }
+            : undefined,
+        upvotes: answer.upvotes.map((id) => id.toString()),
+        downvotes: answer.downvotes.map((id) => id.toString()),
+        isAccepted: answer.isAccepted,
+        createdAt: answer.createdAt.toISOString(),
+    };
+}
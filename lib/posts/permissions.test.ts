@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { canUndeletePost, canViewDeletedPost } from './permissions';
+
+const AUTHOR = '507f1f77bcf86cd799439011';
+const MODERATOR = '507f1f77bcf86cd799439022';
+const STRANGER = '507f1f77bcf86cd799439033';
+
+const author = { userId: AUTHOR, role: 'user' };
+const moderator = { userId: MODERATOR, role: 'moderator' };
+const admin = { userId: MODERATOR, role: 'admin' };
+const stranger = { userId: STRANGER, role: 'user' };
+
+describe('canUndeletePost', () => {
+    describe('a post its author deleted', () => {
+        const post = { authorId: AUTHOR, deletedById: AUTHOR };
+
+        it('can be restored by the author', () => {
+            expect(canUndeletePost(post, author)).toBe(true);
+        });
+
+        it('can be restored by moderators and admins', () => {
+            expect(canUndeletePost(post, moderator)).toBe(true);
+            expect(canUndeletePost(post, admin)).toBe(true);
+        });
+
+        it('cannot be restored by anyone else', () => {
+            expect(canUndeletePost(post, stranger)).toBe(false);
+            expect(canUndeletePost(post, null)).toBe(false);
+        });
+    });
+
+    describe('a post a moderator deleted', () => {
+        const post = { authorId: AUTHOR, deletedById: MODERATOR };
+
+        it('cannot be restored by the author', () => {
+            expect(canUndeletePost(post, author)).toBe(false);
+        });
+
+        it('can be restored by moderators and admins', () => {
+            expect(canUndeletePost(post, moderator)).toBe(true);
+            expect(canUndeletePost(post, admin)).toBe(true);
+        });
+    });
+
+    it('leaves posts with no recorded deleter to moderators', () => {
+        expect(canUndeletePost({ authorId: AUTHOR }, author)).toBe(false);
+        expect(canUndeletePost({ authorId: AUTHOR, deletedById: null }, moderator)).toBe(true);
+    });
+});
+
+describe('canViewDeletedPost', () => {
+    it('shows deleted posts to their author and moderators only', () => {
+        expect(canViewDeletedPost(AUTHOR, author)).toBe(true);
+        expect(canViewDeletedPost(AUTHOR, moderator)).toBe(true);
+        expect(canViewDeletedPost(AUTHOR, stranger)).toBe(false);
+        expect(canViewDeletedPost(AUTHOR, null)).toBe(false);
+    });
+});
@@ -0,0 +1,33 @@
+/**
+ * Deleted Post Permissions
+ * ========================
+ * Who can see and restore soft-deleted posts.
+ * Pure module - safe to import from client components.
+ */
+
+import { isModerator } from '@/lib/auth/roles';
+
+export interface PostViewer {
+    userId: string;
+    role?: string;
+}
+
+/**
+ * Deleted posts stay visible to their author and moderators so they can be undeleted
+ */
+export function canViewDeletedPost(authorId: string, viewer: PostViewer | null): boolean {
+    return !!viewer && (viewer.userId === authorId || isModerator(viewer.role));
+}
+
+/**
+ * Authors can only undo their own deletions; a post a moderator removed
+ * stays removed unless a moderator restores it
+ */
+export function canUndeletePost(
+    post: { authorId: string; deletedById?: string | null },
+    viewer: PostViewer | null
+): boolean {
+    if (!viewer) return false;
+    if (isModerator(viewer.role)) return true;
+    return viewer.userId === post.authorId && post.deletedById === post.authorId;
+}
@@ -0,0 +1,151 @@
+/**
+ * Post Stats
+ * ==========
+ * Denormalized score, answerCount and lastActivityAt on questions and answers.
+ * Each change is a single atomic update, so the counters can't drift from
+ * the vote and answer arrays they summarize.
+ */
+
+import { Types } from 'mongoose';
+import { Question, Answer } from '@/lib/models';
+
+// ============================================
+// Types
+// ============================================
+
+export type VoteType = 'upvote' | 'downvote';
+
+interface VotedPost {
+    upvotes: Types.ObjectId[];
+    downvotes: Types.ObjectId[];
+}
+
+// ============================================
+// Votes
+// ============================================
+
+/**
+ * The vote a user currently has on a post, if any
+ */
+export function currentVote(post: VotedPost, userId: string): VoteType | null {
+    if (post.upvotes.some((id) => id.toString() === userId)) return 'upvote';
+    if (post.downvotes.some((id) => id.toString() === userId)) return 'downvote';
+    return null;
+}
+
+/**
+ * Update pipeline that toggles a user's vote and recomputes `score` in the same write.
+ * Voting the same way twice removes the vote; voting the other way switches it.
+ * Run with `updatePipeline: true`.
+ */
+export function voteUpdate(userId: string, voteType: VoteType) {
+    const voter = new Types.ObjectId(userId);
+    const [same, opposite] = voteType === 'upvote' ? ['upvotes', 'downvotes'] : ['downvotes', 'upvotes'];
+    const without = (field: string) => ({
+        $filter: { input: { $ifNull: [`$${field}`, []] }, cond: { $ne: ['$$this', voter] } },
+    });
+
+    return [
+        {
+            $set: {
+                [same]: {
+                    $cond: [
+                        { $in: [voter, { $ifNull: [`$${same}`, []] }] },
+                        without(same),
+                        { $concatArrays: [{ $ifNull: [`$${same}`, []] }, [voter]] },
+                    ],
+                },
+                [opposite]: without(opposite),
+            },
+        },
+        { $set: { score: { $subtract: [{ $size: '$upvotes' }, { $size: '$downvotes' }] } } },
+    ];
+}
+
+/**
+ * The vote arrays and score after `voteUpdate`, given the post as it was before
+ */
+export function votesAfter(before: VotedPost, userId: string, nextVote: VoteType | null) {
+    const upvotes = before.upvotes.filter((id) => id.toString() !== userId);
+    const downvotes = before.downvotes.filter((id) => id.toString() !== userId);
+
+    if (nextVote === 'upvote') upvotes.push(new Types.ObjectId(userId));
+    if (nextVote === 'downvote') downvotes.push(new Types.ObjectId(userId));
+
+    return { upvotes, downvotes, score: upvotes.length - downvotes.length };
+}
+
+// ============================================
+// Answers and Activity
+// ============================================
+
+/**
+ * Link a new or restored answer to its question and bump the question's activity
+ */
+export async function addAnswerToQuestion(
+    questionId: Types.ObjectId | string,
+    answerId: Types.ObjectId,
+    at: Date = new Date()
+): Promise<void> {
+    await Question.updateOne(
+        { _id: questionId, answers: { $ne: answerId } },
+        {
+            $push: { answers: answerId },
+            $inc: { answerCount: 1 },
+            $max: { lastActivityAt: at },
+        }
+    );
+}
+
+/**
+ * Unlink a deleted answer from its question
+ */
+export async function removeAnswerFromQuestion(
+    questionId: Types.ObjectId | string,
+    answerId: Types.ObjectId
+): Promise<void> {
+    await Question.updateOne(
+        { _id: questionId, answers: answerId },
+        {
+            $pull: { answers: answerId },
+            $inc: { answerCount: -1 },
+        }
+    );
+}
+
+/**
+ * Bump a question's last activity (edits to it or its answers)
+ */
+export async function touchQuestionActivity(
+    questionId: Types.ObjectId | string,
+    at: Date = new Date()
+): Promise<void> {
+    await Question.updateOne({ _id: questionId }, { $max: { lastActivityAt: at } });
+}
+
+// ============================================
+// Backfill
+// ============================================
+
+/**
+ * Recompute every stored score, answer count and missing activity date
+ * from the underlying arrays (e.g. for posts created before these fields existed)
+ */
+export async function recountPostStats(): Promise<void> {
+    const score = { $subtract: [{ $size: { $ifNull: ['$upvotes', []] } }, { $size: { $ifNull: ['$downvotes', []] } }] };
+    const lastActivityAt = { $ifNull: ['$lastActivityAt', { $ifNull: ['$editedAt', '$createdAt'] }] };
+
+    await Question.updateMany({}, [
+        {
+            $set: {
+                score,
+                answerCount: { $size: { $ifNull: ['$answers', []] } },
+                lastActivityAt,
+            },
+        },
+    ], { updatePipeline: true });
+
+    await Answer.updateMany({}, [
+        { $set: { score, lastActivityAt } },
+    ], { updatePipeline: true });
+}
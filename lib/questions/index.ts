@@ -0,0 +1,34 @@
+/**
+ * Questions Module Index
+ * ======================
+ * Barrel export for question listing, pagination, facets and similar questions
+ */
+
+export {
+    listQuestions,
+    facetQuestions,
+    encodeCursor,
+    decodeCursor,
+    sortFilter,
+    bucketStart,
+    isQuestionSort,
+    isDateBucket,
+    DEFAULT_PAGE_SIZE,
+    MAX_PAGE_SIZE,
+    FACET_TAG_LIMIT,
+    DATE_BUCKETS,
+} from './listing';
+export type { QuestionSort, DateBucket, CursorPosition, QuestionFacets } from './listing';
+
+export {
+    findSimilarQuestions,
+    similarityMode,
+    tokenize,
+    termVector,
+    termSimilarity,
+    vectorSimilarity,
+    SIMILAR_CANDIDATE_LIMIT,
+    SIMILAR_RESULT_LIMIT,
+    SIMILARITY_THRESHOLDS,
+} from './similar';
+export type { SimilarQuestion, SimilarQuestionsInput, SimilarityMode } from './similar';
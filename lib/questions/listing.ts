@@ -0,0 +1,258 @@
+/**
+ * Question Listing
+ * ================
+ * Keyset (cursor) pagination, sort orders and facet counts for question lists.
+ * Cursors encode the last row's sort value and id, so pages stay stable
+ * while new questions are being posted.
+ */
+
+import { Types } from 'mongoose';
+import type { PipelineStage } from 'mongoose';
+import { Question } from '@/lib/models';
+import type { IQuestionDocument } from '@/lib/models';
+
+// ============================================
+// Configuration
+// ============================================
+
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 50;
+
+// Number of tags returned in the tag facet
+export const FACET_TAG_LIMIT = 10;
+
+// "Asked within" date buckets, in days
+export const DATE_BUCKETS = {
+    day: 1,
+    week: 7,
+    month: 30,
+    year: 365,
+} as const;
+
+export type DateBucket = keyof typeof DATE_BUCKETS;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Sorting
+// ============================================
+
+type SortDirection = 1 | -1;
+
+const SORTS = {
+    newest: { field: 'createdAt', direction: -1 },
+    oldest: { field: 'createdAt', direction: 1 },
+    votes: { field: 'score', direction: -1 },
+    views: { field: 'views', direction: -1 },
+    activity: { field: 'lastActivityAt', direction: -1 },
+    // These two also narrow the list; see sortFilter
+    unanswered: { field: 'createdAt', direction: -1 },
+    'no-accepted': { field: 'createdAt', direction: -1 },
+} as const satisfies Record<string, { field: string; direction: SortDirection }>;
+
+export type QuestionSort = keyof typeof SORTS;
+
+// Full-text results are ordered by relevance
+const TEXT_SORT = { field: 'textScore', direction: -1 } as const;
+
+export function isQuestionSort(value: unknown): value is QuestionSort {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SORTS, value);
+}
+
+export function isDateBucket(value: unknown): value is DateBucket {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(DATE_BUCKETS, value);
+}
+
+/**
+ * Extra conditions implied by a sort (e.g. "unanswered" only lists unanswered questions)
+ */
+export function sortFilter(sort: QuestionSort): Record<string, unknown> {
+    if (sort === 'unanswered') return { answerCount: 0 };
+    if (sort === 'no-accepted') return { acceptedAnswer: null };
+    return {};
+}
+
+/**
+ * Start of a "created within" bucket
+ */
+export function bucketStart(bucket: DateBucket, now: number = Date.now()): Date {
+    return new Date(now - DATE_BUCKETS[bucket] * DAY_MS);
+}
+
+// ============================================
+// Cursors
+// ============================================
+
+export interface CursorPosition {
+    value: string | number | Date | null;
+    id: string;
+}
+
+/**
+ * Opaque cursor for the row a page ended on
+ */
+export function encodeCursor({ value, id }: CursorPosition): string {
+    const payload = value instanceof Date
+        ? { d: value.toISOString(), id }
+        : { v: value, id };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a cursor from the client; null when it isn't one of ours
+ */
+export function decodeCursor(cursor: string): CursorPosition | null {
+    try {
+        const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        if (typeof payload?.id !== 'string' || !/^[a-f0-9]{24}$/.test(payload.id)) {
+            return null;
+        }
+
+        if (typeof payload.d === 'string') {
+            const date = new Date(payload.d);
+            return isNaN(date.getTime()) ? null : { value: date, id: payload.id };
+        }
+
+        const { v } = payload;
+        if (v === null || typeof v === 'number' || typeof v === 'string') {
+            return { value: v, id: payload.id };
+        }
+        return null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Rows strictly after the cursor in (field, _id) order.
+ * Missing values sort lowest, so they come last when descending.
+ */
+function afterCursor(field: string, direction: SortDirection, { value, id }: CursorPosition) {
+    const _id = new Types.ObjectId(id);
+
+    if (direction === -1) {
+        return value === null
+            ? { [field]: null, _id: { $lt: _id } }
+            : { $or: [{ [field]: { $lt: value } }, { [field]: value, _id: { $lt: _id } }, { [field]: null }] };
+    }
+
+    return value === null
+        ? { $or: [{ [field]: null, _id: { $gt: _id } }, { [field]: { $ne: null } }] }
+        : { $or: [{ [field]: { $gt: value } }, { [field]: value, _id: { $gt: _id } }] };
+}
+
+// ============================================
+// Listing
+// ============================================
+
+interface ListQuestionsParams {
+    filter: Record<string, unknown>;
+    search?: string;
+    sort: QuestionSort;
+    limit: number;
+    cursor?: CursorPosition | null;
+}
+
+/**
+ * One page of questions with the cursor for the next page (null on the last page)
+ */
+export async function listQuestions({
+    filter,
+    search,
+    sort,
+    limit,
+    cursor,
+}: ListQuestionsParams): Promise<{ questions: IQuestionDocument[]; nextCursor: string | null }> {
+    const { field, direction } = search ? TEXT_SORT : SORTS[sort];
+
+    // $text has to be the first stage, and the relevance score only exists after it
+    const pipeline: PipelineStage[] = [
+        { $match: search ? { $text: { $search: search }, ...filter } : filter },
+    ];
+    if (search) {
+        pipeline.push({ $addFields: { textScore: { $meta: 'textScore' } } });
+    }
+    if (cursor) {
+        pipeline.push({ $match: afterCursor(field, direction, cursor) });
+    }
+    pipeline.push(
+        { $sort: { [field]: direction, _id: direction } },
+        { $limit: limit + 1 }
+    );
+
+    const rows = await Question.aggregate(pipeline);
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    const nextCursor = rows.length > limit && last
+        ? encodeCursor({ value: last[field] ?? null, id: last._id.toString() })
+        : null;
+
+    const questions = page.map((doc) => {
+        delete doc.textScore;
+        return Question.hydrate(doc);
+    });
+    await Question.populate(questions, { path: 'author', select: 'name avatar reputation' });
+
+    return { questions, nextCursor };
+}
+
+// ============================================
+// Facets
+// ============================================
+
+export interface QuestionFacets {
+    tags: { name: string; count: number }[];
+    answered: { answered: number; unanswered: number };
+    created: Record<DateBucket, number>;
+}
+
+/**
+ * Counts for filter chips over everything matching the current filters
+ */
+export async function facetQuestions(match: Record<string, unknown>): Promise<QuestionFacets> {
+    const now = Date.now();
+    const createdWithin = Object.fromEntries(
+        (Object.keys(DATE_BUCKETS) as DateBucket[]).map((bucket) => [
+            bucket,
+            { $sum: { $cond: [{ $gte: ['$createdAt', bucketStart(bucket, now)] }, 1, 0] } },
+        ])
+    );
+
+    const [result] = await Question.aggregate([
+        { $match: match },
+        {
+            $facet: {
+                tags: [
+                    { $unwind: '$tags' },
+                    { $group: { _id: '$tags', count: { $sum: 1 } } },
+                    { $sort: { count: -1, _id: 1 } },
+                    { $limit: FACET_TAG_LIMIT },
+                ],
+                answered: [
+                    { $group: { _id: { $gt: [{ $ifNull: ['$answerCount', 0] }, 0] }, count: { $sum: 1 } } },
+                ],
+                created: [
+                    { $group: { _id: null, ...createdWithin } },
+                ],
+            },
+        },
+    ]);
+
+    const answered = result.answered as { _id: boolean; count: number }[];
+    const created = result.created[0] ?? {};
+
+    return {
+        tags: (result.tags as { _id: string; count: number }[]).map((t) => ({ name: t._id, count: t.count })),
+        answered: {
+            answered: answered.find((a) => a._id)?.count ?? 0,
+            unanswered: answered.find((a) => !a._id)?.count ?? 0,
+        },
+        created: {
+            day: created.day ?? 0,
+            week: created.week ?? 0,
+            month: created.month ?? 0,
+            year: created.year ?? 0,
+        },
+    };
+}
@@ -0,0 +1,266 @@
+/**
+ * Similar Questions
+ * =================
+ * Finds existing questions that look like one being written, so authors can
+ * spot a duplicate before posting. Candidates come from the text index and are
+ * ranked by term similarity, or by embedding similarity when
+ * SIMILAR_QUESTIONS_MODE=embedding and OpenAI is configured.
+ */
+
+import { Types } from 'mongoose';
+import { Question } from '@/lib/models';
+import { createEmbeddings, EMBEDDING_MODEL } from '@/lib/ai';
+import { stripHtml } from '@/lib/search';
+
+// ============================================
+// Configuration
+// ============================================
+
+export type SimilarityMode = 'text' | 'embedding';
+
+// Questions pulled from the text index before ranking
+export const SIMILAR_CANDIDATE_LIMIT = 30;
+export const SIMILAR_RESULT_LIMIT = 5;
+
+// Similarity needed to be listed, and to count as a likely duplicate.
+// Embedding similarities bunch up higher than term similarities, hence separate values.
+export const SIMILARITY_THRESHOLDS: Record<SimilarityMode, { min: number; duplicate: number }> = {
+    text: { min: 0.2, duplicate: 0.5 },
+    embedding: { min: 0.6, duplicate: 0.85 },
+};
+
+// How much a title word or tag counts relative to a body word
+const TITLE_WEIGHT = 3;
+const TAG_WEIGHT = 2;
+
+// Only the start of a body is compared, so long code dumps don't dominate
+const BODY_CHARS = 2000;
+
+// Words sent to the text index when looking for candidates
+const MAX_SEARCH_TERMS = 20;
+
+const STOP_WORDS = new Set([
+    'a', 'about', 'after', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because',
+    'been', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'for', 'from', 'get', 'getting',
+    'got', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'me', 'my', 'no',
+    'not', 'of', 'on', 'or', 'so', 'some', 'than', 'that', 'the', 'their', 'them', 'then', 'there',
+    'these', 'this', 'to', 'trying', 'use', 'using', 'want', 'was', 'way', 'we', 'what', 'when',
+    'where', 'which', 'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+// ============================================
+// Types
+// ============================================
+
+export interface SimilarQuestion {
+    id: string;
+    title: string;
+    tags: string[];
+    score: number;
+    answerCount: number;
+    hasAcceptedAnswer: boolean;
+    isClosed: boolean;
+    similarity: number;
+    isLikelyDuplicate: boolean;
+}
+
+export interface SimilarQuestionsInput {
+    title: string;
+    body?: string;
+    tags?: string[];
+}
+
+interface CandidateRow {
+    _id: Types.ObjectId;
+    title: string;
+    body: string;
+    tags: string[];
+    score?: number;
+    answerCount?: number;
+    acceptedAnswer?: Types.ObjectId | null;
+    isClosed?: boolean;
+    editedAt?: Date;
+    embedding?: number[];
+    embeddingModel?: string;
+    embeddedAt?: Date;
+}
+
+// ============================================
+// Term Similarity
+// ============================================
+
+/**
+ * Lowercased words without stop words; keeps tech names like c++, c# and node.js whole
+ */
+export function tokenize(text: string): string[] {
+    return (text.toLowerCase().match(/[a-z0-9][a-z0-9+#.]*/g) ?? [])
+        .map((token) => token.replace(/\.+$/, ''))
+        .filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+/**
+ * Weighted term frequencies for a question
+ */
+export function termVector({ title, body = '', tags = [] }: SimilarQuestionsInput): Map<string, number> {
+    const vector = new Map<string, number>();
+    const add = (tokens: string[], weight: number) => {
+        for (const token of tokens) {
+            vector.set(token, (vector.get(token) ?? 0) + weight);
+        }
+    };
+
+    add(tokenize(title), TITLE_WEIGHT);
+    add(tokenize(stripHtml(body).slice(0, BODY_CHARS)), 1);
+    add(tags, TAG_WEIGHT);
+    return vector;
+}
+
+function norm(values: Iterable<number>): number {
+    let sum = 0;
+    for (const value of values) sum += value * value;
+    return Math.sqrt(sum);
+}
+
+/**
+ * Cosine similarity of two term vectors, 0 (nothing shared) to 1 (same words)
+ */
+export function termSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+    let dot = 0;
+    for (const [term, weight] of a) {
+        dot += weight * (b.get(term) ?? 0);
+    }
+    const denominator = norm(a.values()) * norm(b.values());
+    return denominator === 0 ? 0 : dot / denominator;
+}
+
+/**
+ * Cosine similarity of two embedding vectors
+ */
+export function vectorSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+    }
+    const denominator = norm(a) * norm(b);
+    return denominator === 0 ? 0 : dot / denominator;
+}
+
+// ============================================
+// Embeddings
+// ============================================
+
+/**
+ * Embedding mode is opt-in and needs an OpenAI key
+ */
+export function similarityMode(): SimilarityMode {
+    return process.env.SIMILAR_QUESTIONS_MODE === 'embedding' && process.env.OPENAI_API_KEY
+        ? 'embedding'
+        : 'text';
+}
+
+function embeddingText({ title, body = '' }: SimilarQuestionsInput): string {
+    return `${title}\n\n${stripHtml(body).slice(0, BODY_CHARS)}`;
+}
+
+function hasFreshEmbedding(row: CandidateRow): row is CandidateRow & { embedding: number[] } {
+    return !!row.embedding?.length
+        && row.embeddingModel === EMBEDDING_MODEL
+        && !!row.embeddedAt
+        && (!row.editedAt || row.editedAt <= row.embeddedAt);
+}
+
+/**
+ * Embeddings for the input and every candidate. Candidates without a current
+ * embedding are embedded in the same request and cached on the question.
+ */
+async function embedCandidates(input: SimilarQuestionsInput, rows: CandidateRow[]) {
+    const stale = rows.filter((row) => !hasFreshEmbedding(row));
+    const [inputVector, ...staleVectors] = await createEmbeddings([
+        embeddingText(input),
+        ...stale.map((row) => embeddingText(row)),
+    ]);
+
+    const embeddedAt = new Date();
+    if (stale.length > 0) {
+        await Question.bulkWrite(stale.map((row, index) => ({
+            updateOne: {
+                filter: { _id: row._id },
+                update: { $set: { embedding: staleVectors[index], embeddingModel: EMBEDDING_MODEL, embeddedAt } },
+            },
+        })));
+    }
+
+    const staleById = new Map(stale.map((row, index) => [row._id.toString(), staleVectors[index]]));
+    return {
+        inputVector,
+        vectorOf: (row: CandidateRow) => staleById.get(row._id.toString()) ?? row.embedding ?? [],
+    };
+}
+
+// ============================================
+// Lookup
+// ============================================
+
+/**
+ * Existing questions most like the given draft, best match first.
+ * Falls back to term similarity if the embedding request fails.
+ */
+export async function findSimilarQuestions(
+    input: SimilarQuestionsInput,
+    mode: SimilarityMode = similarityMode()
+): Promise<{ mode: SimilarityMode; questions: SimilarQuestion[] }> {
+    const inputVector = termVector(input);
+
+    // The most frequent (weighted) words make the candidate search
+    const searchTerms = [...inputVector.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_SEARCH_TERMS)
+        .map(([term]) => term);
+    if (searchTerms.length === 0) {
+        return { mode, questions: [] };
+    }
+
+    const rows = await Question.find(
+        { $text: { $search: searchTerms.join(' ') }, isDeleted: { $ne: true } },
+        { textScore: { $meta: 'textScore' } }
+    )
+        .select('title body tags score answerCount acceptedAnswer isClosed editedAt +embedding +embeddingModel +embeddedAt')
+        .sort({ textScore: { $meta: 'textScore' } })
+        .limit(SIMILAR_CANDIDATE_LIMIT)
+        .lean<CandidateRow[]>();
+
+    let scored: { row: CandidateRow; similarity: number }[];
+    let usedMode = mode;
+
+    if (mode === 'embedding') {
+        try {
+            const { inputVector: embedded, vectorOf } = await embedCandidates(input, rows);
+            scored = rows.map((row) => ({ row, similarity: vectorSimilarity(embedded, vectorOf(row)) }));
+        } catch (error) {
+            console.error('Error embedding similar questions, falling back to text:', error);
+            usedMode = 'text';
+            scored = rows.map((row) => ({ row, similarity: termSimilarity(inputVector, termVector(row)) }));
+        }
+    } else {
+        scored = rows.map((row) => ({ row, similarity: termSimilarity(inputVector, termVector(row)) }));
+    }
+
+    const { min, duplicate } = SIMILARITY_THRESHOLDS[usedMode];
+    const questions = scored
+        .filter(({ similarity }) => similarity >= min)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, SIMILAR_RESULT_LIMIT)
+        .map(({ row, similarity }) => ({
+            id: row._id.toString(),
+            title: row.title,
+            tags: row.tags,
+            score: row.score ?? 0,
+            answerCount: row.answerCount ?? 0,
+            hasAcceptedAnswer: !!row.acceptedAnswer,
+            isClosed: !!row.isClosed,
+            similarity: Math.round(similarity * 100) / 100,
+            isLikelyDuplicate: similarity >= duplicate,
+        }));
+
+    return { mode: usedMode, questions };
+}
@@ -0,0 +1,61 @@
+/**
+ * Question Event Broker
+ * =====================
+ * In-process publish/subscribe for question events. Routes publish after a
+ * write succeeds; each open SSE stream subscribes to one question.
+ *
+ * Subscribers only hear events published by the same server process, so a
+ * deployment running several instances needs a shared broker (e.g. Redis
+ * pub/sub) behind these two functions.
+ */
+
+import { EventEmitter } from 'events';
+import type { Types } from 'mongoose';
+import type { QuestionEvent } from './types';
+
+// TypeScript: Extend global to keep one broker across hot reloads in development
+declare global {
+    var questionEventBroker: EventEmitter | undefined;
+}
+
+function getBroker(): EventEmitter {
+    if (!global.questionEventBroker) {
+        const broker = new EventEmitter();
+        // One listener per open stream, so the default limit of 10 is far too low
+        broker.setMaxListeners(0);
+        global.questionEventBroker = broker;
+    }
+    return global.questionEventBroker;
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Push an event to everyone viewing the question. Never throws, so callers
+ * can publish after a write without guarding it.
+ */
+export function publishQuestionEvent(questionId: string | Types.ObjectId, event: QuestionEvent): void {
+    try {
+        // Round-trip through JSON so every subscriber gets the same plain payload
+        const payload: QuestionEvent = JSON.parse(JSON.stringify(event));
+        getBroker().emit(questionId.toString(), payload);
+    } catch (error) {
+        console.error('Error publishing question event:', error);
+    }
+}
+
+/**
+ * Listen for events on a question. Returns a function that stops listening.
+ */
+export function subscribeToQuestion(
+    questionId: string,
+    listener: (event: QuestionEvent) => void
+): () => void {
+    const broker = getBroker();
+    broker.on(questionId, listener);
+    return () => {
+        broker.off(questionId, listener);
+    };
+}
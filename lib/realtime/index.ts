@@ -0,0 +1,20 @@
+/**
+ * Realtime Module Index
+ * =====================
+ * Barrel export for question events, the in-process broker and the SSE stream
+ */
+
+export { publishQuestionEvent, subscribeToQuestion } from './broker';
+
+export { createQuestionEventStream } from './stream';
+
+export { applyQuestionEvent } from './merge';
+export type { LiveQuestion, LiveAnswer } from './merge';
+
+export type {
+    QuestionEvent,
+    QuestionEventType,
+    LivePostType,
+    LiveAnswerPayload,
+    LiveCommentPayload,
+} from './types';
@@ -0,0 +1,81 @@
+/**
+ * Question Event Merging
+ * ======================
+ * Pure helpers that fold a question event into client-side page state.
+ * Safe to import from client components.
+ */
+
+import type { LiveAnswerPayload, QuestionEvent } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * An answer in page state. New answers arrive as the bare payload, so any
+ * fields the page adds on top of it must be optional.
+ */
+export type LiveAnswer = LiveAnswerPayload;
+
+/** The parts of a question page's state that events update */
+export interface LiveQuestion {
+    upvotes: string[];
+    downvotes: string[];
+    answers: LiveAnswer[];
+    acceptedAnswer?: string;
+    isClosed?: boolean;
+    closedReason?: string;
+    closedAt?: string;
+    duplicateOf?: { _id: string; title?: string } | null;
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Apply an event to the question. Events the viewer already applied
+ * (their own vote, their own answer) leave the state unchanged.
+ */
+export function applyQuestionEvent<Q extends LiveQuestion>(question: Q, event: QuestionEvent): Q {
+    switch (event.type) {
+        case 'answer': {
+            if (question.answers.some((a) => a._id === event.answer._id)) return question;
+            return { ...question, answers: [...question.answers, event.answer] };
+        }
+
+        case 'vote': {
+            const votes = { upvotes: event.upvotes, downvotes: event.downvotes };
+            if (event.postType === 'question') return { ...question, ...votes };
+            return {
+                ...question,
+                answers: question.answers.map((a) => (a._id === event.postId ? { ...a, ...votes } : a)),
+            };
+        }
+
+        case 'accepted': {
+            const acceptedId = event.acceptedAnswer;
+            // Mark the accepted answer and pin it first, as accepting in the page does
+            return {
+                ...question,
+                acceptedAnswer: acceptedId || undefined,
+                answers: question.answers
+                    .map((a) => ({ ...a, isAccepted: a._id === acceptedId }))
+                    .sort((a, b) => Number(!!b.isAccepted) - Number(!!a.isAccepted)),
+            };
+        }
+
+        case 'closed':
+            return {
+                ...question,
+                isClosed: event.isClosed,
+                closedReason: event.isClosed ? event.closedReason : undefined,
+                closedAt: event.isClosed ? event.closedAt : undefined,
+                duplicateOf: event.isClosed && event.duplicateOf ? { _id: event.duplicateOf } : null,
+            };
+
+        // Comments live in each post's thread, not in the question
+        case 'comment':
+            return question;
+    }
+}
@@ -0,0 +1,74 @@
+/**
+ * Question Event Stream
+ * =====================
+ * Turns broker events for one question into a server-sent events stream,
+ * in the same `data: <json>\n\n` framing the chat stream uses.
+ */
+
+import { subscribeToQuestion } from './broker';
+import type { QuestionEvent } from './types';
+
+// ============================================
+// Configuration
+// ============================================
+
+// Comment lines keep proxies and load balancers from closing an idle stream
+const HEARTBEAT_INTERVAL = 25 * 1000;
+
+// How long a client waits before reconnecting after the stream drops
+const RETRY_INTERVAL = 3 * 1000;
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Create a stream that emits every event published for the question until
+ * the client disconnects. Pass the request's signal so an aborted request
+ * stops listening even if the runtime never cancels the stream.
+ */
+export function createQuestionEventStream(
+    questionId: string,
+    signal?: AbortSignal
+): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    let cleanup: (() => void) | null = null;
+
+    return new ReadableStream({
+        start(streamController) {
+            const send = (chunk: string) => {
+                try {
+                    streamController.enqueue(encoder.encode(chunk));
+                } catch {
+                    // The stream closed between the event and the write
+                    cleanup?.();
+                }
+            };
+
+            const unsubscribe = subscribeToQuestion(questionId, (event: QuestionEvent) => {
+                send(`data: ${JSON.stringify(event)}\n\n`);
+            });
+            const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+
+            cleanup = () => {
+                clearInterval(heartbeat);
+                unsubscribe();
+                signal?.removeEventListener('abort', onAbort);
+                cleanup = null;
+                try {
+                    streamController.close();
+                } catch {
+                    // Already closed or cancelled
+                }
+            };
+            const onAbort = () => cleanup?.();
+            signal?.addEventListener('abort', onAbort);
+
+            send(`retry: ${RETRY_INTERVAL}\n: connected\n\n`);
+        },
+
+        cancel() {
+            cleanup?.();
+        },
+    });
+}
@@ -0,0 +1,59 @@
+/**
+ * Question Event Types
+ * ====================
+ * Events pushed to everyone viewing a question. Shared by the server stream
+ * and the client hook, so this file must stay free of server imports.
+ */
+
+export type LivePostType = 'question' | 'answer';
+
+/** A newly posted answer, serialized as the answers API returns it */
+export interface LiveAnswerPayload {
+    _id: string;
+    body: string;
+    author?: {
+        _id: string;
+        name: string;
+        avatar?: string;
+    };
+    upvotes: string[];
+    downvotes: string[];
+    isAccepted?: boolean;
+    createdAt: string;
+}
+
+/** A newly posted comment, serialized as the comments API returns it */
+export interface LiveCommentPayload {
+    id: string;
+    body: string;
+    author?: {
+        id: string;
+        name: string;
+        avatar?: string;
+    };
+    editedAt?: string;
+    isDeleted: boolean;
+    createdAt: string;
+}
+
+export type QuestionEvent =
+    | { type: 'answer'; answer: LiveAnswerPayload }
+    | {
+        type: 'vote';
+        postType: LivePostType;
+        postId: string;
+        upvotes: string[];
+        downvotes: string[];
+        score: number;
+    }
+    | { type: 'accepted'; acceptedAnswer: string | null }
+    | {
+        type: 'closed';
+        isClosed: boolean;
+        closedReason?: string;
+        closedAt?: string;
+        duplicateOf?: string | null;
+    }
+    | { type: 'comment'; postType: LivePostType; postId: string; comment: LiveCommentPayload };
+
+export type QuestionEventType = QuestionEvent['type'];
@@ -0,0 +1,14 @@
+/**
+ * Reputation Module Index
+ * =======================
+ * Barrel export for reputation utilities
+ */
+
+export {
+    applyVoteChange,
+    awardAcceptance,
+    revokeAcceptance,
+    recalculateReputation,
+    REPUTATION_POINTS,
+} from './reputation';
+export type { VoteType, VoteChange, AcceptanceChange } from './reputation';
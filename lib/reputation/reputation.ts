@@ -0,0 +1,232 @@
+/**
+ * Reputation Service
+ * ==================
+ * Awards and reverses reputation for votes and accepted answers.
+ * Every change is written to the ReputationEvent ledger first, then
+ * User.reputation is recomputed from it, so the stored total always
+ * matches the ledger.
+ */
+
+import { ReputationEvent, User } from '@/lib/models';
+import type { ReputationEventType, ReputationPostType } from '@/lib/models';
+import { notifyReputationChange } from '@/lib/notifications';
+
+// ============================================
+// Configuration
+// ============================================
+
+export const REPUTATION_POINTS: Record<ReputationEventType, number> = {
+    question_upvoted: 10,
+    question_downvoted: -2,
+    answer_upvoted: 10,
+    answer_downvoted: -2,
+    downvote_cast: -1, // Penalty to the voter for downvoting an answer
+    answer_accepted: 15,
+    accepted_answer: 2, // Bonus to the question author for accepting
+};
+
+// Events the recipient is notified about. Acceptance has its own notification,
+// and the downvote penalty is the voter's own doing.
+const NOTIFIED_EVENTS: ReputationEventType[] = [
+    'question_upvoted',
+    'question_downvoted',
+    'answer_upvoted',
+    'answer_downvoted',
+];
+
+// ============================================
+// Types
+// ============================================
+
+export type VoteType = 'upvote' | 'downvote';
+
+export interface VoteChange {
+    voterId: string;
+    authorId: string;
+    postId: string;
+    postType: ReputationPostType;
+    previousVote: VoteType | null;
+    nextVote: VoteType | null;
+}
+
+export interface AcceptanceChange {
+    answerId: string;
+    answerAuthorId: string;
+    questionAuthorId: string;
+}
+
+interface LedgerEntry {
+    user: string;
+    actor: string;
+    type: ReputationEventType;
+    postType: ReputationPostType;
+    post: string;
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+/**
+ * Write a ledger entry and apply its points
+ */
+async function recordEvent(entry: LedgerEntry): Promise<void> {
+    const points = REPUTATION_POINTS[entry.type];
+
+    await ReputationEvent.create({ ...entry, points });
+    await recalculateReputation(entry.user);
+
+    if (NOTIFIED_EVENTS.includes(entry.type)) {
+        await notifyReputationChange({
+            userId: entry.user,
+            postType: entry.postType,
+            postId: entry.post,
+            points,
+        });
+    }
+}
+
+/**
+ * Mark the matching active ledger entry as reversed and undo its points.
+ * The total is recomputed rather than decremented: an event that only
+ * counted partly because the total was floored at zero must not give
+ * back more than it took.
+ */
+async function reverseEvent(entry: Omit<LedgerEntry, 'user' | 'postType'>): Promise<void> {
+    const event = await ReputationEvent.findOneAndUpdate(
+        {
+            actor: entry.actor,
+            post: entry.post,
+            type: entry.type,
+            reversedAt: null,
+        },
+        { $set: { reversedAt: new Date() } },
+        { sort: { createdAt: -1 } }
+    );
+
+    if (event) {
+        await recalculateReputation(event.user.toString());
+
+        if (NOTIFIED_EVENTS.includes(event.type)) {
+            await notifyReputationChange({
+                userId: event.user.toString(),
+                postType: event.postType,
+                postId: event.post.toString(),
+                points: -event.points,
+                reversal: true,
+            });
+        }
+    }
+}
+
+/**
+ * Ledger entries produced by a single vote
+ */
+function voteEntries(change: VoteChange, vote: VoteType): LedgerEntry[] {
+    const { voterId, authorId, postId, postType } = change;
+
+    if (vote === 'upvote') {
+        return [{
+            user: authorId,
+            actor: voterId,
+            type: postType === 'question' ? 'question_upvoted' : 'answer_upvoted',
+            postType,
+            post: postId,
+        }];
+    }
+
+    const entries: LedgerEntry[] = [{
+        user: authorId,
+        actor: voterId,
+        type: postType === 'question' ? 'question_downvoted' : 'answer_downvoted',
+        postType,
+        post: postId,
+    }];
+
+    if (postType === 'answer') {
+        entries.push({
+            user: voterId,
+            actor: voterId,
+            type: 'downvote_cast',
+            postType,
+            post: postId,
+        });
+    }
+
+    return entries;
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Reconcile reputation after a vote toggle.
+ * Reverses whatever the previous vote awarded, then records the new one.
+ */
+export async function applyVoteChange(change: VoteChange): Promise<void> {
+    if (change.previousVote === change.nextVote) return;
+
+    // Self-votes are rejected by the routes, but never award them here either
+    if (change.voterId === change.authorId) return;
+
+    if (change.previousVote) {
+        for (const entry of voteEntries(change, change.previousVote)) {
+            await reverseEvent(entry);
+        }
+    }
+
+    if (change.nextVote) {
+        for (const entry of voteEntries(change, change.nextVote)) {
+            await recordEvent(entry);
+        }
+    }
+}
+
+/**
+ * Award reputation when an answer is accepted
+ */
+export async function awardAcceptance(change: AcceptanceChange): Promise<void> {
+    const { answerId, answerAuthorId, questionAuthorId } = change;
+
+    // Accepting your own answer earns nothing
+    if (answerAuthorId === questionAuthorId) return;
+
+    await recordEvent({
+        user: answerAuthorId,
+        actor: questionAuthorId,
+        type: 'answer_accepted',
+        postType: 'answer',
+        post: answerId,
+    });
+
+    await recordEvent({
+        user: questionAuthorId,
+        actor: questionAuthorId,
+        type: 'accepted_answer',
+        postType: 'answer',
+        post: answerId,
+    });
+}
+
+/**
+ * Reverse the reputation awarded by an acceptance
+ */
+export async function revokeAcceptance(change: AcceptanceChange): Promise<void> {
+    const { answerId, questionAuthorId } = change;
+
+    await reverseEvent({ actor: questionAuthorId, post: answerId, type: 'answer_accepted' });
+    await reverseEvent({ actor: questionAuthorId, post: answerId, type: 'accepted_answer' });
+}
+
+/**
+ * Recompute a user's reputation from the ledger and persist it.
+ * The ledger sum can go negative; the stored total is floored at zero.
+ */
+export async function recalculateReputation(userId: string): Promise<number> {
+    const total = Math.max(0, await ReputationEvent.sumForUser(userId));
+
+    await User.updateOne({ _id: userId }, { $set: { reputation: total } });
+
+    return total;
+}
@@ -0,0 +1,168 @@
+/**
+ * Revision Diffing
+ * ================
+ * Line and word diffs between two revisions of a post.
+ * Pure module - safe to import from client components.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type DiffPartType = 'equal' | 'added' | 'removed';
+
+export interface DiffPart {
+    type: DiffPartType;
+    value: string;
+}
+
+export interface SideBySideRow {
+    type: 'equal' | 'changed' | 'added' | 'removed';
+    left?: string;
+    right?: string;
+}
+
+// Beyond this many LCS cells the diff degrades to "replace everything"
+const MAX_DIFF_CELLS = 2_000_000;
+
+// ============================================
+// Functions
+// ============================================
+
+/**
+ * Convert stored rich-text HTML into plain text with one block per line
+ */
+export function htmlToText(html: string): string {
+    return html
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|h[1-6]|li|pre|blockquote|tr)>/gi, '\n')
+        .replace(/<[^>]*>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/**
+ * Longest-common-subsequence diff over two token lists.
+ * Common prefix and suffix are stripped first to keep the table small.
+ */
+export function diffTokens(before: string[], after: string[]): DiffPart[] {
+    let start = 0;
+    while (start < before.length && start < after.length && before[start] === after[start]) {
+        start++;
+    }
+
+    let endBefore = before.length;
+    let endAfter = after.length;
+    while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+        endBefore--;
+        endAfter--;
+    }
+
+    const a = before.slice(start, endBefore);
+    const b = after.slice(start, endAfter);
+    const middle: DiffPart[] = [];
+
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+        a.forEach((value) => middle.push({ type: 'removed', value }));
+        b.forEach((value) => middle.push({ type: 'added', value }));
+    } else {
+        // lengths[i][j] = LCS length of a[i..] and b[j..]
+        const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                lengths[i][j] = a[i] === b[j]
+                    ? lengths[i + 1][j + 1] + 1
+                    : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+            }
+        }
+
+        let i = 0;
+        let j = 0;
+        while (i < a.length && j < b.length) {
+            if (a[i] === b[j]) {
+                middle.push({ type: 'equal', value: a[i] });
+                i++;
+                j++;
+            } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+                middle.push({ type: 'removed', value: a[i++] });
+            } else {
+                middle.push({ type: 'added', value: b[j++] });
+            }
+        }
+        while (i < a.length) middle.push({ type: 'removed', value: a[i++] });
+        while (j < b.length) middle.push({ type: 'added', value: b[j++] });
+    }
+
+    const parts = [
+        ...before.slice(0, start).map((value): DiffPart => ({ type: 'equal', value })),
+        ...middle,
+        ...before.slice(endBefore).map((value): DiffPart => ({ type: 'equal', value })),
+    ];
+
+    // Merge neighbouring parts of the same type
+    return parts.reduce<DiffPart[]>((merged, part) => {
+        const last = merged[merged.length - 1];
+        if (last && last.type === part.type) {
+            last.value += part.value;
+        } else {
+            merged.push({ ...part });
+        }
+        return merged;
+    }, []);
+}
+
+/**
+ * Word-level diff for inline display (whitespace is kept as its own token)
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+    const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+    return diffTokens(tokenize(before), tokenize(after));
+}
+
+/**
+ * Line-level diff; each part value keeps its trailing newlines
+ */
+export function diffLines(before: string, after: string): DiffPart[] {
+    const tokenize = (text: string) => text.match(/[^\n]*\n|[^\n]+$/g) || [];
+    return diffTokens(tokenize(before), tokenize(after));
+}
+
+/**
+ * Pair up a line diff into rows for a two-column view.
+ * Runs of removed lines followed by added lines become "changed" rows.
+ */
+export function toSideBySide(parts: DiffPart[]): SideBySideRow[] {
+    const rows: SideBySideRow[] = [];
+    const split = (value: string) => value.replace(/\n$/, '').split('\n');
+
+    for (let k = 0; k < parts.length; k++) {
+        const part = parts[k];
+
+        if (part.type === 'equal') {
+            split(part.value).forEach((line) => rows.push({ type: 'equal', left: line, right: line }));
+            continue;
+        }
+
+        if (part.type === 'removed' && parts[k + 1]?.type === 'added') {
+            const left = split(part.value);
+            const right = split(parts[k + 1].value);
+            for (let n = 0; n < Math.max(left.length, right.length); n++) {
+                rows.push({ type: 'changed', left: left[n], right: right[n] });
+            }
+            k++;
+            continue;
+        }
+
+        split(part.value).forEach((line) =>
+            rows.push(part.type === 'removed' ? { type: 'removed', left: line } : { type: 'added', right: line })
+        );
+    }
+
+    return rows;
+}
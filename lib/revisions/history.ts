@@ -0,0 +1,217 @@
+/**
+ * Revision History
+ * ================
+ * Applies edits to questions and answers and records a Revision for each one
+ */
+
+import { Document, Types } from 'mongoose';
+import { Revision } from '@/lib/models';
+import type { IRevisionDocument, RevisionPostType } from '@/lib/models';
+import { resolveTagNames, updateTagCounts } from '@/lib/tags';
+import { touchQuestionActivity } from '@/lib/posts';
+
+// ============================================
+// Configuration
+// ============================================
+
+export const REVISION_SUMMARY_MAX_LENGTH = 300;
+
+// Concurrent edits race for the next revision number; the loser takes the one after
+const MAX_REVISION_ATTEMPTS = 5;
+
+// ============================================
+// Types
+// ============================================
+
+export interface PostSnapshot {
+    title?: string;
+    body: string;
+    tags: string[];
+}
+
+export type PostChanges = Partial<PostSnapshot>;
+
+// Fields shared by Question and Answer documents that editing touches
+export interface EditablePost extends Document {
+    title?: string;
+    body: string;
+    tags?: string[];
+    author: Types.ObjectId;
+    editedAt?: Date;
+    editedBy?: Types.ObjectId;
+    lastActivityAt?: Date;
+    isDeleted?: boolean;
+    // Parent question, for answers
+    question?: Types.ObjectId;
+    createdAt: Date;
+}
+
+export type EditResult =
+    | { status: 'saved'; revision: IRevisionDocument }
+    | { status: 'unchanged' }
+    // Someone else saved an edit after this post was loaded
+    | { status: 'conflict' };
+
+interface ApplyEditParams {
+    postType: RevisionPostType;
+    post: EditablePost;
+    editorId: string;
+    changes: PostChanges;
+    summary?: string;
+    rolledBackFrom?: number;
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Current editable content of a post
+ */
+export function snapshotOf(postType: RevisionPostType, post: EditablePost): PostSnapshot {
+    return postType === 'question'
+        ? { title: post.title, body: post.body, tags: [...(post.tags || [])] }
+        : { body: post.body, tags: [] };
+}
+
+/**
+ * Trim the title and lowercase/dedupe tags the same way question creation does
+ */
+export function normalizeChanges(postType: RevisionPostType, changes: PostChanges): PostChanges {
+    const normalized: PostChanges = {};
+
+    if (typeof changes.body === 'string') {
+        normalized.body = changes.body;
+    }
+
+    if (postType === 'question') {
+        if (typeof changes.title === 'string') {
+            normalized.title = changes.title.trim();
+        }
+        if (Array.isArray(changes.tags)) {
+            normalized.tags = [...new Set(changes.tags.map((t) => String(t).trim().toLowerCase()).filter(Boolean))];
+        }
+    }
+
+    return normalized;
+}
+
+function isSameSnapshot(a: PostSnapshot, b: PostSnapshot): boolean {
+    return a.title === b.title && a.body === b.body && a.tags.join('\n') === b.tags.join('\n');
+}
+
+function isDuplicateKey(error: unknown): boolean {
+    return (error as { code?: number }).code === 11000;
+}
+
+/**
+ * Posts created before revision tracking have no history yet,
+ * so record their original content as revision 1 before the first edit
+ */
+async function ensureBaseRevision(postType: RevisionPostType, post: EditablePost): Promise<number> {
+    const latest = await Revision.latestNumber(postType, post._id.toString());
+    if (latest > 0) return latest;
+
+    try {
+        await Revision.create({
+            postType,
+            post: post._id,
+            revision: 1,
+            ...snapshotOf(postType, post),
+            editor: post.author,
+            summary: 'Original post',
+            createdAt: post.createdAt,
+        });
+    } catch (error) {
+        // A concurrent first edit recorded it already
+        if (!isDuplicateKey(error)) throw error;
+        return Revision.latestNumber(postType, post._id.toString());
+    }
+
+    return 1;
+}
+
+// ============================================
+// Main Functions
+// ============================================
+
+/**
+ * Apply changes to a post and record the result as a new revision.
+ * Mongoose validation errors from the post propagate to the caller.
+ *
+ * The revision is created before the post is saved, so a concurrent edit
+ * can't leave a saved post without its revision; if saving then fails,
+ * the revision is removed again. The save only goes through if nobody has
+ * edited the post since it was loaded, so the stored post always matches
+ * the newest revision; otherwise the result is a conflict.
+ */
+export async function applyEdit({
+    postType,
+    post,
+    editorId,
+    changes,
+    summary = '',
+    rolledBackFrom,
+}: ApplyEditParams): Promise<EditResult> {
+    const current = snapshotOf(postType, post);
+    const next: PostSnapshot = { ...current, ...normalizeChanges(postType, changes) };
+    if (postType === 'question') {
+        next.tags = await resolveTagNames(next.tags);
+    }
+
+    if (isSameSnapshot(current, next)) {
+        return { status: 'unchanged' };
+    }
+
+    const latest = await ensureBaseRevision(postType, post);
+    const loadedEditedAt = post.editedAt ?? null;
+
+    post.body = next.body;
+    if (postType === 'question') {
+        post.title = next.title;
+        post.tags = next.tags;
+    }
+    post.editedAt = new Date();
+    post.editedBy = new Types.ObjectId(editorId);
+    post.lastActivityAt = post.editedAt;
+    await post.validate();
+
+    let revision: IRevisionDocument | undefined;
+    let number = latest + 1;
+    for (let attempt = 1; !revision; attempt++) {
+        try {
+            revision = await Revision.create({
+                postType,
+                post: post._id,
+                revision: number,
+                ...next,
+                editor: editorId,
+                summary: summary.trim(),
+                rolledBackFrom,
+            });
+        } catch (error) {
+            if (!isDuplicateKey(error) || attempt >= MAX_REVISION_ATTEMPTS) throw error;
+            number = (await Revision.latestNumber(postType, post._id.toString())) + 1;
+        }
+    }
+
+    // Every edit moves editedAt, so an unchanged one means no edit landed in between
+    post.$where = { editedAt: loadedEditedAt };
+    try {
+        await post.save();
+    } catch (error) {
+        await revision.deleteOne();
+        if (error instanceof Error && error.name === 'DocumentNotFoundError') {
+            return { status: 'conflict' };
+        }
+        throw error;
+    }
+
+    if (postType === 'question') {
+        await updateTagCounts(current.tags, next.tags, editorId);
+    } else if (post.question) {
+        await touchQuestionActivity(post.question, post.editedAt);
+    }
+
+    return { status: 'saved', revision };
+}
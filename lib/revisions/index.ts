@@ -0,0 +1,16 @@
+/**
+ * Revisions Module Index
+ * ======================
+ * Barrel export for post editing, history and diffs
+ */
+
+export {
+    applyEdit,
+    normalizeChanges,
+    snapshotOf,
+    REVISION_SUMMARY_MAX_LENGTH,
+} from './history';
+export type { PostSnapshot, PostChanges, EditablePost, EditResult } from './history';
+
+export { htmlToText, diffTokens, diffWords, diffLines, toSideBySide } from './diff';
+export type { DiffPart, DiffPartType, SideBySideRow } from './diff';
@@ -0,0 +1,138 @@
+/**
+ * Search Query Compiler
+ * =====================
+ * Turns a parsed search query into a question filter plus the words and
+ * phrases for the `$text` index
+ */
+
+import { Types } from 'mongoose';
+import { escapeRegex } from '@/lib/utils';
+import type { SearchQuery, SearchNode, NumberRange, DateRange, QuestionState } from './query';
+
+// ============================================
+// Types
+// ============================================
+
+export interface CompileOptions {
+    // Who "user:me" refers to; without a viewer it matches nothing
+    viewerId?: string | null;
+}
+
+export interface CompiledSearch {
+    filter: Record<string, unknown>;
+    // `$text` search string, when the query has words or phrases to match
+    text?: string;
+}
+
+// ============================================
+// Conditions
+// ============================================
+
+// Matches a question in the given state / not in it
+const STATE_FILTERS: Record<QuestionState, [Record<string, unknown>, Record<string, unknown>]> = {
+    accepted: [{ acceptedAnswer: { $ne: null } }, { acceptedAnswer: null }],
+    closed: [{ isClosed: true }, { isClosed: { $ne: true } }],
+    open: [{ isClosed: { $ne: true } }, { isClosed: true }],
+    answered: [{ answerCount: { $gt: 0 } }, { answerCount: { $not: { $gt: 0 } } }],
+    unanswered: [{ answerCount: { $not: { $gt: 0 } } }, { answerCount: { $gt: 0 } }],
+};
+
+function numberCondition({ min, max }: NumberRange) {
+    return {
+        ...(min !== undefined && { $gte: min }),
+        ...(max !== undefined && { $lte: max }),
+    };
+}
+
+function dateCondition({ from, to }: DateRange) {
+    return {
+        ...(from && { $gte: from }),
+        ...(to && { $lt: to }),
+    };
+}
+
+function textTerm(node: SearchNode & { value: string }): string {
+    return node.type === 'phrase' ? `"${node.value}"` : node.value;
+}
+
+/**
+ * The filter condition for one operator node (text and phrases are handled separately)
+ */
+function nodeCondition(node: SearchNode, { viewerId }: CompileOptions): Record<string, unknown> | null {
+    const negate = (field: string, condition: Record<string, unknown>) =>
+        ({ [field]: node.negated ? { $not: condition } : condition });
+
+    switch (node.type) {
+        case 'tag':
+            return { tags: node.negated ? { $ne: node.name } : node.name };
+
+        case 'user': {
+            const id = node.id === 'me' ? viewerId : node.id;
+            if (!id) {
+                // Nobody to match: "user:me" finds nothing, "-user:me" excludes nothing
+                return node.negated ? null : { _id: { $exists: false } };
+            }
+            const author = new Types.ObjectId(id);
+            return { author: node.negated ? { $ne: author } : author };
+        }
+
+        case 'score':
+            return negate('score', numberCondition(node.range));
+
+        case 'answers':
+            return negate('answerCount', numberCondition(node.range));
+
+        case 'is':
+            return STATE_FILTERS[node.state][node.negated ? 1 : 0];
+
+        case 'created':
+            return negate('createdAt', dateCondition(node.range));
+
+        default:
+            return null;
+    }
+}
+
+// ============================================
+// Compiler
+// ============================================
+
+/**
+ * Build the question filter and `$text` search for a parsed query.
+ * Exclusions ride along in the `$text` search when there are words to match;
+ * on their own they fall back to case-insensitive title/body matching,
+ * since `$text` needs at least one positive term.
+ */
+export function compileSearchQuery(query: SearchQuery, options: CompileOptions = {}): CompiledSearch {
+    const conditions: Record<string, unknown>[] = [];
+    const textNodes = query.nodes.filter(
+        (node): node is Extract<SearchNode, { type: 'text' | 'phrase' }> =>
+            node.type === 'text' || node.type === 'phrase'
+    );
+
+    for (const node of query.nodes) {
+        const condition = nodeCondition(node, options);
+        if (condition) conditions.push(condition);
+    }
+
+    const included = textNodes.filter((node) => !node.negated);
+    const excluded = textNodes.filter((node) => node.negated);
+    let text: string | undefined;
+
+    if (included.length > 0) {
+        text = [
+            ...included.map(textTerm),
+            ...excluded.map((node) => `-${textTerm(node)}`),
+        ].join(' ');
+    } else {
+        for (const node of excluded) {
+            const pattern = new RegExp(escapeRegex(node.value), 'i');
+            conditions.push({ $nor: [{ title: pattern }, { body: pattern }] });
+        }
+    }
+
+    return {
+        filter: conditions.length > 0 ? { $and: conditions } : {},
+        text,
+    };
+}
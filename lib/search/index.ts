@@ -0,0 +1,36 @@
+/**
+ * Search Module Index
+ * ===================
+ * Barrel export for the search query language, snippets and unified search
+ */
+
+export {
+    parseSearchQuery,
+    parseNumberRange,
+    parseDateRange,
+    SEARCH_SYNTAX,
+} from './query';
+export type {
+    SearchQuery,
+    SearchNode,
+    SearchQueryError,
+    NumberRange,
+    DateRange,
+    QuestionState,
+} from './query';
+
+export { compileSearchQuery } from './compile';
+export type { CompileOptions, CompiledSearch } from './compile';
+
+export { resolveQueryTags } from './tags';
+
+export { highlightText, makeSnippet, stripHtml, SNIPPET_LENGTH } from './snippets';
+export type { HighlightedText } from './snippets';
+
+export {
+    searchPosts,
+    DEFAULT_SEARCH_LIMIT,
+    MAX_SEARCH_LIMIT,
+    ANSWERS_PER_QUESTION,
+} from './unified';
+export type { QuestionHit, AnswerHit, SearchResults } from './unified';
@@ -0,0 +1,242 @@
+import { describe, expect, it } from 'vitest';
+import { parseDateRange, parseNumberRange, parseSearchQuery } from './query';
+
+const utc = (year: number, month: number, day = 1) => new Date(Date.UTC(year, month - 1, day));
+
+// ============================================
+// parseNumberRange
+// ============================================
+
+describe('parseNumberRange', () => {
+    it('parses an exact number', () => {
+        expect(parseNumberRange('3')).toEqual({ min: 3, max: 3 });
+        expect(parseNumberRange('=0')).toEqual({ min: 0, max: 0 });
+        expect(parseNumberRange('-2')).toEqual({ min: -2, max: -2 });
+    });
+
+    it('parses comparisons as inclusive bounds', () => {
+        expect(parseNumberRange('>=3')).toEqual({ min: 3 });
+        expect(parseNumberRange('>3')).toEqual({ min: 4 });
+        expect(parseNumberRange('<=3')).toEqual({ max: 3 });
+        expect(parseNumberRange('<3')).toEqual({ max: 2 });
+    });
+
+    it('parses ranges with either side open', () => {
+        expect(parseNumberRange('1..10')).toEqual({ min: 1, max: 10 });
+        expect(parseNumberRange('5..')).toEqual({ min: 5, max: undefined });
+        expect(parseNumberRange('..5')).toEqual({ min: undefined, max: 5 });
+        expect(parseNumberRange('-5..-1')).toEqual({ min: -5, max: -1 });
+    });
+
+    it('rejects malformed and inverted values', () => {
+        expect(parseNumberRange('')).toBeNull();
+        expect(parseNumberRange('..')).toBeNull();
+        expect(parseNumberRange('10..1')).toBeNull();
+        expect(parseNumberRange('abc')).toBeNull();
+        expect(parseNumberRange('>=')).toBeNull();
+        expect(parseNumberRange('1.5')).toBeNull();
+        expect(parseNumberRange('=>3')).toBeNull();
+    });
+});
+
+// ============================================
+// parseDateRange
+// ============================================
+
+describe('parseDateRange', () => {
+    it('covers a whole year, month or day', () => {
+        expect(parseDateRange('2026')).toEqual({ from: utc(2026, 1), to: utc(2027, 1) });
+        expect(parseDateRange('2026-03')).toEqual({ from: utc(2026, 3), to: utc(2026, 4) });
+        expect(parseDateRange('2026-03-15')).toEqual({ from: utc(2026, 3, 15), to: utc(2026, 3, 16) });
+    });
+
+    it('rolls periods over into the next month and year', () => {
+        expect(parseDateRange('2026-12')).toEqual({ from: utc(2026, 12), to: utc(2027, 1) });
+        expect(parseDateRange('2026-12-31')).toEqual({ from: utc(2026, 12, 31), to: utc(2027, 1, 1) });
+        expect(parseDateRange('2026-01-31')).toEqual({ from: utc(2026, 1, 31), to: utc(2026, 2, 1) });
+        expect(parseDateRange('2024-02-29')).toEqual({ from: utc(2024, 2, 29), to: utc(2024, 3, 1) });
+    });
+
+    it('rejects days that do not exist instead of rolling them over', () => {
+        expect(parseDateRange('2026-02-29')).toBeNull();
+        expect(parseDateRange('2026-02-30')).toBeNull();
+        expect(parseDateRange('2026-04-31')).toBeNull();
+        expect(parseDateRange('2026-01-32')).toBeNull();
+    });
+
+    it('rejects months out of range', () => {
+        expect(parseDateRange('2026-00')).toBeNull();
+        expect(parseDateRange('2026-13')).toBeNull();
+    });
+
+    it('parses ranges inclusive of the last period', () => {
+        expect(parseDateRange('2026-01..2026-06')).toEqual({ from: utc(2026, 1), to: utc(2026, 7) });
+        expect(parseDateRange('2025..2026')).toEqual({ from: utc(2025, 1), to: utc(2027, 1) });
+        expect(parseDateRange('2026-03..')).toEqual({ from: utc(2026, 3), to: undefined });
+        expect(parseDateRange('..2026-03')).toEqual({ from: undefined, to: utc(2026, 4) });
+        expect(parseDateRange('2026-03..2026-03')).toEqual({ from: utc(2026, 3), to: utc(2026, 4) });
+    });
+
+    it('parses comparisons against the start or end of the period', () => {
+        expect(parseDateRange('>=2026-03')).toEqual({ from: utc(2026, 3) });
+        expect(parseDateRange('>2026-03')).toEqual({ from: utc(2026, 4) });
+        expect(parseDateRange('<=2026-03')).toEqual({ to: utc(2026, 4) });
+        expect(parseDateRange('<2026-03')).toEqual({ to: utc(2026, 3) });
+        expect(parseDateRange('=2026-03')).toEqual({ from: utc(2026, 3), to: utc(2026, 4) });
+    });
+
+    it('rejects malformed and inverted values', () => {
+        expect(parseDateRange('')).toBeNull();
+        expect(parseDateRange('..')).toBeNull();
+        expect(parseDateRange('2026-06..2026-01')).toBeNull();
+        expect(parseDateRange('2026-06..bad')).toBeNull();
+        expect(parseDateRange('26')).toBeNull();
+        expect(parseDateRange('2026-3')).toBeNull();
+        expect(parseDateRange('2026/03')).toBeNull();
+        expect(parseDateRange('yesterday')).toBeNull();
+        expect(parseDateRange('>=')).toBeNull();
+    });
+});
+
+// ============================================
+// parseSearchQuery
+// ============================================
+
+describe('parseSearchQuery', () => {
+    it('returns nothing for an empty or blank query', () => {
+        expect(parseSearchQuery('')).toEqual({ nodes: [], errors: [] });
+        expect(parseSearchQuery('   \t ')).toEqual({ nodes: [], errors: [] });
+    });
+
+    it('splits plain words into text nodes', () => {
+        expect(parseSearchQuery('  use   effect ').nodes).toEqual([
+            { type: 'text', value: 'use', negated: false },
+            { type: 'text', value: 'effect', negated: false },
+        ]);
+    });
+
+    it('parses every operator', () => {
+        const userId = '507f1f77bcf86cd799439011';
+        const { nodes, errors } = parseSearchQuery(
+            `[react] user:${userId} score:>=3 answers:0 is:accepted created:2026`
+        );
+
+        expect(errors).toEqual([]);
+        expect(nodes).toEqual([
+            { type: 'tag', name: 'react', negated: false },
+            { type: 'user', id: userId, negated: false },
+            { type: 'score', range: { min: 3 }, negated: false },
+            { type: 'answers', range: { min: 0, max: 0 }, negated: false },
+            { type: 'is', state: 'accepted', negated: false },
+            { type: 'created', range: { from: utc(2026, 1), to: utc(2027, 1) }, negated: false },
+        ]);
+    });
+
+    it('treats operator names and values case-insensitively', () => {
+        expect(parseSearchQuery('IS:Closed User:507F1F77BCF86CD799439011 [React]').nodes).toEqual([
+            { type: 'is', state: 'closed', negated: false },
+            { type: 'user', id: '507f1f77bcf86cd799439011', negated: false },
+            { type: 'tag', name: 'react', negated: false },
+        ]);
+    });
+
+    it('normalizes tag names', () => {
+        expect(parseSearchQuery('[Next.JS]').nodes).toEqual([
+            { type: 'tag', name: 'next.js', negated: false },
+        ]);
+    });
+
+    it('negates words, phrases and operators prefixed with a dash', () => {
+        expect(parseSearchQuery('-class -"class component" -[vue] -is:closed -score:<0').nodes).toEqual([
+            { type: 'text', value: 'class', negated: true },
+            { type: 'phrase', value: 'class component', negated: true },
+            { type: 'tag', name: 'vue', negated: true },
+            { type: 'is', state: 'closed', negated: true },
+            { type: 'score', range: { max: -1 }, negated: true },
+        ]);
+    });
+
+    it('ignores a bare dash rather than negating the next token', () => {
+        expect(parseSearchQuery('- hooks --').nodes).toEqual([
+            { type: 'text', value: 'hooks', negated: false },
+        ]);
+    });
+
+    it('parses quoted phrases and collapses their whitespace', () => {
+        expect(parseSearchQuery('before "use   effect" after').nodes).toEqual([
+            { type: 'text', value: 'before', negated: false },
+            { type: 'phrase', value: 'use effect', negated: false },
+            { type: 'text', value: 'after', negated: false },
+        ]);
+    });
+
+    it('runs an unclosed quote to the end of the query', () => {
+        expect(parseSearchQuery('hooks "use effect').nodes).toEqual([
+            { type: 'text', value: 'hooks', negated: false },
+            { type: 'phrase', value: 'use effect', negated: false },
+        ]);
+    });
+
+    it('drops empty phrases and quotes inside words', () => {
+        expect(parseSearchQuery('"" "  " it"s').nodes).toEqual([
+            { type: 'text', value: 'its', negated: false },
+        ]);
+    });
+
+    it('keeps operator syntax inside a phrase as text', () => {
+        expect(parseSearchQuery('"is:closed [tag]"').nodes).toEqual([
+            { type: 'phrase', value: 'is:closed [tag]', negated: false },
+        ]);
+    });
+
+    it('treats unknown key:value words as search terms', () => {
+        const { nodes, errors } = parseSearchQuery('http://example.com foo:bar');
+
+        expect(errors).toEqual([]);
+        expect(nodes).toEqual([
+            { type: 'text', value: 'http://example.com', negated: false },
+            { type: 'text', value: 'foo:bar', negated: false },
+        ]);
+    });
+
+    it('treats an operator with no value as a search term', () => {
+        expect(parseSearchQuery('score:').nodes).toEqual([
+            { type: 'text', value: 'score:', negated: false },
+        ]);
+    });
+
+    it('reports invalid operator values and leaves them out of the query', () => {
+        const { nodes, errors } = parseSearchQuery(
+            'hooks user:bob -score:lots is:pending created:2026-02-30 answers:5..1'
+        );
+
+        expect(nodes).toEqual([{ type: 'text', value: 'hooks', negated: false }]);
+        expect(errors.map((error) => error.token)).toEqual([
+            'user:bob',
+            '-score:lots',
+            'is:pending',
+            'created:2026-02-30',
+            'answers:5..1',
+        ]);
+        expect(errors[0].message).toBe('Expected a user id or "me"');
+        expect(errors[2].message).toBe('Expected one of accepted, closed, open, answered, unanswered');
+    });
+
+    it('reports empty tags', () => {
+        const { nodes, errors } = parseSearchQuery('[] -[] [ react');
+
+        expect(nodes).toEqual([{ type: 'text', value: 'react', negated: false }]);
+        expect(errors).toEqual([
+            { token: '[]', message: 'Expected a tag name' },
+            { token: '-[]', message: 'Expected a tag name' },
+            { token: '[', message: 'Expected a tag name' },
+        ]);
+    });
+
+    it('ends an unclosed tag at the next space', () => {
+        expect(parseSearchQuery('[react hooks').nodes).toEqual([
+            { type: 'tag', name: 'react', negated: false },
+            { type: 'text', value: 'hooks', negated: false },
+        ]);
+    });
+});
@@ -0,0 +1,312 @@
+/**
+ * Search Query Language
+ * =====================
+ * Parses question search strings like `[react] score:>=3 is:accepted "use effect" -class`
+ * into a typed AST. Pure and client-safe, so the search box can validate as you type;
+ * compile.ts turns the AST into a Mongo filter on the server.
+ */
+
+import { normalizeTagName } from '@/lib/tags/rules';
+
+// ============================================
+// Types
+// ============================================
+
+/** Inclusive integer bounds; a missing side is unbounded */
+export interface NumberRange {
+    min?: number;
+    max?: number;
+}
+
+/** Date bounds; `from` is inclusive and `to` exclusive */
+export interface DateRange {
+    from?: Date;
+    to?: Date;
+}
+
+export type QuestionState = 'accepted' | 'closed' | 'open' | 'answered' | 'unanswered';
+
+interface BaseNode {
+    // Prefixed with "-": the condition is excluded instead of required
+    negated: boolean;
+}
+
+export interface TextNode extends BaseNode {
+    type: 'text';
+    value: string;
+}
+
+export interface PhraseNode extends BaseNode {
+    type: 'phrase';
+    value: string;
+}
+
+export interface TagNode extends BaseNode {
+    type: 'tag';
+    name: string;
+}
+
+export interface UserNode extends BaseNode {
+    type: 'user';
+    // An ObjectId, or "me" for the signed-in user
+    id: string;
+}
+
+export interface ScoreNode extends BaseNode {
+    type: 'score';
+    range: NumberRange;
+}
+
+export interface AnswersNode extends BaseNode {
+    type: 'answers';
+    range: NumberRange;
+}
+
+export interface StateNode extends BaseNode {
+    type: 'is';
+    state: QuestionState;
+}
+
+export interface CreatedNode extends BaseNode {
+    type: 'created';
+    range: DateRange;
+}
+
+export type SearchNode =
+    | TextNode
+    | PhraseNode
+    | TagNode
+    | UserNode
+    | ScoreNode
+    | AnswersNode
+    | StateNode
+    | CreatedNode;
+
+export interface SearchQueryError {
+    token: string;
+    message: string;
+}
+
+export interface SearchQuery {
+    nodes: SearchNode[];
+    // Tokens that looked like operators but couldn't be parsed; they're left out of the query
+    errors: SearchQueryError[];
+}
+
+// ============================================
+// Syntax Reference
+// ============================================
+
+/**
+ * Operators shown in the search box's inline help
+ */
+export const SEARCH_SYNTAX = [
+    { syntax: '[tag]', description: 'Tagged with tag' },
+    { syntax: 'user:<id>', description: 'Asked by a user (user:me for your own)' },
+    { syntax: 'score:>=3', description: 'Score comparison (>, >=, <, <=, = or 1..10)' },
+    { syntax: 'answers:0', description: 'Number of answers, same comparisons as score' },
+    { syntax: 'is:accepted', description: 'Has an accepted answer (also closed, open, answered, unanswered)' },
+    { syntax: 'created:2026-01..2026-06', description: 'Asked in a year, month or day, or a range of them' },
+    { syntax: '"exact phrase"', description: 'Contains the exact phrase' },
+    { syntax: '-word', description: 'Excludes a word, phrase or any operator above' },
+] as const;
+
+const QUESTION_STATES: readonly QuestionState[] = ['accepted', 'closed', 'open', 'answered', 'unanswered'];
+
+const OBJECT_ID_PATTERN = /^[a-f0-9]{24}$/i;
+
+// ============================================
+// Value Parsers
+// ============================================
+
+/**
+ * `3`, `>=3`, `>3`, `<=3`, `<3`, `=3` or `1..10` (either side may be left open)
+ */
+export function parseNumberRange(value: string): NumberRange | null {
+    const range = value.match(/^(-?\d+)?\.\.(-?\d+)?$/);
+    if (range) {
+        if (range[1] === undefined && range[2] === undefined) return null;
+        const min = range[1] !== undefined ? parseInt(range[1], 10) : undefined;
+        const max = range[2] !== undefined ? parseInt(range[2], 10) : undefined;
+        if (min !== undefined && max !== undefined && min > max) return null;
+        return { min, max };
+    }
+
+    const comparison = value.match(/^(>=|<=|>|<|=)?(-?\d+)$/);
+    if (!comparison) return null;
+
+    const n = parseInt(comparison[2], 10);
+    switch (comparison[1]) {
+        case '>=': return { min: n };
+        case '>': return { min: n + 1 };
+        case '<=': return { max: n };
+        case '<': return { max: n - 1 };
+        default: return { min: n, max: n };
+    }
+}
+
+/**
+ * The period a `YYYY`, `YYYY-MM` or `YYYY-MM-DD` date covers, in UTC
+ */
+function parsePeriod(value: string): { start: Date; end: Date } | null {
+    const match = value.match(/^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/);
+    if (!match) return null;
+
+    const year = parseInt(match[1], 10);
+    const month = match[2] !== undefined ? parseInt(match[2], 10) - 1 : undefined;
+    const day = match[3] !== undefined ? parseInt(match[3], 10) : undefined;
+
+    if (month !== undefined && (month < 0 || month > 11)) return null;
+
+    if (month === undefined) {
+        return { start: new Date(Date.UTC(year, 0, 1)), end: new Date(Date.UTC(year + 1, 0, 1)) };
+    }
+    if (day === undefined) {
+        return { start: new Date(Date.UTC(year, month, 1)), end: new Date(Date.UTC(year, month + 1, 1)) };
+    }
+
+    const start = new Date(Date.UTC(year, month, day));
+    // Reject days that roll over into the next month (e.g. 2026-02-30)
+    if (start.getUTCMonth() !== month) return null;
+    return { start, end: new Date(Date.UTC(year, month, day + 1)) };
+}
+
+/**
+ * `2026`, `2026-01`, `2026-01-15`, a range `2026-01..2026-06` (inclusive of the
+ * last period, either side may be left open) or a comparison like `>=2026-03`
+ */
+export function parseDateRange(value: string): DateRange | null {
+    const dots = value.indexOf('..');
+    if (dots !== -1) {
+        const fromValue = value.slice(0, dots);
+        const toValue = value.slice(dots + 2);
+        if (!fromValue && !toValue) return null;
+
+        const from = fromValue ? parsePeriod(fromValue) : null;
+        const to = toValue ? parsePeriod(toValue) : null;
+        if ((fromValue && !from) || (toValue && !to)) return null;
+        if (from && to && from.start >= to.end) return null;
+
+        return { from: from?.start, to: to?.end };
+    }
+
+    const comparison = value.match(/^(>=|<=|>|<|=)?(.+)$/);
+    const period = comparison ? parsePeriod(comparison[2]) : null;
+    if (!comparison || !period) return null;
+
+    switch (comparison[1]) {
+        case '>=': return { from: period.start };
+        case '>': return { from: period.end };
+        case '<=': return { to: period.end };
+        case '<': return { to: period.start };
+        default: return { from: period.start, to: period.end };
+    }
+}
+
+// ============================================
+// Parser
+// ============================================
+
+type OperatorResult = SearchNode | string; // a string is the error message
+
+const OPERATORS: Record<string, (value: string, negated: boolean) => OperatorResult> = {
+    user: (value, negated) => {
+        if (value === 'me' || OBJECT_ID_PATTERN.test(value)) {
+            return { type: 'user', id: value.toLowerCase(), negated };
+        }
+        return 'Expected a user id or "me"';
+    },
+    score: (value, negated) => {
+        const range = parseNumberRange(value);
+        return range ? { type: 'score', range, negated } : 'Expected a number, comparison or range';
+    },
+    answers: (value, negated) => {
+        const range = parseNumberRange(value);
+        return range ? { type: 'answers', range, negated } : 'Expected a number, comparison or range';
+    },
+    is: (value, negated) => {
+        const state = value.toLowerCase() as QuestionState;
+        return QUESTION_STATES.includes(state)
+            ? { type: 'is', state, negated }
+            : `Expected one of ${QUESTION_STATES.join(', ')}`;
+    },
+    created: (value, negated) => {
+        const range = parseDateRange(value);
+        return range ? { type: 'created', range, negated } : 'Expected a date (YYYY, YYYY-MM or YYYY-MM-DD) or range';
+    },
+};
+
+function readUntil(input: string, start: number, stop: (char: string) => boolean): number {
+    let end = start;
+    while (end < input.length && !stop(input[end])) end++;
+    return end;
+}
+
+const isSpace = (char: string) => /\s/.test(char);
+
+/**
+ * Parse a search string. Unknown `key:value` words are plain search terms;
+ * malformed operators are reported in `errors` and otherwise ignored.
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+    const nodes: SearchNode[] = [];
+    const errors: SearchQueryError[] = [];
+    let i = 0;
+
+    while (i < input.length) {
+        if (isSpace(input[i])) {
+            i++;
+            continue;
+        }
+
+        const start = i;
+        const negated = input[i] === '-' && i + 1 < input.length && !isSpace(input[i + 1]);
+        if (negated) i++;
+
+        // "exact phrase" (an unclosed quote runs to the end)
+        if (input[i] === '"') {
+            const close = input.indexOf('"', i + 1);
+            const end = close === -1 ? input.length : close;
+            const value = input.slice(i + 1, end).trim().replace(/\s+/g, ' ');
+            if (value) nodes.push({ type: 'phrase', value, negated });
+            i = end + 1;
+            continue;
+        }
+
+        // [tag]
+        if (input[i] === '[') {
+            const end = readUntil(input, i + 1, (char) => char === ']' || isSpace(char));
+            const next = input[end] === ']' ? end + 1 : end;
+            const name = normalizeTagName(input.slice(i + 1, end));
+            if (name) {
+                nodes.push({ type: 'tag', name, negated });
+            } else {
+                errors.push({ token: input.slice(start, next), message: 'Expected a tag name' });
+            }
+            i = next;
+            continue;
+        }
+
+        const end = readUntil(input, i, isSpace);
+        const word = input.slice(i, end);
+        i = end;
+
+        const operator = word.match(/^([a-z]+):(.+)$/i);
+        const parse = operator && OPERATORS[operator[1].toLowerCase()];
+        if (operator && parse) {
+            const result = parse(operator[2], negated);
+            if (typeof result === 'string') {
+                errors.push({ token: input.slice(start, end), message: result });
+            } else {
+                nodes.push(result);
+            }
+            continue;
+        }
+
+        // Quotes inside a word (or a bare dash) would change how the text index reads the search
+        const value = word.replace(/"/g, '');
+        if (value && !/^-+$/.test(value)) nodes.push({ type: 'text', value, negated });
+    }
+
+    return { nodes, errors };
+}
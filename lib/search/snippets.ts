@@ -0,0 +1,137 @@
+/**
+ * Search Snippets
+ * ===============
+ * Plain-text excerpts of post bodies around the matched words, with the
+ * positions of each match so the client can highlight them without
+ * rendering any stored HTML
+ */
+
+import { escapeRegex } from '@/lib/utils';
+
+// ============================================
+// Configuration
+// ============================================
+
+export const SNIPPET_LENGTH = 160;
+
+// Suffixes trimmed before matching, so "caching" highlights "cache" and "cached"
+// the way the text index's stemming matched them
+const SUFFIXES = ['ing', 'ed', 'es', 's'];
+const MIN_STEM_LENGTH = 3;
+
+// ============================================
+// Types
+// ============================================
+
+export interface HighlightedText {
+    text: string;
+    // [start, end) offsets into text
+    highlights: [number, number][];
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Visible text of an editor HTML body
+ */
+export function stripHtml(html: string): string {
+    return html
+        .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function stem(term: string): string {
+    const lower = term.toLowerCase();
+    for (const suffix of SUFFIXES) {
+        if (lower.endsWith(suffix) && lower.length - suffix.length >= MIN_STEM_LENGTH) {
+            return lower.slice(0, -suffix.length);
+        }
+    }
+    return lower;
+}
+
+/**
+ * Words starting with a term's stem, and exact phrases
+ */
+function matchPattern(terms: string[]): RegExp | null {
+    const alternatives = terms
+        .map((term) => term.trim())
+        .filter(Boolean)
+        .map((term) => (/\s/.test(term)
+            ? escapeRegex(term).replace(/\s+/g, '\\s+')
+            : `${escapeRegex(stem(term))}[\\w'-]*`))
+        // Longest first, so phrases win over the words inside them
+        .sort((a, b) => b.length - a.length);
+
+    if (alternatives.length === 0) return null;
+    return new RegExp(`(^|[^\\w])(${alternatives.join('|')})`, 'gi');
+}
+
+function findMatches(text: string, pattern: RegExp | null): [number, number][] {
+    if (!pattern) return [];
+
+    const matches: [number, number][] = [];
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        const start = match.index + match[1].length;
+        matches.push([start, start + match[2].length]);
+        if (match[0].length === 0) pattern.lastIndex++;
+    }
+    return matches;
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Highlight every match of the terms in a short text (e.g. a title)
+ */
+export function highlightText(text: string, terms: string[]): HighlightedText {
+    return { text, highlights: findMatches(text, matchPattern(terms)) };
+}
+
+/**
+ * A window of a post body centred on its first match, with the matches in it
+ * highlighted. Falls back to the start of the body when nothing matches
+ * (e.g. the index matched a stemmed form we don't recognise).
+ */
+export function makeSnippet(html: string, terms: string[], length: number = SNIPPET_LENGTH): HighlightedText {
+    const text = stripHtml(html);
+    const matches = findMatches(text, matchPattern(terms));
+
+    if (text.length <= length) {
+        return { text, highlights: matches };
+    }
+
+    const first = matches[0]?.[0] ?? 0;
+    let start = Math.max(0, Math.min(first - Math.floor(length / 3), text.length - length));
+    // Don't cut a word in half at the start
+    if (start > 0) {
+        const space = text.indexOf(' ', start);
+        if (space !== -1 && space < first) start = space + 1;
+    }
+    const end = Math.min(text.length, start + length);
+
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < text.length ? '…' : '';
+    const offset = prefix.length - start;
+
+    return {
+        text: `${prefix}${text.slice(start, end)}${suffix}`,
+        highlights: matches
+            .filter(([from, to]) => from >= start && to <= end)
+            .map(([from, to]) => [from + offset, to + offset] as [number, number]),
+    };
+}
@@ -0,0 +1,27 @@
+/**
+ * Search Tag Resolution
+ * =====================
+ * Maps tag synonyms in a parsed query to their canonical tags. Kept apart from
+ * the compiler, which stays free of model imports so the Question model can use it.
+ */
+
+import { resolveTagNames } from '@/lib/tags';
+import type { SearchQuery } from './query';
+
+/**
+ * Replace tag synonyms in a query with their canonical tags, so `[js]` searches `javascript`
+ */
+export async function resolveQueryTags(query: SearchQuery): Promise<SearchQuery> {
+    const names = query.nodes.flatMap((node) => (node.type === 'tag' ? [node.name] : []));
+    if (names.length === 0) return query;
+
+    const resolved = await Promise.all(names.map(async (name) => (await resolveTagNames([name]))[0] ?? name));
+    const canonical = new Map(names.map((name, index) => [name, resolved[index]]));
+
+    return {
+        ...query,
+        nodes: query.nodes.map((node) =>
+            node.type === 'tag' ? { ...node, name: canonical.get(node.name) ?? node.name } : node
+        ),
+    };
+}
@@ -0,0 +1,171 @@
+/**
+ * Unified Search
+ * ==============
+ * Ranked search over question titles/bodies and answer bodies. Answer hits
+ * are grouped under their parent question, so a question shows up once
+ * with the answers that matched.
+ */
+
+import { Types } from 'mongoose';
+import { Question, Answer } from '@/lib/models';
+import { parseSearchQuery } from './query';
+import type { SearchQueryError } from './query';
+import { compileSearchQuery } from './compile';
+import { resolveQueryTags } from './tags';
+import { highlightText, makeSnippet } from './snippets';
+import type { HighlightedText } from './snippets';
+
+// ============================================
+// Configuration
+// ============================================
+
+export const DEFAULT_SEARCH_LIMIT = 8;
+export const MAX_SEARCH_LIMIT = 20;
+
+// Matched answers listed under each question
+export const ANSWERS_PER_QUESTION = 3;
+
+// An answer match ranks its question a little below an equally good question match
+const ANSWER_RANK_WEIGHT = 0.8;
+
+// ============================================
+// Types
+// ============================================
+
+export interface AnswerHit {
+    id: string;
+    snippet: HighlightedText;
+    score: number;
+    isAccepted: boolean;
+    relevance: number;
+}
+
+export interface QuestionHit {
+    id: string;
+    title: HighlightedText;
+    // Only when the question itself matched; otherwise its answers did
+    snippet: HighlightedText | null;
+    tags: string[];
+    score: number;
+    answerCount: number;
+    hasAcceptedAnswer: boolean;
+    isClosed: boolean;
+    relevance: number;
+    answers: AnswerHit[];
+}
+
+export interface SearchResults {
+    results: QuestionHit[];
+    errors: SearchQueryError[];
+}
+
+interface QuestionRow {
+    _id: Types.ObjectId;
+    title: string;
+    body: string;
+    tags: string[];
+    score?: number;
+    answerCount?: number;
+    acceptedAnswer?: Types.ObjectId | null;
+    isClosed?: boolean;
+    textScore?: number;
+}
+
+interface AnswerRow {
+    _id: Types.ObjectId;
+    body: string;
+    question: Types.ObjectId;
+    score?: number;
+    isAccepted?: boolean;
+    textScore: number;
+}
+
+const QUESTION_FIELDS = { title: 1, body: 1, tags: 1, score: 1, answerCount: 1, acceptedAnswer: 1, isClosed: 1 };
+
+// ============================================
+// Search
+// ============================================
+
+/**
+ * Search questions and answers with the search query language. Operators
+ * (tags, score, is:, ...) filter questions, and answers only match under
+ * questions that pass them. Needs at least one word or phrase.
+ */
+export async function searchPosts(
+    input: string,
+    { limit = DEFAULT_SEARCH_LIMIT, viewerId }: { limit?: number; viewerId?: string | null } = {}
+): Promise<SearchResults> {
+    const query = await resolveQueryTags(parseSearchQuery(input));
+    const { filter, text } = compileSearchQuery(query, { viewerId });
+    if (!text) {
+        return { results: [], errors: query.errors };
+    }
+
+    const terms = query.nodes.flatMap((node) =>
+        (node.type === 'text' || node.type === 'phrase') && !node.negated ? [node.value] : []
+    );
+    const questionFilter = { ...filter, isDeleted: { $ne: true } };
+    const textScore = { $meta: 'textScore' as const };
+
+    const [questionRows, answerRows] = await Promise.all([
+        Question.find(
+            { $text: { $search: text }, ...questionFilter },
+            { ...QUESTION_FIELDS, textScore }
+        )
+            .sort({ textScore })
+            .limit(limit)
+            .lean<QuestionRow[]>(),
+        Answer.find(
+            { $text: { $search: text }, isDeleted: { $ne: true } },
+            { body: 1, question: 1, score: 1, isAccepted: 1, textScore }
+        )
+            .sort({ textScore })
+            .limit(limit * ANSWERS_PER_QUESTION)
+            .lean<AnswerRow[]>(),
+    ]);
+
+    // Parents of matching answers that didn't match themselves (and pass the filters)
+    const matched = new Set(questionRows.map((q) => q._id.toString()));
+    const missingIds = [...new Set(answerRows.map((a) => a.question.toString()))]
+        .filter((id) => !matched.has(id));
+    const parentRows = missingIds.length > 0
+        ? await Question.find({ _id: { $in: missingIds }, ...questionFilter }, QUESTION_FIELDS).lean<QuestionRow[]>()
+        : [];
+
+    const groups = new Map<string, QuestionHit>();
+    for (const row of [...questionRows, ...parentRows]) {
+        const directMatch = row.textScore !== undefined;
+        groups.set(row._id.toString(), {
+            id: row._id.toString(),
+            title: highlightText(row.title, terms),
+            snippet: directMatch ? makeSnippet(row.body, terms) : null,
+            tags: row.tags,
+            score: row.score ?? 0,
+            answerCount: row.answerCount ?? 0,
+            hasAcceptedAnswer: !!row.acceptedAnswer,
+            isClosed: !!row.isClosed,
+            relevance: row.textScore ?? 0,
+            answers: [],
+        });
+    }
+
+    for (const row of answerRows) {
+        const group = groups.get(row.question.toString());
+        if (!group || group.answers.length >= ANSWERS_PER_QUESTION) continue;
+
+        group.answers.push({
+            id: row._id.toString(),
+            snippet: makeSnippet(row.body, terms),
+            score: row.score ?? 0,
+            isAccepted: !!row.isAccepted,
+            relevance: row.textScore,
+        });
+        group.relevance = Math.max(group.relevance, row.textScore * ANSWER_RANK_WEIGHT);
+    }
+
+    const results = [...groups.values()]
+        .sort((a, b) => b.relevance - a.relevance)
+        .slice(0, limit);
+
+    return { results, errors: query.errors };
+}
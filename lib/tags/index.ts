@@ -0,0 +1,17 @@
+/**
+ * Tags Module Index
+ * =================
+ * Barrel export for tag rules, synonyms and counts
+ */
+
+export {
+    normalizeTagName,
+    canCreateTag,
+    canEditTagWiki,
+    canEditTagSynonyms,
+    TAG_CREATE_REPUTATION,
+    TAG_WIKI_EDIT_REPUTATION,
+    TAG_EXCERPT_MAX_LENGTH,
+} from './rules';
+
+export { resolveTagNames, findNewTags, mergeSynonym, updateTagCounts, recountTags } from './tags';
@@ -0,0 +1,52 @@
+/**
+ * Tag Rules
+ * =========
+ * Tag name normalization and edit permissions.
+ * Pure module - safe to import from client components.
+ */
+
+import { isModerator } from '@/lib/auth/roles';
+
+// ============================================
+// Configuration
+// ============================================
+
+// Minimum reputation to edit a tag's excerpt and wiki
+export const TAG_WIKI_EDIT_REPUTATION = 1500;
+
+export const TAG_EXCERPT_MAX_LENGTH = 500;
+
+// Minimum reputation to introduce a tag that doesn't exist yet
+export const TAG_CREATE_REPUTATION = 300;
+
+// ============================================
+// Functions
+// ============================================
+
+/**
+ * Lowercase a tag and collapse whitespace into hyphens ("Next JS" -> "next-js")
+ */
+export function normalizeTagName(name: string): string {
+    return name.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Moderators or users with enough reputation can create new tags
+ */
+export function canCreateTag(role?: string, reputation: number = 0): boolean {
+    return isModerator(role) || reputation >= TAG_CREATE_REPUTATION;
+}
+
+/**
+ * Moderators or users with enough reputation can edit tag wikis
+ */
+export function canEditTagWiki(role?: string, reputation: number = 0): boolean {
+    return isModerator(role) || reputation >= TAG_WIKI_EDIT_REPUTATION;
+}
+
+/**
+ * Only moderators can change synonym mappings, since they rewrite existing questions
+ */
+export function canEditTagSynonyms(role?: string): boolean {
+    return isModerator(role);
+}
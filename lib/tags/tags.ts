@@ -0,0 +1,122 @@
+/**
+ * Tag Service
+ * ===========
+ * Synonym resolution and usage counts for tags on questions
+ */
+
+import { Question, Tag } from '@/lib/models';
+import type { ITagDocument } from '@/lib/models';
+import { moveTagFollowers } from '@/lib/notifications';
+import { normalizeTagName } from './rules';
+
+// ============================================
+// Synonyms
+// ============================================
+
+/**
+ * Normalize tag names and map synonyms to their canonical tag,
+ * keeping the original order and dropping duplicates
+ */
+export async function resolveTagNames(names: string[]): Promise<string[]> {
+    const normalized = names.map(normalizeTagName).filter(Boolean);
+    if (normalized.length === 0) return [];
+
+    const canonical = await Tag.find({ synonyms: { $in: normalized } }).select('name synonyms');
+    const lookup = new Map<string, string>();
+    for (const tag of canonical) {
+        for (const synonym of tag.synonyms) {
+            lookup.set(synonym, tag.name);
+        }
+    }
+
+    return [...new Set(normalized.map((name) => lookup.get(name) ?? name))];
+}
+
+/**
+ * The subset of (already resolved) tag names that don't exist yet
+ */
+export async function findNewTags(names: string[]): Promise<string[]> {
+    if (names.length === 0) return [];
+
+    const existing = await Tag.find({ name: { $in: names } }).select('name');
+    const known = new Set(existing.map((tag) => tag.name));
+
+    return names.filter((name) => !known.has(name));
+}
+
+/**
+ * Make `synonym` an alias of `target`: retag existing questions,
+ * fold the old tag's synonyms into the target, and drop the old tag
+ */
+export async function mergeSynonym(synonym: string, target: ITagDocument): Promise<void> {
+    const name = normalizeTagName(synonym);
+    if (!name || name === target.name) return;
+
+    // Two steps so questions already carrying both tags don't end up with a duplicate
+    await Question.updateMany({ tags: name }, { $addToSet: { tags: target.name } });
+    await Question.updateMany({ tags: name }, { $pull: { tags: name } });
+    await moveTagFollowers(name, target.name);
+
+    const previous = await Tag.findOneAndDelete({ name });
+    const synonyms = new Set([...target.synonyms, name, ...(previous?.synonyms ?? [])]);
+    synonyms.delete(target.name);
+
+    target.synonyms = [...synonyms];
+    target.questionCount = await Question.countDocuments({ tags: target.name, isDeleted: { $ne: true } });
+    if (!target.excerpt && previous?.excerpt) {
+        target.excerpt = previous.excerpt;
+    }
+    await target.save();
+}
+
+// ============================================
+// Usage Counts
+// ============================================
+
+/**
+ * Apply a question's tag change to the counts. Tags seen for the first time are created.
+ */
+export async function updateTagCounts(previous: string[], next: string[], userId?: string): Promise<void> {
+    const added = next.filter((name) => !previous.includes(name));
+    const removed = previous.filter((name) => !next.includes(name));
+
+    await Promise.all(added.map((name) =>
+        Tag.updateOne(
+            { name },
+            { $inc: { questionCount: 1 }, $setOnInsert: { createdBy: userId } },
+            { upsert: true }
+        )
+    ));
+
+    if (removed.length > 0) {
+        await Tag.updateMany(
+            { name: { $in: removed }, questionCount: { $gt: 0 } },
+            { $inc: { questionCount: -1 } }
+        );
+    }
+}
+
+/**
+ * Rebuild every tag count from live questions (backfill and drift repair)
+ */
+export async function recountTags(): Promise<number> {
+    const counts: { _id: string; count: number }[] = await Question.aggregate([
+        { $match: { isDeleted: { $ne: true } } },
+        { $unwind: '$tags' },
+        { $group: { _id: '$tags', count: { $sum: 1 } } },
+    ]);
+
+    await Tag.updateMany({}, { $set: { questionCount: 0 } });
+
+    if (counts.length > 0) {
+        await Tag.bulkWrite(counts.map(({ _id, count }) => ({
+            updateOne: {
+                filter: { name: _id },
+                update: { $set: { questionCount: count } },
+                upsert: true,
+            },
+        })));
+    }
+
+    return counts.length;
+}
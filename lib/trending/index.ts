@@ -0,0 +1,19 @@
+/**
+ * Trending Module Index
+ * =====================
+ * Barrel export for trending tags and hot questions
+ */
+
+export {
+    getTrendingTags,
+    getHotQuestions,
+    trendDirection,
+    hotScore,
+    TRENDING_WINDOW_DAYS,
+    TREND_CHANGE_THRESHOLD,
+    HOT_MAX_AGE_DAYS,
+    HOT_GRAVITY,
+    HOT_BADGE_SCORE,
+    TRENDING_CACHE_TTL_MS,
+} from './trending';
+export type { TrendDirection, TrendingTag, HotQuestion } from './trending';
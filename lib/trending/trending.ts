@@ -0,0 +1,260 @@
+/**
+ * Trending Service
+ * ================
+ * Trending tags (question velocity over rolling windows) and hot questions
+ * (time-decayed activity score), cached in memory and refreshed in the background
+ */
+
+import { Question, Tag } from '@/lib/models';
+
+// ============================================
+// Configuration
+// ============================================
+
+// Tags are ranked on the last window and compared with the one before it
+export const TRENDING_WINDOW_DAYS = 7;
+
+// Relative change between windows needed before the trend shows as up or down
+export const TREND_CHANGE_THRESHOLD = 0.2;
+
+// Only questions this recent compete for the hot list
+export const HOT_MAX_AGE_DAYS = 14;
+
+// How quickly hot scores decay with age (higher = faster)
+export const HOT_GRAVITY = 1.5;
+
+// Score above which a question gets the "Hot" badge,
+// roughly a day-old question with a handful of votes and answers
+export const HOT_BADGE_SCORE = 0.2;
+
+// How long computed results are served before being refreshed
+export const TRENDING_CACHE_TTL_MS = 5 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOT_CANDIDATE_LIMIT = 500;
+
+// ============================================
+// Types
+// ============================================
+
+export type TrendDirection = 'up' | 'down' | 'stable';
+
+export interface TrendingTag {
+    name: string;
+    questionCount: number;
+    recentCount: number;
+    previousCount: number;
+    velocity: number; // questions per day in the last window
+    trend: TrendDirection;
+}
+
+export interface HotQuestion {
+    id: string;
+    title: string;
+    votes: number;
+    answers: number;
+    views: number;
+    hotScore: number;
+    isHot: boolean;
+    createdAt: Date;
+}
+
+// ============================================
+// Cache
+// ============================================
+
+interface CacheEntry<T> {
+    value?: T;
+    computedAt: number;
+    refreshing?: Promise<T>;
+}
+
+// In-memory store (resets on server restart)
+const trendingCache = new Map<string, CacheEntry<unknown>>();
+
+/**
+ * Serve a cached result, recomputing it in the background once it goes stale.
+ * Only the first request for a key waits on the computation.
+ */
+async function cached<T>(key: string, compute: () => Promise<T>): Promise<T> {
+    let entry = trendingCache.get(key) as CacheEntry<T> | undefined;
+    if (!entry) {
+        entry = { computedAt: 0 };
+        trendingCache.set(key, entry);
+    }
+    const current = entry;
+
+    const refresh = (): Promise<T> => {
+        if (!current.refreshing) {
+            current.refreshing = compute()
+                .then((value) => {
+                    current.value = value;
+                    current.computedAt = Date.now();
+                    return value;
+                })
+                .finally(() => {
+                    current.refreshing = undefined;
+                });
+        }
+        return current.refreshing;
+    };
+
+    if (current.computedAt === 0) {
+        return refresh();
+    }
+
+    if (Date.now() - current.computedAt > TRENDING_CACHE_TTL_MS) {
+        refresh().catch((error) => console.error(`Error refreshing ${key}:`, error));
+    }
+
+    return current.value as T;
+}
+
+// ============================================
+// Trending Tags
+// ============================================
+
+/**
+ * Compare the last window with the one before it
+ */
+export function trendDirection(recentCount: number, previousCount: number): TrendDirection {
+    if (previousCount === 0) {
+        return recentCount > 0 ? 'up' : 'stable';
+    }
+
+    const change = (recentCount - previousCount) / previousCount;
+    if (change > TREND_CHANGE_THRESHOLD) return 'up';
+    if (change < -TREND_CHANGE_THRESHOLD) return 'down';
+    return 'stable';
+}
+
+async function computeTrendingTags(limit: number): Promise<TrendingTag[]> {
+    const now = Date.now();
+    const windowStart = new Date(now - TRENDING_WINDOW_DAYS * DAY_MS);
+    const previousStart = new Date(now - 2 * TRENDING_WINDOW_DAYS * DAY_MS);
+
+    const counts: { _id: string; recentCount: number; previousCount: number }[] = await Question.aggregate([
+        { $match: { isDeleted: { $ne: true }, createdAt: { $gte: previousStart } } },
+        { $unwind: '$tags' },
+        {
+            $group: {
+                _id: '$tags',
+                recentCount: { $sum: { $cond: [{ $gte: ['$createdAt', windowStart] }, 1, 0] } },
+                previousCount: { $sum: { $cond: [{ $lt: ['$createdAt', windowStart] }, 1, 0] } },
+            },
+        },
+        { $match: { recentCount: { $gt: 0 } } },
+        { $sort: { recentCount: -1, previousCount: 1, _id: 1 } },
+        { $limit: limit },
+    ]);
+
+    // Quiet periods fall back to the most used tags so the list isn't empty
+    const names = counts.map((c) => c._id);
+    const fillers = counts.length < limit
+        ? await Tag.find({ name: { $nin: names } })
+            .select('name questionCount')
+            .sort({ questionCount: -1, name: 1 })
+            .limit(limit - counts.length)
+        : [];
+
+    const totals = await Tag.find({ name: { $in: names } }).select('name questionCount');
+    const totalByName = new Map(totals.map((tag) => [tag.name, tag.questionCount]));
+
+    return [
+        ...counts.map((c) => ({
+            name: c._id,
+            questionCount: totalByName.get(c._id) ?? c.recentCount + c.previousCount,
+            recentCount: c.recentCount,
+            previousCount: c.previousCount,
+            velocity: Math.round((c.recentCount / TRENDING_WINDOW_DAYS) * 100) / 100,
+            trend: trendDirection(c.recentCount, c.previousCount),
+        })),
+        ...fillers.map((tag) => ({
+            name: tag.name,
+            questionCount: tag.questionCount,
+            recentCount: 0,
+            previousCount: 0,
+            velocity: 0,
+            trend: 'stable' as const,
+        })),
+    ];
+}
+
+/**
+ * Tags ranked by how many questions used them in the last window
+ */
+export function getTrendingTags(limit: number): Promise<TrendingTag[]> {
+    return cached(`trending-tags:${limit}`, () => computeTrendingTags(limit));
+}
+
+// ============================================
+// Hot Questions
+// ============================================
+
+/**
+ * Activity decayed by age: votes, answers (weighted double) and views
+ * (logarithmic, so page views can't dominate) over (age in hours + 2)^gravity
+ */
+export function hotScore(
+    { votes, answers, views }: { votes: number; answers: number; views: number },
+    ageMs: number
+): number {
+    const activity = Math.max(0, votes) + answers * 2 + Math.log10(views + 1);
+    const ageHours = Math.max(0, ageMs) / (60 * 60 * 1000);
+    return activity / Math.pow(ageHours + 2, HOT_GRAVITY);
+}
+
+async function computeHotQuestions(limit: number): Promise<HotQuestion[]> {
+    const now = Date.now();
+
+    const candidates: {
+        _id: { toString(): string };
+        title: string;
+        votes: number;
+        answers: number;
+        views: number;
+        createdAt: Date;
+    }[] = await Question.aggregate([
+        {
+            $match: {
+                isDeleted: { $ne: true },
+                createdAt: { $gte: new Date(now - HOT_MAX_AGE_DAYS * DAY_MS) },
+            },
+        },
+        { $sort: { createdAt: -1 } },
+        { $limit: HOT_CANDIDATE_LIMIT },
+        {
+            $project: {
+                title: 1,
+                views: 1,
+                createdAt: 1,
+                votes: { $ifNull: ['$score', 0] },
+                answers: { $ifNull: ['$answerCount', 0] },
+            },
+        },
+    ]);
+
+    return candidates
+        .map((q) => {
+            const score = hotScore(q, now - new Date(q.createdAt).getTime());
+            return {
+                id: q._id.toString(),
+                title: q.title,
+                votes: q.votes,
+                answers: q.answers,
+                views: q.views || 0,
+                hotScore: Math.round(score * 1000) / 1000,
+                isHot: score >= HOT_BADGE_SCORE,
+                createdAt: q.createdAt,
+            };
+        })
+        .sort((a, b) => b.hotScore - a.hotScore)
+        .slice(0, limit);
+}
+
+/**
+ * Recent questions ranked by decayed activity
+ */
+export function getHotQuestions(limit: number): Promise<HotQuestion[]> {
+    return cached(`hot-questions:${limit}`, () => computeHotQuestions(limit));
+}
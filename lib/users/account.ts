@@ -0,0 +1,148 @@
+/**
+ * Account Service
+ * ===============
+ * Owner profile updates and audited admin role changes. Route handlers
+ * validate input with the schemas in lib/validations/user.ts first.
+ */
+
+import { Types } from 'mongoose';
+import { User, AuditLog } from '@/lib/models';
+import type { IUser } from '@/lib/models';
+import type { UserRole } from '@/lib/auth/roles';
+import type { ProfileUpdateData } from '@/lib/validations/user';
+import { findPublicUser } from './profiles';
+import type { PublicUser } from './profiles';
+
+// ============================================
+// Configuration
+// ============================================
+
+export const AUDIT_PAGE_SIZE = 20;
+
+// ============================================
+// Types
+// ============================================
+
+export interface RoleChangeInput {
+    targetId: string;
+    role: UserRole;
+    actorId: string;
+    reason: string;
+    ip?: string | null;
+}
+
+export interface RoleChangeResult {
+    user: PublicUser;
+    previousRole: UserRole;
+    changed: boolean;
+}
+
+export interface AuditEntry {
+    id: string;
+    action: string;
+    actor: { id: string; name: string } | null;
+    from: string;
+    to: string;
+    reason: string;
+    createdAt: Date;
+}
+
+// ============================================
+// Profile
+// ============================================
+
+/**
+ * Apply a validated profile update. Preferences are set field by field so
+ * unrelated ones (and lastDigestAt) are left alone. Returns the updated
+ * public profile, or null when the user doesn't exist.
+ */
+export async function updateProfile(userId: string, update: ProfileUpdateData): Promise<PublicUser | null> {
+    if (!Types.ObjectId.isValid(userId)) return null;
+
+    const { preferences, avatar, ...fields } = update;
+    const $set: Record<string, unknown> = { ...fields };
+    if (avatar !== undefined) {
+        $set.avatar = avatar || null;
+    }
+    for (const [key, value] of Object.entries(preferences ?? {})) {
+        $set[`emailPreferences.${key}`] = value;
+    }
+
+    const updated = await User.findByIdAndUpdate(userId, { $set }, { runValidators: true });
+    if (!updated) return null;
+
+    return findPublicUser(userId);
+}
+
+// ============================================
+// Roles
+// ============================================
+
+/**
+ * Change a user's role and record who did it and why. Setting the role a
+ * user already has is a no-op and isn't logged. Returns null when the user
+ * doesn't exist.
+ *
+ * The new role applies to the user's next token refresh.
+ */
+export async function changeRole(input: RoleChangeInput): Promise<RoleChangeResult | null> {
+    const { targetId, role, actorId, reason, ip } = input;
+    if (!Types.ObjectId.isValid(targetId)) return null;
+
+    const before = await User.findByIdAndUpdate(
+        targetId,
+        { $set: { role } },
+        { returnDocument: 'before', runValidators: true }
+    ).select('role').lean<Pick<IUser, 'role'>>();
+    if (!before) return null;
+
+    const changed = before.role !== role;
+    if (changed) {
+        await AuditLog.create({
+            actor: actorId,
+            action: 'role_change',
+            target: targetId,
+            from: before.role,
+            to: role,
+            reason,
+            ip: ip || undefined,
+        });
+    }
+
+    const user = await findPublicUser(targetId);
+    return user && { user, previousRole: before.role, changed };
+}
+
+/**
+ * A user's role change history, newest first
+ */
+export async function listRoleChanges(
+    targetId: string,
+    { page = 1, limit = AUDIT_PAGE_SIZE }: { page?: number; limit?: number } = {}
+): Promise<{ entries: AuditEntry[]; total: number }> {
+    if (!Types.ObjectId.isValid(targetId)) return { entries: [], total: 0 };
+
+    const query = { target: targetId, action: 'role_change' };
+    const [logs, total] = await Promise.all([
+        AuditLog.find(query)
+            .populate<{ actor: { _id: Types.ObjectId; name: string } | null }>('actor', 'name')
+            .sort({ createdAt: -1 })
+            .skip((page - 1) * limit)
+            .limit(limit)
+            .lean(),
+        AuditLog.countDocuments(query),
+    ]);
+
+    return {
+        entries: logs.map((log) => ({
+            id: log._id.toString(),
+            action: log.action,
+            actor: log.actor ? { id: log.actor._id.toString(), name: log.actor.name } : null,
+            from: log.from,
+            to: log.to,
+            reason: log.reason,
+            createdAt: log.createdAt,
+        })),
+        total,
+    };
+}
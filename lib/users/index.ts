@@ -0,0 +1,43 @@
+/**
+ * Users Module Index
+ * ==================
+ * Barrel export for the user directory and public profiles
+ */
+
+export {
+    listUsers,
+    findPublicUser,
+    getUserProfile,
+    getProfileStats,
+    getTopTags,
+    getReputationHistory,
+    listUserQuestions,
+    listUserAnswers,
+    isUserSort,
+    isPostSort,
+    PUBLIC_USER_FIELDS,
+    USER_SORTS,
+    POST_SORTS,
+    USER_PAGE_SIZE,
+    PROFILE_POSTS_PAGE_SIZE,
+    TOP_TAG_LIMIT,
+} from './profiles';
+export type {
+    UserSort,
+    PostSort,
+    PublicUser,
+    UserSummary,
+    ProfileStats,
+    TopTag,
+    ReputationGranularity,
+    ReputationPoint,
+    ReputationHistory,
+    UserProfile,
+    ProfileQuestion,
+    ProfileAnswer,
+    ListUsersOptions,
+    ListPostsOptions,
+} from './profiles';
+
+export { updateProfile, changeRole, listRoleChanges, AUDIT_PAGE_SIZE } from './account';
+export type { RoleChangeInput, RoleChangeResult, AuditEntry } from './account';
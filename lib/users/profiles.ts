@@ -0,0 +1,501 @@
+/**
+ * User Profiles Service
+ * =====================
+ * The user directory and public profiles: post counts, accept rate, top
+ * tags, paginated questions and answers, and reputation over time.
+ *
+ * Everything here reads users through PUBLIC_USER_FIELDS, so emails, tokens,
+ * preferences and usage never leave this module.
+ */
+
+import { Types } from 'mongoose';
+import { User, Question, Answer, ReputationEvent } from '@/lib/models';
+import { stripHtml } from '@/lib/search';
+import { escapeRegex } from '@/lib/utils';
+
+// ============================================
+// Configuration
+// ============================================
+
+export const PUBLIC_USER_FIELDS = 'name avatar bio location links role reputation createdAt';
+
+export const USER_SORTS = ['reputation', 'newest', 'oldest', 'name'] as const;
+export const POST_SORTS = ['newest', 'score'] as const;
+
+export const USER_PAGE_SIZE = 36;
+export const PROFILE_POSTS_PAGE_SIZE = 10;
+export const TOP_TAG_LIMIT = 10;
+
+// Length of the answer excerpt shown on profiles
+const EXCERPT_LENGTH = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Types
+// ============================================
+
+export type UserSort = (typeof USER_SORTS)[number];
+export type PostSort = (typeof POST_SORTS)[number];
+
+export interface PublicUser {
+    id: string;
+    name: string;
+    avatar: string | null;
+    bio: string;
+    location: string;
+    links: { label?: string; url: string }[];
+    role: 'user' | 'moderator' | 'admin';
+    reputation: number;
+    createdAt: Date;
+}
+
+export interface UserSummary extends PublicUser {
+    questionCount: number;
+    answerCount: number;
+}
+
+export interface ProfileStats {
+    questions: number;
+    answers: number;
+    acceptedAnswers: number;
+    // Share of the user's answers that were accepted, or null with no answers
+    acceptRate: number | null;
+    questionScore: number;
+    answerScore: number;
+}
+
+export interface TopTag {
+    name: string;
+    // Summed score of the user's questions and answers in the tag
+    score: number;
+    posts: number;
+}
+
+export type ReputationGranularity = 'day' | 'week' | 'month';
+
+export interface ReputationPoint {
+    // Start of the bucket, YYYY-MM-DD (UTC)
+    date: string;
+    reputation: number;
+}
+
+export interface ReputationHistory {
+    granularity: ReputationGranularity;
+    points: ReputationPoint[];
+}
+
+export interface UserProfile {
+    user: PublicUser;
+    stats: ProfileStats;
+    topTags: TopTag[];
+    reputationHistory: ReputationHistory;
+}
+
+export interface ProfileQuestion {
+    id: string;
+    title: string;
+    tags: string[];
+    score: number;
+    answerCount: number;
+    hasAcceptedAnswer: boolean;
+    isClosed: boolean;
+    createdAt: Date;
+}
+
+export interface ProfileAnswer {
+    id: string;
+    excerpt: string;
+    score: number;
+    isAccepted: boolean;
+    createdAt: Date;
+    question: { id: string; title: string };
+}
+
+export interface ListUsersOptions {
+    search?: string;
+    sort?: UserSort;
+    page?: number;
+    limit?: number;
+}
+
+export interface ListPostsOptions {
+    sort?: PostSort;
+    page?: number;
+    limit?: number;
+}
+
+interface PublicUserFields {
+    _id: Types.ObjectId;
+    name: string;
+    avatar?: string;
+    bio?: string;
+    location?: string;
+    links?: { label?: string; url: string }[];
+    role: PublicUser['role'];
+    reputation: number;
+    createdAt: Date;
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+// Live posts only: deleted posts don't count toward a public profile
+const LIVE = { isDeleted: { $ne: true } };
+
+function toPublicUser(user: PublicUserFields): PublicUser {
+    return {
+        id: user._id.toString(),
+        name: user.name,
+        avatar: user.avatar || null,
+        bio: user.bio || '',
+        location: user.location || '',
+        links: (user.links ?? []).map(({ label, url }) => (label ? { label, url } : { url })),
+        role: user.role,
+        reputation: user.reputation,
+        createdAt: user.createdAt,
+    };
+}
+
+function toObjectId(userId: string): Types.ObjectId | null {
+    return Types.ObjectId.isValid(userId) ? new Types.ObjectId(userId) : null;
+}
+
+/**
+ * Count live questions and answers per author for a page of users
+ */
+async function countPostsByAuthor(authorIds: Types.ObjectId[]) {
+    type CountRow = { _id: Types.ObjectId; count: number };
+    const pipeline = [
+        { $match: { author: { $in: authorIds }, ...LIVE } },
+        { $group: { _id: '$author', count: { $sum: 1 } } },
+    ];
+    const [questionRows, answerRows] = await Promise.all([
+        Question.aggregate<CountRow>(pipeline),
+        Answer.aggregate<CountRow>(pipeline),
+    ]);
+    const toMap = (rows: CountRow[]) => new Map(rows.map((row) => [row._id.toString(), row.count]));
+    return { questions: toMap(questionRows), answers: toMap(answerRows) };
+}
+
+/**
+ * Start of the UTC day, week (Monday) or month containing the date
+ */
+function bucketOf(date: Date, granularity: ReputationGranularity): string {
+    const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    if (granularity === 'week') {
+        d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+    } else if (granularity === 'month') {
+        d.setUTCDate(1);
+    }
+    return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Pick a granularity that keeps the chart to a few hundred points at most
+ */
+function granularityFor(since: Date, now: Date): ReputationGranularity {
+    const days = (now.getTime() - since.getTime()) / DAY_MS;
+    if (days <= 90) return 'day';
+    if (days <= 730) return 'week';
+    return 'month';
+}
+
+// ============================================
+// Directory
+// ============================================
+
+export function isUserSort(value: string): value is UserSort {
+    return (USER_SORTS as readonly string[]).includes(value);
+}
+
+export function isPostSort(value: string): value is PostSort {
+    return (POST_SORTS as readonly string[]).includes(value);
+}
+
+/**
+ * A page of the user directory, with each user's live question and answer counts
+ */
+export async function listUsers(
+    options: ListUsersOptions = {}
+): Promise<{ users: UserSummary[]; total: number }> {
+    const { search = '', sort = 'reputation', page = 1, limit = USER_PAGE_SIZE } = options;
+
+    const query: Record<string, unknown> = {};
+    if (search.trim()) {
+        query.name = new RegExp(escapeRegex(search.trim()), 'i');
+    }
+
+    type SortOrder = 1 | -1;
+    const sortOptions: Record<UserSort, Record<string, SortOrder>> = {
+        reputation: { reputation: -1, createdAt: 1 },
+        newest: { createdAt: -1 },
+        oldest: { createdAt: 1 },
+        name: { name: 1 },
+    };
+
+    const [users, total] = await Promise.all([
+        User.find(query)
+            .select(PUBLIC_USER_FIELDS)
+            .sort(sortOptions[sort])
+            .skip((page - 1) * limit)
+            .limit(limit)
+            .lean<PublicUserFields[]>(),
+        User.countDocuments(query),
+    ]);
+
+    const counts = await countPostsByAuthor(users.map((user) => user._id));
+
+    return {
+        users: users.map((user) => ({
+            ...toPublicUser(user),
+            questionCount: counts.questions.get(user._id.toString()) ?? 0,
+            answerCount: counts.answers.get(user._id.toString()) ?? 0,
+        })),
+        total,
+    };
+}
+
+// ============================================
+// Profile
+// ============================================
+
+/**
+ * Public fields for one user, or null when the user doesn't exist
+ */
+export async function findPublicUser(userId: string): Promise<PublicUser | null> {
+    if (!Types.ObjectId.isValid(userId)) return null;
+    const user = await User.findById(userId).select(PUBLIC_USER_FIELDS).lean<PublicUserFields>();
+    return user ? toPublicUser(user) : null;
+}
+
+/**
+ * Post counts, scores and accept rate for a user's live posts
+ */
+export async function getProfileStats(userId: string): Promise<ProfileStats> {
+    const author = toObjectId(userId);
+    if (!author) {
+        return { questions: 0, answers: 0, acceptedAnswers: 0, acceptRate: null, questionScore: 0, answerScore: 0 };
+    }
+
+    type PostRow = { count: number; score: number };
+    type AnswerRow = PostRow & { accepted: number };
+    const [questionRows, answerRows] = await Promise.all([
+        Question.aggregate<PostRow>([
+            { $match: { author, ...LIVE } },
+            { $group: { _id: null, count: { $sum: 1 }, score: { $sum: '$score' } } },
+        ]),
+        Answer.aggregate<AnswerRow>([
+            { $match: { author, ...LIVE } },
+            {
+                $group: {
+                    _id: null,
+                    count: { $sum: 1 },
+                    score: { $sum: '$score' },
+                    accepted: { $sum: { $cond: ['$isAccepted', 1, 0] } },
+                },
+            },
+        ]),
+    ]);
+
+    const questions = questionRows[0] ?? { count: 0, score: 0 };
+    const answers = answerRows[0] ?? { count: 0, score: 0, accepted: 0 };
+
+    return {
+        questions: questions.count,
+        answers: answers.count,
+        acceptedAnswers: answers.accepted,
+        acceptRate: answers.count > 0 ? answers.accepted / answers.count : null,
+        questionScore: questions.score,
+        answerScore: answers.score,
+    };
+}
+
+/**
+ * The tags the user has scored most in, across their questions and answers
+ */
+export async function getTopTags(userId: string, limit = TOP_TAG_LIMIT): Promise<TopTag[]> {
+    const author = toObjectId(userId);
+    if (!author) return [];
+
+    type TagRow = { _id: string; score: number; posts: number };
+    const [questionTags, answerTags] = await Promise.all([
+        Question.aggregate<TagRow>([
+            { $match: { author, ...LIVE } },
+            { $unwind: '$tags' },
+            { $group: { _id: '$tags', score: { $sum: '$score' }, posts: { $sum: 1 } } },
+        ]),
+        Answer.aggregate<TagRow>([
+            { $match: { author, ...LIVE } },
+            { $lookup: { from: 'questions', localField: 'question', foreignField: '_id', as: 'question' } },
+            { $unwind: '$question' },
+            { $unwind: '$question.tags' },
+            { $group: { _id: '$question.tags', score: { $sum: '$score' }, posts: { $sum: 1 } } },
+        ]),
+    ]);
+
+    const totals = new Map<string, TopTag>();
+    for (const row of [...questionTags, ...answerTags]) {
+        const tag = totals.get(row._id) ?? { name: row._id, score: 0, posts: 0 };
+        tag.score += row.score;
+        tag.posts += row.posts;
+        totals.set(row._id, tag);
+    }
+
+    return [...totals.values()]
+        .sort((a, b) => b.score - a.score || b.posts - a.posts || a.name.localeCompare(b.name))
+        .slice(0, limit);
+}
+
+/**
+ * Reputation at the end of each day, week or month since the user joined,
+ * replayed from the reputation ledger. Reversed events count from when they
+ * were earned until they were reversed.
+ */
+export async function getReputationHistory(
+    userId: string,
+    joinedAt: Date,
+    now = new Date()
+): Promise<ReputationHistory> {
+    const granularity = granularityFor(joinedAt, now);
+    const user = toObjectId(userId);
+    if (!user) return { granularity, points: [] };
+
+    const day = (field: string) => ({ $dateToString: { format: '%Y-%m-%d', date: field } });
+    type DayRow = { _id: string; points: number };
+
+    const [earned, reversed] = await Promise.all([
+        ReputationEvent.aggregate<DayRow>([
+            { $match: { user } },
+            { $group: { _id: day('$createdAt'), points: { $sum: '$points' } } },
+        ]),
+        ReputationEvent.aggregate<DayRow>([
+            { $match: { user, reversedAt: { $ne: null } } },
+            { $group: { _id: day('$reversedAt'), points: { $sum: { $multiply: ['$points', -1] } } } },
+        ]),
+    ]);
+
+    const deltas = new Map<string, number>();
+    for (const row of [...earned, ...reversed]) {
+        deltas.set(row._id, (deltas.get(row._id) ?? 0) + row.points);
+    }
+
+    // Replay day by day, keeping the last value in each bucket
+    const buckets = new Map<string, number>([[bucketOf(joinedAt, granularity), 0]]);
+    let running = 0;
+    for (const date of [...deltas.keys()].sort()) {
+        running += deltas.get(date)!;
+        buckets.set(bucketOf(new Date(`${date}T00:00:00Z`), granularity), Math.max(0, running));
+    }
+
+    // Carry the line through to today
+    const current = bucketOf(now, granularity);
+    if (!buckets.has(current)) buckets.set(current, Math.max(0, running));
+
+    return {
+        granularity,
+        points: [...buckets.entries()]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([date, reputation]) => ({ date, reputation })),
+    };
+}
+
+/**
+ * Everything the profile page shows above the post lists, or null when the
+ * user doesn't exist
+ */
+export async function getUserProfile(userId: string): Promise<UserProfile | null> {
+    const user = await findPublicUser(userId);
+    if (!user) return null;
+
+    const [stats, topTags, reputationHistory] = await Promise.all([
+        getProfileStats(userId),
+        getTopTags(userId),
+        getReputationHistory(userId, user.createdAt),
+    ]);
+
+    return { user, stats, topTags, reputationHistory };
+}
+
+// ============================================
+// Posts
+// ============================================
+
+/**
+ * A page of the user's live questions
+ */
+export async function listUserQuestions(
+    userId: string,
+    options: ListPostsOptions = {}
+): Promise<{ questions: ProfileQuestion[]; total: number }> {
+    const { sort = 'newest', page = 1, limit = PROFILE_POSTS_PAGE_SIZE } = options;
+    const author = toObjectId(userId);
+    if (!author) return { questions: [], total: 0 };
+
+    const query = { author, ...LIVE };
+    const [questions, total] = await Promise.all([
+        Question.find(query)
+            .select('title tags score answerCount acceptedAnswer isClosed createdAt')
+            .sort(sort === 'score' ? { score: -1, createdAt: -1 } : { createdAt: -1 })
+            .skip((page - 1) * limit)
+            .limit(limit)
+            .lean(),
+        Question.countDocuments(query),
+    ]);
+
+    return {
+        questions: questions.map((q) => ({
+            id: q._id.toString(),
+            title: q.title,
+            tags: q.tags,
+            score: q.score ?? 0,
+            answerCount: q.answerCount ?? 0,
+            hasAcceptedAnswer: !!q.acceptedAnswer,
+            isClosed: !!q.isClosed,
+            createdAt: q.createdAt,
+        })),
+        total,
+    };
+}
+
+/**
+ * A page of the user's live answers, with the title of the question each answers
+ */
+export async function listUserAnswers(
+    userId: string,
+    options: ListPostsOptions = {}
+): Promise<{ answers: ProfileAnswer[]; total: number }> {
+    const { sort = 'newest', page = 1, limit = PROFILE_POSTS_PAGE_SIZE } = options;
+    const author = toObjectId(userId);
+    if (!author) return { answers: [], total: 0 };
+
+    const query = { author, ...LIVE };
+    const [answers, total] = await Promise.all([
+        Answer.find(query)
+            .select('body score isAccepted question createdAt')
+            .populate<{ question: { _id: Types.ObjectId; title: string } | null }>('question', 'title')
+            .sort(sort === 'score' ? { score: -1, createdAt: -1 } : { createdAt: -1 })
+            .skip((page - 1) * limit)
+            .limit(limit)
+            .lean(),
+        Answer.countDocuments(query),
+    ]);
+
+    return {
+        answers: answers
+            .filter((a) => a.question)
+            .map((a) => {
+                const excerpt = stripHtml(a.body);
+                return {
+                    id: a._id.toString(),
+                    excerpt: excerpt.length > EXCERPT_LENGTH ? `${excerpt.slice(0, EXCERPT_LENGTH)}…` : excerpt,
+                    score: a.score ?? 0,
+                    isAccepted: !!a.isAccepted,
+                    createdAt: a.createdAt,
+                    question: { id: a.question!._id.toString(), title: a.question!.title },
+                };
+            }),
+        total,
+    };
+}
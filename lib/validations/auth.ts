@@ -94,6 +94,29 @@ export const forgotPasswordSchema = z.object({
 
 export type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
 
+// ============================================
+// TWO-FACTOR VALIDATION
+// ============================================
+export const twoFactorCodeSchema = z.object({
+    code: z
+        .string()
+        .trim()
+        .regex(/^\d{3}\s?\d{3}$/, 'Enter the 6-digit code from your authenticator app'),
+});
+
+// An authenticator code or a recovery code, not both
+export const secondFactorSchema = z.object({
+    code: twoFactorCodeSchema.shape.code.optional(),
+    recoveryCode: z
+        .string()
+        .trim()
+        .min(1, 'Enter a recovery code')
+        .max(20, 'That recovery code is not valid')
+        .optional(),
+}).refine((data) => !data.code !== !data.recoveryCode, 'Enter your authentication code');
+
+export type SecondFactorFormData = z.infer<typeof secondFactorSchema>;
+
 // ============================================
 // HELPER FUNCTION FOR ZOD ERRORS
 // ============================================
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+import { ENFORCEABLE_ROLES } from '@/lib/auth/roles';
+
+// ============================================
+// SITE SETTINGS VALIDATION
+// ============================================
+export const siteSettingsSchema = z.strictObject({
+    twoFactorRequiredRoles: z
+        .array(z.enum(ENFORCEABLE_ROLES, 'Two-factor can only be required for moderators and admins'))
+        .max(ENFORCEABLE_ROLES.length),
+});
+
+export type SiteSettingsData = z.infer<typeof siteSettingsSchema>;
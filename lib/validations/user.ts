@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+// ============================================
+// PROFILE UPDATE VALIDATION
+// ============================================
+const httpUrl = z
+    .url({ protocol: /^https?$/, message: 'Must be a valid http or https URL' })
+    .max(200, 'URL must be less than 200 characters');
+
+// Fields a user may change on their own profile. Anything else in the body
+// (role, reputation, isVerified, email...) is rejected, not ignored.
+export const profileUpdateSchema = z.strictObject({
+    name: z
+        .string()
+        .trim()
+        .min(2, 'Name must be at least 2 characters')
+        .max(50, 'Name must be less than 50 characters'),
+    avatar: z.union([httpUrl, z.literal('')]).nullable(),
+    bio: z.string().trim().max(500, 'Bio must be less than 500 characters'),
+    location: z.string().trim().max(100, 'Location must be less than 100 characters'),
+    links: z
+        .array(z.strictObject({
+            label: z.string().trim().max(50, 'Link label must be less than 50 characters').optional(),
+            url: httpUrl,
+        }))
+        .max(5, 'You can add up to 5 links'),
+    preferences: z.strictObject({
+        answers: z.boolean(),
+        mentions: z.boolean(),
+        digest: z.enum(['off', 'daily', 'weekly']),
+    }).partial(),
+}).partial().refine((data) => Object.keys(data).length > 0, 'Nothing to update');
+
+export type ProfileUpdateData = z.infer<typeof profileUpdateSchema>;
+
+// ============================================
+// ROLE CHANGE VALIDATION
+// ============================================
+export const roleChangeSchema = z.strictObject({
+    role: z.enum(['user', 'moderator', 'admin'], 'Role must be user, moderator, or admin'),
+    reason: z
+        .string()
+        .trim()
+        .min(3, 'Please give a reason for the audit log')
+        .max(500, 'Reason must be less than 500 characters'),
+});
+
+export type RoleChangeData = z.infer<typeof roleChangeSchema>;
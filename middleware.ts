@@ -2,11 +2,12 @@
  * Auth Middleware
  * ===============
  * Protects routes requiring authentication
- * Uses Web Crypto API (Edge Runtime compatible)
+ * Token checks share lib/auth/token.ts with the API routes (Edge compatible)
  */
 
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { verifyJwt, isAccessToken } from '@/lib/auth/token';
 
 // Cookie name
 const ACCESS_TOKEN_COOKIE = 'access_token';
@@ -22,59 +23,18 @@ const authRoutes = [
     '/register',
 ];
 
+// Where accounts that must turn on two-factor are sent
+const TWO_FACTOR_SETUP_PAGE = '/dashboard/settings/two-factor';
+
 // Public routes (no checks needed)
 const publicRoutes = [
     '/',
     '/verify-email',
     '/reset-password',
     '/forgot-password',
+    '/unsubscribe',
 ];
 
-/**
- * Verify JWT token using Web Crypto API (Edge compatible)
- * Returns payload if valid, null if invalid
- */
-async function verifyTokenEdge(token: string): Promise<{ valid: boolean; isVerified?: boolean }> {
-    try {
-        const JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret';
-
-        const parts = token.split('.');
-        if (parts.length !== 3) return { valid: false };
-
-        const [encodedHeader, encodedPayload, signature] = parts;
-
-        // Create signature using Web Crypto API
-        const encoder = new TextEncoder();
-        const data = encoder.encode(`${encodedHeader}.${encodedPayload}`);
-        const keyData = encoder.encode(JWT_SECRET);
-
-        const key = await crypto.subtle.importKey(
-            'raw',
-            keyData,
-            { name: 'HMAC', hash: 'SHA-256' },
-            false,
-            ['sign']
-        );
-
-        const signatureBuffer = await crypto.subtle.sign('HMAC', key, data);
-        const expectedSignature = btoa(String.fromCharCode(...new Uint8Array(signatureBuffer)))
-            .replace(/\+/g, '-')
-            .replace(/\//g, '_')
-            .replace(/=/g, '');
-
-        if (signature !== expectedSignature) return { valid: false };
-
-        // Decode and check expiry
-        const payload = JSON.parse(atob(encodedPayload.replace(/-/g, '+').replace(/_/g, '/')));
-
-        if (payload.exp < Math.floor(Date.now() / 1000)) return { valid: false };
-
-        return { valid: true, isVerified: payload.isVerified };
-    } catch {
-        return { valid: false };
-    }
-}
-
 export async function middleware(request: NextRequest) {
     const { pathname } = request.nextUrl;
 
@@ -91,12 +51,9 @@ export async function middleware(request: NextRequest) {
     const accessToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
 
     // Verify token if present
-    let isAuthenticated = false;
-    let tokenResult = { valid: false, isVerified: false };
-    if (accessToken) {
-        tokenResult = await verifyTokenEdge(accessToken);
-        isAuthenticated = tokenResult.valid;
-    }
+    const token = accessToken ? await verifyJwt(accessToken) : null;
+    const isAuthenticated = token !== null && isAccessToken(token);
+    const isVerified = token?.isVerified === true;
 
     // Check if accessing protected route
     const isProtectedRoute = protectedRoutes.some(route =>
@@ -109,15 +66,20 @@ export async function middleware(request: NextRequest) {
     );
 
     // If accessing protected route without auth OR without verification, redirect to login
-    if (isProtectedRoute && (!isAuthenticated || !tokenResult.isVerified)) {
+    if (isProtectedRoute && (!isAuthenticated || !isVerified)) {
         const loginUrl = new URL('/login', request.url);
         loginUrl.searchParams.set('redirect', pathname);
         return NextResponse.redirect(loginUrl);
     }
 
+    // Two-factor is required for this account's role: nothing but enrollment until it's on
+    if (isProtectedRoute && token?.needsTwoFactorSetup && !pathname.startsWith(TWO_FACTOR_SETUP_PAGE)) {
+        return NextResponse.redirect(new URL(TWO_FACTOR_SETUP_PAGE, request.url));
+    }
+
     // If accessing auth routes while logged in AND verified, redirect to dashboard
     // (Unverified users can still access login to get new verified token)
-    if (isAuthRoute && isAuthenticated && tokenResult.isVerified) {
+    if (isAuthRoute && isAuthenticated && isVerified) {
         return NextResponse.redirect(new URL('/dashboard', request.url));
     }
 